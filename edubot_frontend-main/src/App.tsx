@@ -1,10 +1,13 @@
 // src/App.tsx
 import { useState, useEffect } from 'react';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
 import { Toaster } from './components/ui/sonner';
 import { Navigation, NavigationTab } from './components/Navigation';
 import { ChatInterface } from './components/ChatInterface';
 import { CourseGeneration } from './components/CourseGeneration';
+import { CourseEditor } from './components/CourseEditor';
+import { CourseImport } from './components/CourseImport';
 import { Learning } from './components/Learning';
 import { Grading } from './components/Grading';
 import { Analysis } from './components/Analysis';
@@ -15,15 +18,42 @@ import { Translation } from './components/Translation';
 import { Companions } from './components/Companions';
 import { Settings } from './components/Settings';
 import { AuthForm } from './components/AuthForm';
+import { ConnectionStatus } from './components/ConnectionStatus';
+import { UpdatePrompt } from './components/UpdatePrompt';
 import Forgot from './components/Forgot';
 import Reset from './components/Reset';
 import { apiService, User } from './services/api';
+import { syncService } from './services/syncService';
+import { courseJobStore } from './services/courseJobStore';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { usePermissions, Permission } from './hooks/usePermissions';
+
+const NAVIGATION_TABS: NavigationTab[] = [
+  'chat',
+  'courses',
+  'learning',
+  'grading',
+  'analysis',
+  'analytics',
+  'submissions',
+  'assessments',
+  'translation',
+  'companions',
+  'settings',
+];
+
+// The first path segment picks the tab, e.g. /learning/:courseId -> 'learning'
+const getTabFromPath = (pathname: string): NavigationTab => {
+  const segment = pathname.split('/')[1] as NavigationTab;
+  return NAVIGATION_TABS.includes(segment) ? segment : 'chat';
+};
 
 // Main App Component - Protected Routes
 function MainApp() {
+  const location = useLocation();
+  const navigate = useNavigate();
   const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [currentTab, setCurrentTab] = useState<NavigationTab>('chat');
+  const currentTab = getTabFromPath(location.pathname);
   const [isLoading, setIsLoading] = useState(true);
   const [isAuthenticating, setIsAuthenticating] = useState(true);
 
@@ -60,6 +90,43 @@ function MainApp() {
     initializeApp();
   }, []);
 
+  // Session expired or was revoked on the backend - fall back to the login form
+  useEffect(() => {
+    return apiService.onUnauthorized(() => {
+      setCurrentUser(null);
+      toast.error('Your session has expired. Please sign in again.');
+    });
+  }, []);
+
+  // Replay writes queued while offline once someone is signed in
+  useEffect(() => {
+    if (currentUser) syncService.start();
+  }, [currentUser]);
+
+  // Course generation keeps running on the server; pick up jobs from before a reload
+  // and say when they finish, whichever screen is open
+  useEffect(() => {
+    if (!currentUser) return;
+    courseJobStore.resume();
+    return courseJobStore.onJobFinished((job) => {
+      if (job.status === 'completed') {
+        toast.success(`"${job.course_title}" is ready to download`, {
+          action: { label: 'View', onClick: () => navigate('/courses') },
+        });
+      } else if (job.status === 'failed') {
+        toast.error(`Generating "${job.course_title}" failed`);
+      }
+    });
+  }, [currentUser]);
+
+  // Keep this tab in sync with logins/logouts from other tabs
+  useEffect(() => {
+    return apiService.onSessionChange((user) => {
+      setCurrentUser(user);
+      if (!user) navigate('/', { replace: true });
+    });
+  }, []);
+
   const handleLogin = (user: User) => {
     setCurrentUser(user);
   };
@@ -67,40 +134,42 @@ function MainApp() {
   const handleLogout = () => {
     setCurrentUser(null);
     apiService.logout();
+    navigate('/', { replace: true });
   };
 
   const handleTabChange = (tab: NavigationTab) => {
-    setCurrentTab(tab);
+    navigate(`/${tab}`);
   };
 
-  const renderContent = () => {
-    switch (currentTab) {
-      case 'chat':
-        return <ChatInterface />;
-      case 'courses':
-        return <CourseGeneration />;
-      case 'learning':
-        return <Learning />;
-      case 'grading':
-        return <Grading />;
-      case 'analysis':
-        return <Analysis />;
-      case 'analytics':
-        return <Analytics />;
-      case 'submissions':
-        return <Submissions />;
-      case 'assessments':
-        return <Assessments />;
-      case 'translation':
-        return <Translation />;
-      case 'companions':
-        return <Companions />;
-      case 'settings':
-        return <Settings />;
-      default:
-        return <ChatInterface />;
-    }
-  };
+  // Child routes render nothing themselves; the parent screen reads their params so
+  // it stays mounted while switching chats, sections or assessments
+  const renderContent = () => (
+    <Routes>
+      <Route index element={<Navigate to="/chat" replace />} />
+      <Route path="chat" element={<ChatInterface />}>
+        <Route path=":chatId" element={null} />
+      </Route>
+      <Route path="courses" element={<RoleRoute permission="generate_courses"><CourseGeneration /></RoleRoute>} />
+      <Route path="courses/new" element={<RoleRoute permission="generate_courses"><CourseEditor /></RoleRoute>} />
+      <Route path="courses/import" element={<RoleRoute permission="generate_courses"><CourseImport /></RoleRoute>} />
+      <Route path="courses/:courseId/edit" element={<RoleRoute permission="generate_courses"><CourseEditor /></RoleRoute>} />
+      <Route path="learning" element={<Learning />}>
+        <Route path=":courseId" element={null} />
+        <Route path=":courseId/sections/:sectionId" element={null} />
+      </Route>
+      <Route path="assessments" element={<Assessments />}>
+        <Route path=":assessmentId/take" element={null} />
+      </Route>
+      <Route path="grading" element={<RoleRoute permission="grade"><Grading /></RoleRoute>} />
+      <Route path="analysis" element={<RoleRoute permission="analyze"><Analysis /></RoleRoute>} />
+      <Route path="analytics" element={<Analytics />} />
+      <Route path="submissions" element={<Submissions />} />
+      <Route path="translation" element={<Translation />} />
+      <Route path="companions" element={<Companions />} />
+      <Route path="settings" element={<Settings />} />
+      <Route path="*" element={<Navigate to="/chat" replace />} />
+    </Routes>
+  );
 
   // Helper function to get user initials safely
   const getUserInitials = (user: User | null): string => {
@@ -164,6 +233,7 @@ function MainApp() {
         onLogout={handleLogout} 
       />
       <div className="flex-1 flex flex-col min-w-0 overflow-hidden">
+        <ConnectionStatus />
         <div className="flex-1 overflow-hidden">
           {renderContent()}
         </div>
@@ -172,42 +242,12 @@ function MainApp() {
   );
 }
 
-// Protected Route Component
-function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const [isChecking, setIsChecking] = useState(true);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+// Role Guard - sends users without the permission back to chat
+function RoleRoute({ permission, children }: { permission: Permission; children: React.ReactNode }) {
+  const { can } = usePermissions();
 
-  useEffect(() => {
-    const checkAuth = async () => {
-      try {
-        const sessionValid = await apiService.restoreSession();
-        setIsAuthenticated(sessionValid);
-      } catch (error) {
-        console.error('Auth check failed:', error);
-        setIsAuthenticated(false);
-      } finally {
-        setIsChecking(false);
-      }
-    };
-
-    checkAuth();
-  }, []);
-
-  if (isChecking) {
-    return (
-      <div className="size-full flex items-center justify-center bg-background">
-        <div className="text-center">
-          <div className="size-16 bg-gradient-to-br from-emerald-500 to-teal-600 rounded-2xl flex items-center justify-center mx-auto mb-4 animate-pulse">
-            <span className="text-white text-2xl">E</span>
-          </div>
-          <p className="text-muted-foreground">Checking authentication...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (!isAuthenticated) {
-    return <Navigate to="/" replace />;
+  if (!can(permission)) {
+    return <Navigate to="/chat" replace />;
   }
 
   return <>{children}</>;
@@ -224,24 +264,12 @@ function App() {
           <Route path="/forgot-password" element={<Forgot onBackToLogin={() => window.location.href = '/'} />} />
           <Route path="/reset-password" element={<Reset />} />
           
-          {/* Protected Routes - Main App */}
-          <Route path="/" element={<MainApp />} />
-          <Route path="/chat" element={<ProtectedRoute><MainApp /></ProtectedRoute>} />
-          <Route path="/courses" element={<ProtectedRoute><MainApp /></ProtectedRoute>} />
-          <Route path="/learning" element={<ProtectedRoute><MainApp /></ProtectedRoute>} />
-          <Route path="/grading" element={<ProtectedRoute><MainApp /></ProtectedRoute>} />
-          <Route path="/analysis" element={<ProtectedRoute><MainApp /></ProtectedRoute>} />
-          <Route path="/analytics" element={<ProtectedRoute><MainApp /></ProtectedRoute>} />
-          <Route path="/submissions" element={<ProtectedRoute><MainApp /></ProtectedRoute>} />
-          <Route path="/assessments" element={<ProtectedRoute><MainApp /></ProtectedRoute>} />
-          <Route path="/translation" element={<ProtectedRoute><MainApp /></ProtectedRoute>} />
-          <Route path="/companions" element={<ProtectedRoute><MainApp /></ProtectedRoute>} />
-          <Route path="/settings" element={<ProtectedRoute><MainApp /></ProtectedRoute>} />
-          
-          {/* Catch all - redirect to home */}
-          <Route path="*" element={<Navigate to="/" replace />} />
+          {/* Protected Routes - Main App (shows AuthForm until signed in, then
+              renders the screen for the current URL) */}
+          <Route path="/*" element={<MainApp />} />
         </Routes>
         <Toaster />
+        <UpdatePrompt />
       </BrowserRouter>
     </ThemeProvider>
   );
@@ -0,0 +1,95 @@
+import { useMemo, useState } from 'react';
+import { Button } from './ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
+import { AIDetectionReport, buildHeatmap, getProbabilityColor, HeatmapGranularity } from '../lib/aiDetection';
+
+interface AIDetectionHeatmapProps {
+  report: AIDetectionReport;
+}
+
+// The checked text shaded sentence by sentence (or paragraph by paragraph) by
+// AI probability, with the checker's reasoning on hover
+export function AIDetectionHeatmap({ report }: AIDetectionHeatmapProps) {
+  const [granularity, setGranularity] = useState<HeatmapGranularity>('sentence');
+  const segments = useMemo(() => buildHeatmap(report, granularity), [report, granularity]);
+  const unmapped = report.sections.filter((section) => section.start < 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {(['sentence', 'paragraph'] as const).map((value) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={granularity === value ? 'default' : 'outline'}
+              onClick={() => setGranularity(value)}
+            >
+              {value === 'sentence' ? 'Sentences' : 'Paragraphs'}
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span>Human</span>
+          <span
+            className="inline-block h-2 w-24 rounded-full"
+            style={{
+              background: `linear-gradient(to right, ${[0, 50, 100].map(getProbabilityColor).join(', ')})`,
+            }}
+          />
+          <span>AI</span>
+        </div>
+      </div>
+
+      <div className="max-h-[480px] overflow-auto rounded-lg border border-border p-4 text-sm leading-relaxed whitespace-pre-wrap">
+        {segments.map((segment) =>
+          segment.probability === null ? (
+            <span key={segment.start}>{segment.text}</span>
+          ) : (
+            <Tooltip key={segment.start}>
+              <TooltipTrigger asChild>
+                <span
+                  className="rounded-sm cursor-help"
+                  style={{ background: getProbabilityColor(segment.probability) }}
+                >
+                  {segment.text}
+                </span>
+              </TooltipTrigger>
+              {/* Above antd modals, which sit at z-index 1000 */}
+              <TooltipContent className="max-w-xs text-left" style={{ zIndex: 1100 }}>
+                <p className="font-semibold">{segment.probability}% likely AI</p>
+                {segment.sections
+                  .filter((section) => section.reasoning)
+                  .map((section) => (
+                    <p key={section.id} className="mt-1">
+                      {section.reasoning}
+                    </p>
+                  ))}
+              </TooltipContent>
+            </Tooltip>
+          )
+        )}
+      </div>
+
+      {unmapped.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">Sections that couldn't be matched to the text</p>
+          {unmapped.map((section) => (
+            <div key={section.id} className="rounded-lg border border-border p-3 text-sm">
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="font-medium truncate">{section.label || 'Section'}</span>
+                <span
+                  className="text-xs rounded px-1.5 py-0.5 flex-shrink-0"
+                  style={{ background: getProbabilityColor(section.probability) }}
+                >
+                  {section.probability}% AI
+                </span>
+              </div>
+              {section.reasoning && <p className="text-muted-foreground">{section.reasoning}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
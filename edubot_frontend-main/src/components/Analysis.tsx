@@ -4,7 +4,6 @@ import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
-import { Separator } from './ui/separator';
 import { ScrollArea } from './ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Progress } from './ui/progress';
@@ -17,10 +16,14 @@ import {
   AlertTriangle,
   Shield,
   Eye,
-  FileText,
-  ExternalLink
+  FileText
 } from 'lucide-react';
-import { apiService, PlagiarismResponse, AIDetectionResponse } from '../services/api';
+import { apiService } from '../services/api';
+import { PlagiarismReport } from '../lib/plagiarism';
+import { PlagiarismReportViewer } from './PlagiarismReportViewer';
+import { AIDetectionReport } from '../lib/aiDetection';
+import { AIDetectionHeatmap } from './AIDetectionHeatmap';
+import { DocumentDropZone } from './DocumentDropZone';
 import { toast } from 'sonner';
 
 export function Analysis() {
@@ -29,11 +32,11 @@ export function Analysis() {
   
   // Plagiarism check state
   const [plagiarismText, setPlagiarismText] = useState('');
-  const [plagiarismResult, setPlagiarismResult] = useState<any | null>(null); // Changed to any to handle both naming conventions
+  const [plagiarismResult, setPlagiarismResult] = useState<PlagiarismReport | null>(null);
   
   // AI detection state
   const [aiText, setAiText] = useState('');
-  const [aiResult, setAiResult] = useState<any | null>(null); // Changed to any to handle both naming conventions
+  const [aiResult, setAiResult] = useState<AIDetectionReport | null>(null);
 
   const handleCheckPlagiarism = async () => {
     if (!plagiarismText.trim()) {
@@ -91,31 +94,11 @@ export function Analysis() {
     return { level: 'Likely Human', color: 'text-green-600', variant: 'default' as const };
   };
 
-  // FIXED: Helper function to extract plagiarism score (handles both naming conventions)
-  const getPlagiarismScore = (result: any): number => {
-    if (result.plagiarism_score !== undefined) return result.plagiarism_score;
-    if (result.plagiarismscore !== undefined) return result.plagiarismscore;
-    return 0;
-  };
-
-  // FIXED: Helper function to extract flagged content (handles both naming conventions)
-  const getFlaggedContent = (result: any): any[] => {
-    if (result.flagged_content) return result.flagged_content;
-    if (result.flaggedcontent) return result.flaggedcontent;
-    return [];
-  };
-
-  // FIXED: Helper function to extract AI probability (handles both naming conventions)
-  const getAIProbabilityScore = (result: any): number => {
-    if (result.ai_probability !== undefined) return result.ai_probability;
-    if (result.aiprobability !== undefined) return result.aiprobability;
-    return 0;
-  };
-
-  // FIXED: Helper function to extract AI analysis (handles both naming conventions)
-  const getAIAnalysis = (result: any): any[] => {
-    if (result.analysis) return result.analysis;
-    return [];
+  const getAISummary = (probability: number) => {
+    if (probability >= 80) return "This content is very likely to be AI-generated. Multiple indicators suggest artificial intelligence was used.";
+    if (probability >= 60) return "This content likely contains AI-generated portions. Some sections show typical AI writing patterns.";
+    if (probability >= 40) return "This content might be partially AI-generated, but shows mixed patterns of human and AI writing.";
+    return "This content appears to be human-written with natural language patterns and stylistic variations.";
   };
 
   return (
@@ -159,6 +142,8 @@ export function Analysis() {
                       </CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-4">
+                      <DocumentDropZone onUse={setPlagiarismText} disabled={isLoading} />
+
                       <div className="space-y-2">
                         <Label htmlFor="plagiarismText">Text to Analyze</Label>
                         <Textarea
@@ -204,104 +189,54 @@ export function Analysis() {
                         </CardTitle>
                       </CardHeader>
                       <CardContent className="space-y-6">
-                        {(() => {
-                          // FIXED: Use helper functions to extract data
-                          const plagiarismScore = getPlagiarismScore(plagiarismResult);
-                          const flaggedContent = getFlaggedContent(plagiarismResult);
+                        <div className="text-center">
+                          <div className={`text-6xl font-bold ${getPlagiarismSeverity(plagiarismResult.score).color}`}>
+                            {Math.round(plagiarismResult.score)}%
+                          </div>
+                          <Badge variant={getPlagiarismSeverity(plagiarismResult.score).variant} className="mt-2">
+                            {getPlagiarismSeverity(plagiarismResult.score).level}
+                          </Badge>
+                          <Progress value={plagiarismResult.score} className="mt-4" />
+                        </div>
 
-                          return (
-                            <>
-                              <div className="text-center">
-                                <div className={`text-6xl font-bold ${getPlagiarismSeverity(plagiarismScore).color}`}>
-                                  {Math.round(plagiarismScore)}%
-                                </div>
-                                <Badge variant={getPlagiarismSeverity(plagiarismScore).variant} className="mt-2">
-                                  {getPlagiarismSeverity(plagiarismScore).level}
-                                </Badge>
-                                <Progress value={plagiarismScore} className="mt-4" />
-                              </div>
-                              
-                              {flaggedContent.length > 0 && (
-                                <>
-                                  <Alert>
-                                    <AlertTriangle className="size-4" />
-                                    <AlertTitle>Potential Issues Found</AlertTitle>
-                                    <AlertDescription>
-                                      We found {flaggedContent.length} section{flaggedContent.length !== 1 ? 's' : ''} that may require attention.
-                                    </AlertDescription>
-                                  </Alert>
-                                  
-                                  <Separator />
-                                  
-                                  <div>
-                                    <h4 className="font-semibold mb-3">Flagged Content</h4>
-                                    <div className="space-y-4">
-                                      {flaggedContent.map((item: any, index: number) => {
-                                        // FIXED: Handle both naming conventions for item properties
-                                        const itemText = item.text || '';
-                                        const itemSource = item.source || 'Unknown Source';
-                                        const itemUrl = item.url || '#';
-                                        const itemSimilarity = item.similarity_score || item.similarityscore || 0;
-
-                                        return (
-                                          <Card key={index} className="p-4 border-l-4 border-l-orange-500">
-                                            <div className="flex items-start justify-between mb-2">
-                                              <Badge variant="outline" className="text-xs">
-                                                {itemSimilarity}% Match
-                                              </Badge>
-                                              {itemUrl !== '#' && (
-                                                <Button 
-                                                  variant="ghost" 
-                                                  size="sm" 
-                                                  className="text-xs h-auto p-1 hover:text-blue-600"
-                                                  onClick={() => window.open(itemUrl, '_blank')}
-                                                >
-                                                  <ExternalLink className="size-3 mr-1" />
-                                                  View Source
-                                                </Button>
-                                              )}
-                                            </div>
-                                            <p className="text-sm mb-2 p-2 bg-muted/50 rounded italic">
-                                              "{itemText}"
-                                            </p>
-                                            <p className="text-xs text-muted-foreground mb-2">
-                                              <span className="font-semibold">Source:</span> {itemSource}
-                                            </p>
-                                            {itemUrl !== '#' && (
-                                              <a 
-                                                href={itemUrl} 
-                                                target="_blank" 
-                                                rel="noopener noreferrer"
-                                                className="text-xs text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 hover:underline flex items-center gap-1 break-all"
-                                              >
-                                                <ExternalLink className="size-3 flex-shrink-0" />
-                                                <span className="truncate">{itemUrl}</span>
-                                              </a>
-                                            )}
-                                          </Card>
-                                        );
-                                      })}
-                                    </div>
-                                  </div>
-                                </>
-                              )}
-                              
-                              {flaggedContent.length === 0 && (
-                                <Alert>
-                                  <CheckCircle className="size-4" />
-                                  <AlertTitle>Content Looks Original</AlertTitle>
-                                  <AlertDescription>
-                                    No significant plagiarism detected. The content appears to be original.
-                                  </AlertDescription>
-                                </Alert>
-                              )}
-                            </>
-                          );
-                        })()}
+                        {plagiarismResult.matches.length > 0 ? (
+                          <Alert>
+                            <AlertTriangle className="size-4" />
+                            <AlertTitle>Potential Issues Found</AlertTitle>
+                            <AlertDescription>
+                              We found {plagiarismResult.matches.length} section{plagiarismResult.matches.length !== 1 ? 's' : ''} that may require attention. They are highlighted in the report below.
+                            </AlertDescription>
+                          </Alert>
+                        ) : (
+                          <Alert>
+                            <CheckCircle className="size-4" />
+                            <AlertTitle>Content Looks Original</AlertTitle>
+                            <AlertDescription>
+                              No significant plagiarism detected. The content appears to be original.
+                            </AlertDescription>
+                          </Alert>
+                        )}
                       </CardContent>
                     </Card>
                   )}
                 </div>
+
+                {plagiarismResult && plagiarismResult.matches.length > 0 && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Eye className="size-5" />
+                        Plagiarism Report
+                      </CardTitle>
+                      <CardDescription>
+                        Click a highlighted passage or step through the matches to see the source it matched
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <PlagiarismReportViewer report={plagiarismResult} />
+                    </CardContent>
+                  </Card>
+                )}
               </TabsContent>
 
               <TabsContent value="ai-detection" className="space-y-6 mt-6">
@@ -317,6 +252,8 @@ export function Analysis() {
                       </CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-4">
+                      <DocumentDropZone onUse={setAiText} disabled={isLoading} />
+
                       <div className="space-y-2">
                         <Label htmlFor="aiText">Text to Analyze</Label>
                         <Textarea
@@ -362,72 +299,44 @@ export function Analysis() {
                         </CardTitle>
                       </CardHeader>
                       <CardContent className="space-y-6">
-                        {(() => {
-                          // FIXED: Use helper functions to extract data
-                          const aiProbability = getAIProbabilityScore(aiResult);
-                          const analysis = getAIAnalysis(aiResult);
+                        <div className="text-center">
+                          <div className={`text-6xl font-bold ${getAIProbability(aiResult.probability).color}`}>
+                            {Math.round(aiResult.probability)}%
+                          </div>
+                          <Badge variant={getAIProbability(aiResult.probability).variant} className="mt-2">
+                            {getAIProbability(aiResult.probability).level}
+                          </Badge>
+                          <Progress value={aiResult.probability} className="mt-4" />
+                        </div>
 
-                          return (
-                            <>
-                              <div className="text-center">
-                                <div className={`text-6xl font-bold ${getAIProbability(aiProbability).color}`}>
-                                  {Math.round(aiProbability)}%
-                                </div>
-                                <Badge variant={getAIProbability(aiProbability).variant} className="mt-2">
-                                  {getAIProbability(aiProbability).level}
-                                </Badge>
-                                <Progress value={aiProbability} className="mt-4" />
-                              </div>
-                              
-                              <Separator />
-                              
-                              {analysis.length > 0 && (
-                                <div>
-                                  <h4 className="font-semibold mb-3">Detailed Analysis</h4>
-                                  <div className="space-y-4">
-                                    {analysis.map((section: any, index: number) => (
-                                      <Card key={index} className="p-4">
-                                        <div className="flex items-center justify-between mb-2">
-                                          <h5 className="font-medium">{section.section}</h5>
-                                          <Badge 
-                                            variant={section.probability >= 70 ? 'destructive' : 
-                                                    section.probability >= 50 ? 'secondary' : 'outline'}
-                                            className="text-xs"
-                                          >
-                                            {section.probability}% AI
-                                          </Badge>
-                                        </div>
-                                        <Progress value={section.probability} className="mb-2 h-2" />
-                                        <p className="text-sm text-muted-foreground">
-                                          {section.reasoning}
-                                        </p>
-                                      </Card>
-                                    ))}
-                                  </div>
-                                </div>
-                              )}
-                              
-                              <Alert>
-                                <Bot className="size-4" />
-                                <AlertTitle>Analysis Summary</AlertTitle>
-                                <AlertDescription>
-                                  {aiProbability >= 80 
-                                    ? "This content is very likely to be AI-generated. Multiple indicators suggest artificial intelligence was used."
-                                    : aiProbability >= 60
-                                    ? "This content likely contains AI-generated portions. Some sections show typical AI writing patterns."
-                                    : aiProbability >= 40
-                                    ? "This content might be partially AI-generated, but shows mixed patterns of human and AI writing."
-                                    : "This content appears to be human-written with natural language patterns and stylistic variations."
-                                  }
-                                </AlertDescription>
-                              </Alert>
-                            </>
-                          );
-                        })()}
+                        <Alert>
+                          <Bot className="size-4" />
+                          <AlertTitle>Analysis Summary</AlertTitle>
+                          <AlertDescription>
+                            {getAISummary(aiResult.probability)}
+                          </AlertDescription>
+                        </Alert>
                       </CardContent>
                     </Card>
                   )}
                 </div>
+
+                {aiResult && aiResult.text.trim() && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Eye className="size-5" />
+                        AI Probability Heatmap
+                      </CardTitle>
+                      <CardDescription>
+                        Each sentence is shaded by how likely it is to be AI-generated. Hover over it to see why.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <AIDetectionHeatmap report={aiResult} />
+                    </CardContent>
+                  </Card>
+                )}
               </TabsContent>
             </Tabs>
           </div>
@@ -0,0 +1,141 @@
+import { useRef, useState } from 'react';
+import { MessageSquarePlus, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import type { SubmissionComment } from '../services/api';
+import { getSelectionRange, splitByRanges, TextRange } from '../lib/textAnchors';
+
+const HIGHLIGHT_COLOR = 'rgba(250, 204, 21, 0.35)';
+const ACTIVE_HIGHLIGHT_COLOR = 'rgba(250, 204, 21, 0.7)';
+
+interface AnnotatedContentProps {
+  content: string;
+  comments: SubmissionComment[];
+  // Leave out both to show the comments read-only
+  onAddComment?: (range: TextRange, text: string) => void;
+  onRemoveComment?: (commentId: string) => void;
+}
+
+// Submission text with comments anchored to highlighted ranges. Select text to
+// comment on it when editing is enabled.
+export function AnnotatedContent({ content, comments, onAddComment, onRemoveComment }: AnnotatedContentProps) {
+  const contentRef = useRef<HTMLPreElement>(null);
+  const [selection, setSelection] = useState<TextRange | null>(null);
+  const [draft, setDraft] = useState('');
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const sortedComments = [...comments].sort((a, b) => a.start - b.start);
+  const segments = splitByRanges(content, sortedComments);
+
+  const handleMouseUp = () => {
+    if (!onAddComment || !contentRef.current) return;
+    const range = getSelectionRange(contentRef.current);
+    if (range) setSelection(range);
+  };
+
+  const handleAdd = () => {
+    if (!selection || !draft.trim() || !onAddComment) return;
+    onAddComment(selection, draft.trim());
+    setSelection(null);
+    setDraft('');
+    window.getSelection()?.removeAllRanges();
+  };
+
+  return (
+    <div className="grid md:grid-cols-[1fr_240px] gap-4">
+      <pre
+        ref={contentRef}
+        onMouseUp={handleMouseUp}
+        className="max-h-[420px] overflow-auto rounded-lg border border-border bg-muted/20 p-3 text-sm whitespace-pre-wrap font-sans"
+      >
+        {segments.map((segment) =>
+          segment.marks.length > 0 ? (
+            <mark
+              key={segment.start}
+              style={{
+                background: segment.marks.some((mark) => mark.id === activeId) ? ACTIVE_HIGHLIGHT_COLOR : HIGHLIGHT_COLOR,
+                color: 'inherit',
+                cursor: 'pointer',
+              }}
+              onClick={() => setActiveId(segment.marks[0].id)}
+            >
+              {segment.text}
+            </mark>
+          ) : (
+            <span key={segment.start}>{segment.text}</span>
+          )
+        )}
+      </pre>
+
+      <div className="space-y-2">
+        {onAddComment && (
+          selection ? (
+            <div className="rounded-lg border border-border p-2 space-y-2">
+              <p className="text-xs text-muted-foreground line-clamp-2">
+                “{content.slice(selection.start, selection.end)}”
+              </p>
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder="Comment on this passage..."
+                className="min-h-[60px] text-sm"
+                autoFocus
+              />
+              <div className="flex justify-end gap-1">
+                <Button size="sm" variant="ghost" onClick={() => setSelection(null)}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={handleAdd} disabled={!draft.trim()}>
+                  Add
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <MessageSquarePlus className="size-3" />
+              Select text to add a comment
+            </p>
+          )
+        )}
+
+        {sortedComments.length === 0 && !onAddComment && (
+          <p className="text-xs text-muted-foreground">No comments</p>
+        )}
+
+        {sortedComments.map((comment) => {
+          // The content changed since the comment was made
+          const moved = content.slice(comment.start, comment.end) !== comment.quote;
+          return (
+            <div
+              key={comment.id}
+              className={`rounded-lg border p-2 text-sm space-y-1 cursor-pointer ${
+                comment.id === activeId ? 'border-primary' : 'border-border'
+              }`}
+              onClick={() => setActiveId(comment.id)}
+            >
+              <div className="flex items-start justify-between gap-1">
+                <p className="text-xs text-muted-foreground line-clamp-2">“{comment.quote}”</p>
+                {onRemoveComment && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-6 shrink-0"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRemoveComment(comment.id);
+                    }}
+                    title="Remove comment"
+                  >
+                    <Trash2 className="size-3" />
+                  </Button>
+                )}
+              </div>
+              <p>{comment.text}</p>
+              {moved && <p className="text-xs text-orange-500">The text has changed since this comment</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
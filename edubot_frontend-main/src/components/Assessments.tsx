@@ -1,5 +1,6 @@
 // src/components/Assessments.tsx
 import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -10,6 +11,7 @@ import { ScrollArea } from './ui/scroll-area';
 import { Separator } from './ui/separator';
 import { RadioGroup, RadioGroupItem } from './ui/radio-group';
 import { Progress } from './ui/progress';
+import { MarkdownContent } from './MarkdownContent';
 import { 
   ClipboardList, 
   Plus, 
@@ -28,6 +30,8 @@ import { toast } from 'sonner';
 import { motion } from 'framer-motion';
 
 export function Assessments() {
+  const navigate = useNavigate();
+  const { assessmentId } = useParams<{ assessmentId?: string }>();
   const [activeView, setActiveView] = useState<'create' | 'take' | 'results'>('create');
   const [assessments, setAssessments] = useState<Assessment[]>([]);
   const [currentAssessment, setCurrentAssessment] = useState<Assessment | null>(null);
@@ -48,6 +52,15 @@ export function Assessments() {
     loadAssessments();
   }, []);
 
+  // /assessments shows the create form, /assessments/:assessmentId/take the test itself
+  useEffect(() => {
+    if (!assessmentId) {
+      setActiveView('create');
+      return;
+    }
+    openAssessment(assessmentId);
+  }, [assessmentId]);
+
   const loadAssessments = async () => {
     try {
       setIsLoading(true);
@@ -60,6 +73,31 @@ export function Assessments() {
     }
   };
 
+  const openAssessment = async (id: string) => {
+    setUserAnswers({});
+    setResults(null);
+    setActiveView('take');
+
+    const known = currentAssessment?.id === id
+      ? currentAssessment
+      : assessments.find((assessment) => assessment.id === id);
+    if (known) {
+      setCurrentAssessment(known);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setCurrentAssessment(await apiService.getAssessment(id));
+    } catch (error) {
+      console.error('Failed to load assessment:', error);
+      toast.error('Assessment not found');
+      navigate('/assessments', { replace: true });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleCreateAssessment = async () => {
     if (!createForm.topic.trim()) {
       toast.error('Please enter a topic');
@@ -72,7 +110,7 @@ export function Assessments() {
       toast.success('Assessment created successfully!');
       await loadAssessments();
       setCurrentAssessment(assessment);
-      setActiveView('take');
+      navigate(`/assessments/${assessment.id}/take`);
       setCreateForm({ topic: '', subject: '', type: 'mcq', numQuestions: 5, difficulty: 'medium' });
     } catch (error) {
       toast.error('Failed to create assessment');
@@ -134,7 +172,7 @@ export function Assessments() {
             <div className="flex gap-2">
               <Button
                 variant={activeView === 'create' ? 'default' : 'outline'}
-                onClick={() => setActiveView('create')}
+                onClick={() => navigate('/assessments')}
                 className="gap-2"
               >
                 <Plus className="size-4" />
@@ -142,7 +180,7 @@ export function Assessments() {
               </Button>
               <Button
                 variant={activeView === 'take' ? 'default' : 'outline'}
-                onClick={() => setActiveView('take')}
+                onClick={() => navigate(`/assessments/${(currentAssessment || assessments[0]).id}/take`)}
                 className="gap-2"
                 disabled={assessments.length === 0}
               >
@@ -290,8 +328,7 @@ export function Assessments() {
                             key={assessment.id}
                             onClick={() => {
                               setCurrentAssessment(assessment);
-                              setUserAnswers({});
-                              setActiveView('take');
+                              navigate(`/assessments/${assessment.id}/take`);
                             }}
                             className="flex items-center justify-between p-4 border-2 rounded-lg hover:border-primary hover:bg-accent transition-all text-left"
                           >
@@ -343,7 +380,7 @@ export function Assessments() {
                             <Badge variant="outline" className="mt-1">
                               Q{index + 1}
                             </Badge>
-                            <p className="font-medium flex-1">{question.prompt}</p>
+                            <MarkdownContent content={question.prompt} className="font-medium flex-1 [&_p]:my-0" />
                           </div>
 
                           {/* FIXED: Better RadioGroup implementation */}
@@ -473,7 +510,7 @@ export function Assessments() {
                                 <XCircle className="size-5 text-red-600 mt-1 flex-shrink-0" />
                               )}
                               <div className="flex-1 min-w-0">
-                                <p className="font-medium">{result.prompt}</p>
+                                <MarkdownContent content={result.prompt} className="font-medium [&_p]:my-0" />
                                 <div className="mt-2 space-y-1 text-sm">
                                   <p>
                                     <span className="text-muted-foreground">Your answer:</span>{' '}
@@ -505,10 +542,10 @@ export function Assessments() {
                         variant="outline"
                         className="flex-1"
                         onClick={() => {
-                          setActiveView('create');
                           setResults(null);
                           setCurrentAssessment(null);
                           setUserAnswers({});
+                          navigate('/assessments');
                         }}
                       >
                         Create New Assessment
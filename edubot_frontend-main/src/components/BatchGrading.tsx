@@ -0,0 +1,702 @@
+import { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  FolderOpen,
+  Loader2,
+  Play,
+  RotateCcw,
+  Square,
+  Trash2,
+  Upload,
+  XCircle,
+} from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { Checkbox } from './ui/checkbox';
+import { Switch } from './ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { RubricBuilder } from './RubricBuilder';
+import { RubricResults } from './RubricResults';
+import { MarkdownContent } from './MarkdownContent';
+import { apiService, ApiError, GradingResponse, Submission } from '../services/api';
+import { BatchFile, BatchSubmission, collectDroppedFiles, collectInputFiles, groupSubmissions } from '../lib/batchFiles';
+import { runTaskQueue } from '../lib/taskQueue';
+import { csvBlob } from '../lib/csv';
+import { downloadBlob } from '../lib/download';
+import {
+  CriterionResult,
+  GradingBreakdownItem,
+  matchCriterionResults,
+  Rubric,
+  serializeRubric,
+  validateRubric,
+} from '../lib/rubric';
+
+type BatchStatus = 'pending' | 'grading' | 'retrying' | 'done' | 'failed' | 'cancelled' | 'skipped';
+
+interface GradeResult {
+  score: number;
+  maxScore: number;
+  feedback: string;
+  breakdown: GradingBreakdownItem[];
+  keyPoints: string[];
+  areasForImprovement: string[];
+  // The rubric of the run that produced this grade, saved along with it
+  rubric: Rubric | null;
+}
+
+interface BatchItem extends BatchSubmission {
+  status: BatchStatus;
+  attempts: number;
+  score?: number;
+  maxScore?: number;
+  feedback?: string;
+  criteria?: CriterionResult[];
+  failure?: string;
+  // A grade that came back but couldn't be saved; retrying only saves it again
+  unsavedResult?: GradeResult;
+}
+
+const STATUS_BADGES: Record<BatchStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  grading: 'secondary',
+  retrying: 'secondary',
+  done: 'default',
+  failed: 'destructive',
+  cancelled: 'outline',
+  skipped: 'outline',
+};
+
+// Network errors, rate limiting and server errors are worth another try
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof ApiError)) return true;
+  if (error.code === 'aborted') return false;
+  return error.isNetworkError || error.status === 429 || error.status >= 500;
+}
+
+function toBatchItem(submission: BatchSubmission): BatchItem {
+  return { ...submission, status: submission.error ? 'skipped' : 'pending', attempts: 0 };
+}
+
+// Grade many submissions at once: from uploaded files/folders/zips or from
+// existing submissions, through a retrying queue, with a gradebook CSV export
+export function BatchGrading() {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [question, setQuestion] = useState('');
+  const [assignmentType, setAssignmentType] = useState('Assignment');
+  const [totalScore, setTotalScore] = useState(100);
+  const [rubric, setRubric] = useState<Rubric | null>(null);
+  const [concurrency, setConcurrency] = useState(3);
+  const [saveToSubmissions, setSaveToSubmissions] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // Existing submissions that can be added to the batch
+  const [serverSubmissions, setServerSubmissions] = useState<Submission[] | null>(null);
+  const [selectedSubmissionIds, setSelectedSubmissionIds] = useState<Set<string>>(new Set());
+  const [isLoadingSubmissions, setIsLoadingSubmissions] = useState(false);
+  // Rubric the last run was graded against, for the results and the CSV columns
+  const [runRubric, setRunRubric] = useState<Rubric | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  // New items replace ones with the same id, so re-adding a student's work resets it
+  const addItems = (submissions: BatchSubmission[]) => {
+    setItems((prev) => {
+      const added = new Map(submissions.map((submission) => [submission.id, toBatchItem(submission)]));
+      return [...prev.filter((item) => !added.has(item.id)), ...added.values()];
+    });
+  };
+
+  const addFiles = async (collect: () => Promise<BatchFile[]>) => {
+    setIsReading(true);
+    try {
+      const submissions = await groupSubmissions(await collect());
+      if (submissions.length === 0) {
+        toast.error('No student files found');
+        return;
+      }
+      addItems(submissions);
+      toast.success(`Added ${submissions.length} ${submissions.length === 1 ? 'student' : 'students'}`);
+    } catch (error) {
+      toast.error('Failed to read the files');
+      console.error(error);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleFileInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (files && files.length > 0) {
+      const picked = Array.from(files);
+      addFiles(() => collectInputFiles(picked));
+    }
+    event.target.value = '';
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (isRunning) return;
+    const dataTransfer = event.dataTransfer;
+    addFiles(() => collectDroppedFiles(dataTransfer));
+  };
+
+  const loadServerSubmissions = async () => {
+    setIsLoadingSubmissions(true);
+    try {
+      setServerSubmissions(await apiService.getSubmissions());
+    } catch (error) {
+      toast.error('Failed to load submissions');
+      console.error(error);
+    } finally {
+      setIsLoadingSubmissions(false);
+    }
+  };
+
+  const addSelectedSubmissions = () => {
+    const picked = (serverSubmissions || []).filter((submission) => selectedSubmissionIds.has(submission.id));
+    addItems(
+      picked.map((submission) => ({
+        id: `submission:${submission.id}`,
+        submissionId: submission.id,
+        student: submission.user_id,
+        files: [submission.assignment_id],
+        kind: submission.submission_type === 'code' ? 'code' : 'text',
+        content: submission.content || '',
+        error: submission.content?.trim() ? undefined : 'Submission has no extracted text',
+      }))
+    );
+    setSelectedSubmissionIds(new Set());
+  };
+
+  const gradeItem = async (
+    item: BatchItem,
+    gradedWith: Rubric | null,
+    signal?: AbortSignal
+  ): Promise<GradeResult> => {
+    const rubricText = gradedWith ? serializeRubric(gradedWith) : undefined;
+    let response: GradingResponse;
+    let maxScore: number;
+    if (item.kind === 'code') {
+      response = await apiService.gradeCode(
+        {
+          problem_description: question || `Code submission: ${item.files.join(', ')}`,
+          student_code: item.content,
+          rubric: rubricText,
+        },
+        signal
+      );
+      maxScore = 100;
+    } else {
+      response = await apiService.gradeText(
+        {
+          question: question || `Assignment: ${item.files.join(', ')}`,
+          answer: item.content,
+          assignment_type: assignmentType,
+          total_score: totalScore,
+          rubric: rubricText,
+        },
+        signal
+      );
+      maxScore = totalScore;
+    }
+
+    const grading = response.grading || ({} as GradingResponse['grading']);
+    const result = {
+      score: typeof grading.score === 'number' ? grading.score : parseFloat(String(grading.score)) || 0,
+      maxScore,
+      feedback: grading.feedback || '',
+      breakdown: grading.breakdown || [],
+      keyPoints: grading.keypoints || [],
+      areasForImprovement: grading.areasforimprovement || [],
+      rubric: gradedWith,
+    };
+
+    return result;
+  };
+
+  const saveGrade = (submissionId: string, result: GradeResult) =>
+    apiService.gradeSubmission(
+      submissionId,
+      result.score,
+      result.feedback,
+      result.keyPoints,
+      result.areasForImprovement,
+      { breakdown: result.breakdown, rubric: result.rubric }
+    );
+
+  const runBatch = async (only?: BatchStatus[]) => {
+    const queue = items.filter((item) => (only ? only.includes(item.status) : item.status === 'pending'));
+    if (queue.length === 0) {
+      toast.error('Nothing to grade');
+      return;
+    }
+    const rubricErrors = rubric ? validateRubric(rubric) : [];
+    if (rubricErrors.length > 0) {
+      toast.error(rubricErrors[0]);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunRubric(rubric);
+    setIsRunning(true);
+    setItems((prev) =>
+      prev.map((item) =>
+        queue.some((queued) => queued.id === item.id) ? { ...item, status: 'pending', failure: undefined } : item
+      )
+    );
+
+    // Grades that came back, so a retry after a failed save doesn't pay for (and
+    // possibly change) a second AI grade
+    const graded = new Map<string, GradeResult>();
+    const gradeAndSave = async (item: BatchItem, signal?: AbortSignal) => {
+      let result = graded.get(item.id) ?? item.unsavedResult;
+      if (!result) {
+        result = await gradeItem(item, rubric, signal);
+        graded.set(item.id, result);
+      }
+      if (saveToSubmissions && item.submissionId) {
+        await saveGrade(item.submissionId, result);
+      }
+      return result;
+    };
+
+    let succeeded = 0;
+    await runTaskQueue(queue, gradeAndSave, {
+      concurrency,
+      retries: 2,
+      signal: controller.signal,
+      shouldRetry: isRetryable,
+      onStart: (item, attempt) =>
+        updateItem(item.id, { status: attempt > 1 ? 'retrying' : 'grading', attempts: attempt }),
+      onSuccess: (item, result, attempts) => {
+        succeeded++;
+        updateItem(item.id, {
+          status: 'done',
+          attempts,
+          score: result.score,
+          maxScore: result.maxScore,
+          feedback: result.feedback,
+          criteria: matchCriterionResults(result.breakdown, result.rubric),
+          unsavedResult: undefined,
+        });
+      },
+      onFailure: (item, error, attempts) => {
+        const message = error instanceof Error ? error.message : String(error);
+        const result = graded.get(item.id) ?? item.unsavedResult;
+        if (!result) {
+          updateItem(item.id, {
+            status: controller.signal.aborted ? 'cancelled' : 'failed',
+            attempts,
+            failure: message,
+          });
+          return;
+        }
+        // Graded, only the save failed: show the grade and keep it for a retry
+        updateItem(item.id, {
+          status: 'failed',
+          attempts,
+          score: result.score,
+          maxScore: result.maxScore,
+          feedback: result.feedback,
+          criteria: matchCriterionResults(result.breakdown, result.rubric),
+          unsavedResult: result,
+          failure: `Graded, but the grade could not be saved to the submission: ${message}`,
+        });
+      },
+    });
+
+    // Items the queue never reached
+    if (controller.signal.aborted) {
+      setItems((prev) => prev.map((item) => (item.status === 'pending' ? { ...item, status: 'cancelled' } : item)));
+      toast.info(`Batch cancelled after grading ${succeeded} of ${queue.length}`);
+    } else {
+      toast.success(`Graded ${succeeded} of ${queue.length}`);
+    }
+    abortRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleExport = () => {
+    const criterionNames = runRubric?.criteria.map((criterion) => criterion.name) || [];
+    const rows = [
+      ['Student', 'Files', 'Type', 'Score', 'Max score', 'Percent', ...criterionNames, 'Status', 'Attempts', 'Feedback', 'Error'],
+      ...items.map((item) => [
+        item.student,
+        item.files.join('; '),
+        item.kind,
+        item.score,
+        item.maxScore,
+        item.score !== undefined && item.maxScore ? Math.round((item.score / item.maxScore) * 1000) / 10 : undefined,
+        ...criterionNames.map((name) => item.criteria?.find((criterion) => criterion.name === name)?.score),
+        item.status,
+        item.attempts,
+        item.feedback,
+        item.failure || item.error,
+      ]),
+    ];
+    downloadBlob(csvBlob(rows), `gradebook-${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  const finishedCount = items.filter((item) => ['done', 'failed', 'cancelled', 'skipped'].includes(item.status)).length;
+  const doneCount = items.filter((item) => item.status === 'done').length;
+  const failedCount = items.filter((item) => item.status === 'failed' || item.status === 'cancelled').length;
+  const pendingCount = items.filter((item) => item.status === 'pending').length;
+  const hasCode = items.some((item) => item.kind === 'code');
+  const hasText = items.some((item) => item.kind === 'text');
+
+  return (
+    <div className="grid lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-1">
+        <CardHeader>
+          <CardTitle>Batch Settings</CardTitle>
+          <CardDescription>Applied to every submission in the batch</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="batch-question">Question / Problem Description</Label>
+            <Textarea
+              id="batch-question"
+              placeholder="The assignment prompt every student answered..."
+              className="min-h-[100px]"
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+            />
+          </div>
+
+          {hasText && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Assignment Type</Label>
+                <Select value={assignmentType} onValueChange={setAssignmentType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="Assignment">Assignment</SelectItem>
+                    <SelectItem value="Essay">Essay</SelectItem>
+                    <SelectItem value="Short Answer">Short Answer</SelectItem>
+                    <SelectItem value="Research Paper">Research Paper</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-total">Total Points</Label>
+                <Input
+                  id="batch-total"
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={totalScore}
+                  onChange={(e) => setTotalScore(parseInt(e.target.value) || 100)}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Grading Rubric (Optional)</Label>
+            <RubricBuilder value={rubric} onChange={setRubric} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Parallel requests</Label>
+            <Select value={String(concurrency)} onValueChange={(value) => setConcurrency(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[1, 2, 3, 4, 5].map((count) => (
+                  <SelectItem key={count} value={String(count)}>
+                    {count}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="batch-save">Save grades to picked submissions</Label>
+            <Switch id="batch-save" checked={saveToSubmissions} onCheckedChange={setSaveToSubmissions} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="lg:col-span-2 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Submissions</CardTitle>
+            <CardDescription>
+              Drop a folder with one subfolder or file per student, a .zip, or pick existing submissions
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div
+              className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+                isDragging ? 'border-primary bg-primary/5' : 'border-muted-foreground/25'
+              }`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+            >
+              {isReading ? (
+                <Loader2 className="size-8 mx-auto mb-2 animate-spin text-muted-foreground" />
+              ) : (
+                <Upload className="size-8 mx-auto mb-2 text-muted-foreground" />
+              )}
+              <p className="text-sm text-muted-foreground mb-3">
+                {isReading ? 'Reading files...' : 'Drag student work here (.txt, .md, .docx, code files or .zip)'}
+              </p>
+              <div className="flex justify-center gap-2">
+                <Button variant="outline" size="sm" asChild disabled={isRunning || isReading}>
+                  <label className="cursor-pointer">
+                    <Upload className="size-4 mr-2" />
+                    Choose files
+                    <input
+                      type="file"
+                      multiple
+                      className="hidden"
+                      onChange={handleFileInput}
+                      disabled={isRunning || isReading}
+                    />
+                  </label>
+                </Button>
+                <Button variant="outline" size="sm" asChild disabled={isRunning || isReading}>
+                  <label className="cursor-pointer">
+                    <FolderOpen className="size-4 mr-2" />
+                    Choose folder
+                    <input
+                      type="file"
+                      className="hidden"
+                      onChange={handleFileInput}
+                      disabled={isRunning || isReading}
+                      {...({ webkitdirectory: '', directory: '' } as Record<string, string>)}
+                    />
+                  </label>
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={loadServerSubmissions}
+                  disabled={isRunning || isLoadingSubmissions}
+                >
+                  {isLoadingSubmissions && <Loader2 className="size-4 mr-2 animate-spin" />}
+                  Pick submissions
+                </Button>
+              </div>
+            </div>
+
+            {serverSubmissions && (
+              <div className="border border-border rounded-lg">
+                <div className="flex items-center justify-between px-3 py-2 border-b border-border text-sm">
+                  <span>{serverSubmissions.length} submissions</span>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() =>
+                        setSelectedSubmissionIds(
+                          selectedSubmissionIds.size === serverSubmissions.length
+                            ? new Set()
+                            : new Set(serverSubmissions.map((submission) => submission.id))
+                        )
+                      }
+                    >
+                      {selectedSubmissionIds.size === serverSubmissions.length ? 'Select none' : 'Select all'}
+                    </Button>
+                    <Button size="sm" onClick={addSelectedSubmissions} disabled={selectedSubmissionIds.size === 0}>
+                      Add {selectedSubmissionIds.size || ''} to batch
+                    </Button>
+                  </div>
+                </div>
+                <div className="max-h-60 overflow-y-auto divide-y divide-border">
+                  {serverSubmissions.map((submission) => (
+                    <label key={submission.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={selectedSubmissionIds.has(submission.id)}
+                        onCheckedChange={(checked) =>
+                          setSelectedSubmissionIds((prev) => {
+                            const next = new Set(prev);
+                            if (checked) next.add(submission.id);
+                            else next.delete(submission.id);
+                            return next;
+                          })
+                        }
+                      />
+                      <span className="flex-1 truncate">{submission.assignment_id}</span>
+                      <span className="text-muted-foreground truncate max-w-[140px]">{submission.user_id}</span>
+                      <Badge variant="outline">{submission.status}</Badge>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {items.length > 0 && (
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <CardTitle>Batch ({items.length})</CardTitle>
+                <div className="flex flex-wrap gap-2">
+                  {isRunning ? (
+                    <Button variant="destructive" size="sm" onClick={handleCancel}>
+                      <Square className="size-4 mr-2" />
+                      Cancel
+                    </Button>
+                  ) : (
+                    <>
+                      <Button size="sm" onClick={() => runBatch()} disabled={pendingCount === 0}>
+                        <Play className="size-4 mr-2" />
+                        Grade {pendingCount || ''}
+                      </Button>
+                      {failedCount > 0 && (
+                        <Button variant="outline" size="sm" onClick={() => runBatch(['failed', 'cancelled'])}>
+                          <RotateCcw className="size-4 mr-2" />
+                          Retry {failedCount}
+                        </Button>
+                      )}
+                      <Button variant="outline" size="sm" onClick={handleExport} disabled={doneCount === 0}>
+                        <Download className="size-4 mr-2" />
+                        Export CSV
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setItems([])}>
+                        Clear
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+              {hasCode && hasText && (
+                <CardDescription>Code files are graded as code, everything else as written work</CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1">
+                <Progress value={(finishedCount / items.length) * 100} className="h-2" />
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>
+                    {finishedCount}/{items.length} finished
+                  </span>
+                  <span>
+                    {doneCount} graded{failedCount > 0 ? `, ${failedCount} failed` : ''}
+                  </span>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Student</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                    <TableHead className="w-10" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => {
+                    const expanded = expandedId === item.id;
+                    const busy = item.status === 'grading' || item.status === 'retrying';
+                    return [
+                      <TableRow
+                        key={item.id}
+                        className="cursor-pointer"
+                        onClick={() => setExpandedId(expanded ? null : item.id)}
+                      >
+                        <TableCell>
+                          {expanded ? <ChevronDown className="size-4" /> : <ChevronRight className="size-4" />}
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{item.student}</div>
+                          <div className="text-xs text-muted-foreground truncate max-w-[260px]">
+                            {item.files.join(', ')}
+                          </div>
+                        </TableCell>
+                        <TableCell className="capitalize">{item.kind}</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_BADGES[item.status]} className="gap-1">
+                            {busy && <Loader2 className="size-3 animate-spin" />}
+                            {item.status === 'done' && <CheckCircle className="size-3" />}
+                            {item.status === 'failed' && <XCircle className="size-3" />}
+                            {item.status}
+                            {item.attempts > 1 ? ` (${item.attempts})` : ''}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {item.score !== undefined ? `${Math.round(item.score * 10) / 10}/${item.maxScore}` : '—'}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="size-7"
+                            disabled={isRunning}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setItems((prev) => prev.filter((other) => other.id !== item.id));
+                            }}
+                            title="Remove from batch"
+                          >
+                            <Trash2 className="size-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>,
+                      expanded && (
+                        <TableRow key={`${item.id}:detail`}>
+                          <TableCell colSpan={6} className="whitespace-normal bg-muted/20">
+                            <div className="space-y-3 py-2">
+                              {(item.failure || item.error) && (
+                                <p className="text-sm text-red-500">{item.failure || item.error}</p>
+                              )}
+                              {item.criteria && item.criteria.length > 0 && <RubricResults results={item.criteria} />}
+                              {item.feedback && (
+                                <MarkdownContent content={item.feedback} breaks className="text-sm text-muted-foreground" />
+                              )}
+                              {!item.feedback && !item.failure && !item.error && (
+                                <pre className="text-xs whitespace-pre-wrap max-h-48 overflow-auto">
+                                  {item.content.slice(0, 2000)}
+                                  {item.content.length > 2000 ? '\n...' : ''}
+                                </pre>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ),
+                    ];
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
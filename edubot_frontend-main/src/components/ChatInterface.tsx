@@ -1,4 +1,6 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useLayoutEffect, useRef } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useVirtualizer } from "@tanstack/react-virtual";
 import { Button } from "./ui/button";
 import { Textarea } from "./ui/textarea";
 import { ScrollArea } from "./ui/scroll-area";
@@ -17,29 +19,66 @@ import {
   X,
   MessageSquare,
   Plus,
-  Trash2,
+  Square,
 } from "lucide-react";
 import { ChatMessage } from "./ChatMessage";
 import { FileUpload } from "./FileUpload";
+import { ChatList } from "./ChatList";
 import {
   apiService,
   ChatMessage as ChatMessageType,
   Chat,
+  ChatsResponse,
+  ChatMessagesResponse,
 } from "../services/api";
 import { toast } from "sonner";
+import { offlineStore } from "../services/offlineStore";
+import { syncService } from "../services/syncService";
+import { Branchable, forkBranch, switchBranch } from "../lib/chatBranches";
 
-interface ExtendedChatMessage extends ChatMessageType {
+interface ExtendedChatMessage
+  extends ChatMessageType,
+    Branchable<ExtendedChatMessage> {
   id?: string;
   isTyping?: boolean;
   isNew?: boolean;
   _forceUpdate?: number;
 }
 
+// Placeholder ids given to messages until the server reports the stored ones
+const isTempMessageId = (id?: string) => !id || /^(user|asst)-\d+$/.test(id);
+
+// Where a send forks the conversation: editing the user message at `index`, or
+// regenerating the assistant reply at `index`
+interface BranchTarget {
+  index: number;
+  regenerate?: boolean;
+}
+
 interface ChatInterfaceProps {}
 
+const HISTORY_PAGE_SIZE = 50;
+// Start fetching older messages when scrolled this close to the top
+const LOAD_OLDER_THRESHOLD_PX = 300;
+
+const formatHistoryMessage = (msg: any): ExtendedChatMessage => ({
+  ...msg,
+  id: msg.id || `msg-${msg.timestamp}`,
+  role: msg.role as "user" | "assistant",
+  content: msg.content || msg.message || "",
+  message: msg.message || msg.content || "",
+  timestamp: msg.timestamp,
+  chat_id: msg.chat_id,
+  follow_up_suggestions: msg.follow_up_suggestions || undefined,
+  isTyping: false,
+  isNew: false,
+});
+
 export function ChatInterface({}: ChatInterfaceProps) {
+  const navigate = useNavigate();
+  const { chatId: routeChatId } = useParams<{ chatId?: string }>();
   const [chats, setChats] = useState<Chat[]>([]);
-  const [currentChatId, setCurrentChatId] = useState<string | undefined>();
+  const [currentChatId, setCurrentChatId] = useState<string | undefined>(routeChatId);
   const [messages, setMessages] = useState<ExtendedChatMessage[]>([]);
   const [messagesByChat, setMessagesByChat] = useState<
     Record<string, ExtendedChatMessage[]>
@@ -51,16 +90,48 @@ export function ChatInterface({}: ChatInterfaceProps) {
   >([]);
   const [educationLevel, setEducationLevel] = useState("school");
 
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+
   const suggestionsMapRef = useRef<Map<string, string[]>>(new Map());
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const currentChatIdRef = useRef<string | undefined>(currentChatId);
+  const messagesByChatRef = useRef(messagesByChat);
+  // Cursor for the page before the oldest loaded message, per chat; null once
+  // the start of the conversation is reached
+  const historyCursorRef = useRef<Map<string, string | null>>(new Map());
+  const loadingOlderRef = useRef(false);
+  const prependAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [autoScrollEnabled, setAutoScrollEnabled] = useState(true);
 
   useEffect(() => {
     loadChats();
+    // Cancel any in-flight stream when leaving the chat screen
+    return () => abortControllerRef.current?.abort();
   }, []);
 
+  // Messages queued while offline were sent - pick up the replies
   useEffect(() => {
+    return syncService.onFlushed((results) => {
+      const sent = results.filter(({ entry }) => entry.type === "chat.send");
+      if (sent.length === 0) return;
+      toast.success(`Sent ${sent.length} queued message${sent.length === 1 ? "" : "s"}`);
+      loadChats();
+      loadChatHistory(currentChatIdRef.current);
+    });
+  }, []);
+
+  // /chat/:chatId selects the conversation, so back/forward switch between chats
+  useEffect(() => {
+    if (routeChatId !== currentChatId) {
+      setCurrentChatId(routeChatId);
+    }
+  }, [routeChatId]);
+
+  useEffect(() => {
+    currentChatIdRef.current = currentChatId;
     if (currentChatId) {
       const cached = messagesByChat[currentChatId];
       if (cached) {
@@ -78,10 +149,24 @@ export function ChatInterface({}: ChatInterfaceProps) {
     }
   }, [currentChatId]);
 
+  useEffect(() => {
+    messagesByChatRef.current = messagesByChat;
+  }, [messagesByChat]);
+
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
+  // After older messages are prepended, shift the scroll position by the added
+  // height so the message the user was reading stays in place
+  useLayoutEffect(() => {
+    const anchor = prependAnchorRef.current;
+    const viewport = getViewport();
+    if (!anchor || !viewport) return;
+    prependAnchorRef.current = null;
+    viewport.scrollTop = anchor.scrollTop + (viewport.scrollHeight - anchor.scrollHeight);
+  }, [messages]);
+
   useEffect(() => {
     if (textareaRef.current) {
       textareaRef.current.style.height = "auto";
@@ -91,20 +176,27 @@ export function ChatInterface({}: ChatInterfaceProps) {
   }, [inputValue]);
 
   const loadChats = async () => {
+    const toChatsArray = (response: ChatsResponse) =>
+      Array.isArray(response) ? response : response.chats || [];
+
     try {
-      const response = await apiService.getUserChats();
-      const chatsArray = Array.isArray(response)
-        ? response
-        : response.chats || [];
-      setChats(chatsArray);
+      const user = apiService.getCurrentUser();
+      if (!user) return;
+
+      const response = await offlineStore.staleWhileRevalidate(
+        `chats:${user.id}`,
+        () => apiService.getUserChats(),
+        (fresh) => setChats(toChatsArray(fresh))
+      );
+      setChats(toChatsArray(response));
     } catch (error) {
       console.error("Failed to load chats:", error);
       setChats([]);
     }
   };
 
-  const loadChatHistory = async () => {
-    if (!currentChatId) return;
+  const loadChatHistory = async (chatId = currentChatId) => {
+    if (!chatId) return;
 
     try {
       const user = apiService.getCurrentUser();
@@ -113,78 +205,125 @@ export function ChatInterface({}: ChatInterfaceProps) {
         return;
       }
 
-      const response = await apiService.getChatHistory(user.id);
+      const response = await offlineStore.staleWhileRevalidate(
+        `chat-messages:${user.id}:${chatId}`,
+        () => apiService.getChatMessages(chatId, { limit: HISTORY_PAGE_SIZE }),
+        (fresh) => applyChatHistory(chatId, fresh)
+      );
+      applyChatHistory(chatId, response);
+    } catch (error) {
+      console.error("Failed to load chat history:", error);
+      toast.error("Failed to load chat history");
+    }
+  };
 
-      if (response.history) {
-        const chatMessages = response.history.filter(
-          (msg: any) => msg.chat_id === currentChatId
-        );
+  // Show the latest page of a chat. Older pages already loaded above it are kept
+  // when the page overlaps them (e.g. a background refresh of the cached page).
+  const applyChatHistory = (chatId: string, page: ChatMessagesResponse) => {
+    const latest = page.messages.map(formatHistoryMessage);
+    const existing = messagesByChatRef.current[chatId] || [];
+    const overlap =
+      latest.length > 0 ? existing.findIndex((m) => m.id === latest[0].id) : -1;
+    const merged = overlap > 0 ? [...existing.slice(0, overlap), ...latest] : latest;
+
+    if (overlap <= 0) {
+      historyCursorRef.current.set(chatId, page.next_cursor);
+    }
 
-        const formattedMessages: ExtendedChatMessage[] = chatMessages.map(
-          (msg: any) => {
-            const messageId = msg.id || `msg-${msg.timestamp}`;
+    console.log(`📚 Loaded ${latest.length} messages from history`);
 
-            return {
-              ...msg,
-              id: messageId,
-              role: msg.role as "user" | "assistant",
-              content: msg.content || msg.message || "",
-              message: msg.message || msg.content || "",
-              timestamp: msg.timestamp,
-              chat_id: msg.chat_id,
-              follow_up_suggestions: msg.follow_up_suggestions || undefined,
-              isTyping: false,
-              isNew: false,
-            };
-          }
-        );
+    setMessagesByChat((prev) => ({
+      ...prev,
+      [chatId]: merged,
+    }));
+    // A background refresh may land after the user switched chats or started streaming
+    if (currentChatIdRef.current === chatId && !abortControllerRef.current) {
+      setMessages(merged);
+    }
+  };
 
-        console.log(
-          `📚 Loaded ${formattedMessages.length} messages from history`
-        );
+  // Fetch the page before the oldest loaded message and prepend it. Only reads
+  // refs, so it is safe to call from the scroll listener's stale closure.
+  const loadOlderMessages = async () => {
+    const chatId = currentChatIdRef.current;
+    const cursor = chatId ? historyCursorRef.current.get(chatId) : null;
+    if (!chatId || !cursor || loadingOlderRef.current) return;
 
-        setMessages(formattedMessages);
-        setMessagesByChat((prev) => ({
-          ...prev,
-          [currentChatId]: formattedMessages,
-        }));
+    loadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+    try {
+      const page = await apiService.getChatMessages(chatId, {
+        before: cursor,
+        limit: HISTORY_PAGE_SIZE,
+      });
+      historyCursorRef.current.set(chatId, page.next_cursor);
+
+      const older = page.messages.map(formatHistoryMessage);
+      if (older.length === 0) return;
+
+      const prepend = (list: ExtendedChatMessage[]) => {
+        const loadedIds = new Set(list.map((m) => m.id));
+        return [...older.filter((m) => !loadedIds.has(m.id)), ...list];
+      };
+
+      setMessagesByChat((prev) => ({
+        ...prev,
+        [chatId]: prepend(prev[chatId] || []),
+      }));
+      if (currentChatIdRef.current === chatId) {
+        const viewport = getViewport();
+        if (viewport) {
+          prependAnchorRef.current = {
+            scrollHeight: viewport.scrollHeight,
+            scrollTop: viewport.scrollTop,
+          };
+        }
+        setMessages(prepend);
       }
     } catch (error) {
-      console.error("Failed to load chat history:", error);
-      toast.error("Failed to load chat history");
+      console.error("Failed to load older messages:", error);
+      toast.error("Failed to load earlier messages");
+    } finally {
+      loadingOlderRef.current = false;
+      setIsLoadingOlder(false);
     }
   };
 
+  const getViewport = () =>
+    scrollAreaRef.current?.querySelector<HTMLElement>(
+      "[data-radix-scroll-area-viewport]"
+    ) ?? null;
+
   const scrollToBottom = (smooth = true) => {
     setTimeout(() => {
-      if (scrollAreaRef.current) {
-        const scrollContainer = scrollAreaRef.current.querySelector(
-          "[data-radix-scroll-area-viewport]"
-        );
-        if (scrollContainer && autoScrollEnabled) {
-          scrollContainer.scrollTo({
-            top: scrollContainer.scrollHeight,
-            behavior: smooth ? "smooth" : "auto",
-          });
-        }
+      const scrollContainer = getViewport();
+      if (scrollContainer && autoScrollEnabled) {
+        scrollContainer.scrollTo({
+          top: scrollContainer.scrollHeight,
+          behavior: smooth ? "smooth" : "auto",
+        });
       }
     }, 10);
   };
 
   useEffect(() => {
-    const root = scrollAreaRef.current;
-    if (!root) return;
-    const viewport = root.querySelector(
-      "[data-radix-scroll-area-viewport]"
-    ) as HTMLElement | null;
+    const viewport = getViewport();
     if (!viewport) return;
 
+    let lastScrollTop = viewport.scrollTop;
     const onScroll = () => {
       const tolerance = 120;
       const atBottom =
         viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight <=
         tolerance;
       setAutoScrollEnabled(atBottom);
+
+      // Only when the user scrolls up, not during the scroll-to-bottom on open
+      const scrollingUp = viewport.scrollTop < lastScrollTop;
+      lastScrollTop = viewport.scrollTop;
+      if (scrollingUp && viewport.scrollTop < LOAD_OLDER_THRESHOLD_PX) {
+        loadOlderMessages();
+      }
     };
 
     viewport.addEventListener("scroll", onScroll, { passive: true });
@@ -193,7 +332,26 @@ export function ChatInterface({}: ChatInterfaceProps) {
     return () => viewport.removeEventListener("scroll", onScroll);
   }, [scrollAreaRef.current]);
 
-  const handleSendMessage = async (messageText?: string) => {
+  // Apply a patch to one message, both in the visible list and in the per-chat cache
+  const patchMessage = (
+    chatKey: string,
+    messageId: string,
+    patch: (message: ExtendedChatMessage) => Partial<ExtendedChatMessage>
+  ) => {
+    const apply = (list: ExtendedChatMessage[]) =>
+      list.map((m) => (m.id === messageId ? { ...m, ...patch(m) } : m));
+    setMessages(apply);
+    setMessagesByChat((prevMap) => ({
+      ...prevMap,
+      [chatKey]: apply(prevMap[chatKey] || []),
+    }));
+  };
+
+  const handleStopStreaming = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleSendMessage = async (messageText?: string, branch?: BranchTarget) => {
     const message = messageText || inputValue.trim();
     if (!message || isLoading) return;
 
@@ -212,98 +370,180 @@ export function ChatInterface({}: ChatInterfaceProps) {
         chat_id: currentChatId || "temp",
         message: message,
         user_id: user.id,
+        is_edited: !!branch && !branch.regenerate,
     };
-    
+
     const wasNewChat = !currentChatId;
-    const chatKeyForUserMessage = currentChatId || "__new__";
+    // Moves from "__new__" to the real id as soon as the server reports it
+    let chatKey = currentChatId || "__new__";
+
+    // Placeholder that the stream fills in token by token
+    const assistantMessageId = `asst-${Date.now()}`;
+    const assistantMessage: ExtendedChatMessage = {
+        id: assistantMessageId,
+        role: "assistant",
+        content: "",
+        message: "",
+        timestamp: new Date().toISOString(),
+        chat_id: currentChatId || "temp",
+        user_id: user.id,
+        isTyping: true,
+        isNew: true,
+    };
+
+    // A branch replaces everything from the forked message on, keeping the old
+    // tail as an alternative; a regenerated reply reuses the existing user turn
+    const newTail = branch?.regenerate ? [assistantMessage] : [userMessage, assistantMessage];
+    const addTail = (list: ExtendedChatMessage[]) =>
+        branch ? forkBranch(list, branch.index, newTail) : [...list, ...newTail];
+    // Only a stored message can be branched from; the server doesn't know placeholder ids
+    const parentId = branch ? messages[branch.index - 1]?.id : undefined;
+    const parentMessageId = isTempMessageId(parentId) ? undefined : parentId;
 
     // Use functional updates to ensure state consistency
-    setMessages(prevMessages => [...prevMessages, userMessage]);
-    setMessagesByChat(prevMap => {
-        const existingMessages = prevMap[chatKeyForUserMessage] || [];
-        return { ...prevMap, [chatKeyForUserMessage]: [...existingMessages, userMessage] };
-    });
+    setMessages(addTail);
+    setMessagesByChat(prevMap => ({
+        ...prevMap,
+        [chatKey]: addTail(prevMap[chatKey] || []),
+    }));
 
-    setInputValue("");
+    if (!branch) setInputValue("");
     setIsLoading(true);
+    setStreamingMessageId(assistantMessageId);
     setTimeout(() => scrollToBottom(), 100);
 
+    const chatMessage: ChatMessageType = {
+        message: message,
+        chat_id: currentChatId,
+        user_id: user.id,
+        ...(branch && {
+            ...(parentMessageId && { parent_message_id: parentMessageId }),
+            regenerate: !!branch.regenerate,
+            is_edited: !branch.regenerate,
+        }),
+    };
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    // The server can create the chat before the reply fails or is stopped, so
+    // the new chat is adopted as soon as its id arrives, not only on success
+    const adoptChatId = (chatId: string) => {
+        if (!wasNewChat || chatKey !== "__new__") return;
+        chatKey = chatId;
+        // Move messages from the temporary '__new__' key to the permanent new chat ID
+        setMessagesByChat(prevMap => {
+            const { __new__: tempMessages = [], ...rest } = prevMap;
+            return {
+                ...rest,
+                [chatId]: tempMessages,
+            };
+        });
+
+        setCurrentChatId(chatId);
+        navigate(`/chat/${chatId}`, { replace: true });
+        loadChats();
+    };
+
     try {
-        const chatMessage = {
-            message: message,
-            chat_id: currentChatId,
-            user_id: user.id,
-        };
+        const response = await apiService.sendMessageStream(
+            chatMessage,
+            {
+                onChatId: adoptChatId,
+                onToken: (token) => {
+                    patchMessage(chatKey, assistantMessageId, (m) => {
+                        const content = (m.content || "") + token;
+                        return { content, message: content };
+                    });
+                },
+            },
+            controller.signal
+        );
 
-        const response = await apiService.sendMessage(chatMessage);
         const responseChatId = response.reply.chat_id;
+        const suggestions = response.reply.follow_up_suggestions || [];
+        const replyId = response.reply.message_id || assistantMessageId;
 
-        const assistantMessageId = `asst-${Date.now()}`;
-        const assistantMessage: ExtendedChatMessage = {
-            id: assistantMessageId,
-            role: "assistant",
-            content: response.reply.content,
-            message: response.reply.content,
-            timestamp: new Date().toISOString(),
+        // Suggestions are only attached once the stream has finished
+        suggestionsMapRef.current.set(replyId, suggestions);
+        patchMessage(chatKey, assistantMessageId, () => ({
+            id: replyId,
             chat_id: responseChatId,
-            user_id: user.id,
-            follow_up_suggestions: response.reply.follow_up_suggestions || [],
-            isTyping: true,
-            isNew: true,
-        };
-        
-        // Handle the state transition from a new chat to an existing one correctly
-        if (wasNewChat && responseChatId) {
-            // New chat has been created on the server, so we update the state atomically
-            
-            // 1. Update the messages in the view
-            setMessages(prevMessages => [...prevMessages, assistantMessage]);
-            
-            // 2. Move messages from the temporary '__new__' key to the permanent new chat ID
-            setMessagesByChat(prevMap => {
-                const tempMessages = prevMap["__new__"] || [];
-                const { __new__, ...rest } = prevMap; // Remove the temporary key
-                return {
-                    ...rest,
-                    [responseChatId]: [...tempMessages, assistantMessage],
-                };
-            });
-            
-            // 3. Set the current chat ID to the new one
-            setCurrentChatId(responseChatId);
-            
-            // 4. Refresh the conversation list
-            loadChats(); 
+            follow_up_suggestions: suggestions,
+            isTyping: false,
+        }));
+        // Swap the placeholder ids for the stored ones so later edits and
+        // regenerations can branch from these messages
+        if (response.reply.user_message_id && !branch?.regenerate) {
+            patchMessage(chatKey, tempMessageId, () => ({ id: response.reply.user_message_id }));
+        }
 
+        // Backends that only report the id with the final reply
+        if (responseChatId) adoptChatId(responseChatId);
+
+        handleMessageComplete();
+    } catch (error) {
+        if (controller.signal.aborted) {
+            // Keep whatever was streamed so far
+            patchMessage(chatKey, assistantMessageId, (m) => ({
+                isTyping: false,
+                content: m.content || "_Response stopped._",
+                message: m.content || "_Response stopped._",
+            }));
+            toast.info("Response stopped");
+        } else if (syncService.isOfflineError(error)) {
+            // Keep the message in the outbox and send it once we're back online
+            await syncService.queue("chat.send", chatMessage);
+            const queuedText = "_You're offline. This message will be sent when the connection is back._";
+            patchMessage(chatKey, assistantMessageId, () => ({
+                isTyping: false,
+                isNew: false,
+                content: queuedText,
+                message: queuedText,
+            }));
+            toast.info("Offline - message queued");
         } else {
-            // This is an existing chat, update as normal
-            const chatKey = currentChatId!;
-            setMessages(prevMessages => [...prevMessages, assistantMessage]);
-            setMessagesByChat(prevMap => ({
-                ...prevMap,
-                [chatKey]: [...(prevMap[chatKey] || []), assistantMessage],
+            console.error("Failed to send message:", error);
+            toast.error("Failed to send message");
+            const fallbackText = "I'm sorry, but I'm unable to connect to the backend server.";
+            patchMessage(chatKey, assistantMessageId, (m) => ({
+                isTyping: false,
+                isNew: false,
+                content: m.content || fallbackText,
+                message: m.content || fallbackText,
             }));
         }
-
-    } catch (error) {
-        console.error("Failed to send message:", error);
-        toast.error("Failed to send message");
-        const fallbackMessage: ExtendedChatMessage = {
-            id: `error-${Date.now()}`,
-            role: "assistant",
-            content: "I'm sorry, but I'm unable to connect to the backend server.",
-            timestamp: new Date().toISOString(),
-            chat_id: currentChatId || "fallback",
-            message: "I'm sorry, but I'm unable to connect to the backend server.",
-            isTyping: false,
-            isNew: false,
-        };
-        setMessages((prev) => [...prev, fallbackMessage]);
     } finally {
+        if (abortControllerRef.current === controller) {
+            abortControllerRef.current = null;
+        }
+        setStreamingMessageId(null);
         setIsLoading(false);
     }
   };
 
+  // Resend an edited user message as a new branch from that point
+  const handleEditMessage = (index: number, content: string) => {
+    const original = messages[index];
+    if (!original || original.role !== "user" || content.trim() === original.content) return;
+    handleSendMessage(content.trim(), { index });
+  };
+
+  // Ask for another reply to the user message before `index`
+  const handleRegenerate = (index: number) => {
+    const prompt = messages[index - 1];
+    if (!prompt || prompt.role !== "user" || !prompt.content) return;
+    handleSendMessage(prompt.content, { index, regenerate: true });
+  };
+
+  const handleSwitchBranch = (index: number, target: number) => {
+    if (isLoading) return;
+    const chatKey = currentChatId || "__new__";
+    const apply = (list: ExtendedChatMessage[]) => switchBranch(list, index, target);
+    setMessages(apply);
+    setMessagesByChat((prev) => ({ ...prev, [chatKey]: apply(prev[chatKey] || []) }));
+  };
+
   const handleMessageComplete = () => {
     if (autoScrollEnabled) scrollToBottom();
     toast.success("Response ready", { duration: 1500 });
@@ -312,6 +552,7 @@ export function ChatInterface({}: ChatInterfaceProps) {
   const handleNewChat = () => {
     console.log("🆕 Creating new chat");
     setCurrentChatId(undefined);
+    if (routeChatId) navigate("/chat");
     setMessages([]);
     setUploadedFiles([]);
     suggestionsMapRef.current.clear();
@@ -320,10 +561,18 @@ export function ChatInterface({}: ChatInterfaceProps) {
 
   const handleChatSelect = (chatId: string) => {
     console.log("🔄 Switching to chat:", chatId);
-    setCurrentChatId(chatId);
+    navigate(`/chat/${chatId}`);
   };
 
-  const handleDeleteChat = async (chatId: string) => {
+  const handleChatUpdated = (updated: Chat) => {
+    setChats((prev) =>
+      prev.some((chat) => chat.id === updated.id)
+        ? prev.map((chat) => (chat.id === updated.id ? updated : chat))
+        : [updated, ...prev]
+    );
+  };
+
+  const handleDeleteChat = async (chatId: string): Promise<boolean> => {
     try {
       await apiService.deleteChat(chatId);
       setChats((prev) => prev.filter((chat) => chat.id !== chatId));
@@ -334,9 +583,11 @@ export function ChatInterface({}: ChatInterfaceProps) {
         handleNewChat();
       }
       toast.success("Chat deleted successfully");
+      return true;
     } catch (error) {
       console.error("Failed to delete chat:", error);
       toast.error("Failed to delete chat");
+      return false;
     }
   };
 
@@ -357,6 +608,7 @@ export function ChatInterface({}: ChatInterfaceProps) {
     if (newChatId && !currentChatId) {
       console.log("📎 Setting chat ID from file upload:", newChatId);
       setCurrentChatId(newChatId);
+      navigate(`/chat/${newChatId}`, { replace: true });
       loadChats();
     }
 
@@ -382,12 +634,22 @@ export function ChatInterface({}: ChatInterfaceProps) {
     { value: "professional", label: "Professional" },
   ];
 
+  // Only the messages near the viewport are mounted; heights are measured as
+  // rows render so long conversations stay smooth
+  const rowVirtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: getViewport,
+    estimateSize: () => 160,
+    overscan: 6,
+    getItemKey: (index) => messages[index]?.id || `msg-${index}`,
+  });
+
   return (
     <div className="flex-1 flex h-full bg-background overflow-hidden">
       {/* Chat Sidebar */}
       <div className="w-72 border-r border-border bg-sidebar/50 flex flex-col overflow-hidden">
         <div className="p-4 border-b border-sidebar-border">
-          <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center justify-between">
             <h2 className="font-semibold text-sidebar-foreground">
               Conversations
             </h2>
@@ -398,63 +660,32 @@ export function ChatInterface({}: ChatInterfaceProps) {
           </div>
         </div>
 
-        <ScrollArea className="flex-1">
-          <div className="p-2">
-            {!chats || chats.length === 0 ? (
-              <div className="text-center py-8 px-4">
-                <MessageSquare className="size-8 mx-auto mb-3 text-muted-foreground/50" />
-                <p className="text-sm text-muted-foreground">
-                  No conversations yet
-                </p>
-                <p className="text-xs text-muted-foreground mt-1">
-                  Start a new chat to begin learning
-                </p>
-              </div>
-            ) : (
-              <div className="space-y-1">
-                {chats.map((chat) => (
-                  <div
-                    key={chat.id}
-                    className={`relative flex items-center px-2 py-3 cursor-pointer group rounded-lg ${
-                      currentChatId === chat.id
-                        ? "bg-sidebar-accent text-sidebar-accent-foreground"
-                        : "hover:bg-sidebar-accent/50 text-sidebar-foreground"
-                    }`}
-                    onClick={() => handleChatSelect(chat.id)}
-                  >
-                    <div className="flex items-center gap-3 flex-1 min-w-0 pr-8">
-                      <MessageSquare className="size-4 shrink-0" />
-                      <div className="flex-1 min-w-0">
-                        <div className="font-medium truncate max-w-[180px]">
-                          {chat.title.length > 25
-                            ? `${chat.title.substring(0, 25)}...`
-                            : chat.title}
-                        </div>
-                        {chat.level && (
-                          <div className="text-xs text-muted-foreground truncate">
-                            {educationLevels.find((l) => l.value === chat.level)
-                              ?.label || chat.level}
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8 p-0 absolute right-2 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
-                      onClick={(e: React.MouseEvent) => {
-                        e.stopPropagation();
-                        handleDeleteChat(chat.id);
-                      }}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                ))}
-              </div>
-            )}
-          </div>
-        </ScrollArea>
+        <ChatList
+          chats={chats}
+          currentChatId={currentChatId}
+          onChatSelect={handleChatSelect}
+          onChatDelete={handleDeleteChat}
+          onChatUpdated={handleChatUpdated}
+          renderMeta={(chat) =>
+            [
+              chat.category,
+              educationLevels.find((l) => l.value === chat.level)?.label || chat.level,
+            ]
+              .filter(Boolean)
+              .join(" · ")
+          }
+          emptyState={
+            <div className="text-center py-8 px-4">
+              <MessageSquare className="size-8 mx-auto mb-3 text-muted-foreground/50" />
+              <p className="text-sm text-muted-foreground">
+                No conversations yet
+              </p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Start a new chat to begin learning
+              </p>
+            </div>
+          }
+        />
       </div>
 
       {/* Chat Area */}
@@ -489,31 +720,79 @@ export function ChatInterface({}: ChatInterfaceProps) {
             </div>
           ) : (
             <div>
-              {messages.map((message, index) => {
-                const messageId = message.id || `msg-${index}`;
-                const suggestionsFromRef =
-                  suggestionsMapRef.current.get(messageId);
-                const messageSuggestions =
-                  message.role === "assistant"
-                    ? suggestionsFromRef || message.follow_up_suggestions || []
-                    : [];
-
-                return (
-                  <ChatMessage
-                    key={messageId}
-                    message={{
-                      role: message.role || "assistant",
-                      content: message.content || "",
-                    }}
-                    suggestions={messageSuggestions}
-                    onSuggestionClick={handleSendMessage}
-                    isTyping={false}
-                    showCursor={false}
-                  />
-                );
-              })}
-
-              {isLoading && (
+              <div
+                className="relative w-full"
+                style={{ height: rowVirtualizer.getTotalSize() }}
+              >
+                {isLoadingOlder && (
+                  <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 rounded-full border border-border bg-background/90 px-3 py-1 text-xs text-muted-foreground shadow-sm">
+                    <Loader2 className="size-3 animate-spin" />
+                    Loading earlier messages...
+                  </div>
+                )}
+                {rowVirtualizer.getVirtualItems().map((virtualRow) => {
+                  const message = messages[virtualRow.index];
+                  const messageId = message.id || `msg-${virtualRow.index}`;
+                  // The streaming placeholder stays hidden until the first token arrives;
+                  // the "Thinking..." row below stands in for it.
+                  const isHidden =
+                    messageId === streamingMessageId && !message.content;
+                  const suggestionsFromRef =
+                    suggestionsMapRef.current.get(messageId);
+                  const messageSuggestions =
+                    message.role === "assistant"
+                      ? suggestionsFromRef || message.follow_up_suggestions || []
+                      : [];
+
+                  return (
+                    <div
+                      key={virtualRow.key}
+                      data-index={virtualRow.index}
+                      ref={rowVirtualizer.measureElement}
+                      className="absolute top-0 left-0 w-full"
+                      style={{ transform: `translateY(${virtualRow.start}px)` }}
+                    >
+                      {!isHidden && (
+                        <ChatMessage
+                          message={{
+                            role: message.role || "assistant",
+                            content: message.content || "",
+                          }}
+                          suggestions={messageSuggestions}
+                          onSuggestionClick={handleSendMessage}
+                          isTyping={!!message.isTyping}
+                          showCursor={messageId === streamingMessageId}
+                          isEdited={!!message.is_edited}
+                          actionsDisabled={isLoading}
+                          onEdit={
+                            message.role === "user"
+                              ? (content) => handleEditMessage(virtualRow.index, content)
+                              : undefined
+                          }
+                          onRegenerate={
+                            message.role === "assistant" && virtualRow.index > 0
+                              ? () => handleRegenerate(virtualRow.index)
+                              : undefined
+                          }
+                          branch={
+                            message.branches && message.branches.length > 1
+                              ? {
+                                  current: message.branchIndex ?? 0,
+                                  total: message.branches.length,
+                                  onSelect: (target) =>
+                                    handleSwitchBranch(virtualRow.index, target),
+                                }
+                              : undefined
+                          }
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {isLoading &&
+                !messages.find((m) => m.id === streamingMessageId)?.content && (
                 <div className="w-full bg-muted/30 border-b border-border/50">
                   <div className="max-w-3xl mx-auto px-4 py-6">
                     <div className="flex gap-4">
@@ -581,18 +860,30 @@ export function ChatInterface({}: ChatInterfaceProps) {
                   rows={1}
                 />
 
-                <Button
-                  onClick={() => handleSendMessage()}
-                  disabled={!inputValue.trim() || isLoading}
-                  size="sm"
-                  className="rounded-xl size-9 p-0 shrink-0"
-                >
-                  {isLoading ? (
-                    <Loader2 className="size-4 animate-spin" />
-                  ) : (
-                    <ArrowUp className="size-4" />
-                  )}
-                </Button>
+                {streamingMessageId ? (
+                  <Button
+                    onClick={handleStopStreaming}
+                    size="sm"
+                    variant="outline"
+                    className="rounded-xl size-9 p-0 shrink-0"
+                    title="Stop generating"
+                  >
+                    <Square className="size-3.5 fill-current" />
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={() => handleSendMessage()}
+                    disabled={!inputValue.trim() || isLoading}
+                    size="sm"
+                    className="rounded-xl size-9 p-0 shrink-0"
+                  >
+                    {isLoading ? (
+                      <Loader2 className="size-4 animate-spin" />
+                    ) : (
+                      <ArrowUp className="size-4" />
+                    )}
+                  </Button>
+                )}
               </div>
 
               <p className="text-xs text-muted-foreground text-center mt-2">
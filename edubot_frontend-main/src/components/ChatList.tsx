@@ -0,0 +1,460 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { ScrollArea } from './ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import {
+  Archive,
+  ArchiveRestore,
+  Edit3,
+  Loader2,
+  MessageSquare,
+  MoreHorizontal,
+  Pin,
+  PinOff,
+  Search,
+  Tag,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { apiService, ApiError, Chat, ChatSearchResult } from '../services/api';
+import { ChatGrouping, getChatCategories, groupChats } from '../lib/chatGroups';
+import { toast } from 'sonner';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+interface ChatListProps {
+  chats: Chat[];
+  currentChatId?: string;
+  loading?: boolean;
+  onChatSelect: (chatId: string) => void;
+  // Resolves to true when the chat was actually deleted
+  onChatDelete: (chatId: string) => Promise<boolean>;
+  // Called with the updated chat after a rename, pin, archive or category change
+  onChatUpdated: (chat: Chat) => void;
+  // Secondary line under the title, e.g. the education level
+  renderMeta?: (chat: Chat) => React.ReactNode;
+  emptyState?: React.ReactNode;
+}
+
+type EditField = 'title' | 'category';
+
+// Searchable, grouped conversation list with rename, pin, archive and category actions
+export function ChatList({
+  chats,
+  currentChatId,
+  loading = false,
+  onChatSelect,
+  onChatDelete,
+  onChatUpdated,
+  renderMeta,
+  emptyState,
+}: ChatListProps) {
+  const [query, setQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<ChatSearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [grouping, setGrouping] = useState<ChatGrouping>('date');
+  const [showArchived, setShowArchived] = useState(false);
+  const [archivedChats, setArchivedChats] = useState<Chat[]>([]);
+  const [loadingArchived, setLoadingArchived] = useState(false);
+  const [editing, setEditing] = useState<{ chatId: string; field: EditField } | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const editInputRef = useRef<HTMLInputElement>(null);
+  // Enter/Escape and the blur that follows must only resolve an edit once
+  const editingRef = useRef<{ chatId: string; field: EditField } | null>(null);
+
+  const activeChats = useMemo(() => chats.filter((chat) => !chat.is_archived), [chats]);
+
+  // The main list may already contain chats archived during this session
+  const visibleArchived = useMemo(() => {
+    const byId = new Map(archivedChats.map((chat) => [chat.id, chat]));
+    chats.filter((chat) => chat.is_archived).forEach((chat) => byId.set(chat.id, chat));
+    return Array.from(byId.values());
+  }, [archivedChats, chats]);
+
+  const listedChats = showArchived ? visibleArchived : activeChats;
+  const groups = useMemo(() => groupChats(listedChats, grouping), [listedChats, grouping]);
+  const categories = useMemo(() => getChatCategories([...chats, ...archivedChats]), [chats, archivedChats]);
+
+  useEffect(() => {
+    if (!showArchived) return;
+
+    let cancelled = false;
+    setLoadingArchived(true);
+    apiService
+      .getArchivedChats()
+      .then((response) => {
+        if (!cancelled) setArchivedChats(response.chats || []);
+      })
+      .catch((error) => {
+        console.error('Failed to load archived chats:', error);
+        if (!cancelled) toast.error('Failed to load archived chats');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingArchived(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showArchived]);
+
+  // Debounced full-text search; falls back to matching titles locally if the
+  // search endpoint is unavailable
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setSearchResults(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiService.searchChats(trimmed, showArchived, controller.signal);
+        setSearchResults(response.results || []);
+      } catch (error) {
+        if (error instanceof ApiError && error.code === 'aborted') return;
+        console.error('Chat search failed:', error);
+        const needle = trimmed.toLowerCase();
+        setSearchResults(
+          listedChats
+            .filter((chat) => chat.title.toLowerCase().includes(needle))
+            .map((chat) => ({ chat, matched_in: 'title' as const }))
+        );
+      }
+      setIsSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, showArchived]);
+
+  useEffect(() => {
+    if (editing) {
+      editInputRef.current?.focus();
+      editInputRef.current?.select();
+    }
+  }, [editing]);
+
+  const applyUpdate = (updated: Chat) => {
+    setArchivedChats((prev) => {
+      const rest = prev.filter((chat) => chat.id !== updated.id);
+      return updated.is_archived ? [updated, ...rest] : rest;
+    });
+    setSearchResults((prev) =>
+      prev
+        ? prev.map((result) => (result.chat.id === updated.id ? { ...result, chat: updated } : result))
+        : prev
+    );
+    onChatUpdated(updated);
+  };
+
+  const runUpdate = async (action: () => Promise<unknown>, updated: Chat, successMessage?: string) => {
+    try {
+      await action();
+      applyUpdate(updated);
+      if (successMessage) toast.success(successMessage);
+    } catch (error) {
+      console.error('Failed to update chat:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update chat');
+    }
+  };
+
+  const startEditing = (chat: Chat, field: EditField) => {
+    editingRef.current = { chatId: chat.id, field };
+    setEditing(editingRef.current);
+    setEditValue(field === 'title' ? chat.title : chat.category || '');
+  };
+
+  const cancelEditing = () => {
+    editingRef.current = null;
+    setEditing(null);
+    setEditValue('');
+  };
+
+  const commitEditing = async (chat: Chat) => {
+    if (!editingRef.current) return;
+    const { field } = editingRef.current;
+    const value = editValue.trim();
+    cancelEditing();
+
+    if (field === 'title') {
+      if (!value || value === chat.title) return;
+      await runUpdate(() => apiService.renameChat(chat.id, value), { ...chat, title: value });
+    } else {
+      if (value === (chat.category || '')) return;
+      await runUpdate(
+        () => apiService.setChatCategory(chat.id, value || null),
+        { ...chat, category: value || undefined },
+        value ? `Moved to "${value}"` : 'Category removed'
+      );
+    }
+  };
+
+  const handleToggleFavorite = (chat: Chat) =>
+    runUpdate(
+      () => apiService.setChatFavorite(chat.id, !chat.is_favorite),
+      { ...chat, is_favorite: !chat.is_favorite }
+    );
+
+  const handleToggleArchived = (chat: Chat) =>
+    runUpdate(
+      () => apiService.setChatArchived(chat.id, !chat.is_archived),
+      { ...chat, is_archived: !chat.is_archived },
+      chat.is_archived ? 'Chat restored' : 'Chat archived'
+    );
+
+  const handleDelete = async (chat: Chat) => {
+    const deleted = await onChatDelete(chat.id);
+    if (!deleted) return;
+    setArchivedChats((prev) => prev.filter((item) => item.id !== chat.id));
+    setSearchResults((prev) => (prev ? prev.filter((result) => result.chat.id !== chat.id) : prev));
+  };
+
+  const renderChat = (chat: Chat, snippet?: string) => {
+    const isEditing = editing?.chatId === chat.id;
+
+    return (
+      <div
+        key={chat.id}
+        className={`group relative flex items-center gap-3 px-2 py-2.5 rounded-lg cursor-pointer transition-colors ${
+          currentChatId === chat.id
+            ? 'bg-sidebar-accent text-sidebar-accent-foreground'
+            : 'hover:bg-sidebar-accent/50 text-sidebar-foreground'
+        }`}
+        onClick={() => !isEditing && onChatSelect(chat.id)}
+      >
+        {chat.is_favorite ? (
+          <Pin className="size-4 shrink-0 text-amber-500" />
+        ) : (
+          <MessageSquare className="size-4 shrink-0 text-muted-foreground" />
+        )}
+
+        <div className="flex-1 min-w-0 pr-6">
+          {isEditing ? (
+            <Input
+              ref={editInputRef}
+              value={editValue}
+              list={editing.field === 'category' ? 'chat-categories' : undefined}
+              placeholder={editing.field === 'category' ? 'Category name' : 'Chat title'}
+              className="h-7 text-sm"
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => setEditValue(e.target.value)}
+              onBlur={() => commitEditing(chat)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  commitEditing(chat);
+                } else if (e.key === 'Escape') {
+                  cancelEditing();
+                }
+              }}
+            />
+          ) : (
+            <div
+              className="text-sm font-medium truncate"
+              title={chat.title}
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                startEditing(chat, 'title');
+              }}
+            >
+              {chat.title}
+            </div>
+          )}
+          {snippet ? (
+            <div className="text-xs text-muted-foreground line-clamp-2">{snippet}</div>
+          ) : (
+            renderMeta && !isEditing && (
+              <div className="text-xs text-muted-foreground truncate">{renderMeta(chat)}</div>
+            )
+          )}
+        </div>
+
+        {!isEditing && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7 p-0 absolute right-1.5 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 text-muted-foreground"
+                onClick={(e: React.MouseEvent) => e.stopPropagation()}
+                title="Chat actions"
+              >
+                <MoreHorizontal className="size-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent
+              align="end"
+              onClick={(e) => e.stopPropagation()}
+              // Keep focus on the inline editor instead of returning it to the trigger
+              onCloseAutoFocus={(e) => e.preventDefault()}
+            >
+              <DropdownMenuItem onSelect={() => startEditing(chat, 'title')}>
+                <Edit3 className="size-4" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleToggleFavorite(chat)}>
+                {chat.is_favorite ? <PinOff className="size-4" /> : <Pin className="size-4" />}
+                {chat.is_favorite ? 'Unpin' : 'Pin to top'}
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => startEditing(chat, 'category')}>
+                <Tag className="size-4" />
+                {chat.category ? 'Change category' : 'Set category'}
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleToggleArchived(chat)}>
+                {chat.is_archived ? <ArchiveRestore className="size-4" /> : <Archive className="size-4" />}
+                {chat.is_archived ? 'Restore' : 'Archive'}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem variant="destructive" onSelect={() => handleDelete(chat)}>
+                <Trash2 className="size-4" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    );
+  };
+
+  const renderBody = () => {
+    if (loading || (showArchived && loadingArchived && visibleArchived.length === 0)) {
+      return (
+        <div className="space-y-2">
+          {[...Array(8)].map((_, i) => (
+            <div key={i} className="h-10 bg-sidebar-accent/50 rounded-lg animate-pulse" />
+          ))}
+        </div>
+      );
+    }
+
+    if (searchResults) {
+      if (searchResults.length === 0 && !isSearching) {
+        return (
+          <p className="text-sm text-muted-foreground text-center py-8 px-4">
+            No conversations match "{query.trim()}"
+          </p>
+        );
+      }
+      return (
+        <div className="space-y-1">
+          {searchResults.map((result) => {
+            // Prefer the local copy so edits made since the search are reflected
+            const chat = listedChats.find((item) => item.id === result.chat.id) || result.chat;
+            return renderChat(chat, result.matched_in === 'message' ? result.snippet : undefined);
+          })}
+        </div>
+      );
+    }
+
+    if (listedChats.length === 0) {
+      return showArchived ? (
+        <div className="text-center py-8 px-4">
+          <Archive className="size-8 mx-auto mb-3 text-muted-foreground/50" />
+          <p className="text-sm text-muted-foreground">No archived conversations</p>
+        </div>
+      ) : (
+        emptyState || (
+          <div className="text-center py-8 px-4">
+            <MessageSquare className="size-8 mx-auto mb-3 text-muted-foreground/50" />
+            <p className="text-sm text-muted-foreground">No conversations yet</p>
+          </div>
+        )
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {groups.map((group) => (
+          <div key={group.label}>
+            <div className="px-2 pb-1 text-xs font-medium text-muted-foreground">{group.label}</div>
+            <div className="space-y-1">{group.chats.map((chat) => renderChat(chat))}</div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <div className="px-3 pt-3 pb-2 space-y-2">
+        <div className="relative">
+          <Search className="size-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && setQuery('')}
+            placeholder={showArchived ? 'Search archived chats' : 'Search chats'}
+            className="h-8 pl-8 pr-8 text-sm"
+          />
+          {isSearching ? (
+            <Loader2 className="size-4 absolute right-2.5 top-1/2 -translate-y-1/2 animate-spin text-muted-foreground" />
+          ) : (
+            query && (
+              <button
+                type="button"
+                onClick={() => setQuery('')}
+                className="absolute right-2.5 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                title="Clear search"
+              >
+                <X className="size-4" />
+              </button>
+            )
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={grouping} onValueChange={(value) => setGrouping(value as ChatGrouping)}>
+            <SelectTrigger size="sm" className="h-7 flex-1 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="date">Group by date</SelectItem>
+              <SelectItem value="category">Group by category</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant={showArchived ? 'secondary' : 'ghost'}
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => setShowArchived((prev) => !prev)}
+            title={showArchived ? 'Back to conversations' : 'Show archived conversations'}
+          >
+            <Archive className="size-3.5 mr-1" />
+            {showArchived ? 'Archived' : 'Archive'}
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="px-2 pb-2">{renderBody()}</div>
+      </ScrollArea>
+
+      <datalist id="chat-categories">
+        {categories.map((category) => (
+          <option key={category} value={category} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
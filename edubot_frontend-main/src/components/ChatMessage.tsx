@@ -1,8 +1,10 @@
+import { useState } from 'react';
 import { Avatar, AvatarFallback } from "./ui/avatar";
-import { Bot, User } from "lucide-react";
-import CodeBlocks from './CodeBlocks';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { Bot, Check, ChevronLeft, ChevronRight, Copy, Pencil, RefreshCw, User } from "lucide-react";
+import { toast } from 'sonner';
+import { MarkdownContent } from './MarkdownContent';
 
 interface ChatMessageProps {
   message: {
@@ -13,6 +15,17 @@ interface ChatMessageProps {
   onSuggestionClick?: (suggestion: string) => void;
   isTyping?: boolean;
   showCursor?: boolean; // ⭐ NEW: Controls cursor visibility
+  isEdited?: boolean;
+  // Hides edit/regenerate and branch switching, e.g. while a reply is streaming
+  actionsDisabled?: boolean;
+  onEdit?: (content: string) => void;
+  onRegenerate?: () => void;
+  // Alternative versions at this point in the conversation; `current` is 0-based
+  branch?: {
+    current: number;
+    total: number;
+    onSelect: (index: number) => void;
+  };
 }
 
 export function ChatMessage({ 
@@ -20,9 +33,42 @@ export function ChatMessage({
   suggestions = [], 
   onSuggestionClick,
   isTyping = false,
-  showCursor = false // ⭐ NEW: Default to false
+  showCursor = false, // ⭐ NEW: Default to false
+  isEdited = false,
+  actionsDisabled = false,
+  onEdit,
+  onRegenerate,
+  branch,
 }: ChatMessageProps) {
   const isUser = message.role === 'user';
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      // Assistant replies are already markdown, so the raw content is what we copy
+      await navigator.clipboard.writeText(message.content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Failed to copy message:', error);
+      toast.error('Failed to copy message');
+    }
+  };
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    const content = draft.trim();
+    setIsEditing(false);
+    if (content && content !== message.content) {
+      onEdit?.(content);
+    }
+  };
   
   // Debug log
   console.log('💬 ChatMessage render:', {
@@ -35,7 +81,7 @@ export function ChatMessage({
   });
   
   return (
-    <div className={`w-full border-b border-border/50 ${isUser ? 'bg-background' : 'bg-muted/30'}`}>
+    <div className={`group w-full border-b border-border/50 ${isUser ? 'bg-background' : 'bg-muted/30'}`}>
       <div className="max-w-3xl mx-auto px-4 py-6">
         <div className="flex gap-4">
           <Avatar className="size-8 shrink-0 mt-1">
@@ -45,7 +91,32 @@ export function ChatMessage({
           </Avatar>
           
           <div className="flex-1 min-w-0">
-            {isUser ? (
+            {isUser && isEditing ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      submitEdit();
+                    } else if (e.key === 'Escape') {
+                      setIsEditing(false);
+                    }
+                  }}
+                  className="min-h-[80px] text-sm"
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={submitEdit} disabled={!draft.trim() || actionsDisabled}>
+                    Save &amp; send
+                  </Button>
+                </div>
+              </div>
+            ) : isUser ? (
               // For user messages, show plain text
               <div className="whitespace-pre-wrap break-words leading-relaxed text-sm">
                 {message.content}
@@ -54,21 +125,11 @@ export function ChatMessage({
               <>
                 {/* For assistant messages, use markdown rendering */}
                 <div className="prose prose-slate dark:prose-invert max-w-none">
-                  <ReactMarkdown
-                    remarkPlugins={[remarkGfm]}
+                  <MarkdownContent
+                    content={message.content}
                     components={{
-                      // Handle code blocks
-                      code({node, inline, className, children, ...props}: any) {
-                        const codeString = String(children).replace(/\n$/, '');
-                        const match = /language-(\w+)/.exec(className || '');
-                        
-                        if (!inline && match) {
-                          return (
-                            <CodeBlocks content={`\`\`\`${match[1]}\n${codeString}\n\`\`\``} />
-                          );
-                        }
-                        
-                        // For inline code
+                      // Inline code; fenced blocks go through the shared CodeBlock
+                      code({node, className, children, ...props}: any) {
                         return (
                           <code 
                             className="px-1.5 py-0.5 rounded bg-muted/50 text-sm font-mono border border-border/30"
@@ -174,9 +235,7 @@ export function ChatMessage({
                         return <hr className="my-6 border-border" />;
                       },
                     }}
-                  >
-                    {message.content}
-                  </ReactMarkdown>
+                  />
                   
                   {/* ⭐ NEW: Show typing cursor when actively typing */}
                   {showCursor && (
@@ -203,6 +262,55 @@ export function ChatMessage({
                 )}
               </>
             )}
+
+            {/* Hover actions; the branch switcher stays visible */}
+            {!isTyping && !isEditing && message.content && (
+              <div className="mt-2 flex items-center gap-1 text-muted-foreground">
+                {branch && (
+                  <div className="flex items-center text-xs mr-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-6"
+                      onClick={() => branch.onSelect(branch.current - 1)}
+                      disabled={actionsDisabled || branch.current === 0}
+                      title="Previous version"
+                    >
+                      <ChevronLeft className="size-3.5" />
+                    </Button>
+                    <span className="tabular-nums">
+                      {branch.current + 1}/{branch.total}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-6"
+                      onClick={() => branch.onSelect(branch.current + 1)}
+                      disabled={actionsDisabled || branch.current === branch.total - 1}
+                      title="Next version"
+                    >
+                      <ChevronRight className="size-3.5" />
+                    </Button>
+                  </div>
+                )}
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                  <Button variant="ghost" size="icon" className="size-6" onClick={handleCopy} title="Copy as markdown">
+                    {copied ? <Check className="size-3.5" /> : <Copy className="size-3.5" />}
+                  </Button>
+                  {isUser && onEdit && !actionsDisabled && (
+                    <Button variant="ghost" size="icon" className="size-6" onClick={startEditing} title="Edit and resend">
+                      <Pencil className="size-3.5" />
+                    </Button>
+                  )}
+                  {!isUser && onRegenerate && !actionsDisabled && (
+                    <Button variant="ghost" size="icon" className="size-6" onClick={onRegenerate} title="Regenerate response">
+                      <RefreshCw className="size-3.5" />
+                    </Button>
+                  )}
+                </div>
+                {isEdited && <span className="text-xs">(edited)</span>}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -1,8 +1,8 @@
 import { useState, useEffect } from 'react';
 import { Button } from './ui/button';
-import { ScrollArea } from './ui/scroll-area';
-import { MessageSquare, Plus, Edit3, Trash2, LogOut } from 'lucide-react';
+import { Plus, LogOut } from 'lucide-react';
 import { ThemeToggle } from './ThemeToggle';
+import { ChatList } from './ChatList';
 import { apiService, Chat, User } from '../services/api';
 import { toast } from 'sonner';  // FIXED: Removed @2.0.3
 
@@ -34,9 +34,7 @@ export function ChatSidebar({ currentChatId, onChatSelect, onNewChat, user, onLo
     }
   };
 
-  const handleDeleteChat = async (chatId: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    
+  const handleDeleteChat = async (chatId: string): Promise<boolean> => {
     try {
       await apiService.deleteChat(chatId);
       setChats(prev => prev.filter(chat => chat.id !== chatId));
@@ -46,11 +44,21 @@ export function ChatSidebar({ currentChatId, onChatSelect, onNewChat, user, onLo
       if (currentChatId === chatId) {
         onNewChat();
       }
+      return true;
     } catch (error) {
       toast.error('Failed to delete chat');
+      return false;
     }
   };
 
+  const handleChatUpdated = (updated: Chat) => {
+    setChats(prev =>
+      prev.some(chat => chat.id === updated.id)
+        ? prev.map(chat => (chat.id === updated.id ? updated : chat))
+        : [updated, ...prev]
+    );
+  };
+
   const handleLogout = () => {
     apiService.logout();
     onLogout();
@@ -71,47 +79,15 @@ export function ChatSidebar({ currentChatId, onChatSelect, onNewChat, user, onLo
       </div>
 
       {/* Chat List */}
-      <ScrollArea className="flex-1 px-3">
-        <div className="space-y-1">
-          {loading ? (
-            <div className="space-y-2">
-              {[...Array(8)].map((_, i) => (
-                <div key={i} className="h-10 bg-sidebar-accent/50 rounded-lg animate-pulse" />
-              ))}
-            </div>
-          ) : chats.length === 0 ? (
-            <div className="text-center py-12 px-4">
-              <MessageSquare className="size-8 mx-auto text-muted-foreground/50 mb-3" />
-              <p className="text-sm text-muted-foreground">No conversations yet</p>
-            </div>
-          ) : (
-            chats.map((chat) => (
-              <div
-                key={chat.id}
-                className={`group relative flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-colors hover:bg-sidebar-accent ${
-                  currentChatId === chat.id ? 'bg-sidebar-accent' : ''
-                }`}
-                onClick={() => onChatSelect(chat.id)}
-              >
-                <MessageSquare className="size-4 text-muted-foreground shrink-0" />
-                <span className="text-sm truncate flex-1">{chat.title}</span>
-                
-                {/* Hover actions */}
-                <div className="opacity-0 group-hover:opacity-100 flex items-center gap-1 transition-opacity">
-                  <Button 
-                    variant="ghost" 
-                    size="sm" 
-                    className="size-6 p-0 hover:bg-destructive hover:text-destructive-foreground"
-                    onClick={(e) => handleDeleteChat(chat.id, e)}
-                  >
-                    <Trash2 className="size-3" />
-                  </Button>
-                </div>
-              </div>
-            ))
-          )}
-        </div>
-      </ScrollArea>
+      <ChatList
+        chats={chats}
+        currentChatId={currentChatId}
+        loading={loading}
+        onChatSelect={onChatSelect}
+        onChatDelete={handleDeleteChat}
+        onChatUpdated={handleChatUpdated}
+        renderMeta={(chat) => chat.category}
+      />
 
       {/* Footer */}
       <div className="p-3 border-t border-sidebar-border">
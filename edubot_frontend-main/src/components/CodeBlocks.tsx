@@ -1,56 +1,69 @@
-import React, { useState, useMemo } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { Highlight, Prism, themes } from 'prism-react-renderer';
+import { Check, Copy, Download, Play } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import { codeRunner, getSandboxLanguage } from '../services/codeRunner';
+import type { SandboxRunResult } from '../types/sandbox';
+import { SandboxOutput } from './SandboxOutput';
+import {
+  getFileExtension,
+  isLanguageLoaded,
+  loadLanguage,
+  resolveLanguage,
+} from '../lib/highlight';
 
-interface Block {
-  type: 'text' | 'code';
-  content: string;
-  lang?: string | null;
-}
-
-function parseFencedContent(content: string): Block[] {
-  const parts: Block[] = [];
-  const fenceRegex = /```(\w+)?\n([\s\S]*?)```/g;
-  let lastIndex = 0;
-  let match: RegExpExecArray | null;
-
-  while ((match = fenceRegex.exec(content)) !== null) {
-    const index = match.index;
-    if (index > lastIndex) {
-      parts.push({ type: 'text', content: content.slice(lastIndex, index) });
-    }
-
-    parts.push({ type: 'code', lang: match[1] ?? null, content: match[2] });
-    lastIndex = fenceRegex.lastIndex;
-  }
-
-  if (lastIndex < content.length) {
-    parts.push({ type: 'text', content: content.slice(lastIndex) });
-  }
-
-  return parts;
-}
-
-export default function CodeBlocks({ content }: { content: string }) {
-  const blocks = useMemo(() => parseFencedContent(content), [content]);
+const HIGHLIGHTED_LINE_COLOR = 'rgba(250, 204, 21, 0.15)';
 
-  return (
-    <div className="space-y-4">
-      {blocks.map((b, i) =>
-        b.type === 'text' ? (
-          <div key={i} className="whitespace-pre-wrap break-words leading-relaxed text-sm">
-            {b.content}
-          </div>
-        ) : (
-          <CodeBlock key={i} code={b.content} lang={b.lang ?? 'text'} />
-        )
-      )}
-    </div>
-  );
+interface CodeBlockProps {
+  code: string;
+  language?: string | null;
+  // 1-based line numbers to emphasise
+  highlightLines?: number[];
+  // Defaults to on for anything longer than one line
+  showLineNumbers?: boolean;
+  // Used for the download; defaults to "snippet.<ext>"
+  filename?: string;
+  // Show a Run button for Python/JavaScript; on by default
+  runnable?: boolean;
 }
 
-function CodeBlock({ code, lang }: { code: string; lang: string }) {
+// Shared code renderer: syntax highlighting, line numbers, highlighted lines,
+// copy, download and running Python/JavaScript in the sandbox
+export function CodeBlock({
+  code,
+  language,
+  highlightLines = [],
+  showLineNumbers,
+  filename,
+  runnable = true,
+}: CodeBlockProps) {
+  const { actualTheme } = useTheme();
   const [copied, setCopied] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [runResult, setRunResult] = useState<SandboxRunResult | null>(null);
+  const lang = resolveLanguage(language);
+  const sandboxLanguage = runnable ? getSandboxLanguage(lang) : null;
+  const [grammarReady, setGrammarReady] = useState(() => isLanguageLoaded(lang));
+
+  useEffect(() => {
+    if (isLanguageLoaded(lang)) {
+      setGrammarReady(true);
+      return;
+    }
+    let cancelled = false;
+    setGrammarReady(false);
+    loadLanguage(lang).then(() => {
+      if (!cancelled) setGrammarReady(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [lang]);
 
   const trimmed = code.replace(/\n+$/g, '');
+  const lineCount = trimmed.split('\n').length;
+  const numbered = showLineNumbers ?? lineCount > 1;
+  const highlighted = useMemo(() => new Set(highlightLines), [highlightLines]);
 
   async function copy() {
     try {
@@ -62,18 +75,118 @@ function CodeBlock({ code, lang }: { code: string; lang: string }) {
     }
   }
 
+  async function run() {
+    if (!sandboxLanguage) return;
+    setRunning(true);
+    try {
+      setRunResult(await codeRunner.run(sandboxLanguage, trimmed));
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  function download() {
+    const blob = new Blob([trimmed], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename || `snippet.${getFileExtension(lang)}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
   return (
-    <div className="relative bg-surface border border-border rounded-lg overflow-hidden">
+    <div className="not-prose relative my-4 bg-surface border border-border rounded-lg overflow-hidden">
       <div className="flex items-center justify-between px-3 py-2 border-b border-border/60 bg-muted/10 text-xs">
-        <div className="font-medium">{lang || 'text'}</div>
-        <button
-          onClick={copy}
-          className="text-sm px-2 py-0.5 rounded-md bg-muted hover:bg-muted/80 transition-colors"
-        >
-          {copied ? 'Copied' : 'Copy'}
-        </button>
+        <div className="font-medium">{lang === 'plain' ? 'text' : lang}</div>
+        <div className="flex items-center gap-1">
+          {sandboxLanguage && (
+            <button
+              onClick={run}
+              disabled={running}
+              className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-md bg-muted hover:bg-muted/80 transition-colors disabled:opacity-50"
+              title="Run in sandbox"
+            >
+              <Play className="size-3" />
+              Run
+            </button>
+          )}
+          <button
+            onClick={copy}
+            className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-md bg-muted hover:bg-muted/80 transition-colors"
+            title="Copy code"
+          >
+            {copied ? <Check className="size-3" /> : <Copy className="size-3" />}
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          <button
+            onClick={download}
+            className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-md bg-muted hover:bg-muted/80 transition-colors"
+            title="Download as file"
+          >
+            <Download className="size-3" />
+          </button>
+        </div>
       </div>
-      <pre className="p-4 overflow-auto text-sm bg-transparent"><code>{trimmed}</code></pre>
+      <Highlight
+        prism={Prism}
+        code={trimmed}
+        language={grammarReady ? lang : 'plain'}
+        theme={actualTheme === 'dark' ? themes.oneDark : themes.oneLight}
+      >
+        {({ className, style, tokens, getLineProps, getTokenProps }) => (
+          <pre
+            className={`${className} py-4 overflow-auto text-sm`}
+            style={{ ...style, margin: 0, background: 'transparent' }}
+          >
+            <code style={{ display: 'block', minWidth: 'fit-content' }}>
+              {tokens.map((line, i) => {
+                const lineProps = getLineProps({ line });
+                const isHighlighted = highlighted.has(i + 1);
+                return (
+                  <div
+                    key={i}
+                    {...lineProps}
+                    style={{
+                      ...lineProps.style,
+                      padding: '0 1rem',
+                      background: isHighlighted ? HIGHLIGHTED_LINE_COLOR : undefined,
+                    }}
+                  >
+                    {numbered && (
+                      <span
+                        aria-hidden
+                        style={{
+                          display: 'inline-block',
+                          width: `${String(lineCount).length + 1}ch`,
+                          marginRight: '1rem',
+                          textAlign: 'right',
+                          opacity: 0.45,
+                          userSelect: 'none',
+                        }}
+                      >
+                        {i + 1}
+                      </span>
+                    )}
+                    {line.map((token, key) => (
+                      <span key={key} {...getTokenProps({ token })} />
+                    ))}
+                  </div>
+                );
+              })}
+            </code>
+          </pre>
+        )}
+      </Highlight>
+      <SandboxOutput
+        result={runResult}
+        running={running}
+        runningLabel={
+          sandboxLanguage === 'python' && !codeRunner.isPythonLoaded() ? 'Loading Python...' : 'Running...'
+        }
+      />
     </div>
   );
 }
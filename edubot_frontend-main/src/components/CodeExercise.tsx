@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, FlaskConical, Loader2, Play, Send, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Textarea } from './ui/textarea';
+import { MarkdownContent } from './MarkdownContent';
+import { SandboxOutput } from './SandboxOutput';
+import { apiService, GradingResponse } from '../services/api';
+import { codeRunner, getSandboxLanguage } from '../services/codeRunner';
+import type { ExerciseSpec, SandboxRunResult, SandboxTestResult } from '../types/sandbox';
+
+interface CodeExerciseProps {
+  exercise: ExerciseSpec;
+}
+
+// A coding exercise from a course section: an editor, Run, self-check against
+// the exercise's test cases, and sending the code for grading
+export function CodeExercise({ exercise }: CodeExerciseProps) {
+  const language = getSandboxLanguage(exercise.language);
+  const tests = exercise.tests || [];
+  const [code, setCode] = useState(exercise.starter_code || '');
+  const [stdin, setStdin] = useState('');
+  const [busy, setBusy] = useState<'run' | 'test' | 'grade' | null>(null);
+  const [runResult, setRunResult] = useState<SandboxRunResult | null>(null);
+  const [testResults, setTestResults] = useState<SandboxTestResult[] | null>(null);
+  const [grading, setGrading] = useState<GradingResponse['grading'] | null>(null);
+
+  useEffect(() => {
+    if (language) codeRunner.preload(language);
+  }, [language]);
+
+  const handleRun = async () => {
+    if (!language) return;
+    setBusy('run');
+    setTestResults(null);
+    try {
+      setRunResult(await codeRunner.run(language, code, { stdin }));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCheck = async () => {
+    if (!language) return;
+    setBusy('test');
+    setRunResult(null);
+    try {
+      setTestResults(await codeRunner.runTests(language, code, tests));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleGrade = async () => {
+    if (!code.trim()) {
+      toast.error('Write some code first');
+      return;
+    }
+    setBusy('grade');
+    try {
+      const response = await apiService.gradeCode({
+        problem_description: exercise.prompt,
+        student_code: code,
+      });
+      setGrading(response.grading);
+    } catch (error) {
+      toast.error('Failed to grade code');
+      console.error(error);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const passedCount = testResults?.filter((result) => result.passed).length ?? 0;
+
+  return (
+    <div className="space-y-3">
+      <MarkdownContent content={exercise.prompt} breaks className="text-foreground" />
+
+      <div className="rounded-lg border border-border overflow-hidden">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-border/60 bg-muted/10 text-xs">
+          <span className="font-medium">{exercise.language || 'code'}</span>
+          {!language && <span className="text-muted-foreground">Can't be run in the browser</span>}
+        </div>
+        <Textarea
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          spellCheck={false}
+          className="min-h-[180px] font-mono text-sm border-0 rounded-none focus-visible:ring-0"
+          placeholder="Write your solution here..."
+        />
+        {busy === 'run' || runResult ? (
+          <SandboxOutput
+            result={runResult}
+            running={busy === 'run'}
+            runningLabel={language === 'python' && !codeRunner.isPythonLoaded() ? 'Loading Python...' : 'Running...'}
+          />
+        ) : null}
+      </div>
+
+      {language && (
+        <Textarea
+          value={stdin}
+          onChange={(e) => setStdin(e.target.value)}
+          className="min-h-[60px] font-mono text-xs"
+          placeholder="Input (optional), one line per input() / prompt() call"
+        />
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {language && (
+          <Button size="sm" variant="outline" onClick={handleRun} disabled={busy !== null}>
+            {busy === 'run' ? <Loader2 className="size-4 mr-2 animate-spin" /> : <Play className="size-4 mr-2" />}
+            Run
+          </Button>
+        )}
+        {language && tests.length > 0 && (
+          <Button size="sm" variant="outline" onClick={handleCheck} disabled={busy !== null}>
+            {busy === 'test' ? (
+              <Loader2 className="size-4 mr-2 animate-spin" />
+            ) : (
+              <FlaskConical className="size-4 mr-2" />
+            )}
+            Check ({tests.length} {tests.length === 1 ? 'test' : 'tests'})
+          </Button>
+        )}
+        <Button size="sm" onClick={handleGrade} disabled={busy !== null}>
+          {busy === 'grade' ? <Loader2 className="size-4 mr-2 animate-spin" /> : <Send className="size-4 mr-2" />}
+          Submit for grading
+        </Button>
+      </div>
+
+      {testResults && (
+        <div className="space-y-2">
+          <Badge variant={passedCount === testResults.length ? 'default' : 'destructive'}>
+            {passedCount}/{testResults.length} tests passed
+          </Badge>
+          {testResults.map(({ test, passed, actual, result }, index) => (
+            <div key={index} className="rounded-md border border-border p-3 text-sm space-y-1">
+              <div className="flex items-center gap-2 font-medium">
+                {passed ? (
+                  <CheckCircle className="size-4 text-green-500" />
+                ) : (
+                  <XCircle className="size-4 text-red-500" />
+                )}
+                {test.name || `Test ${index + 1}`}
+              </div>
+              {!passed && (
+                <div className="grid gap-1 text-xs font-mono">
+                  {test.input && <div>Input: {test.input}</div>}
+                  <div>Expected: {test.expected_output}</div>
+                  <div>Got: {result.error || actual || '(no output)'}</div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {grading && (
+        <div className="rounded-md border border-border p-3 space-y-2">
+          <div className="font-medium">Score: {Math.round(grading.score)}/100</div>
+          <MarkdownContent content={grading.feedback} breaks className="text-sm text-muted-foreground" />
+        </div>
+      )}
+    </div>
+  );
+}
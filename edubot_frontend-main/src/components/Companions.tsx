@@ -28,7 +28,6 @@ import {
   UserCircle
 } from 'lucide-react';
 import { apiService, Companion, VoicesResponse } from '../services/api';
-import { API_CONFIG } from '../config/api';
 import { toast } from 'sonner';
 import { motion, AnimatePresence } from 'framer-motion';
 import Vapi from '@vapi-ai/web';
@@ -103,6 +102,29 @@ export function Companions() {
     };
   }, []);
 
+  // Past sessions for every companion; one that fails to load just shows none
+  const loadPastSessions = async (companionsData: Companion[]) => {
+    const sessionPromises = companionsData.map(async (companion) => {
+      try {
+        const data = await apiService.getCompanionSessions(companion.id);
+        return data.sessions.map((session) => ({
+          session_id: session.id,
+          companion_id: session.companion_id,
+          duration: session.duration || 0,
+          status: session.status,
+          last_updated: session.ended_at || session.started_at || '',
+          transcript: [] // We'll load transcripts separately if needed
+        }));
+      } catch (error) {
+        console.error(`Failed to load sessions for companion ${companion.id}:`, error);
+        return [];
+      }
+    });
+
+    const allSessionsArrays = await Promise.all(sessionPromises);
+    setPastSessions(allSessionsArrays.flat());
+  };
+
   const loadData = async () => {
     try {
       setIsLoading(true);
@@ -111,37 +133,7 @@ export function Companions() {
         const companionsData = await apiService.getCompanions();
         setCompanions(companionsData);
 
-        // Load past sessions for each companion
-        const sessionPromises = companionsData.map(async (companion) => {
-          try {
-            const response = await fetch(
-              `${API_CONFIG.BASE_URL}/api/companions/sessions?companion_id=${companion.id}`,
-              {
-                headers: {
-                  'Content-Type': 'application/json',
-                  'X-User-Id': apiService.getUserId()
-                }
-              }
-            );
-            if (!response.ok) return [];
-            const data = await response.json();
-            return data.sessions.map((session: any) => ({
-              session_id: session.id,
-              companion_id: session.companion_id,
-              duration: session.duration || 0,
-              status: session.status,
-              last_updated: session.ended_at || session.started_at,
-              transcript: [] // We'll load transcripts separately if needed
-            }));
-          } catch (error) {
-            console.error(`Failed to load sessions for companion ${companion.id}:`, error);
-            return [];
-          }
-        });
-
-        const allSessionsArrays = await Promise.all(sessionPromises);
-        const allSessions = allSessionsArrays.flat();
-        setPastSessions(allSessions);
+        await loadPastSessions(companionsData);
       } catch (error) {
         console.error('Failed to load companions:', error);
       }
@@ -250,22 +242,7 @@ export function Companions() {
       // If resumeSessionId is provided, get the transcript first
       if (resumeSessionId) {
         try {
-          const response = await fetch(
-            `${API_CONFIG.BASE_URL}/api/companions/sessions/${resumeSessionId}/resume`,
-            {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'X-User-Id': apiService.getUserId()
-              }
-            }
-          );
-          
-          if (!response.ok) {
-            throw new Error('Failed to resume session');
-          }
-          
-          const sessionData = await response.json();
+          const sessionData = await apiService.resumeCompanionSession(resumeSessionId);
           if (sessionData?.transcript) {
             // Filter out non-final messages and duplicates
             const uniqueMessages = new Map();
@@ -449,36 +426,7 @@ export function Companions() {
 
       // Refresh past sessions
       const companionsData = await apiService.getCompanions();
-      const sessionPromises = companionsData.map(async (companion) => {
-        try {
-          const response = await fetch(
-            `${API_CONFIG.BASE_URL}/api/companions/sessions?companion_id=${companion.id}`,
-            {
-              headers: {
-                'Content-Type': 'application/json',
-                'X-User-Id': apiService.getUserId()
-              }
-            }
-          );
-          if (!response.ok) return [];
-          const data = await response.json();
-          return data.sessions.map((session: any) => ({
-            session_id: session.id,
-            companion_id: session.companion_id,
-            duration: session.duration || 0,
-            status: session.status,
-            last_updated: session.ended_at || session.started_at,
-            transcript: [] // We'll load transcripts separately if needed
-          }));
-        } catch (error) {
-          console.error(`Failed to load sessions for companion ${companion.id}:`, error);
-          return [];
-        }
-      });
-
-      const allSessionsArrays = await Promise.all(sessionPromises);
-      const allSessions = allSessionsArrays.flat();
-      setPastSessions(allSessions);
+      await loadPastSessions(companionsData);
     } catch (error) {
       console.error('Failed to save transcript:', error);
       toast.error('Failed to save transcript');
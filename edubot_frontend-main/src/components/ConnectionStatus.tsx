@@ -1,80 +1,126 @@
-// import { useState, useEffect } from 'react';
-// import { Alert, AlertDescription } from './ui/alert';
-// import { Button } from './ui/button';
-// import { AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
-// import { apiService } from '../services/api';
+import { useState, useEffect, useRef } from 'react';
+import { Alert, AlertDescription } from './ui/alert';
+import { Button } from './ui/button';
+import { CheckCircle, Loader2, RefreshCw, WifiOff } from 'lucide-react';
+import { apiService } from '../services/api';
+import { offlineStore } from '../services/offlineStore';
+import { syncService } from '../services/syncService';
 
-// export function ConnectionStatus() {
-//   const [status, setStatus] = useState<'checking' | 'connected' | 'disconnected'>('checking');
-//   const [isRetrying, setIsRetrying] = useState(false);
+export function ConnectionStatus() {
+  const [isConnected, setIsConnected] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [showBackOnline, setShowBackOnline] = useState(false);
+  const wasConnectedRef = useRef(navigator.onLine);
 
-//   const checkConnection = async () => {
-//     try {
-//       setStatus('checking');
-//       const isConnected = await apiService.testConnection();
-//       setStatus(isConnected ? 'connected' : 'disconnected');
-//     } catch (error) {
-//       setStatus('disconnected');
-//     }
-//   };
+  const checkConnection = async () => {
+    const connected = navigator.onLine && (await apiService.testConnection());
+    setIsConnected(connected);
+  };
 
-//   const handleRetry = async () => {
-//     setIsRetrying(true);
-//     await checkConnection();
-//     setIsRetrying(false);
-//   };
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    await checkConnection();
+    setIsRetrying(false);
+  };
 
-//   useEffect(() => {
-//     checkConnection();
-//     // Check connection every 30 seconds
-//     const interval = setInterval(checkConnection, 30000);
-//     return () => clearInterval(interval);
-//   }, []);
+  useEffect(() => {
+    checkConnection();
+    // Check connection every 30 seconds
+    const interval = setInterval(checkConnection, 30000);
 
-//   if (status === 'checking') {
-//     return (
-//       <Alert className="border-blue-200 bg-blue-50">
-//         <Loader2 className="size-4 animate-spin" />
-//         <AlertDescription>
-//           Checking backend connection...
-//         </AlertDescription>
-//       </Alert>
-//     );
-//   }
+    const handleOffline = () => setIsConnected(false);
+    window.addEventListener('online', checkConnection);
+    window.addEventListener('offline', handleOffline);
 
-//   if (status === 'connected') {
-//     return (
-//       <Alert className="border-green-200 bg-green-50">
-//         <CheckCircle className="size-4 text-green-600" />
-//         <AlertDescription className="text-green-800">
-//           Connected to backend at localhost:8000
-//         </AlertDescription>
-//       </Alert>
-//     );
-//   }
+    // Writes other users left queued aren't this user's to wait for
+    const refreshPending = () => {
+      offlineStore
+        .listOutbox()
+        .then((entries) => setPendingCount(entries.filter((entry) => entry.userId === apiService.getCurrentUser()?.id).length))
+        .catch(() => {});
+    };
+    refreshPending();
+    const unsubscribeOutbox = offlineStore.onOutboxChange(refreshPending);
+    const unsubscribeSync = syncService.onSyncStateChange(setIsSyncing);
 
-//   return (
-//     <Alert className="border-red-200 bg-red-50">
-//       <AlertTriangle className="size-4 text-red-600" />
-//       <AlertDescription className="text-red-800">
-//         Cannot connect to backend at localhost:8000. Make sure the backend server is running.
-//         <Button
-//           variant="outline"
-//           size="sm"
-//           onClick={handleRetry}
-//           disabled={isRetrying}
-//           className="ml-2 h-6 px-2 text-xs"
-//         >
-//           {isRetrying ? (
-//             <>
-//               <Loader2 className="size-3 mr-1 animate-spin" />
-//               Retrying...
-//             </>
-//           ) : (
-//             'Retry'
-//           )}
-//         </Button>
-//       </AlertDescription>
-//     </Alert>
-//   );
-// }
\ No newline at end of file
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', checkConnection);
+      window.removeEventListener('offline', handleOffline);
+      unsubscribeOutbox();
+      unsubscribeSync();
+    };
+  }, []);
+
+  // Briefly confirm when the connection comes back
+  useEffect(() => {
+    if (isConnected && !wasConnectedRef.current) {
+      setShowBackOnline(true);
+      const timer = setTimeout(() => setShowBackOnline(false), 3000);
+      wasConnectedRef.current = isConnected;
+      return () => clearTimeout(timer);
+    }
+    wasConnectedRef.current = isConnected;
+  }, [isConnected]);
+
+  const pendingLabel = `${pendingCount} change${pendingCount === 1 ? '' : 's'}`;
+
+  if (!isConnected) {
+    return (
+      <Alert className="rounded-none border-x-0 border-t-0 border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-950/40">
+        <WifiOff className="size-4 text-red-600" />
+        <AlertDescription className="flex items-center justify-between gap-2 text-red-800 dark:text-red-300">
+          <span>
+            You're offline. Downloaded courses and recent chats are still available
+            {pendingCount > 0 ? ` - ${pendingLabel} will sync when you reconnect.` : '.'}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRetry}
+            disabled={isRetrying}
+            className="h-6 px-2 text-xs"
+          >
+            {isRetrying ? (
+              <>
+                <Loader2 className="size-3 mr-1 animate-spin" />
+                Retrying...
+              </>
+            ) : (
+              <>
+                <RefreshCw className="size-3 mr-1" />
+                Retry
+              </>
+            )}
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (isSyncing) {
+    return (
+      <Alert className="rounded-none border-x-0 border-t-0 border-blue-200 bg-blue-50 dark:border-blue-900 dark:bg-blue-950/40">
+        <Loader2 className="size-4 animate-spin text-blue-600" />
+        <AlertDescription className="text-blue-800 dark:text-blue-300">
+          Syncing {pendingLabel} made while offline...
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (showBackOnline) {
+    return (
+      <Alert className="rounded-none border-x-0 border-t-0 border-green-200 bg-green-50 dark:border-green-900 dark:bg-green-950/40">
+        <CheckCircle className="size-4 text-green-600" />
+        <AlertDescription className="text-green-800 dark:text-green-300">
+          Back online
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return null;
+}
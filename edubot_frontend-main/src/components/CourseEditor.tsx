@@ -0,0 +1,616 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  BookOpen,
+  GripVertical,
+  History,
+  Loader2,
+  Plus,
+  Save,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { ScrollArea } from './ui/scroll-area';
+import { EditableList } from './EditableList';
+import { MarkdownEditor } from './MarkdownEditor';
+import { apiService } from '../services/api';
+import { moveItem } from '../lib/courseDraft';
+import {
+  AutosavedDraft,
+  clearAutosave,
+  COURSE_LEVELS,
+  CourseEditorDraft,
+  createEditorSection,
+  createEmptyCourseDraft,
+  EditorSection,
+  getAutosaveKey,
+  loadAutosave,
+  saveAutosave,
+  toCourseCreate,
+  toCourseDraft,
+  validateCourseDraft,
+} from '../lib/courseEditor';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+function formatTime(value: string) {
+  return new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+// Create a course by hand or edit an existing one, section by section. Changes
+// are autosaved locally until they are saved to the backend.
+export function CourseEditor() {
+  const navigate = useNavigate();
+  const { courseId } = useParams<{ courseId?: string }>();
+  const autosaveKey = getAutosaveKey(apiService.getUserId(), courseId);
+
+  const [draft, setDraft] = useState<CourseEditorDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [lastAutosave, setLastAutosave] = useState<string | null>(null);
+  // Unsaved work from an earlier visit, offered for restoring once loaded
+  const [pendingRestore, setPendingRestore] = useState<AutosavedDraft | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  // Bumped to load the course again after saving added sections, so they get their ids
+  const [reloadCount, setReloadCount] = useState(0);
+  const loadIdRef = useRef(0);
+  const reselectIndexRef = useRef(0);
+
+  useEffect(() => {
+    const loadId = ++loadIdRef.current;
+    const autosaved = loadAutosave(autosaveKey);
+    setIsDirty(false);
+    setLastAutosave(null);
+
+    const applyLoaded = (loaded: CourseEditorDraft) => {
+      if (loadId !== loadIdRef.current) return;
+      setDraft(loaded);
+      setSelectedKey((loaded.sections[reselectIndexRef.current] || loaded.sections[0])?.key || null);
+      reselectIndexRef.current = 0;
+      setPendingRestore(autosaved);
+    };
+
+    if (!courseId) {
+      applyLoaded(createEmptyCourseDraft());
+      return;
+    }
+
+    const loadCourse = async () => {
+      setIsLoading(true);
+      try {
+        const { course, sections } = await apiService.getCourseWithSections(courseId);
+        applyLoaded(toCourseDraft(course, sections));
+      } catch (error) {
+        if (loadId !== loadIdRef.current) return;
+        toast.error(error instanceof Error ? error.message : 'Failed to load course');
+        navigate('/courses', { replace: true });
+      } finally {
+        if (loadId === loadIdRef.current) setIsLoading(false);
+      }
+    };
+
+    loadCourse();
+  }, [courseId, reloadCount]);
+
+  // Autosave a moment after the last change
+  useEffect(() => {
+    if (!draft || !isDirty) return;
+    const timer = setTimeout(() => {
+      try {
+        setLastAutosave(saveAutosave(autosaveKey, draft).savedAt);
+      } catch (error) {
+        console.error('Failed to autosave course draft:', error);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, isDirty, autosaveKey]);
+
+  const updateDraft = (changes: Partial<CourseEditorDraft>) => {
+    setDraft((current) => (current ? { ...current, ...changes } : current));
+    setIsDirty(true);
+  };
+
+  const updateSection = (key: string, changes: Partial<EditorSection>) => {
+    setDraft((current) =>
+      current
+        ? { ...current, sections: current.sections.map((section) => (section.key === key ? { ...section, ...changes } : section)) }
+        : current
+    );
+    setIsDirty(true);
+  };
+
+  const handleRestore = () => {
+    if (!pendingRestore) return;
+    // Keep pointing at the course being edited, whatever the autosave says
+    const restored = { ...pendingRestore.draft, courseId };
+    setDraft(restored);
+    setSelectedKey(restored.sections[0]?.key || null);
+    setLastAutosave(pendingRestore.savedAt);
+    setPendingRestore(null);
+    setIsDirty(true);
+  };
+
+  const handleDiscardRestore = () => {
+    clearAutosave(autosaveKey);
+    setPendingRestore(null);
+  };
+
+  const handleAddSection = () => {
+    if (!draft) return;
+    const section = createEditorSection(`Section ${draft.sections.length + 1}`);
+    updateDraft({ sections: [...draft.sections, section] });
+    setSelectedKey(section.key);
+  };
+
+  const handleRemoveSection = (key: string) => {
+    if (!draft) return;
+    const index = draft.sections.findIndex((section) => section.key === key);
+    const sections = draft.sections.filter((section) => section.key !== key);
+    updateDraft({ sections });
+    if (selectedKey === key) setSelectedKey(sections[Math.max(0, index - 1)]?.key || null);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const error = validateCourseDraft(draft);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const course = toCourseCreate(draft);
+      if (courseId) {
+        await apiService.updateCourse(courseId, course);
+        clearAutosave(autosaveKey);
+        setIsDirty(false);
+        setLastAutosave(null);
+        toast.success('Course saved');
+        if (draft.sections.some((section) => !section.id)) {
+          reselectIndexRef.current = Math.max(0, draft.sections.findIndex((section) => section.key === selectedKey));
+          setReloadCount((count) => count + 1);
+        }
+      } else {
+        const created = await apiService.createCourse(course);
+        clearAutosave(autosaveKey);
+        setIsDirty(false);
+        toast.success('Course created');
+        navigate(`/courses/${created.id}/edit`, { replace: true });
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save course');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectedSection = draft?.sections.find((section) => section.key === selectedKey) || draft?.sections[0];
+  const textExercises = (selectedSection?.exercises.filter((exercise) => typeof exercise === 'string') || []) as string[];
+  const codingExercises = selectedSection?.exercises.filter((exercise) => typeof exercise !== 'string') || [];
+
+  if (isLoading || !draft) {
+    return (
+      <div className="flex-1 flex items-center justify-center h-full">
+        <Loader2 className="size-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col h-full bg-background overflow-hidden">
+      {/* Header */}
+      <div className="border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="p-6 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate('/courses')}>
+              <ArrowLeft className="size-4 mr-2" />
+              Course Generation
+            </Button>
+            <h1 className="text-3xl font-bold">{courseId ? 'Edit Course' : 'New Course'}</h1>
+            <p className="text-muted-foreground mt-2">
+              {isDirty
+                ? lastAutosave
+                  ? `Draft autosaved at ${formatTime(lastAutosave)}`
+                  : 'Unsaved changes'
+                : 'All changes saved'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {courseId && (
+              <Button variant="outline" onClick={() => navigate(`/learning/${courseId}`)}>
+                <BookOpen className="size-4 mr-2" />
+                View in Learning
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? <Loader2 className="size-4 mr-2 animate-spin" /> : <Save className="size-4 mr-2" />}
+              {courseId ? 'Save Course' : 'Create Course'}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 overflow-auto">
+        <div className="p-6 max-w-6xl mx-auto space-y-6">
+          {pendingRestore && (
+            <div className="flex flex-wrap items-center gap-3 rounded-lg border border-orange-200 bg-orange-50 dark:bg-orange-950/20 p-3 text-sm">
+              <History className="size-4 text-orange-600 shrink-0" />
+              <span className="flex-1">
+                You have unsaved changes from {new Date(pendingRestore.savedAt).toLocaleString()}.
+              </span>
+              <Button size="sm" onClick={handleRestore}>
+                Restore
+              </Button>
+              <Button size="sm" variant="ghost" onClick={handleDiscardRestore}>
+                Discard
+              </Button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-[320px_1fr] gap-6 items-start">
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Course</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="course-title">Title</Label>
+                    <Input
+                      id="course-title"
+                      value={draft.title}
+                      onChange={(e) => updateDraft({ title: e.target.value })}
+                      placeholder="e.g., Introduction to Statistics"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="course-topic">Topic</Label>
+                    <Input
+                      id="course-topic"
+                      value={draft.topic}
+                      onChange={(e) => updateDraft({ topic: e.target.value })}
+                      placeholder="Defaults to the title"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-2">
+                      <Label>Level</Label>
+                      <Select value={draft.level} onValueChange={(value: string) => updateDraft({ level: value })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {/* Keep levels from generated courses selectable */}
+                          {[...new Set([...COURSE_LEVELS, draft.level].filter(Boolean))].map((level) => (
+                            <SelectItem key={level} value={level}>
+                              {level}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="course-category">Category</Label>
+                      <Input
+                        id="course-category"
+                        value={draft.category}
+                        onChange={(e) => updateDraft({ category: e.target.value })}
+                        placeholder="Optional"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="course-description">Description</Label>
+                    <Textarea
+                      id="course-description"
+                      value={draft.description}
+                      onChange={(e) => updateDraft({ description: e.target.value })}
+                      placeholder="What learners will get out of the course"
+                      className="min-h-[100px]"
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Sections</CardTitle>
+                  <CardDescription>Drag to change the order learners see them in</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-1">
+                  {draft.sections.map((section, index) => (
+                    <div
+                      key={section.key}
+                      draggable
+                      onDragStart={() => setDragIndex(index)}
+                      onDragEnd={() => setDragIndex(null)}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        if (dragIndex === null || dragIndex === index) return;
+                        updateDraft({ sections: moveItem(draft.sections, dragIndex, index) });
+                        setDragIndex(index);
+                      }}
+                      onClick={() => setSelectedKey(section.key)}
+                      className={`group flex items-center gap-1 rounded px-1 py-1 text-sm cursor-pointer hover:bg-muted ${
+                        selectedSection?.key === section.key ? 'bg-muted font-medium' : ''
+                      } ${dragIndex === index ? 'opacity-60' : ''}`}
+                    >
+                      <GripVertical className="size-4 text-muted-foreground shrink-0 cursor-grab" />
+                      <span className="flex-1 truncate">
+                        {index + 1}. {section.title || 'Untitled section'}
+                      </span>
+                      {!section.id && (
+                        <Badge variant="outline" className="text-xs shrink-0">
+                          New
+                        </Badge>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-7 shrink-0"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          updateDraft({ sections: moveItem(draft.sections, index, index - 1) });
+                        }}
+                        disabled={index === 0}
+                        title="Move up"
+                      >
+                        <ArrowUp className="size-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-7 shrink-0"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          updateDraft({ sections: moveItem(draft.sections, index, index + 1) });
+                        }}
+                        disabled={index === draft.sections.length - 1}
+                        title="Move down"
+                      >
+                        <ArrowDown className="size-3" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button variant="outline" size="sm" className="w-full mt-2" onClick={handleAddSection}>
+                    <Plus className="size-4 mr-2" />
+                    Add Section
+                  </Button>
+                </CardContent>
+              </Card>
+            </div>
+
+            {selectedSection ? (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle>{selectedSection.title || 'Untitled section'}</CardTitle>
+                      <CardDescription>
+                        Section {draft.sections.findIndex((section) => section.key === selectedSection.key) + 1} of{' '}
+                        {draft.sections.length}
+                      </CardDescription>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveSection(selectedSection.key)}
+                      disabled={draft.sections.length <= 1}
+                    >
+                      <Trash2 className="size-4 mr-2" />
+                      Remove
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="section-title">Title</Label>
+                    <Input
+                      id="section-title"
+                      value={selectedSection.title}
+                      onChange={(e) => updateSection(selectedSection.key, { title: e.target.value })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="section-introduction">Introduction</Label>
+                    <Textarea
+                      id="section-introduction"
+                      value={selectedSection.introduction}
+                      onChange={(e) => updateSection(selectedSection.key, { introduction: e.target.value })}
+                      placeholder="A short overview shown at the top of the section"
+                      className="min-h-[80px]"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="section-content">Content</Label>
+                    <MarkdownEditor
+                      id="section-content"
+                      value={selectedSection.content}
+                      onChange={(content) => updateSection(selectedSection.key, { content })}
+                      placeholder="Write the lesson in Markdown"
+                      minHeight={320}
+                    />
+                  </div>
+
+                  <EditableList
+                    label="Key Points"
+                    items={selectedSection.key_points}
+                    onChange={(key_points) => updateSection(selectedSection.key, { key_points })}
+                    placeholder="Add a key point"
+                  />
+
+                  <div className="space-y-3">
+                    <Label>Topics</Label>
+                    {selectedSection.sub_topics.map((topic, index) => (
+                      <div key={index} className="rounded-lg border border-border p-3 space-y-2">
+                        <div className="flex items-center gap-2">
+                          <Input
+                            value={topic.subtitle}
+                            onChange={(e) =>
+                              updateSection(selectedSection.key, {
+                                sub_topics: selectedSection.sub_topics.map((item, i) =>
+                                  i === index ? { ...item, subtitle: e.target.value } : item
+                                ),
+                              })
+                            }
+                            placeholder="Topic title"
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="size-8 shrink-0"
+                            onClick={() =>
+                              updateSection(selectedSection.key, {
+                                sub_topics: selectedSection.sub_topics.filter((_, i) => i !== index),
+                              })
+                            }
+                            title="Remove topic"
+                          >
+                            <X className="size-4" />
+                          </Button>
+                        </div>
+                        <MarkdownEditor
+                          value={topic.subexplanation}
+                          onChange={(subexplanation) =>
+                            updateSection(selectedSection.key, {
+                              sub_topics: selectedSection.sub_topics.map((item, i) =>
+                                i === index ? { ...item, subexplanation } : item
+                              ),
+                            })
+                          }
+                          placeholder="Explain the topic"
+                          minHeight={120}
+                        />
+                      </div>
+                    ))}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        updateSection(selectedSection.key, {
+                          sub_topics: [...selectedSection.sub_topics, { subtitle: '', subexplanation: '' }],
+                        })
+                      }
+                    >
+                      <Plus className="size-4 mr-2" />
+                      Add Topic
+                    </Button>
+                  </div>
+
+                  <EditableList
+                    label="Examples"
+                    items={selectedSection.examples}
+                    onChange={(examples) => updateSection(selectedSection.key, { examples })}
+                    placeholder="Add an example (Ctrl+Enter to add)"
+                    multiline
+                  />
+
+                  <div className="space-y-2">
+                    <EditableList
+                      label="Practice Exercises"
+                      items={textExercises}
+                      onChange={(exercises) =>
+                        updateSection(selectedSection.key, { exercises: [...exercises, ...codingExercises] })
+                      }
+                      placeholder="Add an exercise (Ctrl+Enter to add)"
+                      multiline
+                    />
+                    {codingExercises.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        This section also has {codingExercises.length} coding exercise
+                        {codingExercises.length !== 1 ? 's' : ''}, which are kept as they are.
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-3">
+                    <Label>Videos</Label>
+                    {selectedSection.video_links.map((video, index) => {
+                      const updateVideo = (changes: Partial<typeof video>) =>
+                        updateSection(selectedSection.key, {
+                          video_links: selectedSection.video_links.map((item, i) =>
+                            i === index ? { ...item, ...changes } : item
+                          ),
+                        });
+                      return (
+                        <div key={index} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2 rounded-lg border border-border p-3">
+                          <Input
+                            value={video.title}
+                            onChange={(e) => updateVideo({ title: e.target.value })}
+                            placeholder="Title"
+                          />
+                          <Input
+                            value={video.link}
+                            onChange={(e) => updateVideo({ link: e.target.value })}
+                            placeholder="https://www.youtube.com/watch?v=..."
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="size-9"
+                            onClick={() =>
+                              updateSection(selectedSection.key, {
+                                video_links: selectedSection.video_links.filter((_, i) => i !== index),
+                              })
+                            }
+                            title="Remove video"
+                          >
+                            <X className="size-4" />
+                          </Button>
+                          <Input
+                            value={video.topic}
+                            onChange={(e) => updateVideo({ topic: e.target.value })}
+                            placeholder="Topic"
+                          />
+                          <Input
+                            value={video.duration}
+                            onChange={(e) => updateVideo({ duration: e.target.value })}
+                            placeholder="Duration, e.g. 8:30"
+                          />
+                        </div>
+                      );
+                    })}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        updateSection(selectedSection.key, {
+                          video_links: [...selectedSection.video_links, { topic: '', title: '', link: '', duration: '' }],
+                        })
+                      }
+                    >
+                      <Plus className="size-4 mr-2" />
+                      Add Video
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  Add a section to start writing
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { BookMarked, Download, FileCode, FileText, GraduationCap, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { apiService, Course, CourseSection } from '../services/api';
+import { runTaskQueue } from '../lib/taskQueue';
+import { resolveSectionFields } from '../lib/courseSection';
+import { downloadBlob } from '../lib/download';
+import { CourseExportFormat, EXPORT_FORMATS, exportCourse, SectionQuizzes } from '../lib/courseExport';
+
+interface CourseExportMenuProps {
+  course: Course;
+  sections: CourseSection[];
+}
+
+const FORMAT_ICONS: Record<CourseExportFormat, typeof FileText> = {
+  markdown: FileText,
+  html: FileCode,
+  epub: BookMarked,
+  scorm: GraduationCap,
+};
+
+// Download a course as Markdown, HTML, EPUB or a SCORM package for an LMS
+export function CourseExportMenu({ course, sections }: CourseExportMenuProps) {
+  const [exporting, setExporting] = useState<CourseExportFormat | null>(null);
+  const [status, setStatus] = useState('');
+
+  const handleExport = async (format: CourseExportFormat) => {
+    setExporting(format);
+    try {
+      setStatus('Loading sections...');
+      // Exported as stored, so math and code in the text come through untouched
+      const { sections: detailed } = await apiService.getCourseWithSections(course.id);
+      const exported = detailed.map(resolveSectionFields);
+
+      // Quizzes are generated on request, so only the SCORM package pays for them
+      const quizzes: SectionQuizzes = {};
+      let failedQuizzes = 0;
+      if (format === 'scorm') {
+        let done = 0;
+        setStatus(`Preparing quizzes (0/${sections.length})...`);
+        await runTaskQueue(
+          sections,
+          (section) => apiService.generateSectionQuiz(course.id, section.id),
+          {
+            concurrency: 2,
+            retries: 1,
+            onSuccess: (section, response) => {
+              if (response.questions?.length) quizzes[section.id] = response.questions;
+              setStatus(`Preparing quizzes (${++done}/${sections.length})...`);
+            },
+            onFailure: () => {
+              failedQuizzes++;
+              setStatus(`Preparing quizzes (${++done}/${sections.length})...`);
+            },
+          }
+        );
+      }
+
+      setStatus('Packaging...');
+      const { blob, fileName } = await exportCourse(format, course, exported, quizzes);
+      downloadBlob(blob, fileName);
+
+      if (failedQuizzes > 0) {
+        toast.warning(
+          `Exported without ${failedQuizzes} section quiz${failedQuizzes !== 1 ? 'zes' : ''} that could not be generated`
+        );
+      } else {
+        toast.success(`${EXPORT_FORMATS[format].label} downloaded`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export course');
+    } finally {
+      setExporting(null);
+      setStatus('');
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="shrink-0 mr-2" disabled={exporting !== null || sections.length === 0}>
+          {exporting ? <Loader2 className="size-4 mr-2 animate-spin" /> : <Download className="size-4 mr-2" />}
+          {exporting ? status : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export course as</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(EXPORT_FORMATS) as CourseExportFormat[]).map((format) => {
+          const Icon = FORMAT_ICONS[format];
+          return (
+            <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+              <Icon className="size-4" />
+              {EXPORT_FORMATS[format].label}
+            </DropdownMenuItem>
+          );
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,13 +1,47 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { ScrollArea } from './ui/scroll-area';
-import { Download, Loader2, CheckCircle } from 'lucide-react';
+import {
+  AlertCircle,
+  ArrowLeft,
+  ArrowRight,
+  BookOpen,
+  CheckCircle,
+  Circle,
+  Download,
+  FileUp,
+  ListTree,
+  Loader2,
+  PenLine,
+  RefreshCw,
+  Sparkles,
+  Square,
+  Upload,
+} from 'lucide-react';
 import { apiService } from '../services/api';
 import { toast } from 'sonner';
+import { MarkdownContent } from './MarkdownContent';
+import { CourseOutlineEditor } from './CourseOutlineEditor';
+import { CourseJobList } from './CourseJobList';
+import { courseJobStore } from '../services/courseJobStore';
+import { downloadBlob } from '../lib/download';
+import { runTaskQueue } from '../lib/taskQueue';
+import {
+  CourseDraft,
+  createDraftSection,
+  DraftSection,
+  getDraftProgress,
+  sectionToMarkdown,
+  toPublishRequest,
+} from '../lib/courseDraft';
 
 // Define initial state for easy reset
 const INITIAL_FORM_STATE = {
@@ -15,12 +49,44 @@ const INITIAL_FORM_STATE = {
   educationLevel: 'Middle/High School'
 };
 
+type WizardStep = 'setup' | 'outline' | 'content' | 'finish';
+
+const STEPS: { id: WizardStep; label: string }[] = [
+  { id: 'setup', label: 'Topic' },
+  { id: 'outline', label: 'Outline' },
+  { id: 'content', label: 'Content' },
+  { id: 'finish', label: 'Publish' },
+];
+
+// Validate title: allow letters, numbers, spaces and a small set of punctuation
+function validateTitle(title: string): string | null {
+  if (!title.trim()) return 'Please enter a course title';
+  const validTitleRegex = /^[A-Za-z0-9\s\-_.:,()&'"/]+$/;
+  if (!validTitleRegex.test(title)) {
+    return 'Course title contains invalid characters. Only letters, numbers, spaces and - _ . : , ( ) & / " ' + "'" + ' are allowed.';
+  }
+  return null;
+}
+
+function getPdfFileName(title: string) {
+  return `${title.replace(/\s+/g, '_')}.pdf`;
+}
+
 export function CourseGeneration() {
+  const navigate = useNavigate();
+  const [step, setStep] = useState<WizardStep>('setup');
   const [isLoading, setIsLoading] = useState(false);
   const [completeForm, setCompleteForm] = useState(INITIAL_FORM_STATE);
   const [titleError, setTitleError] = useState<string | null>(null);
-  const [pdfBlob, setPdfBlob] = useState<Blob | null>(null);
-  const [generatedCourseTitle, setGeneratedCourseTitle] = useState<string>('');
+
+  // Interactive generation
+  const [draft, setDraft] = useState<CourseDraft | null>(null);
+  const [selectedSectionId, setSelectedSectionId] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [publishedCourseId, setPublishedCourseId] = useState<string | null>(null);
+  const generationRef = useRef<AbortController | null>(null);
 
   const educationLevels = [
     { value: 'Elementary School', label: 'Elementary School' },
@@ -30,166 +96,471 @@ export function CourseGeneration() {
     { value: 'Professional Development', label: 'Professional Development' }
   ];
 
-  const handleDownloadPdf = (blob: Blob, fileName: string) => {
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${fileName.replace(/\s+/g, '_')}.pdf`; // Fixed regex
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const checkTitle = () => {
+    const error = validateTitle(completeForm.courseTitle || '');
+    setTitleError(error);
+    if (error) toast.error(error);
+    return !error;
+  };
+
+  const updateSection = (sectionId: string, changes: Partial<DraftSection>) => {
+    setDraft((current) =>
+      current
+        ? { ...current, sections: current.sections.map((section) => (section.id === sectionId ? { ...section, ...changes } : section)) }
+        : current
+    );
   };
 
   const handleGenerateComplete = async () => {
-    const title = completeForm.courseTitle || '';
-    if (!title.trim()) {
-      setTitleError('Please enter a course title');
-      toast.error('Please enter a course title');
-      return;
-    }
+    if (!checkTitle()) return;
 
-    // Validate title: allow letters, numbers, spaces and a small set of punctuation
-    const validTitleRegex = /^[A-Za-z0-9\s\-_.:,()&'"/]+$/;
-    if (!validTitleRegex.test(title)) {
-      const msg = 'Course title contains invalid characters. Only letters, numbers, spaces and - _ . : , ( ) & / " ' + "'" + ' are allowed.';
-      setTitleError(msg);
-      toast.error(msg);
-      return;
+    setIsLoading(true);
+    try {
+      await courseJobStore.start(completeForm.courseTitle, completeForm.educationLevel);
+
+      // Reset form to initial state once the job is queued
+      setCompleteForm(INITIAL_FORM_STATE);
+
+      toast.success('Course generation started. You can leave this page while it runs.');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start course generation');
+      console.error(error);
+    } finally {
+      setIsLoading(false);
     }
+  };
 
-    // Clear any previous title error
-    setTitleError(null);
+  const handleGenerateOutline = async () => {
+    if (!checkTitle()) return;
 
     setIsLoading(true);
     try {
-      const pdfBlob = await apiService.generateCompleteCourse(
-        completeForm.courseTitle,
-        completeForm.educationLevel
-      );
-      
-      // Store the generated course title before resetting form
-      const courseTitle = completeForm.courseTitle;
-      setGeneratedCourseTitle(courseTitle);
-      setPdfBlob(pdfBlob);
-      
-      // Download the PDF
-      handleDownloadPdf(pdfBlob, courseTitle);
-      
-      // Reset form to initial state after successful generation
-      setCompleteForm(INITIAL_FORM_STATE);
-      
-      toast.success('Course generated successfully! The PDF has been downloaded.');
+      const outline = await apiService.generateCourseOutline(completeForm.courseTitle, completeForm.educationLevel);
+      if (!outline.table_of_contents?.length) {
+        throw new Error('The outline came back empty');
+      }
+      setDraft({
+        courseId: outline.course_id,
+        title: completeForm.courseTitle,
+        educationLevel: completeForm.educationLevel,
+        description: outline.description,
+        sections: outline.table_of_contents.map(createDraftSection),
+      });
+      setPublishedCourseId(null);
+      setStep('outline');
     } catch (error) {
-      toast.error('Failed to generate course. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Failed to generate course outline');
       console.error(error);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const generateSections = async (sections: DraftSection[]) => {
+    if (!draft || sections.length === 0) return;
+    const outline = draft.sections.map((section) => section.title);
+
+    const controller = new AbortController();
+    generationRef.current = controller;
+    setIsGenerating(true);
+
+    let failed = 0;
+    await runTaskQueue(
+      sections,
+      (section, signal) =>
+        apiService.generateCourseSection(draft.courseId, draft.title, section.title, outline, draft.educationLevel, signal),
+      {
+        concurrency: 2,
+        retries: 1,
+        signal: controller.signal,
+        onStart: (section) => updateSection(section.id, { status: 'generating', error: undefined }),
+        onSuccess: (section, response) => updateSection(section.id, { status: 'ready', content: response.section_content }),
+        onFailure: (section, error) => {
+          if (controller.signal.aborted) {
+            updateSection(section.id, { status: section.content ? 'ready' : 'outline' });
+            return;
+          }
+          failed++;
+          updateSection(section.id, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Generation failed',
+          });
+        },
+      }
+    );
+
+    // Sections that never started keep their previous state
+    generationRef.current = null;
+    setIsGenerating(false);
+    if (controller.signal.aborted) {
+      toast.info('Generation cancelled');
+    } else if (failed > 0) {
+      toast.warning(`${failed} section${failed !== 1 ? 's' : ''} failed to generate. You can retry them.`);
+    }
+  };
+
+  const handleStartContent = () => {
+    if (!draft) return;
+    if (draft.sections.some((section) => !section.title.trim())) {
+      toast.error('Every section needs a title');
+      return;
+    }
+    setStep('content');
+    setSelectedSectionId(draft.sections[0]?.id || null);
+    generateSections(draft.sections.filter((section) => section.status !== 'ready'));
+  };
+
+  const handleCancelGeneration = () => {
+    generationRef.current?.abort();
+  };
+
+  const handlePublish = async () => {
+    if (!draft) return;
+    setIsPublishing(true);
+    try {
+      const response = await apiService.publishCourse(draft.courseId, toPublishRequest(draft));
+      setPublishedCourseId(response.course_id || draft.courseId);
+      toast.success('Course published! It is now available in Learning.');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to publish course');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleExportPdf = async () => {
+    if (!draft) return;
+    setIsExporting(true);
+    try {
+      const blob = await apiService.exportCoursePdf(draft.courseId, toPublishRequest(draft));
+      downloadBlob(blob, getPdfFileName(draft.title));
+      toast.success('PDF downloaded');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export course PDF');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleStartOver = () => {
+    generationRef.current?.abort();
+    setDraft(null);
+    setPublishedCourseId(null);
+    setSelectedSectionId(null);
+    setCompleteForm(INITIAL_FORM_STATE);
+    setStep('setup');
+  };
+
+  const progress = draft ? getDraftProgress(draft) : { ready: 0, total: 0 };
+  const selectedSection = draft?.sections.find((section) => section.id === selectedSectionId) || draft?.sections[0];
+  const stepIndex = STEPS.findIndex((item) => item.id === step);
+
   return (
     <div className="flex-1 flex flex-col h-full bg-background overflow-hidden">
       {/* Header */}
       <div className="border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
-        <div className="p-6">
-          <h1 className="text-3xl font-bold">Course Generation</h1>
-          <p className="text-muted-foreground mt-2">
-            Generate a complete course curriculum with AI assistance
-          </p>
+        <div className="p-6 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Course Generation</h1>
+            <p className="text-muted-foreground mt-2">
+              Generate a complete course curriculum with AI assistance
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate('/courses/import')}>
+              <FileUp className="size-4 mr-2" />
+              Import
+            </Button>
+            <Button variant="outline" onClick={() => navigate('/courses/new')}>
+              <PenLine className="size-4 mr-2" />
+              Write a Course by Hand
+            </Button>
+          </div>
         </div>
       </div>
 
       <ScrollArea className="flex-1 overflow-auto">
-        <div className="p-6 max-w-2xl mx-auto">
-          <Card>
-            <CardHeader>
-              <CardTitle>Generate Course</CardTitle>
-              <CardDescription>
-                Enter a course title and select education level to generate a comprehensive course PDF
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <div className="space-y-4">
+        <div className={`p-6 mx-auto space-y-6 ${step === 'content' ? 'max-w-6xl' : 'max-w-3xl'}`}>
+          <div className="flex items-center gap-2 flex-wrap">
+            {STEPS.map((item, index) => (
+              <div key={item.id} className="flex items-center gap-2">
+                <Badge variant={index === stepIndex ? 'default' : index < stepIndex ? 'secondary' : 'outline'}>
+                  {index + 1}. {item.label}
+                </Badge>
+                {index < STEPS.length - 1 && <ArrowRight className="size-3 text-muted-foreground" />}
+              </div>
+            ))}
+          </div>
+
+          {step === 'setup' && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Generate Course</CardTitle>
+                <CardDescription>
+                  Enter a course title and education level. Start with an outline to review and edit the course before
+                  it is written, or generate the complete course PDF in the background.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="courseTitle">Course Title</Label>
+                    <Input
+                      id="courseTitle"
+                      placeholder="e.g., Introduction to Machine Learning"
+                      value={completeForm.courseTitle}
+                      onChange={(e) => {
+                        setCompleteForm(prev => ({ ...prev, courseTitle: e.target.value }));
+                        setTitleError(null);
+                      }}
+                      disabled={isLoading}
+                    />
+                    {titleError && (
+                      <p className="text-red-600 text-sm mt-1">{titleError}</p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="educationLevel">Education Level</Label>
+                    <Select
+                      value={completeForm.educationLevel}
+                      onValueChange={(value: string) => setCompleteForm(prev => ({ ...prev, educationLevel: value }))}
+                      disabled={isLoading}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {educationLevels.map((level) => (
+                          <SelectItem key={level.value} value={level.value}>
+                            {level.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Button onClick={handleGenerateOutline} disabled={isLoading} className="flex-1">
+                    {isLoading ? <Loader2 className="size-4 mr-2 animate-spin" /> : <ListTree className="size-4 mr-2" />}
+                    Generate Outline
+                  </Button>
+                  <Button variant="outline" onClick={handleGenerateComplete} disabled={isLoading} className="flex-1">
+                    {isLoading ? <Loader2 className="size-4 mr-2 animate-spin" /> : <Download className="size-4 mr-2" />}
+                    Generate Course PDF
+                  </Button>
+                </div>
+                {draft && (
+                  <Button variant="ghost" size="sm" onClick={() => setStep('outline')} disabled={isLoading}>
+                    Back to the outline for "{draft.title}"
+                    <ArrowRight className="size-4 ml-2" />
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {step === 'setup' && <CourseJobList />}
+
+          {step === 'outline' && draft && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Review the Outline</CardTitle>
+                <CardDescription>
+                  Drag or use the arrows to reorder sections, rename them, add new ones or drop the ones you don't need
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="courseTitle">Course Title</Label>
-                  <Input
-                    id="courseTitle"
-                    placeholder="e.g., Introduction to Machine Learning"
-                    value={completeForm.courseTitle}
-                    onChange={(e) => {
-                      setCompleteForm(prev => ({ ...prev, courseTitle: e.target.value }));
-                      setTitleError(null);
-                    }}
-                    disabled={isLoading}
+                  <Label htmlFor="courseDescription">Description</Label>
+                  <Textarea
+                    id="courseDescription"
+                    value={draft.description || ''}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    placeholder="What the course covers"
+                    className="min-h-[80px]"
                   />
-                  {titleError && (
-                    <p className="text-red-600 text-sm mt-1">{titleError}</p>
-                  )}
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="educationLevel">Education Level</Label>
-                  <Select 
-                    value={completeForm.educationLevel} 
-                    onValueChange={(value: string) => setCompleteForm(prev => ({ ...prev, educationLevel: value }))}
-                    disabled={isLoading}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {educationLevels.map((level) => (
-                        <SelectItem key={level.value} value={level.value}>
-                          {level.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                <CourseOutlineEditor
+                  sections={draft.sections}
+                  onChange={(sections) => setDraft({ ...draft, sections })}
+                />
+                <div className="flex justify-between gap-2">
+                  <Button variant="outline" onClick={() => setStep('setup')}>
+                    <ArrowLeft className="size-4 mr-2" />
+                    Back
+                  </Button>
+                  <Button onClick={handleStartContent} disabled={draft.sections.length === 0}>
+                    <Sparkles className="size-4 mr-2" />
+                    {progress.ready > 0 ? 'Continue to Content' : 'Generate Content'}
+                  </Button>
                 </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {step === 'content' && draft && (
+            <div className="space-y-4">
+              <Card>
+                <CardContent className="pt-6 space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="text-sm font-medium">
+                      {progress.ready} of {progress.total} sections ready
+                    </span>
+                    <div className="flex gap-2">
+                      {isGenerating ? (
+                        <Button variant="outline" size="sm" onClick={handleCancelGeneration}>
+                          <Square className="size-4 mr-2" />
+                          Cancel
+                        </Button>
+                      ) : (
+                        progress.ready < progress.total && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => generateSections(draft.sections.filter((section) => section.status !== 'ready'))}
+                          >
+                            <RefreshCw className="size-4 mr-2" />
+                            Generate remaining
+                          </Button>
+                        )
+                      )}
+                    </div>
+                  </div>
+                  <Progress value={progress.total ? (progress.ready / progress.total) * 100 : 0} />
+                </CardContent>
+              </Card>
+
+              <div className="grid grid-cols-1 lg:grid-cols-[280px_1fr] gap-4">
+                <Card>
+                  <CardContent className="pt-6 space-y-1">
+                    {draft.sections.map((section, index) => (
+                      <button
+                        key={section.id}
+                        type="button"
+                        onClick={() => setSelectedSectionId(section.id)}
+                        className={`w-full flex items-center gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-muted ${
+                          selectedSection?.id === section.id ? 'bg-muted font-medium' : ''
+                        }`}
+                      >
+                        {section.status === 'generating' && <Loader2 className="size-4 animate-spin text-muted-foreground shrink-0" />}
+                        {section.status === 'ready' && <CheckCircle className="size-4 text-green-500 shrink-0" />}
+                        {section.status === 'failed' && <AlertCircle className="size-4 text-red-500 shrink-0" />}
+                        {section.status === 'outline' && <Circle className="size-4 text-muted-foreground shrink-0" />}
+                        <span className="truncate">
+                          {index + 1}. {section.title}
+                        </span>
+                      </button>
+                    ))}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  {selectedSection && (
+                    <>
+                      <CardHeader>
+                        <div className="flex items-start justify-between gap-2">
+                          <CardTitle>{selectedSection.title}</CardTitle>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => generateSections([selectedSection])}
+                            disabled={isGenerating}
+                          >
+                            <RefreshCw className="size-4 mr-2" />
+                            {selectedSection.content ? 'Regenerate' : 'Generate'}
+                          </Button>
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        {selectedSection.status === 'generating' ? (
+                          <div className="flex items-center justify-center py-12 text-muted-foreground">
+                            <Loader2 className="size-6 animate-spin mr-2" />
+                            Writing this section...
+                          </div>
+                        ) : selectedSection.content ? (
+                          <MarkdownContent content={sectionToMarkdown(selectedSection.content)} />
+                        ) : (
+                          <p className={`text-sm ${selectedSection.status === 'failed' ? 'text-red-500' : 'text-muted-foreground'}`}>
+                            {selectedSection.error || 'Not generated yet.'}
+                          </p>
+                        )}
+                      </CardContent>
+                    </>
+                  )}
+                </Card>
               </div>
-              
-              <Button 
-                onClick={handleGenerateComplete} 
-                disabled={isLoading}
-                className="w-full"
-              >
-                {isLoading ? (
-                  <>
-                    <Loader2 className="size-4 mr-2 animate-spin" />
-                    Generating Course...
-                  </>
-                ) : (
-                  <>
-                    <Download className="size-4 mr-2" />
-                    Generate Course PDF
-                  </>
-                )}
-              </Button>
-            </CardContent>
-          </Card>
 
-          {pdfBlob && !isLoading && (
-            <Card className="mt-6">
+              <div className="flex justify-between gap-2">
+                <Button variant="outline" onClick={() => setStep('outline')} disabled={isGenerating}>
+                  <ArrowLeft className="size-4 mr-2" />
+                  Edit Outline
+                </Button>
+                <Button onClick={() => setStep('finish')} disabled={isGenerating || progress.ready === 0}>
+                  Continue
+                  <ArrowRight className="size-4 ml-2" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'finish' && draft && (
+            <Card>
               <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <CheckCircle className="size-5 text-green-500" />
-                  Course Generated Successfully
-                </CardTitle>
+                <CardTitle>{draft.title}</CardTitle>
+                <CardDescription>
+                  {progress.ready} of {progress.total} sections ready
+                  {progress.ready < progress.total && ' — sections without content are left out'}
+                </CardDescription>
               </CardHeader>
-              <CardContent>
-                <div className="p-4 bg-muted/50 rounded-lg">
-                  <p className="text-sm font-medium mb-2">
-                    {generatedCourseTitle}
-                  </p>
-                  <p className="text-sm text-muted-foreground mb-4">
-                    Your course has been generated and downloaded. Click below to download it again if needed.
-                  </p>
-                  <Button 
-                    size="sm"
-                    onClick={() => handleDownloadPdf(pdfBlob, generatedCourseTitle)}
-                  >
-                    <Download className="size-4 mr-2" />
-                    Download PDF Again
+              <CardContent className="space-y-4">
+                <div className="grid sm:grid-cols-2 gap-4">
+                  <div className="rounded-lg border border-border p-4 space-y-3">
+                    <div className="flex items-center gap-2 font-medium">
+                      <BookOpen className="size-5" />
+                      Publish to Learning
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Make this an enrollable course with its sections, progress tracking and quizzes.
+                    </p>
+                    {publishedCourseId ? (
+                      <div className="flex gap-2">
+                        <Button variant="outline" className="flex-1" onClick={() => navigate(`/learning/${publishedCourseId}`)}>
+                          <CheckCircle className="size-4 mr-2 text-green-500" />
+                          Open in Learning
+                        </Button>
+                        <Button variant="outline" onClick={() => navigate(`/courses/${publishedCourseId}/edit`)} title="Edit course">
+                          <PenLine className="size-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Button className="w-full" onClick={handlePublish} disabled={isPublishing || progress.ready === 0}>
+                        {isPublishing ? <Loader2 className="size-4 mr-2 animate-spin" /> : <Upload className="size-4 mr-2" />}
+                        Publish Course
+                      </Button>
+                    )}
+                  </div>
+                  <div className="rounded-lg border border-border p-4 space-y-3">
+                    <div className="flex items-center gap-2 font-medium">
+                      <Download className="size-5" />
+                      Export PDF
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Download the reviewed course as a PDF document.
+                    </p>
+                    <Button variant="outline" className="w-full" onClick={handleExportPdf} disabled={isExporting || progress.ready === 0}>
+                      {isExporting ? <Loader2 className="size-4 mr-2 animate-spin" /> : <Download className="size-4 mr-2" />}
+                      Download PDF
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex justify-between gap-2">
+                  <Button variant="outline" onClick={() => setStep('content')}>
+                    <ArrowLeft className="size-4 mr-2" />
+                    Back to Content
+                  </Button>
+                  <Button variant="ghost" onClick={handleStartOver}>
+                    Start a New Course
                   </Button>
                 </div>
               </CardContent>
@@ -0,0 +1,448 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  ArrowLeft,
+  BookOpen,
+  CheckCircle,
+  ChevronDown,
+  ChevronUp,
+  FileUp,
+  Loader2,
+  PenLine,
+  Upload,
+  X,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { ScrollArea } from './ui/scroll-area';
+import { MarkdownContent } from './MarkdownContent';
+import { apiService, Course } from '../services/api';
+import { courseSectionToMarkdown } from '../lib/courseExport';
+import { toStoredSectionInput } from '../lib/courseSection';
+import {
+  buildImportPlan,
+  getHeadingDepths,
+  IMPORT_ACCEPT,
+  ImportDocument,
+  ImportPlan,
+  LIST_TARGET_LABELS,
+  ListTarget,
+  readImportFile,
+  setListTarget,
+  suggestSectionDepth,
+  toSectionInputs,
+} from '../lib/courseImport';
+import { MAX_DOCUMENT_SIZE } from '../lib/documentText';
+
+const NEW_COURSE = 'new';
+
+const FORMAT_LABELS: Record<ImportDocument['format'], string> = {
+  markdown: 'Markdown',
+  html: 'HTML',
+  cartridge: 'Common Cartridge',
+};
+
+// Import Markdown notes, HTML pages or a Common Cartridge export as a course:
+// pick a file, check how it maps onto sections, then create or extend a course
+export function CourseImport() {
+  const navigate = useNavigate();
+  const [fileName, setFileName] = useState('');
+  const [document, setDocument] = useState<ImportDocument | null>(null);
+  const [sectionDepth, setSectionDepth] = useState<number | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [destination, setDestination] = useState(NEW_COURSE);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importedCourseId, setImportedCourseId] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiService
+      .getCourses(1, 100)
+      .then((response) => setCourses(response.courses || []))
+      .catch((error) => console.error('Failed to load courses:', error));
+  }, []);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (file.size > MAX_DOCUMENT_SIZE) {
+      toast.error('File is too large (max 10MB)');
+      return;
+    }
+
+    setIsParsing(true);
+    try {
+      const parsed = await readImportFile(file);
+      const depth = suggestSectionDepth(parsed.blocks);
+      const built = buildImportPlan(parsed, depth);
+      setFileName(file.name);
+      setDocument(parsed);
+      setSectionDepth(depth);
+      setPlan(built);
+      setTitle(built.title);
+      setDescription(built.description);
+      setExpandedId(null);
+      setImportedCourseId(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read file');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleDepthChange = (value: string) => {
+    if (!document) return;
+    const depth = Number(value);
+    const built = buildImportPlan(document, depth);
+    setSectionDepth(depth);
+    setPlan(built);
+    setTitle(built.title);
+    setDescription(built.description);
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    if (destination === NEW_COURSE && !title.trim()) {
+      toast.error('Please enter a course title');
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      if (destination === NEW_COURSE) {
+        const created = await apiService.createCourse({
+          title: title.trim(),
+          topic: title.trim(),
+          description: description.trim() || undefined,
+          sections: toSectionInputs(plan),
+        });
+        setImportedCourseId(created.id);
+      } else {
+        // The update replaces the section list, so the existing sections are
+        // sent back exactly as stored, followed by the imported ones
+        const { course, sections } = await apiService.getCourseWithSections(destination);
+        const lastIndex = Math.max(-1, ...sections.map((section) => section.order_index));
+        await apiService.updateCourse(destination, {
+          title: course.title,
+          topic: course.topic,
+          description: course.description,
+          level: course.level,
+          category: course.category,
+          sections: [...sections.map(toStoredSectionInput), ...toSectionInputs(plan, lastIndex + 1)],
+        });
+        setImportedCourseId(destination);
+      }
+      toast.success(`Imported ${plan.sections.length} section${plan.sections.length !== 1 ? 's' : ''}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import course');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleReset = () => {
+    setDocument(null);
+    setPlan(null);
+    setFileName('');
+    setImportedCourseId(null);
+    setDestination(NEW_COURSE);
+  };
+
+  const depths = document ? getHeadingDepths(document.blocks) : [];
+  const sectionInputs = plan ? toSectionInputs(plan) : [];
+  const listCount = plan?.sections.reduce((count, section) => count + section.lists.length, 0) || 0;
+  const videoCount = plan?.sections.reduce((count, section) => count + section.video_links.length, 0) || 0;
+
+  return (
+    <div className="flex-1 flex flex-col h-full bg-background overflow-hidden">
+      {/* Header */}
+      <div className="border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="p-6">
+          <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate('/courses')}>
+            <ArrowLeft className="size-4 mr-2" />
+            Course Generation
+          </Button>
+          <h1 className="text-3xl font-bold">Import Course</h1>
+          <p className="text-muted-foreground mt-2">
+            Turn Markdown notes, HTML pages or a Common Cartridge export from your LMS into a course
+          </p>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 overflow-auto">
+        <div className="p-6 max-w-4xl mx-auto space-y-6">
+          {importedCourseId ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CheckCircle className="size-5 text-green-500" />
+                  Import Complete
+                </CardTitle>
+                <CardDescription>
+                  "{courses.find((course) => course.id === importedCourseId)?.title || title}" is now available in
+                  Learning
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                <Button onClick={() => navigate(`/learning/${importedCourseId}`)}>
+                  <BookOpen className="size-4 mr-2" />
+                  Open in Learning
+                </Button>
+                <Button variant="outline" onClick={() => navigate(`/courses/${importedCourseId}/edit`)}>
+                  <PenLine className="size-4 mr-2" />
+                  Edit Course
+                </Button>
+                <Button variant="ghost" onClick={handleReset}>
+                  Import Another File
+                </Button>
+              </CardContent>
+            </Card>
+          ) : !plan || !document ? (
+            <Card>
+              <CardContent className="pt-6">
+                <div
+                  className={`border-2 border-dashed rounded-lg p-10 text-center transition-colors ${
+                    isDragging ? 'border-primary bg-primary/5' : 'border-muted-foreground/25'
+                  }`}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setIsDragging(true);
+                  }}
+                  onDragLeave={() => setIsDragging(false)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    setIsDragging(false);
+                    handleFile(e.dataTransfer.files[0]);
+                  }}
+                >
+                  {isParsing ? (
+                    <Loader2 className="size-8 mx-auto mb-3 animate-spin text-muted-foreground" />
+                  ) : (
+                    <FileUp className="size-8 mx-auto mb-3 text-muted-foreground" />
+                  )}
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Drop a .md, .html or .imscc file here. Headings become sections, lists become key points or
+                    exercises, and YouTube links become section videos.
+                  </p>
+                  <Button variant="outline" asChild disabled={isParsing}>
+                    <label className="cursor-pointer">
+                      <Upload className="size-4 mr-2" />
+                      Choose file
+                      <input
+                        type="file"
+                        accept={IMPORT_ACCEPT}
+                        className="hidden"
+                        disabled={isParsing}
+                        onChange={(e) => {
+                          handleFile(e.target.files?.[0]);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle>Course</CardTitle>
+                      <CardDescription>
+                        {fileName} · {FORMAT_LABELS[document.format]}
+                      </CardDescription>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={handleReset} disabled={isImporting}>
+                      <X className="size-4 mr-2" />
+                      Choose another file
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Import into</Label>
+                    <Select value={destination} onValueChange={setDestination}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NEW_COURSE}>A new course</SelectItem>
+                        {courses.map((course) => (
+                          <SelectItem key={course.id} value={course.id}>
+                            Add to "{course.title}"
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {destination === NEW_COURSE && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="import-title">Title</Label>
+                        <Input id="import-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="import-description">Description</Label>
+                        <Textarea
+                          id="import-description"
+                          value={description}
+                          onChange={(e) => setDescription(e.target.value)}
+                          className="min-h-[80px]"
+                        />
+                      </div>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Sections</CardTitle>
+                  <CardDescription>
+                    {plan.sections.length} section{plan.sections.length !== 1 ? 's' : ''} · {listCount} list
+                    {listCount !== 1 ? 's' : ''} · {videoCount} video{videoCount !== 1 ? 's' : ''}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {depths.length > 0 && (
+                    <div className="flex items-center gap-3">
+                      <Label className="shrink-0">Start a section at each</Label>
+                      <Select value={String(sectionDepth)} onValueChange={handleDepthChange}>
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {depths.map((depth) => (
+                            <SelectItem key={depth} value={String(depth)}>
+                              Level {depth} heading
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {plan.sections.map((section, index) => {
+                    const isExpanded = expandedId === section.id;
+                    const input = sectionInputs[index];
+                    return (
+                      <div key={section.id} className="rounded-lg border border-border p-3 space-y-3">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-muted-foreground w-6 shrink-0 text-right">{index + 1}.</span>
+                          <Input
+                            value={section.title}
+                            onChange={(e) =>
+                              setPlan({
+                                ...plan,
+                                sections: plan.sections.map((item) =>
+                                  item.id === section.id ? { ...item, title: e.target.value } : item
+                                ),
+                              })
+                            }
+                            aria-label={`Section ${index + 1} title`}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="size-8 shrink-0"
+                            onClick={() => setExpandedId(isExpanded ? null : section.id)}
+                            title={isExpanded ? 'Hide preview' : 'Preview'}
+                          >
+                            {isExpanded ? <ChevronUp className="size-4" /> : <ChevronDown className="size-4" />}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="size-8 shrink-0"
+                            onClick={() =>
+                              setPlan({ ...plan, sections: plan.sections.filter((item) => item.id !== section.id) })
+                            }
+                            disabled={plan.sections.length <= 1}
+                            title="Leave out"
+                          >
+                            <X className="size-4" />
+                          </Button>
+                        </div>
+
+                        <div className="flex flex-wrap gap-1 pl-8">
+                          {!!input.key_points?.length && (
+                            <Badge variant="outline">{input.key_points.length} key points</Badge>
+                          )}
+                          {!!input.exercises?.length && (
+                            <Badge variant="outline">{input.exercises.length} exercises</Badge>
+                          )}
+                          {!!input.video_links?.length && (
+                            <Badge variant="outline">{input.video_links.length} videos</Badge>
+                          )}
+                          {!input.content?.trim() && <Badge variant="secondary">No content</Badge>}
+                        </div>
+
+                        {section.lists.length > 0 && (
+                          <div className="pl-8 space-y-2">
+                            {section.lists.map((list) => (
+                              <div key={list.id} className="flex items-center gap-2 text-sm">
+                                <span className="flex-1 truncate text-muted-foreground">
+                                  {list.heading ? `${list.heading}: ` : ''}
+                                  {list.items[0]}
+                                  {list.items.length > 1 ? ` (+${list.items.length - 1} more)` : ''}
+                                </span>
+                                <Select
+                                  value={list.target}
+                                  onValueChange={(target: string) =>
+                                    setPlan(setListTarget(plan, list.id, target as ListTarget))
+                                  }
+                                >
+                                  <SelectTrigger className="w-40 h-8">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {(Object.keys(LIST_TARGET_LABELS) as ListTarget[]).map((target) => (
+                                      <SelectItem key={target} value={target}>
+                                        {LIST_TARGET_LABELS[target]}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {isExpanded && (
+                          <div className="rounded bg-muted/30 p-3 max-h-96 overflow-auto">
+                            <MarkdownContent
+                              content={courseSectionToMarkdown({ ...input, id: section.id, course_id: '' })}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+
+              <div className="flex justify-end">
+                <Button onClick={handleImport} disabled={isImporting}>
+                  {isImporting ? <Loader2 className="size-4 mr-2 animate-spin" /> : <Upload className="size-4 mr-2" />}
+                  {destination === NEW_COURSE ? 'Create Course' : 'Add Sections'}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, Download, Loader2, Square, Trash2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { CourseGenerationJob } from '../services/api';
+import { courseJobStore, getJobProgress, isJobActive } from '../services/courseJobStore';
+import { downloadBlob } from '../lib/download';
+
+function getPdfFileName(title: string) {
+  return `${title.replace(/\s+/g, '_')}.pdf`;
+}
+
+function formatDate(value?: string) {
+  return value ? new Date(value).toLocaleString() : '';
+}
+
+// Running and finished course generation jobs, with progress for the running
+// ones and the PDF of the finished ones
+export function CourseJobList() {
+  const [jobs, setJobs] = useState<CourseGenerationJob[]>(() => courseJobStore.getJobs());
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setJobs(courseJobStore.getJobs());
+    return courseJobStore.onChange(setJobs);
+  }, []);
+
+  const handleDownload = async (job: CourseGenerationJob) => {
+    setBusyId(job.job_id);
+    try {
+      const blob = await courseJobStore.downloadPdf(job.job_id);
+      downloadBlob(blob, getPdfFileName(job.course_title));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download course PDF');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancel = async (job: CourseGenerationJob) => {
+    setBusyId(job.job_id);
+    try {
+      await courseJobStore.cancel(job.job_id);
+      toast.info(`Generation of "${job.course_title}" cancelled`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel course generation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Generated Courses</CardTitle>
+        <CardDescription>
+          Generation continues in the background, even if you leave this page or reload
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {jobs.map((job) => {
+          const active = isJobActive(job.status);
+          const { completed, total } = getJobProgress(job);
+          const current = job.sections.find((section) => section.status === 'generating');
+          const isBusy = busyId === job.job_id;
+
+          return (
+            <div key={job.job_id} className="rounded-lg border border-border p-3 space-y-2">
+              <div className="flex items-start gap-2">
+                {active && <Loader2 className="size-4 mt-0.5 animate-spin text-muted-foreground shrink-0" />}
+                {job.status === 'completed' && <CheckCircle className="size-4 mt-0.5 text-green-500 shrink-0" />}
+                {job.status === 'failed' && <AlertCircle className="size-4 mt-0.5 text-red-500 shrink-0" />}
+                {job.status === 'cancelled' && <XCircle className="size-4 mt-0.5 text-muted-foreground shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{job.course_title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {job.education_level} · {formatDate(job.completed_at || job.created_at)}
+                  </p>
+                </div>
+                <Badge variant="outline" className="capitalize shrink-0">
+                  {job.status}
+                </Badge>
+              </div>
+
+              {active && (
+                <div className="space-y-1">
+                  <Progress value={total ? (completed / total) * 100 : 0} />
+                  <p className="text-xs text-muted-foreground">
+                    {total === 0
+                      ? job.status === 'queued' ? 'Waiting to start...' : 'Generating the outline...'
+                      : `${completed} of ${total} sections${current ? ` · writing "${current.title}"` : ''}`}
+                  </p>
+                </div>
+              )}
+
+              {job.error && <p className="text-xs text-red-500">{job.error}</p>}
+
+              <div className="flex justify-end gap-2">
+                {active && (
+                  <Button variant="outline" size="sm" onClick={() => handleCancel(job)} disabled={isBusy}>
+                    <Square className="size-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
+                {job.status === 'completed' && (
+                  <Button size="sm" onClick={() => handleDownload(job)} disabled={isBusy}>
+                    {isBusy ? <Loader2 className="size-4 mr-2 animate-spin" /> : <Download className="size-4 mr-2" />}
+                    Download PDF
+                  </Button>
+                )}
+                {!active && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8"
+                    onClick={() => courseJobStore.remove(job.job_id)}
+                    title="Remove from history"
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
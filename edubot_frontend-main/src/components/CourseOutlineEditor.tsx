@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, GripVertical, Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { createDraftSection, DraftSection, moveItem } from '../lib/courseDraft';
+
+interface CourseOutlineEditorProps {
+  sections: DraftSection[];
+  onChange: (sections: DraftSection[]) => void;
+  disabled?: boolean;
+}
+
+// Reorder, rename, add and drop the sections of a generated outline
+export function CourseOutlineEditor({ sections, onChange, disabled = false }: CourseOutlineEditorProps) {
+  const [newTitle, setNewTitle] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const handleAdd = () => {
+    if (!newTitle.trim()) return;
+    onChange([...sections, createDraftSection(newTitle.trim())]);
+    setNewTitle('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {sections.map((section, index) => (
+        <div
+          key={section.id}
+          className={`flex items-center gap-2 rounded-lg border p-2 ${
+            dragIndex === index ? 'border-primary opacity-60' : 'border-border'
+          }`}
+          draggable={!disabled}
+          onDragStart={() => setDragIndex(index)}
+          onDragEnd={() => setDragIndex(null)}
+          onDragOver={(e) => {
+            e.preventDefault();
+            if (dragIndex === null || dragIndex === index) return;
+            onChange(moveItem(sections, dragIndex, index));
+            setDragIndex(index);
+          }}
+        >
+          <GripVertical className="size-4 text-muted-foreground shrink-0 cursor-grab" />
+          <span className="text-sm text-muted-foreground w-6 shrink-0 text-right">{index + 1}.</span>
+          <Input
+            value={section.title}
+            onChange={(e) =>
+              onChange(sections.map((item) => (item.id === section.id ? { ...item, title: e.target.value } : item)))
+            }
+            disabled={disabled}
+            aria-label={`Section ${index + 1} title`}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8 shrink-0"
+            onClick={() => onChange(moveItem(sections, index, index - 1))}
+            disabled={disabled || index === 0}
+            title="Move up"
+          >
+            <ArrowUp className="size-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8 shrink-0"
+            onClick={() => onChange(moveItem(sections, index, index + 1))}
+            disabled={disabled || index === sections.length - 1}
+            title="Move down"
+          >
+            <ArrowDown className="size-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8 shrink-0"
+            onClick={() => onChange(sections.filter((item) => item.id !== section.id))}
+            disabled={disabled || sections.length <= 1}
+            title="Remove section"
+          >
+            <Trash2 className="size-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="Add a section"
+          disabled={disabled}
+        />
+        <Button variant="outline" onClick={handleAdd} disabled={disabled || !newTitle.trim()}>
+          <Plus className="size-4 mr-1" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronUp, FileText, Loader2, Upload, X, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { apiService, DocumentExtraction } from '../services/api';
+import { runTaskQueue } from '../lib/taskQueue';
+import { createId } from '../lib/rubric';
+import {
+  combineDocuments,
+  DOCUMENT_ACCEPT,
+  EXTRACTION_FAILED_MESSAGE,
+  isExtractionIncomplete,
+  matchesAccept,
+  MAX_DOCUMENT_SIZE,
+  needsServerExtraction,
+} from '../lib/documentText';
+
+type DocumentStatus = 'extracting' | 'done' | 'incomplete' | 'failed';
+
+interface UploadedDocument {
+  id: string;
+  name: string;
+  status: DocumentStatus;
+  text: string;
+  error?: string;
+}
+
+interface DocumentDropZoneProps {
+  // Called with the confirmed text of all usable documents
+  onUse: (text: string) => void;
+  accept?: string;
+  disabled?: boolean;
+}
+
+// Longer text is cut off in the preview
+const PREVIEW_LENGTH = 2400;
+
+// Drop or pick PDF, Word and text files, check the extracted text, then use it
+// in place of pasting
+export function DocumentDropZone({ onUse, accept = DOCUMENT_ACCEPT, disabled = false }: DocumentDropZoneProps) {
+  const [documents, setDocuments] = useState<UploadedDocument[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const isExtracting = documents.some((item) => item.status === 'extracting');
+  const usable = documents.filter((item) => item.status === 'done');
+
+  const updateDocument = (id: string, changes: Partial<UploadedDocument>) => {
+    setDocuments((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const addFiles = async (selected: File[]) => {
+    const unsupported = selected.filter((file) => !matchesAccept(file, accept));
+    if (unsupported.length > 0) {
+      toast.error(`Unsupported file type: ${unsupported.map((file) => file.name).join(', ')}`);
+    }
+
+    const files = selected.filter((file) => matchesAccept(file, accept));
+    const tooLarge = files.filter((file) => file.size > MAX_DOCUMENT_SIZE);
+    if (tooLarge.length > 0) {
+      toast.error(`Too large (max 10MB): ${tooLarge.map((file) => file.name).join(', ')}`);
+    }
+
+    const queue = files
+      .filter((file) => file.size <= MAX_DOCUMENT_SIZE)
+      .map((file) => ({ id: createId('doc'), file }));
+    if (queue.length === 0) return;
+
+    setDocuments((current) => [
+      ...current,
+      ...queue.map(({ id, file }) => ({ id, name: file.name, status: 'extracting' as const, text: '' })),
+    ]);
+
+    await runTaskQueue(
+      queue,
+      async ({ file }): Promise<DocumentExtraction> =>
+        needsServerExtraction(file) ? apiService.extractDocumentText(file) : { text: await file.text() },
+      {
+        concurrency: 2,
+        // A retried upload could leave a duplicate extraction submission behind
+        retries: 0,
+        onSuccess: ({ id, file }, { text, leftoverSubmissionId }) => {
+          if (isExtractionIncomplete(text)) {
+            updateDocument(id, { text, status: 'incomplete', error: EXTRACTION_FAILED_MESSAGE });
+            return;
+          }
+          updateDocument(id, {
+            text,
+            status: 'done',
+            // The text is still usable; the stray submission has to go by hand
+            error: leftoverSubmissionId
+              ? `The temporary submission "Text extraction: ${file.name}" could not be removed. Delete it under Submissions.`
+              : undefined,
+          });
+        },
+        onFailure: ({ id }, error) =>
+          updateDocument(id, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Extraction failed',
+          }),
+      }
+    );
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!disabled) addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleUse = () => {
+    const text = combineDocuments(usable.map(({ name, text }) => ({ name, text })));
+    if (!text.trim()) {
+      toast.error('No text to use');
+      return;
+    }
+    onUse(text);
+    toast.success(`Text from ${usable.length} file${usable.length !== 1 ? 's' : ''} added`);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        className={`border-2 border-dashed rounded-lg p-4 text-center transition-colors ${
+          isDragging ? 'border-primary bg-primary/5' : 'border-muted-foreground/25'
+        }`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        <p className="text-sm text-muted-foreground mb-2">Drop PDF, Word or text files here, or</p>
+        <Button variant="outline" size="sm" asChild disabled={disabled}>
+          <label className="cursor-pointer">
+            <Upload className="size-4 mr-2" />
+            Choose files
+            <input
+              type="file"
+              multiple
+              accept={accept}
+              className="hidden"
+              disabled={disabled}
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files || []));
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </Button>
+      </div>
+
+      {documents.length > 0 && (
+        <div className="space-y-2">
+          {documents.map((item) => {
+            const isExpanded = expandedId === item.id;
+            return (
+              <div key={item.id} className="rounded-lg border border-border p-2 text-sm">
+                <div className="flex items-center gap-2">
+                  {item.status === 'extracting' && <Loader2 className="size-4 animate-spin text-muted-foreground shrink-0" />}
+                  {item.status === 'done' && <CheckCircle className="size-4 text-green-500 shrink-0" />}
+                  {item.status === 'incomplete' && <AlertTriangle className="size-4 text-orange-500 shrink-0" />}
+                  {item.status === 'failed' && <XCircle className="size-4 text-red-500 shrink-0" />}
+                  <FileText className="size-4 text-muted-foreground shrink-0" />
+                  <span className="truncate flex-1">{item.name}</span>
+                  {item.status !== 'extracting' && item.status !== 'failed' && (
+                    <Badge variant="outline" className="text-xs shrink-0">
+                      {item.text.length.toLocaleString()} chars
+                    </Badge>
+                  )}
+                  {item.text && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-7 shrink-0"
+                      onClick={() => setExpandedId(isExpanded ? null : item.id)}
+                      title={isExpanded ? 'Hide text' : 'Show extracted text'}
+                    >
+                      {isExpanded ? <ChevronUp className="size-4" /> : <ChevronDown className="size-4" />}
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-7 shrink-0"
+                    onClick={() => setDocuments((current) => current.filter((other) => other.id !== item.id))}
+                    disabled={item.status === 'extracting'}
+                    title="Remove"
+                  >
+                    <X className="size-4" />
+                  </Button>
+                </div>
+                {item.error && (
+                  <p className={`text-xs mt-1 ${item.status === 'failed' ? 'text-red-500' : 'text-orange-500'}`}>
+                    {item.error}
+                  </p>
+                )}
+                {isExpanded && (
+                  <pre className="mt-2 max-h-60 overflow-auto rounded bg-muted/50 p-2 text-xs whitespace-pre-wrap font-sans">
+                    {item.text.length > PREVIEW_LENGTH
+                      ? `${item.text.slice(0, PREVIEW_LENGTH)}\n…`
+                      : item.text}
+                  </pre>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setDocuments([])} disabled={isExtracting}>
+              Clear
+            </Button>
+            <Button size="sm" onClick={handleUse} disabled={isExtracting || usable.length === 0 || disabled}>
+              Use extracted text
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
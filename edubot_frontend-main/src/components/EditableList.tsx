@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Label } from './ui/label';
+
+interface EditableListProps {
+  label: string;
+  items: string[];
+  onChange: (items: string[]) => void;
+  placeholder: string;
+  // Textareas for longer items such as examples; Ctrl+Enter adds
+  multiline?: boolean;
+}
+
+export function EditableList({ label, items, onChange, placeholder, multiline = false }: EditableListProps) {
+  const [draft, setDraft] = useState('');
+
+  const handleAdd = () => {
+    if (!draft.trim()) return;
+    onChange([...items, draft.trim()]);
+    setDraft('');
+  };
+
+  const Field = multiline ? Textarea : Input;
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      {items.map((item, index) => (
+        <div key={index} className={`flex gap-2 ${multiline ? 'items-start' : 'items-center'}`}>
+          <Field
+            value={item}
+            onChange={(e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+              onChange(items.map((value, i) => (i === index ? e.target.value : value)))
+            }
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8 shrink-0"
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            title="Remove"
+          >
+            <X className="size-4" />
+          </Button>
+        </div>
+      ))}
+      <div className={`flex gap-2 ${multiline ? 'items-start' : 'items-center'}`}>
+        <Field
+          value={draft}
+          onChange={(e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setDraft(e.target.value)}
+          onKeyDown={(e: React.KeyboardEvent) => {
+            if (e.key === 'Enter' && (!multiline || e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder={placeholder}
+        />
+        <Button variant="outline" size="icon" className="size-8 shrink-0" onClick={handleAdd} title="Add">
+          <Plus className="size-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
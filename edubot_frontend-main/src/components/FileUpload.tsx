@@ -49,53 +49,13 @@ export function FileUpload({ chatId, onFileUploaded }: FileUploadProps) {
       let activeChatId = chatId;
       
       if (!activeChatId) {
-        // Include Authorization header so backend recognizes the user session
-        const token = localStorage.getItem('access_token');
-        const createResponse = await fetch(
-          `${apiService['baseUrl']}/api/chat/create?user_id=${user.id}&title=File: ${file.name.substring(0, 30)}&level=school`,
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              ...(token ? { Authorization: `Bearer ${token}` } : {}),
-              'X-User-Id': user.id,
-            }
-          }
-        );
-        
-        if (createResponse.ok) {
-          const chatData = await createResponse.json();
-          activeChatId = chatData.id || chatData.chat_id;
-        } else {
-          throw new Error('Failed to create chat');
-        }
+        const chatData = await apiService.createChat(`File: ${file.name.substring(0, 30)}`, 'school');
+        activeChatId = chatData.id || chatData.chat_id;
       }
 
       if (!activeChatId) throw new Error('No chat ID');
 
-      const formData = new FormData();
-      formData.append('file', file);
-
-      // For multipart/form-data uploads, do NOT set Content-Type (browser will add boundary)
-      const token = localStorage.getItem('access_token');
-      const uploadResponse = await fetch(
-        `${apiService['baseUrl']}/api/chat/upload?chat_id=${activeChatId}&user_id=${user.id}`,
-        {
-          method: 'POST',
-          headers: {
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-            'X-User-Id': user.id,
-          },
-          body: formData
-        }
-      );
-
-      if (!uploadResponse.ok) {
-        const errorData = await uploadResponse.json();
-        throw new Error(errorData.detail || 'Upload failed');
-      }
-
-      const response = await uploadResponse.json();
+      const response = await apiService.uploadFile(file, activeChatId);
       toast.success('File uploaded!');
       onFileUploaded?.(response.filename, response.file_id, activeChatId);
     } catch (error: any) {
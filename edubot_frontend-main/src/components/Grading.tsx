@@ -17,14 +17,28 @@ import {
   CheckCircle,
   AlertTriangle,
   GraduationCap,
-  Star
+  Star,
+  Play,
+  Layers
 } from 'lucide-react';
 import { apiService, GradingResponse, CodeGradingResponse, TextGradingRequest, CodeGradingRequest } from '../services/api';
 import { toast } from 'sonner';
+import { CodeBlock } from './CodeBlocks';
+import { MarkdownContent } from './MarkdownContent';
+import { guessLanguage } from '../lib/highlight';
+import { codeRunner } from '../services/codeRunner';
+import type { SandboxLanguage, SandboxRunResult } from '../types/sandbox';
+import { SandboxOutput } from './SandboxOutput';
+import { RubricBuilder } from './RubricBuilder';
+import { BatchGrading } from './BatchGrading';
+import { RubricResults } from './RubricResults';
+import { getWeightedScore, matchCriterionResults, Rubric, serializeRubric, validateRubric } from '../lib/rubric';
+import { DocumentDropZone } from './DocumentDropZone';
+import { CODE_DOCUMENT_ACCEPT } from '../lib/documentText';
 
 
 export function Grading() {
-  const [activeTab, setActiveTab] = useState<'assignment' | 'code'>('assignment');
+  const [activeTab, setActiveTab] = useState<'assignment' | 'code' | 'batch'>('assignment');
   const [isLoading, setIsLoading] = useState(false);
 
 
@@ -33,19 +47,28 @@ export function Grading() {
     question: '',
     answer: '',
     assignment_type: 'Essay',
-    total_score: 100,
-    rubric: ''
+    total_score: 100
   });
+  const [textRubric, setTextRubric] = useState<Rubric | null>(null);
   const [textResult, setTextResult] = useState<GradingResponse | null>(null);
+  // The rubric the current result was graded against, for the per-criterion view
+  const [textGradedRubric, setTextGradedRubric] = useState<Rubric | null>(null);
 
 
   // Code grading state
   const [codeForm, setCodeForm] = useState({
     problem_description: '',
-    student_code: '',
-    rubric: ''
+    student_code: ''
   });
+  const [codeRubric, setCodeRubric] = useState<Rubric | null>(null);
   const [codeResult, setCodeResult] = useState<any | null>(null);
+  const [codeGradedRubric, setCodeGradedRubric] = useState<Rubric | null>(null);
+  // The code that was graded, kept apart from the form so later edits don't change the result view
+  const [gradedCode, setGradedCode] = useState('');
+  // Trying the code in the browser sandbox before grading
+  const [runLanguage, setRunLanguage] = useState<SandboxLanguage>('python');
+  const [runResult, setRunResult] = useState<SandboxRunResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
 
 
   const handleGradeText = async () => {
@@ -53,6 +76,11 @@ export function Grading() {
       toast.error('Please fill in all required fields');
       return;
     }
+    const rubricErrors = textRubric ? validateRubric(textRubric) : [];
+    if (rubricErrors.length > 0) {
+      toast.error(rubricErrors[0]);
+      return;
+    }
 
 
     setIsLoading(true);
@@ -62,11 +90,12 @@ export function Grading() {
         answer: textForm.answer,
         assignment_type: textForm.assignment_type,
         total_score: textForm.total_score,
-        rubric: textForm.rubric || undefined
+        rubric: textRubric ? serializeRubric(textRubric) : undefined
       };
       const response = await apiService.gradeText(request);
       console.log('Text Grading Response:', response);
       setTextResult(response);
+      setTextGradedRubric(textRubric);
       toast.success('Text graded successfully!');
     } catch (error) {
       toast.error('Failed to grade text');
@@ -82,6 +111,11 @@ export function Grading() {
       toast.error('Please fill in all required fields');
       return;
     }
+    const rubricErrors = codeRubric ? validateRubric(codeRubric) : [];
+    if (rubricErrors.length > 0) {
+      toast.error(rubricErrors[0]);
+      return;
+    }
 
 
     setIsLoading(true);
@@ -89,11 +123,13 @@ export function Grading() {
       const request: CodeGradingRequest = {
         problem_description: codeForm.problem_description,
         student_code: codeForm.student_code,
-        rubric: codeForm.rubric || undefined
+        rubric: codeRubric ? serializeRubric(codeRubric) : undefined
       };
       const response = await apiService.gradeCode(request);
       console.log('Code Grading Response:', response);
       setCodeResult(response);
+      setGradedCode(request.student_code);
+      setCodeGradedRubric(codeRubric);
       toast.success('Code graded successfully!');
     } catch (error) {
       toast.error('Failed to grade code');
@@ -104,6 +140,21 @@ export function Grading() {
   };
 
 
+  const handleRunCode = async () => {
+    if (!codeForm.student_code.trim()) {
+      toast.error('Please paste some code to run');
+      return;
+    }
+
+    setIsRunning(true);
+    try {
+      setRunResult(await codeRunner.run(runLanguage, codeForm.student_code));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+
   const getGradeColor = (grade: number) => {
     if (grade >= 90) return 'text-green-600';
     if (grade >= 80) return 'text-blue-600';
@@ -298,7 +349,7 @@ export function Grading() {
       <div className="flex-1 overflow-hidden">
         <ScrollArea className="h-full">
           <div className="p-6 max-w-7xl mx-auto">
-            <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'assignment' | 'code')}>
+            <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'assignment' | 'code' | 'batch')}>
               <TabsList className="mb-6">
                 <TabsTrigger value="assignment" className="flex items-center gap-2">
                   <FileText className="size-4" />
@@ -308,6 +359,10 @@ export function Grading() {
                   <Code className="size-4" />
                   Code Assignment
                 </TabsTrigger>
+                <TabsTrigger value="batch" className="flex items-center gap-2">
+                  <Layers className="size-4" />
+                  Batch
+                </TabsTrigger>
               </TabsList>
 
 
@@ -338,6 +393,7 @@ export function Grading() {
                      
                       <div className="space-y-2">
                         <Label htmlFor="answer">Student Response</Label>
+                        <DocumentDropZone onUse={(text) => setTextForm(prev => ({ ...prev, answer: text }))} />
                         <Textarea
                           id="answer"
                           placeholder="Paste the student's answer here..."
@@ -381,14 +437,8 @@ export function Grading() {
                       </div>
                      
                       <div className="space-y-2">
-                        <Label htmlFor="rubric">Grading Rubric (Optional)</Label>
-                        <Textarea
-                          id="rubric"
-                          placeholder="Specify grading criteria and expectations..."
-                          className="min-h-[100px]"
-                          value={textForm.rubric}
-                          onChange={(e) => setTextForm(prev => ({ ...prev, rubric: e.target.value }))}
-                        />
+                        <Label>Grading Rubric (Optional)</Label>
+                        <RubricBuilder value={textRubric} onChange={setTextRubric} />
                       </div>
                      
                       <Button
@@ -427,7 +477,7 @@ export function Grading() {
                           const feedback = extractFeedback(textResult);
                           const keyPoints = extractKeyPoints(textResult);
                           const areasForImprovement = extractAreasForImprovement(textResult);
-                          const breakdown = extractBreakdown(textResult);
+                          const criteria = matchCriterionResults(extractBreakdown(textResult), textGradedRubric);
 
 
                           return (
@@ -446,14 +496,31 @@ export function Grading() {
                              
                               <Separator />
                              
+                              {criteria.length > 0 && (
+                                <div>
+                                  <h4 className="font-semibold mb-3 flex items-center justify-between gap-2">
+                                    <span>{textGradedRubric ? `Rubric: ${textGradedRubric.name}` : 'Detailed Breakdown'}</span>
+                                    {getWeightedScore(criteria) !== null && (
+                                      <span className="text-sm font-normal text-muted-foreground">
+                                        Weighted: {getWeightedScore(criteria)}/100
+                                      </span>
+                                    )}
+                                  </h4>
+                                  <RubricResults results={criteria} />
+                                </div>
+                              )}
+
+
                               <div>
                                 <h4 className="font-semibold mb-2 flex items-center gap-2">
                                   <Star className="size-4" />
                                   Feedback
                                 </h4>
-                                <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">
-                                  {feedback}
-                                </p>
+                                <MarkdownContent
+                                  content={feedback}
+                                  breaks
+                                  className="text-sm text-muted-foreground leading-relaxed"
+                                />
                               </div>
 
 
@@ -493,23 +560,6 @@ export function Grading() {
                                   </ul>
                                 </div>
                               )}
-                             
-                              {breakdown.length > 0 && (
-                                <div>
-                                  <h4 className="font-semibold mb-3">Detailed Breakdown</h4>
-                                  <div className="space-y-3">
-                                    {breakdown.map((item: any, index: number) => (
-                                      <div key={index} className="border border-border rounded-lg p-3">
-                                        <div className="flex justify-between items-center mb-1">
-                                          <span className="font-medium text-sm">{item.criteria}</span>
-                                          <Badge variant="outline">{item.score}/10</Badge>
-                                        </div>
-                                        <p className="text-xs text-muted-foreground">{item.feedback}</p>
-                                      </div>
-                                    ))}
-                                  </div>
-                                </div>
-                              )}
                             </>
                           );
                         })()}
@@ -547,6 +597,10 @@ export function Grading() {
                      
                       <div className="space-y-2">
                         <Label htmlFor="code">Student Code</Label>
+                        <DocumentDropZone
+                          accept={CODE_DOCUMENT_ACCEPT}
+                          onUse={(text) => setCodeForm(prev => ({ ...prev, student_code: text }))}
+                        />
                         <Textarea
                           id="code"
                           placeholder="Paste the student's code here..."
@@ -554,17 +608,35 @@ export function Grading() {
                           value={codeForm.student_code}
                           onChange={(e) => setCodeForm(prev => ({ ...prev, student_code: e.target.value }))}
                         />
+                        <div className="flex items-center gap-2">
+                          <Select value={runLanguage} onValueChange={(value) => setRunLanguage(value as SandboxLanguage)}>
+                            <SelectTrigger className="w-[140px] h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="python">Python</SelectItem>
+                              <SelectItem value="javascript">JavaScript</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Button variant="outline" size="sm" onClick={handleRunCode} disabled={isRunning}>
+                            {isRunning ? <Loader2 className="size-4 mr-2 animate-spin" /> : <Play className="size-4 mr-2" />}
+                            Run
+                          </Button>
+                        </div>
+                        {(isRunning || runResult) && (
+                          <div className="rounded-lg border border-border overflow-hidden">
+                            <SandboxOutput
+                              result={runResult}
+                              running={isRunning}
+                              runningLabel={runLanguage === 'python' && !codeRunner.isPythonLoaded() ? 'Loading Python...' : 'Running...'}
+                            />
+                          </div>
+                        )}
                       </div>
                      
                       <div className="space-y-2">
-                        <Label htmlFor="codeRubric">Grading Rubric (Optional)</Label>
-                        <Textarea
-                          id="codeRubric"
-                          placeholder="Specify grading criteria and requirements..."
-                          className="min-h-[80px]"
-                          value={codeForm.rubric}
-                          onChange={(e) => setCodeForm(prev => ({ ...prev, rubric: e.target.value }))}
-                        />
+                        <Label>Grading Rubric (Optional)</Label>
+                        <RubricBuilder value={codeRubric} onChange={setCodeRubric} />
                       </div>
                      
                       <Button
@@ -603,6 +675,7 @@ export function Grading() {
                           const feedback = extractFeedback(codeResult);
                           const keyPoints = extractKeyPoints(codeResult);
                           const areasForImprovement = extractAreasForImprovement(codeResult);
+                          const criteria = matchCriterionResults(extractBreakdown(codeResult), codeGradedRubric);
 
 
                           return (
@@ -621,14 +694,42 @@ export function Grading() {
                              
                               <Separator />
                              
+                              {gradedCode && (
+                                <div>
+                                  <h4 className="font-semibold mb-2 flex items-center gap-2">
+                                    <Code className="size-4" />
+                                    Submitted Code
+                                  </h4>
+                                  <CodeBlock code={gradedCode} language={guessLanguage(gradedCode)} />
+                                </div>
+                              )}
+
+
+                              {criteria.length > 0 && (
+                                <div>
+                                  <h4 className="font-semibold mb-3 flex items-center justify-between gap-2">
+                                    <span>{codeGradedRubric ? `Rubric: ${codeGradedRubric.name}` : 'Detailed Breakdown'}</span>
+                                    {getWeightedScore(criteria) !== null && (
+                                      <span className="text-sm font-normal text-muted-foreground">
+                                        Weighted: {getWeightedScore(criteria)}/100
+                                      </span>
+                                    )}
+                                  </h4>
+                                  <RubricResults results={criteria} />
+                                </div>
+                              )}
+
+
                               <div>
                                 <h4 className="font-semibold mb-2 flex items-center gap-2">
                                   <Star className="size-4" />
                                   Code Feedback
                                 </h4>
-                                <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">
-                                  {feedback}
-                                </p>
+                                <MarkdownContent
+                                  content={feedback}
+                                  breaks
+                                  className="text-sm text-muted-foreground leading-relaxed"
+                                />
                               </div>
 
 
@@ -706,6 +807,12 @@ export function Grading() {
                   )}
                 </div>
               </TabsContent>
+
+
+              {/* Batch Tab: kept mounted so a running batch survives switching tabs */}
+              <TabsContent value="batch" forceMount hidden={activeTab !== 'batch'}>
+                <BatchGrading />
+              </TabsContent>
             </Tabs>
           </div>
         </ScrollArea>
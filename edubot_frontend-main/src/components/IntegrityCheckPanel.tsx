@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Bot, Loader2, Search, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { PlagiarismReportViewer } from './PlagiarismReportViewer';
+import { AIDetectionHeatmap } from './AIDetectionHeatmap';
+import { apiService, SubmissionIntegrity } from '../services/api';
+
+interface IntegrityCheckPanelProps {
+  submissionId: string;
+  content: string;
+  integrity?: SubmissionIntegrity;
+  onChange: (integrity: SubmissionIntegrity) => void;
+}
+
+function getRiskVariant(score: number): 'destructive' | 'secondary' | 'outline' {
+  if (score >= 60) return 'destructive';
+  if (score >= 30) return 'secondary';
+  return 'outline';
+}
+
+// Plagiarism and AI-detection results stored with a submission, and the button
+// to (re-)run them
+export function IntegrityCheckPanel({ submissionId, content, integrity, onChange }: IntegrityCheckPanelProps) {
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleRun = async () => {
+    setIsChecking(true);
+    try {
+      const result = await apiService.runIntegrityCheck(submissionId, content);
+      onChange(result);
+      if (result.errors?.length) {
+        toast.warning(`Integrity check partly failed: ${result.errors.join('; ')}`);
+      } else {
+        toast.success('Integrity check saved with the submission');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Integrity check failed');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const { plagiarism, ai_detection: aiDetection } = integrity || {};
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {integrity
+            ? `Last checked ${new Date(integrity.checked_at).toLocaleString()}`
+            : 'Check this submission for plagiarism and AI-generated content.'}
+        </p>
+        <Button variant="outline" size="sm" onClick={handleRun} disabled={isChecking || !content.trim()}>
+          {isChecking ? <Loader2 className="size-4 mr-2 animate-spin" /> : <ShieldCheck className="size-4 mr-2" />}
+          {integrity ? 'Re-run integrity check' : 'Run integrity check'}
+        </Button>
+      </div>
+
+      {integrity && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {plagiarism && (
+              <Badge variant={getRiskVariant(plagiarism.score)}>
+                <Search className="size-3 mr-1" />
+                Plagiarism {Math.round(plagiarism.score)}% · {plagiarism.matches.length} match
+                {plagiarism.matches.length !== 1 ? 'es' : ''}
+              </Badge>
+            )}
+            {aiDetection && (
+              <Badge variant={getRiskVariant(aiDetection.probability)}>
+                <Bot className="size-3 mr-1" />
+                AI {Math.round(aiDetection.probability)}%
+              </Badge>
+            )}
+            {integrity.errors?.map((error, index) => (
+              <Badge key={index} variant="outline" className="text-red-600">
+                {error}
+              </Badge>
+            ))}
+          </div>
+
+          {(plagiarism || aiDetection) && (
+            <Tabs defaultValue={plagiarism ? 'plagiarism' : 'ai'}>
+              <TabsList>
+                {plagiarism && <TabsTrigger value="plagiarism">Plagiarism</TabsTrigger>}
+                {aiDetection && <TabsTrigger value="ai">AI heatmap</TabsTrigger>}
+              </TabsList>
+              {plagiarism && (
+                <TabsContent value="plagiarism" className="mt-3">
+                  {plagiarism.matches.length > 0 ? (
+                    <PlagiarismReportViewer report={plagiarism} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No matching sources found.</p>
+                  )}
+                </TabsContent>
+              )}
+              {aiDetection && (
+                <TabsContent value="ai" className="mt-3">
+                  <AIDetectionHeatmap report={aiDetection} />
+                </TabsContent>
+              )}
+            </Tabs>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
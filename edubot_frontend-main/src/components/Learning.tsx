@@ -1,6 +1,7 @@
 // src/components/Learning.tsx
 
 import React, { useState, useEffect, useRef } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { Button } from "./ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Badge } from "./ui/badge";
@@ -23,9 +24,18 @@ import {
   Award,
   XCircle,
   Loader2,
+  PenLine,
 } from "lucide-react";
-import { apiService, Course, CourseSection } from "../services/api";
+import { apiService, Course, CourseSection, CoursesResponse } from "../services/api";
 import { toast } from "sonner";
+import { offlineStore } from "../services/offlineStore";
+import { syncService } from "../services/syncService";
+import { MarkdownContent } from "./MarkdownContent";
+import { CourseExportMenu } from "./CourseExportMenu";
+import { usePermissions } from "../hooks/usePermissions";
+import { CodeExercise } from "./CodeExercise";
+import type { ExerciseSpec } from "../types/sandbox";
+import { ApiSectionDetail, extractYouTubeId, normalizeSectionDetail } from "../lib/courseSection";
 
 // TypeScript declarations for YouTube API
 declare global {
@@ -51,22 +61,11 @@ interface SectionDetailResponse {
   introduction?: string;
   content?: string;
   examples?: string[];
-  exercises?: string[];
+  exercises?: Array<string | ExerciseSpec>;
   is_completed?: boolean;
   completed_at?: string;
 }
 
-interface ApiSectionDetail extends CourseSection {
-  video_links?: any[];
-  videolinks?: any[];
-  key_points?: any[];
-  keypoints?: any[];
-  sub_topics?: any[];
-  subtopics?: any[];
-  introduction?: string;
-  content?: string;
-}
-
 type LearningState = {
   selectedCourse: Course | null;
   selectedSection:
@@ -82,7 +81,7 @@ type LearningState = {
         sub_topics?: Array<{ subtitle: string; subexplanation: string }>;
         content?: string;
         examples?: string[];
-        exercises?: string[];
+        exercises?: Array<string | ExerciseSpec>;
         is_completed?: boolean;
       })
     | null;
@@ -106,128 +105,13 @@ interface QuizState {
   totalQuestions: number;
 }
 
-type RawBlob = {
-  topics?: string[];
-  subtopics?: { subtitle: string; subexplanation: string }[];
-  keypoints?: string[];
-  key_points?: string[];
-  videolinks?: Array<{ title: string; link: string; duration?: string; topic?: string }>;
-  video_links?: Array<{ title: string; link: string; duration?: string; topic?: string }>;
-  introduction?: string;
-  description?: string;
-};
-
-function safeTryParseJson<T = any>(text?: string): T | null {
-  if (!text) return null;
-  const trimmed = text.trim();
-  if ((trimmed.startsWith("{") && trimmed.endsWith("}")) || trimmed.includes('"topics"') || trimmed.includes('"videolinks"')) {
-    try {
-      return JSON.parse(trimmed);
-    } catch {
-      const match = trimmed.match(/\{[\s\S]*\}/);
-      if (match) {
-        try {
-          return JSON.parse(match[0]);
-        } catch {
-          return null;
-        }
-      }
-    }
-  }
-  return null;
-}
-
-function normalizeFromBlob(blob: RawBlob) {
-  const video_links = blob.video_links || blob.videolinks || [];
-  const key_points = blob.key_points || blob.keypoints || [];
-  let sub_topics: Array<{ subtitle: string; subexplanation: string }> = [];
-
-  if (Array.isArray(blob.subtopics)) {
-    sub_topics = blob.subtopics;
-  } else if (Array.isArray(blob.topics)) {
-    sub_topics = blob.topics.map((t) => ({
-      subtitle: t,
-      subexplanation: "",
-    }));
-  }
-
-  const introduction = blob.introduction || blob.description;
-  return { video_links, key_points, sub_topics, introduction };
-}
-
-function stripJsonBlobFromText(text?: string): string | undefined {
-  if (!text) return text;
-  return text.replace(/\{[\s\S]*\}/, "").trim();
-}
-
-function toHtmlContent(raw?: string): string {
-  if (!raw) return "";
-  const escaped = raw
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;");
-  const withBlocks = escaped.replace(
-    /``````/g,
-    (_m, code) =>
-      `<pre class="not-prose bg-muted p-4 rounded-lg overflow-x-auto"><code class="text-sm">${code}</code></pre>`
-  );
-  const withInline = withBlocks.replace(
-    /`([^`]+)`/g,
-    (_m, code) => `<code class="bg-muted px-1 py-0.5 rounded text-sm">${code}</code>`
-  );
-  return withInline.replace(/\n/g, "<br />");
-}
-
-function normalizeSectionDetail(sectionDetail: ApiSectionDetail & SectionDetailResponse) {
-  let merged: any = {
-    ...sectionDetail,
-    video_links: sectionDetail.video_links || sectionDetail.videolinks,
-    key_points: sectionDetail.key_points || sectionDetail.keypoints,
-    sub_topics: sectionDetail.sub_topics || sectionDetail.subtopics,
-  };
-
-  const introBlob = safeTryParseJson<RawBlob>(sectionDetail.introduction);
-  const contentBlob = safeTryParseJson<RawBlob>(sectionDetail.content);
-  const blob = contentBlob || introBlob;
-
-  if (blob) {
-    const { video_links, key_points, sub_topics, introduction } = normalizeFromBlob(blob);
-    merged.video_links = merged.video_links || video_links;
-    merged.key_points = merged.key_points || key_points;
-    merged.sub_topics = merged.sub_topics || sub_topics;
-    if (!merged.introduction && introduction) merged.introduction = introduction;
-  }
-
-  merged.introduction = stripJsonBlobFromText(merged.introduction);
-  merged.content = stripJsonBlobFromText(merged.content);
-
-  if (!Array.isArray(merged.video_links)) merged.video_links = [];
-  if (!Array.isArray(merged.key_points)) merged.key_points = [];
-  if (!Array.isArray(merged.sub_topics)) merged.sub_topics = [];
-
-  return merged;
-}
-
-function extractYouTubeId(link?: string | null) {
-  if (!link) return null;
-  try {
-    if (link.includes("youtube.com/embed/")) {
-      return link.split("youtube.com/embed/")[1].split(/[?#&]/)[0];
-    }
-    if (link.includes("youtube.com/watch?v=")) {
-      const parts = link.split("v=")[1];
-      return parts ? parts.split(/[?#&]/)[0] : null;
-    }
-    if (link.includes("youtu.be/")) {
-      return link.split("youtu.be/")[1].split(/[?#&]/)[0];
-    }
-    return null;
-  } catch (e) {
-    return null;
-  }
-}
-
 export function Learning() {
+  const navigate = useNavigate();
+  const { can } = usePermissions();
+  const { courseId: routeCourseId, sectionId: routeSectionId } = useParams<{
+    courseId?: string;
+    sectionId?: string;
+  }>();
   // State declarations
   const [activeVideo, setActiveVideo] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>("courses");
@@ -282,6 +166,20 @@ export function Learning() {
     loadCourses();
   }, []);
 
+  // Progress recorded offline has been synced - refresh the course list
+  useEffect(() => {
+    return syncService.onFlushed((results) => {
+      if (!results.some(({ entry }) => entry.type.startsWith("course."))) return;
+      toast.success("Offline progress synced");
+      loadCourses();
+    });
+  }, []);
+
+  // The URL decides which course/section is open; handlers below only navigate
+  useEffect(() => {
+    syncWithRoute();
+  }, [routeCourseId, routeSectionId]);
+
   useEffect(() => {
     if (activeVideo && isYTReady && !playerRef.current[activeVideo]) {
       const timer = setTimeout(() => {
@@ -315,11 +213,16 @@ export function Learning() {
   const loadCourses = async () => {
     try {
       setIsLoading(true);
-      const response = await apiService.getCourses();
-      const filteredCourses = response.courses.filter(
-        (course: Course) => course.title !== "General Submissions"
+      const user = apiService.getCurrentUser();
+      const visibleCourses = (response: CoursesResponse) =>
+        response.courses.filter((course: Course) => course.title !== "General Submissions");
+
+      const response = await offlineStore.staleWhileRevalidate(
+        `courses:${user?.id}`,
+        () => apiService.getCourses(),
+        (fresh) => setCourses(visibleCourses(fresh))
       );
-      setCourses(filteredCourses);
+      setCourses(visibleCourses(response));
     } catch (error) {
       console.error("Failed to load courses:", error);
       toast.error("Failed to load courses");
@@ -328,12 +231,19 @@ export function Learning() {
     }
   };
 
-  const loadCourseDetails = async (courseId: string) => {
+  const loadCourseDetails = async (courseId: string): Promise<{ course: Course; sections: CourseSection[] } | null> => {
     try {
+      const userId = apiService.getCurrentUser()?.id;
       const [courseResponse, sectionsResponse, progressResponse] =
         await Promise.all([
-          apiService.getCourse(courseId),
-          apiService.getCourseSections(courseId),
+          offlineStore.staleWhileRevalidate(`course:${userId}:${courseId}`, () =>
+            apiService.getCourse(courseId)
+          ),
+          offlineStore.staleWhileRevalidate(
+            `course-sections:${userId}:${courseId}`,
+            () => apiService.getCourseSections(courseId),
+            (fresh) => setSections(fresh.sections)
+          ),
           apiService.getCourseProgress(courseId).catch(() => null),
         ]);
 
@@ -353,12 +263,56 @@ export function Learning() {
       setSelectedCourseDetails(courseWithCorrectEnrollment);
       setSections(sectionsResponse.sections);
       setProgress(progressResponse ? progressResponse.progress : null);
+      return { course: courseWithCorrectEnrollment, sections: sectionsResponse.sections };
     } catch (error) {
       console.error("Failed to load course details:", error);
       toast.error("Failed to load course details");
+      return null;
     }
   };
 
+  const syncWithRoute = async () => {
+    if (!routeCourseId) {
+      setViewMode("courses");
+      setSelectedCourseDetails(null);
+      setProgress(null);
+      return;
+    }
+
+    let courseSections = sections;
+    if (learning.selectedCourse?.id !== routeCourseId) {
+      const listedCourse = courses.find((course) => course.id === routeCourseId);
+      setLearning((prev) => ({
+        ...prev,
+        selectedCourse: listedCourse || prev.selectedCourse,
+        selectedSection: null,
+        currentSectionIndex: 0,
+      }));
+      if (!routeSectionId) setViewMode("course-details");
+
+      const details = await loadCourseDetails(routeCourseId);
+      if (!details) {
+        navigate("/learning", { replace: true });
+        return;
+      }
+      setLearning((prev) => ({ ...prev, selectedCourse: listedCourse || details.course }));
+      courseSections = details.sections;
+    }
+
+    if (!routeSectionId) {
+      setViewMode("course-details");
+      return;
+    }
+
+    const index = courseSections.findIndex((section) => section.id === routeSectionId);
+    if (index === -1) {
+      toast.error("Section not found");
+      navigate(`/learning/${routeCourseId}`, { replace: true });
+      return;
+    }
+    await showSection(routeCourseId, courseSections[index], index);
+  };
+
   const handleDeleteCourse = async (courseId: string) => {
     if (!deleteDialogCourse) return;
 
@@ -485,6 +439,16 @@ export function Learning() {
         );
       }
     } catch (error) {
+      if (syncService.isOfflineError(error)) {
+        await syncService.queue("course.submitQuiz", {
+          courseId: learning.selectedCourse.id,
+          sectionId: learning.selectedSection.id,
+          answers: quizState.selectedAnswers,
+        });
+        toast.info("You're offline - your quiz will be graded when you reconnect");
+        setViewMode("section-learning");
+        return;
+      }
       console.error("Failed to submit quiz:", error);
       toast.error("Failed to submit quiz. Please try again.");
     } finally {
@@ -504,10 +468,10 @@ export function Learning() {
       if (learning.currentSectionIndex < sections.length - 1) {
         const nextIndex = learning.currentSectionIndex + 1;
         const nextSection = sections[nextIndex];
-        await handleSectionSelect(nextSection, nextIndex);
+        handleSectionSelect(nextSection);
         toast.success("Moving to next section!");
       } else {
-        setViewMode("course-details");
+        navigate(`/learning/${learning.selectedCourse!.id}`);
         toast.success("Congratulations! You've completed the course! 🎓");
       }
     } else {
@@ -526,7 +490,26 @@ export function Learning() {
 
     try {
       localCompletedSectionsRef.current.add(sectionId);
-      await apiService.completeSection(courseId, sectionId);
+      try {
+        await apiService.completeSection(courseId, sectionId);
+      } catch (error) {
+        if (!syncService.isOfflineError(error)) throw error;
+
+        // Record the completion locally and sync it when the connection is back
+        await syncService.queue("course.completeSection", { courseId, sectionId, timeSpent: 0 });
+        setProgress((prev: any) => ({
+          ...prev,
+          completed_sections: Array.from(localCompletedSectionsRef.current),
+        }));
+        setLearning((prev) => ({
+          ...prev,
+          selectedSection: prev.selectedSection
+            ? { ...prev.selectedSection, is_completed: true }
+            : prev.selectedSection,
+        }));
+        toast.info("You're offline - progress will sync when you reconnect");
+        return;
+      }
       toast.success("Section completed! 🎉");
 
       await new Promise((resolve) => setTimeout(resolve, 500));
@@ -617,68 +600,76 @@ export function Learning() {
     }
   };
 
-  const handleCourseSelect = async (course: Course) => {
+  const handleCourseSelect = (course: Course) => {
     setLearning((prev) => ({ ...prev, selectedCourse: course }));
-    setViewMode("course-details");
-    await loadCourseDetails(course.id);
+    navigate(`/learning/${course.id}`);
+  };
+
+  const handleSectionSelect = (section: CourseSection) => {
+    if (!learning.selectedCourse) return;
+    navigate(`/learning/${learning.selectedCourse.id}/sections/${section.id}`);
   };
 
-  const handleSectionSelect = async (section: CourseSection, index: number) => {
+  const showSection = async (courseId: string, section: CourseSection, index: number) => {
     if (isUpdatingRef.current) {
       await new Promise((resolve) => setTimeout(resolve, 300));
     }
 
     try {
-      if (learning.selectedCourse) {
-        const progressResponse = await apiService
-          .getCourseProgress(learning.selectedCourse.id)
-          .catch(() => null);
-
-        if (progressResponse) {
-          const backendCompletedSectionsRaw = progressResponse?.progress?.completed_sections || [];
-          const backendCompletedSections = Array.isArray(backendCompletedSectionsRaw) ? backendCompletedSectionsRaw : [];
-
-          const mergedCompleted = Array.from(
-            new Set([
-              ...backendCompletedSections,
-              ...Array.from(localCompletedSectionsRef.current),
-            ])
-          );
-
-          const totalSections = progressResponse?.progress?.total_sections || sections.length;
-          const backendProgress = progressResponse?.progress?.progress ?? 0;
-          const calculatedProgress = totalSections > 0 ? (mergedCompleted.length / totalSections) * 100 : 0;
-          const finalProgress = Math.max(backendProgress, calculatedProgress);
-
-          const updatedProgress = {
-            ...progressResponse?.progress,
-            progress: finalProgress,
-            completed_sections: mergedCompleted,
-            total_sections: totalSections,
-          };
-
-          setProgress(updatedProgress);
-        }
+      const progressResponse = await apiService
+        .getCourseProgress(courseId)
+        .catch(() => null);
+
+      if (progressResponse) {
+        const backendCompletedSectionsRaw = progressResponse?.progress?.completed_sections || [];
+        const backendCompletedSections = Array.isArray(backendCompletedSectionsRaw) ? backendCompletedSectionsRaw : [];
+
+        const mergedCompleted = Array.from(
+          new Set([
+            ...backendCompletedSections,
+            ...Array.from(localCompletedSectionsRef.current),
+          ])
+        );
 
-        const sectionDetail = (await apiService.getSectionDetail(
-          learning.selectedCourse.id,
-          section.id
-        )) as ApiSectionDetail & SectionDetailResponse;
+        const totalSections = progressResponse?.progress?.total_sections || sections.length;
+        const backendProgress = progressResponse?.progress?.progress ?? 0;
+        const calculatedProgress = totalSections > 0 ? (mergedCompleted.length / totalSections) * 100 : 0;
+        const finalProgress = Math.max(backendProgress, calculatedProgress);
 
-        const formattedSection = normalizeSectionDetail(sectionDetail);
+        const updatedProgress = {
+          ...progressResponse?.progress,
+          progress: finalProgress,
+          completed_sections: mergedCompleted,
+          total_sections: totalSections,
+        };
 
-        setLearning((prev) => ({
-          ...prev,
-          selectedSection: formattedSection as any,
-          currentSectionIndex: index,
-        }));
-        setViewMode("section-learning");
-        const firstLink = Array.isArray(formattedSection.video_links) && formattedSection.video_links.length > 0
-          ? formattedSection.video_links[0].link
-          : null;
-        const firstVideoId = extractYouTubeId(firstLink);
-        setActiveVideo(firstVideoId);
+        setProgress(updatedProgress);
       }
+
+      const sectionDetail = (await offlineStore.staleWhileRevalidate(
+        `section:${apiService.getCurrentUser()?.id}:${courseId}:${section.id}`,
+        () => apiService.getSectionDetail(courseId, section.id),
+        (fresh) =>
+          setLearning((prev) =>
+            prev.selectedSection?.id === section.id
+              ? { ...prev, selectedSection: normalizeSectionDetail(fresh as ApiSectionDetail & SectionDetailResponse) as any }
+              : prev
+          )
+      )) as ApiSectionDetail & SectionDetailResponse;
+
+      const formattedSection = normalizeSectionDetail(sectionDetail);
+
+      setLearning((prev) => ({
+        ...prev,
+        selectedSection: formattedSection as any,
+        currentSectionIndex: index,
+      }));
+      setViewMode("section-learning");
+      const firstLink = Array.isArray(formattedSection.video_links) && formattedSection.video_links.length > 0
+        ? formattedSection.video_links[0].link
+        : null;
+      const firstVideoId = extractYouTubeId(firstLink);
+      setActiveVideo(firstVideoId);
     } catch (error) {
       console.error("Failed to load section details:", error);
       toast.error("Failed to load section details");
@@ -733,7 +724,7 @@ export function Learning() {
         await new Promise((resolve) => setTimeout(resolve, 300));
       }
 
-      await handleSectionSelect(nextSection, nextIndex);
+      handleSectionSelect(nextSection);
     }
   };
 
@@ -746,7 +737,7 @@ export function Learning() {
         await new Promise((resolve) => setTimeout(resolve, 300));
       }
 
-      await handleSectionSelect(prevSection, prevIndex);
+      handleSectionSelect(prevSection);
     }
   };
 
@@ -1244,11 +1235,7 @@ export function Learning() {
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => {
-                  setViewMode("courses");
-                  setSelectedCourseDetails(null);
-                  setProgress(null);
-                }}
+                onClick={() => navigate("/learning")}
                 className="shrink-0"
               >
                 <ArrowLeft className="size-4 mr-2" />
@@ -1298,6 +1285,19 @@ export function Learning() {
                   </div>
                 )}
               </div>
+              {can("generate_courses") && (
+                <CourseExportMenu course={selectedCourseDetails} sections={sections} />
+              )}
+              {can("generate_courses") && (
+                <Button
+                  variant="outline"
+                  onClick={() => navigate(`/courses/${selectedCourseDetails.id}/edit`)}
+                  className="shrink-0 mr-2"
+                >
+                  <PenLine className="size-4 mr-2" />
+                  Edit Course
+                </Button>
+              )}
               {!isEnrolled && (
                 <Button
                   onClick={() => handleEnrollCourse(selectedCourseDetails.id)}
@@ -1336,7 +1336,7 @@ export function Learning() {
                       isCompleted ? "bg-green-50 border-green-200" : ""
                     }`}
                     onClick={() =>
-                      isAccessible && handleSectionSelect(section, index)
+                      isAccessible && handleSectionSelect(section)
                     }
                   >
                     <CardContent className="p-4">
@@ -1435,7 +1435,7 @@ export function Learning() {
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => setViewMode("course-details")}
+                  onClick={() => navigate(`/learning/${learning.selectedCourse?.id}`)}
                 >
                   <ArrowLeft className="size-4 mr-2" />
                   Back to Course
@@ -1569,11 +1569,7 @@ export function Learning() {
                     </>
                   )}
                 {learning.selectedSection.content && (
-                  <div
-                    dangerouslySetInnerHTML={{
-                      __html: toHtmlContent(learning.selectedSection.content),
-                    }}
-                  />
+                  <MarkdownContent content={learning.selectedSection.content} breaks />
                 )}
               </div>
               {learning.selectedSection.sub_topics &&
@@ -1588,9 +1584,11 @@ export function Learning() {
                           <h3 className="font-semibold mb-2">
                             {topic.subtitle}
                           </h3>
-                          <p className="text-muted-foreground">
-                            {topic.subexplanation}
-                          </p>
+                          <MarkdownContent
+                            content={topic.subexplanation}
+                            className="text-muted-foreground"
+                            breaks
+                          />
                         </CardContent>
                       </Card>
                     ))}
@@ -1630,9 +1628,15 @@ export function Learning() {
                               <div className="size-6 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-sm font-medium shrink-0 mt-0.5">
                                 {index + 1}
                               </div>
-                              <p className="text-foreground flex-1">
-                                {exercise}
-                              </p>
+                              {typeof exercise === "string" ? (
+                                <p className="text-foreground flex-1">
+                                  {exercise}
+                                </p>
+                              ) : (
+                                <div className="flex-1 min-w-0">
+                                  <CodeExercise exercise={exercise} />
+                                </div>
+                              )}
                             </div>
                           </CardContent>
                         </Card>
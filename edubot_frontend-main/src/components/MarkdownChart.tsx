@@ -0,0 +1,105 @@
+import { useMemo } from 'react';
+import {
+  AreaChart,
+  Area,
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  PieChart,
+  Pie,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { parseChartSpec } from '../lib/chartSpec';
+
+const SERIES_COLORS = ['#3b82f6', '#10b981', '#8b5cf6', '#f59e0b', '#ef4444', '#06b6d4', '#ec4899', '#14b8a6'];
+
+interface MarkdownChartProps {
+  source: string;
+  // Shown instead when the JSON is not a valid chart spec
+  fallback: React.ReactNode;
+}
+
+// Renders a ```chart JSON fence with recharts
+export function MarkdownChart({ source, fallback }: MarkdownChartProps) {
+  const spec = useMemo(() => parseChartSpec(source), [source]);
+
+  if (!spec) return <>{fallback}</>;
+
+  const { type, data, xKey, yKeys } = spec;
+  const axes = (
+    <>
+      <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+      <XAxis dataKey={xKey} tick={{ fontSize: 12, fill: '#64748b' }} />
+      <YAxis tick={{ fontSize: 12, fill: '#64748b' }} />
+      <Tooltip />
+      {yKeys.length > 1 && <Legend />}
+    </>
+  );
+
+  const renderChart = () => {
+    switch (type) {
+      case 'line':
+        return (
+          <LineChart data={data}>
+            {axes}
+            {yKeys.map((key, i) => (
+              <Line key={key} type="monotone" dataKey={key} stroke={SERIES_COLORS[i % SERIES_COLORS.length]} strokeWidth={2} />
+            ))}
+          </LineChart>
+        );
+      case 'area':
+        return (
+          <AreaChart data={data}>
+            {axes}
+            {yKeys.map((key, i) => (
+              <Area
+                key={key}
+                type="monotone"
+                dataKey={key}
+                stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                fill={SERIES_COLORS[i % SERIES_COLORS.length]}
+                fillOpacity={0.2}
+              />
+            ))}
+          </AreaChart>
+        );
+      case 'pie':
+        return (
+          <PieChart>
+            <Pie data={data} dataKey={yKeys[0]} nameKey={xKey} outerRadius="80%" label>
+              {data.map((_, i) => (
+                <Cell key={i} fill={SERIES_COLORS[i % SERIES_COLORS.length]} />
+              ))}
+            </Pie>
+            <Tooltip />
+            <Legend />
+          </PieChart>
+        );
+      default:
+        return (
+          <BarChart data={data}>
+            {axes}
+            {yKeys.map((key, i) => (
+              <Bar key={key} dataKey={key} fill={SERIES_COLORS[i % SERIES_COLORS.length]} radius={[4, 4, 0, 0]} />
+            ))}
+          </BarChart>
+        );
+    }
+  };
+
+  return (
+    <figure className="not-prose my-4 rounded-lg border border-border p-4">
+      {spec.title && <figcaption className="mb-2 text-sm font-medium">{spec.title}</figcaption>}
+      <div className="h-72 w-full">
+        <ResponsiveContainer>{renderChart()}</ResponsiveContainer>
+      </div>
+    </figure>
+  );
+}
@@ -0,0 +1,100 @@
+import type { ComponentProps, ElementType } from 'react';
+import ReactMarkdown, { Components, ExtraProps } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import remarkBreaks from 'remark-breaks';
+import { MathFormula } from './MathFormula';
+import { MermaidDiagram } from './MermaidDiagram';
+import { MarkdownChart } from './MarkdownChart';
+import { CodeBlock } from './CodeBlocks';
+import { normalizeMathDelimiters } from '../lib/math';
+import { parseHighlightLines } from '../lib/highlight';
+
+interface MarkdownContentProps {
+  content: string;
+  // Element overrides; math, code fences, mermaid and chart blocks are handled
+  // here before they are consulted
+  components?: Components;
+  // Treat single newlines as line breaks, for plain text written line by line
+  breaks?: boolean;
+  className?: string;
+}
+
+type CodeProps = ComponentProps<'code'> & ExtraProps;
+type PreProps = ComponentProps<'pre'> & ExtraProps;
+
+// Details of the <code> inside a <pre>. remark-math emits display math as
+// <pre><code class="math-display">, fences as <pre><code class="language-x">
+// with the rest of the info string in `data.meta`.
+function getFence(node: PreProps['node']) {
+  const child = node?.children?.[0];
+  if (!child || child.type !== 'element' || child.tagName !== 'code') return null;
+
+  const classes = ((child.properties?.className as string[] | undefined) || []).map(String);
+  const language = classes.find((name) => name.startsWith('language-'))?.slice('language-'.length) || null;
+  return {
+    classes,
+    language,
+    source: toText(child).replace(/\n$/, ''),
+    meta: (child.data as { meta?: string } | undefined)?.meta,
+  };
+}
+
+function toText(node: { type: string; value?: string; children?: unknown[] }): string {
+  if (node.type === 'text') return node.value || '';
+  return (node.children || []).map((child) => toText(child as typeof node)).join('');
+}
+
+// Markdown renderer shared by chat replies, course sections and assessments, with
+// GFM, LaTeX/chemistry math, highlighted code, ```mermaid diagrams and ```chart
+// JSON charts
+export function MarkdownContent({ content, components, breaks = false, className }: MarkdownContentProps) {
+  const CodeComponent = (components?.code || 'code') as ElementType<CodeProps>;
+  const PreComponent = (components?.pre || 'pre') as ElementType<PreProps>;
+
+  const mergedComponents: Components = {
+    ...components,
+    pre(props: PreProps) {
+      const fence = getFence(props.node);
+      if (!fence) return <PreComponent {...props} />;
+
+      if (fence.classes.includes('math-display')) {
+        return <MathFormula tex={fence.source} display />;
+      }
+
+      // Also the fallback for diagrams and charts that do not parse
+      const codeBlock = (
+        <CodeBlock
+          code={fence.source}
+          language={fence.language}
+          highlightLines={parseHighlightLines(fence.meta)}
+        />
+      );
+      if (fence.language === 'mermaid') {
+        return <MermaidDiagram source={fence.source} fallback={codeBlock} />;
+      }
+      if (fence.language === 'chart') {
+        return <MarkdownChart source={fence.source} fallback={codeBlock} />;
+      }
+      return components?.pre ? <PreComponent {...props} /> : codeBlock;
+    },
+    code(props: CodeProps) {
+      // Fenced blocks are rendered by `pre` above unless the caller overrides it
+      if ((props.className || '').includes('math-inline')) {
+        return <MathFormula tex={String(props.children)} />;
+      }
+      return <CodeComponent {...props} />;
+    },
+  };
+
+  const markdown = (
+    <ReactMarkdown
+      remarkPlugins={breaks ? [remarkGfm, remarkMath, remarkBreaks] : [remarkGfm, remarkMath]}
+      components={mergedComponents}
+    >
+      {normalizeMathDelimiters(content)}
+    </ReactMarkdown>
+  );
+
+  return className ? <div className={className}>{markdown}</div> : markdown;
+}
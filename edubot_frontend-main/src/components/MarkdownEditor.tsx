@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Columns2, Eye, PenLine } from 'lucide-react';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { MarkdownContent } from './MarkdownContent';
+
+type EditorLayout = 'write' | 'split' | 'preview';
+
+interface MarkdownEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  minHeight?: number;
+}
+
+const LAYOUTS: { id: EditorLayout; label: string; icon: typeof Eye }[] = [
+  { id: 'write', label: 'Write', icon: PenLine },
+  { id: 'split', label: 'Side by side', icon: Columns2 },
+  { id: 'preview', label: 'Preview', icon: Eye },
+];
+
+// Markdown source with a live preview rendered the way learners will see it
+export function MarkdownEditor({ id, value, onChange, placeholder, minHeight = 240 }: MarkdownEditorProps) {
+  const [layout, setLayout] = useState<EditorLayout>('split');
+
+  return (
+    <div className="rounded-lg border border-border">
+      <div className="flex items-center justify-between gap-2 border-b border-border px-2 py-1">
+        <span className="text-xs text-muted-foreground">Markdown, math and code blocks are supported</span>
+        <div className="flex gap-1">
+          {LAYOUTS.map(({ id: layoutId, label, icon: Icon }) => (
+            <Button
+              key={layoutId}
+              variant={layout === layoutId ? 'secondary' : 'ghost'}
+              size="icon"
+              className="size-7"
+              onClick={() => setLayout(layoutId)}
+              title={label}
+            >
+              <Icon className="size-4" />
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className={`grid ${layout === 'split' ? 'md:grid-cols-2' : 'grid-cols-1'}`}>
+        {layout !== 'preview' && (
+          <Textarea
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            className="rounded-none border-0 font-mono text-sm resize-y focus-visible:ring-0"
+            style={{ minHeight }}
+          />
+        )}
+        {layout !== 'write' && (
+          <div
+            className={`p-3 overflow-auto ${layout === 'split' ? 'border-t md:border-t-0 md:border-l border-border' : ''}`}
+            style={{ minHeight, maxHeight: minHeight * 2 }}
+          >
+            {value.trim() ? (
+              <MarkdownContent content={value} breaks />
+            ) : (
+              <p className="text-sm text-muted-foreground">Nothing to preview yet</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
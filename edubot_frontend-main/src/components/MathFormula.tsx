@@ -0,0 +1,68 @@
+import { useMemo, useState } from 'react';
+import katex from 'katex';
+import 'katex/contrib/mhchem';
+import 'katex/dist/katex.min.css';
+import { Check, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface MathFormulaProps {
+  tex: string;
+  display?: boolean;
+}
+
+// Renders a LaTeX formula (with mhchem's \ce and \pu for chemistry) and offers
+// the source for copying
+export function MathFormula({ tex, display = false }: MathFormulaProps) {
+  const [copied, setCopied] = useState(false);
+
+  const html = useMemo(
+    () =>
+      katex.renderToString(tex, {
+        displayMode: display,
+        // Show malformed input in red instead of breaking the whole message
+        throwOnError: false,
+        strict: 'ignore',
+      }),
+    [tex, display]
+  );
+
+  const handleCopy = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await navigator.clipboard.writeText(display ? `$$\n${tex}\n$$` : `$${tex}$`);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Failed to copy formula:', error);
+      toast.error('Failed to copy formula');
+    }
+  };
+
+  const copyButton = (
+    <button
+      type="button"
+      onClick={handleCopy}
+      title="Copy as LaTeX"
+      className={`absolute ${display ? '-top-2' : '-top-6'} right-0 z-10 hidden items-center gap-1 rounded border border-border bg-background px-1.5 py-0.5 text-xs text-muted-foreground shadow-sm hover:text-foreground group-hover/math:flex`}
+    >
+      {copied ? <Check className="size-3" /> : <Copy className="size-3" />}
+      LaTeX
+    </button>
+  );
+
+  if (display) {
+    return (
+      <div className="group/math relative my-4">
+        <div className="overflow-x-auto py-1" dangerouslySetInnerHTML={{ __html: html }} />
+        {copyButton}
+      </div>
+    );
+  }
+
+  return (
+    <span className="group/math relative inline-block">
+      <span dangerouslySetInnerHTML={{ __html: html }} />
+      {copyButton}
+    </span>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useId, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+
+// Wait for the source to settle while a reply is still streaming in
+const RENDER_DELAY_MS = 250;
+
+type Mermaid = typeof import('mermaid').default;
+
+let mermaidPromise: Promise<Mermaid> | null = null;
+
+// mermaid is large, so it is only downloaded the first time a diagram is shown
+function loadMermaid(): Promise<Mermaid> {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid').then(({ default: mermaid }) => {
+      mermaid.initialize({
+        startOnLoad: false,
+        securityLevel: 'strict',
+        theme: document.documentElement.classList.contains('dark') ? 'dark' : 'default',
+      });
+      return mermaid;
+    });
+  }
+  return mermaidPromise;
+}
+
+interface MermaidDiagramProps {
+  source: string;
+  // Shown instead when the diagram source does not parse
+  fallback: React.ReactNode;
+}
+
+export function MermaidDiagram({ source, fallback }: MermaidDiagramProps) {
+  const [svg, setSvg] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  // useId output contains colons, which are not valid in the element id mermaid creates
+  const diagramId = `mermaid-${useId().replace(/:/g, '')}`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      try {
+        const mermaid = await loadMermaid();
+        await mermaid.parse(source);
+        const { svg: rendered } = await mermaid.render(diagramId, source);
+        if (!cancelled) {
+          setSvg(rendered);
+          setFailed(false);
+        }
+      } catch (error) {
+        console.warn('Mermaid diagram failed to render:', error);
+        // mermaid leaves its error graphic in the document when render() throws
+        document.getElementById(`d${diagramId}`)?.remove();
+        if (!cancelled) setFailed(true);
+      }
+    }, RENDER_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [source, diagramId]);
+
+  if (failed) return <>{fallback}</>;
+
+  if (!svg) {
+    return (
+      <div className="my-4 flex items-center gap-2 rounded-lg border border-border p-4 text-sm text-muted-foreground">
+        <Loader2 className="size-4 animate-spin" />
+        Rendering diagram...
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="not-prose my-4 flex justify-center overflow-x-auto rounded-lg border border-border bg-background p-4"
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
@@ -16,6 +16,7 @@ import {
 } from 'lucide-react';
 
 import { User } from '../services/api';
+import { usePermissions } from '../hooks/usePermissions';
 
 export type NavigationTab = 
   | 'chat' 
@@ -38,7 +39,9 @@ interface NavigationProps {
 }
 
 export function Navigation({ currentTab, onTabChange, user, onLogout }: NavigationProps) {
-  const tabs = [
+  const { role, canAccessTab } = usePermissions(user ?? null);
+
+  const allTabs = [
     { 
       id: 'chat' as NavigationTab, 
       label: 'Chat', 
@@ -107,6 +110,9 @@ export function Navigation({ currentTab, onTabChange, user, onLogout }: Navigati
     }
   ];
 
+  // Students only see the learning side; grading, analysis and course generation are instructor tools
+  const tabs = allTabs.filter((tab) => canAccessTab(tab.id));
+
   return (
     <div className="w-60 bg-sidebar border-r border-sidebar-border flex flex-col min-h-0">
       {/* Scrollable area for nav items (use flex-1 so footer stays visible) */}
@@ -160,6 +166,7 @@ export function Navigation({ currentTab, onTabChange, user, onLogout }: Navigati
             <div className="min-w-0 overflow-hidden">
               <div className="text-sm font-medium truncate leading-tight">{user ? (user.first_name || user.email?.split('@')[0]) : 'Guest'}</div>
               <div className="text-xs text-sidebar-foreground/60 truncate">{user?.email || ''}</div>
+              <div className="text-[10px] uppercase tracking-wide text-sidebar-foreground/50">{role}</div>
             </div>
           </div>
 
@@ -0,0 +1,193 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download, ExternalLink, Printer } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { splitByRanges } from '../lib/textAnchors';
+import { downloadBlob, printHtml } from '../lib/download';
+import {
+  buildPlagiarismReportHtml,
+  getSimilarityColor,
+  isLocated,
+  PlagiarismMatch,
+  PlagiarismReport,
+} from '../lib/plagiarism';
+
+interface PlagiarismReportViewerProps {
+  report: PlagiarismReport;
+  title?: string;
+}
+
+// The checked text with every flagged span highlighted by similarity, next to
+// the source of the selected match
+export function PlagiarismReportViewer({ report, title = 'Plagiarism Report' }: PlagiarismReportViewerProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const textRef = useRef<HTMLDivElement>(null);
+
+  const { matches } = report;
+  const selected: PlagiarismMatch | undefined = matches[selectedIndex];
+
+  const segments = useMemo(
+    () => splitByRanges(report.text, matches.filter(isLocated)),
+    [report]
+  );
+
+  useEffect(() => setSelectedIndex(0), [report]);
+
+  // Keep the selected match in view inside the text panel
+  useEffect(() => {
+    if (!selected || !isLocated(selected)) return;
+    const container = textRef.current;
+    const mark = container?.querySelector<HTMLElement>(`[data-match~="${selected.id}"]`);
+    if (!container || !mark) return;
+    const top = mark.offsetTop;
+    if (top < container.scrollTop || top > container.scrollTop + container.clientHeight - mark.offsetHeight) {
+      container.scrollTo({ top: Math.max(0, top - container.clientHeight / 3), behavior: 'smooth' });
+    }
+  }, [selected]);
+
+  const go = (step: number) => {
+    if (matches.length === 0) return;
+    setSelectedIndex((index) => (index + step + matches.length) % matches.length);
+  };
+
+  const handleDownloadHtml = () => {
+    const html = buildPlagiarismReportHtml(report, title);
+    downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), 'plagiarism-report.html');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          {[90, 60, 30].map((similarity) => (
+            <span key={similarity} className="flex items-center gap-1">
+              <span
+                className="inline-block size-3 rounded-sm"
+                style={{ background: getSimilarityColor(similarity).background, border: `1px solid ${getSimilarityColor(similarity).border}` }}
+              />
+              {similarity >= 80 ? '80%+' : similarity >= 50 ? '50–79%' : 'Under 50%'}
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleDownloadHtml}>
+            <Download className="size-4 mr-1" />
+            HTML
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => printHtml(buildPlagiarismReportHtml(report, title))}>
+            <Printer className="size-4 mr-1" />
+            PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_320px] gap-4">
+        <div
+          ref={textRef}
+          className="relative max-h-[480px] overflow-auto rounded-lg border border-border p-4 text-sm leading-relaxed whitespace-pre-wrap"
+        >
+          {segments.map((segment) => {
+            if (segment.marks.length === 0) return <span key={segment.start}>{segment.text}</span>;
+
+            // Overlapping matches show in the color of the most similar one
+            const strongest = segment.marks.reduce((a, b) => (b.similarity > a.similarity ? b : a));
+            const isSelected = !!selected && segment.marks.includes(selected);
+            const color = getSimilarityColor(strongest.similarity);
+            // Matches starting here, for scrolling to the selected one
+            const startsHere = segment.marks.filter((match) => match.start === segment.start).map((match) => match.id);
+            return (
+              <mark
+                key={segment.start}
+                data-match={startsHere.join(' ') || undefined}
+                onClick={() => setSelectedIndex(matches.indexOf(isSelected ? selected! : strongest))}
+                style={{
+                  background: color.background,
+                  borderBottom: `2px solid ${color.border}`,
+                  outline: isSelected ? `2px solid ${color.border}` : undefined,
+                  color: 'inherit',
+                  cursor: 'pointer',
+                }}
+                title={`${strongest.similarity}% match · ${strongest.source}`}
+              >
+                {segment.text}
+              </mark>
+            );
+          })}
+        </div>
+
+        <div className="rounded-lg border border-border p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <Button variant="ghost" size="icon" className="size-8" onClick={() => go(-1)} disabled={matches.length < 2} title="Previous match">
+              <ChevronLeft className="size-4" />
+            </Button>
+            <span className="text-sm font-medium">
+              {matches.length > 0 ? `Match ${selectedIndex + 1} of ${matches.length}` : 'No matches'}
+            </span>
+            <Button variant="ghost" size="icon" className="size-8" onClick={() => go(1)} disabled={matches.length < 2} title="Next match">
+              <ChevronRight className="size-4" />
+            </Button>
+          </div>
+
+          {selected && (
+            <>
+              <div className="flex items-center gap-2">
+                <Badge
+                  variant="outline"
+                  style={{ borderColor: getSimilarityColor(selected.similarity).border }}
+                >
+                  {selected.similarity}% Match
+                </Badge>
+                {!isLocated(selected) && <span className="text-xs text-muted-foreground">Not found in the text</span>}
+              </div>
+
+              <div>
+                <p className="text-xs font-semibold text-muted-foreground mb-1">Source</p>
+                <p className="text-sm font-medium break-words">{selected.source}</p>
+                {selected.url && (
+                  <a
+                    href={selected.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 hover:underline flex items-center gap-1 break-all mt-1"
+                  >
+                    <ExternalLink className="size-3 flex-shrink-0" />
+                    <span className="truncate">{selected.url}</span>
+                  </a>
+                )}
+              </div>
+
+              <div>
+                <p className="text-xs font-semibold text-muted-foreground mb-1">
+                  {selected.sourceText ? 'Matched source text' : 'Flagged text'}
+                </p>
+                <p className="text-sm p-2 bg-muted/50 rounded italic">"{selected.sourceText || selected.text}"</p>
+              </div>
+            </>
+          )}
+
+          {matches.length > 1 && (
+            <div className="space-y-1 pt-2 border-t border-border">
+              {matches.map((match, index) => (
+                <button
+                  key={match.id}
+                  type="button"
+                  onClick={() => setSelectedIndex(index)}
+                  className={`w-full flex items-center gap-2 rounded px-2 py-1 text-left text-xs hover:bg-muted ${
+                    index === selectedIndex ? 'bg-muted' : ''
+                  }`}
+                >
+                  <span
+                    className="inline-block size-2 rounded-full flex-shrink-0"
+                    style={{ background: getSimilarityColor(match.similarity).border }}
+                  />
+                  <span className="truncate flex-1">{match.source}</span>
+                  <span className="text-muted-foreground">{match.similarity}%</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Plus, Save, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { rubricStore } from '../services/rubricStore';
+import {
+  createCriterion,
+  createId,
+  createRubric,
+  getTotalWeight,
+  Rubric,
+  RubricCriterion,
+  RubricLevel,
+  validateRubric,
+} from '../lib/rubric';
+
+const NO_RUBRIC = 'none';
+const NEW_RUBRIC = 'new';
+
+interface RubricBuilderProps {
+  value: Rubric | null;
+  onChange: (rubric: Rubric | null) => void;
+  // Hide the "No rubric" option when a rubric is required
+  required?: boolean;
+}
+
+// Pick a rubric template and edit its criteria, weights and performance levels.
+// Changes to a built-in template turn it into an unsaved copy.
+export function RubricBuilder({ value, onChange, required = false }: RubricBuilderProps) {
+  const [templates, setTemplates] = useState<Rubric[]>(() => rubricStore.getAll());
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => rubricStore.onChange(setTemplates), []);
+
+  const isSaved = !!value && templates.some((template) => template.id === value.id && !template.builtin);
+  const errors = value ? validateRubric(value) : [];
+  const totalWeight = value ? getTotalWeight(value) : 0;
+
+  const update = (changes: Partial<Rubric>) => {
+    if (!value) return;
+    const base = value.builtin ? { ...value, id: createId('rubric'), builtin: undefined } : value;
+    onChange({ ...base, ...changes });
+  };
+
+  const updateCriterion = (criterionId: string, changes: Partial<RubricCriterion>) => {
+    if (!value) return;
+    update({
+      criteria: value.criteria.map((criterion) =>
+        criterion.id === criterionId ? { ...criterion, ...changes } : criterion
+      ),
+    });
+  };
+
+  const updateLevel = (index: number, changes: Partial<RubricLevel>) => {
+    if (!value) return;
+    update({ levels: value.levels.map((level, i) => (i === index ? { ...level, ...changes } : level)) });
+  };
+
+  const addLevel = () => {
+    if (!value) return;
+    update({
+      levels: [...value.levels, { label: '', percent: 0 }],
+      criteria: value.criteria.map((criterion) => ({ ...criterion, descriptors: [...criterion.descriptors, ''] })),
+    });
+  };
+
+  const removeLevel = (index: number) => {
+    if (!value) return;
+    update({
+      levels: value.levels.filter((_, i) => i !== index),
+      criteria: value.criteria.map((criterion) => ({
+        ...criterion,
+        descriptors: criterion.descriptors.filter((_, i) => i !== index),
+      })),
+    });
+  };
+
+  const handleSelectTemplate = (templateId: string) => {
+    if (templateId === NO_RUBRIC) {
+      onChange(null);
+    } else if (templateId === NEW_RUBRIC) {
+      onChange(createRubric());
+      setExpanded(true);
+    } else {
+      const template = templates.find((item) => item.id === templateId);
+      if (template) onChange(structuredClone(template));
+    }
+  };
+
+  const handleSave = () => {
+    if (!value) return;
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+    try {
+      onChange(rubricStore.save(value));
+      toast.success('Rubric template saved');
+    } catch (error) {
+      toast.error('Failed to save rubric template');
+      console.error(error);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!value || !isSaved) return;
+    if (!confirm(`Delete the rubric template "${value.name}"?`)) return;
+    rubricStore.remove(value.id);
+    onChange(null);
+    toast.success('Rubric template deleted');
+  };
+
+  // Unsaved edits are not in the template list, so keep them selectable
+  const selectValue = value ? (templates.some((template) => template.id === value.id) ? value.id : 'current') : NO_RUBRIC;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={selectValue} onValueChange={handleSelectTemplate}>
+          <SelectTrigger className="w-[240px]">
+            <SelectValue placeholder="Choose a rubric" />
+          </SelectTrigger>
+          <SelectContent>
+            {!required && <SelectItem value={NO_RUBRIC}>No rubric</SelectItem>}
+            {value && selectValue === 'current' && <SelectItem value="current">{value.name} (unsaved)</SelectItem>}
+            {templates.map((template) => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.name}
+                {template.builtin ? ' (built-in)' : ''}
+              </SelectItem>
+            ))}
+            <SelectItem value={NEW_RUBRIC}>+ New rubric</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {value && (
+          <>
+            <Button type="button" variant="outline" size="sm" onClick={() => setExpanded((open) => !open)}>
+              {expanded ? <ChevronUp className="size-4 mr-1" /> : <ChevronDown className="size-4 mr-1" />}
+              {expanded ? 'Hide criteria' : 'Edit criteria'}
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={handleSave} disabled={value.builtin}>
+              <Save className="size-4 mr-1" />
+              {isSaved ? 'Save' : 'Save as template'}
+            </Button>
+            {isSaved && (
+              <Button type="button" variant="ghost" size="sm" onClick={handleDelete}>
+                <Trash2 className="size-4 mr-1" />
+                Delete
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+
+      {value && !expanded && (
+        <div className="flex flex-wrap gap-1.5">
+          {value.criteria.map((criterion) => (
+            <Badge key={criterion.id} variant="secondary">
+              {criterion.name || 'Untitled'} · {criterion.weight}%
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {value && expanded && (
+        <div className="space-y-3 rounded-lg border border-border p-3">
+          <Input
+            value={value.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="Rubric name"
+            aria-label="Rubric name"
+          />
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="align-top">
+                  <th className="text-left font-medium p-2 min-w-[200px]">Criterion</th>
+                  <th className="text-left font-medium p-2 w-24">Weight %</th>
+                  {value.levels.map((level, index) => (
+                    <th key={index} className="p-2 min-w-[160px]">
+                      <div className="flex items-center gap-1">
+                        <Input
+                          value={level.label}
+                          onChange={(e) => updateLevel(index, { label: e.target.value })}
+                          placeholder="Level"
+                          className="h-8"
+                          aria-label="Level label"
+                        />
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={level.percent}
+                          onChange={(e) => updateLevel(index, { percent: Number(e.target.value) })}
+                          className="h-8 w-16"
+                          aria-label="Level percent"
+                          title="Share of the criterion's marks"
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="size-7 shrink-0"
+                          onClick={() => removeLevel(index)}
+                          disabled={value.levels.length <= 1}
+                          title="Remove level"
+                        >
+                          <X className="size-3" />
+                        </Button>
+                      </div>
+                    </th>
+                  ))}
+                  <th className="p-2 w-10">
+                    <Button type="button" variant="ghost" size="icon" className="size-7" onClick={addLevel} title="Add level">
+                      <Plus className="size-4" />
+                    </Button>
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {value.criteria.map((criterion) => (
+                  <tr key={criterion.id} className="align-top border-t border-border">
+                    <td className="p-2 space-y-1">
+                      <Input
+                        value={criterion.name}
+                        onChange={(e) => updateCriterion(criterion.id, { name: e.target.value })}
+                        placeholder="Criterion name"
+                        aria-label="Criterion name"
+                      />
+                      <Input
+                        value={criterion.description || ''}
+                        onChange={(e) => updateCriterion(criterion.id, { description: e.target.value })}
+                        placeholder="What is assessed"
+                        className="text-xs"
+                        aria-label="Criterion description"
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={criterion.weight}
+                        onChange={(e) => updateCriterion(criterion.id, { weight: Number(e.target.value) })}
+                        aria-label="Criterion weight"
+                      />
+                    </td>
+                    {value.levels.map((level, index) => (
+                      <td key={index} className="p-2">
+                        <Textarea
+                          value={criterion.descriptors[index] || ''}
+                          onChange={(e) => {
+                            const descriptors = [...criterion.descriptors];
+                            descriptors[index] = e.target.value;
+                            updateCriterion(criterion.id, { descriptors });
+                          }}
+                          placeholder={`What ${level.label || 'this level'} looks like`}
+                          className="min-h-[60px] text-xs"
+                        />
+                      </td>
+                    ))}
+                    <td className="p-2">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="size-7"
+                        onClick={() => update({ criteria: value.criteria.filter((item) => item.id !== criterion.id) })}
+                        disabled={value.criteria.length <= 1}
+                        title="Remove criterion"
+                      >
+                        <Trash2 className="size-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => update({ criteria: [...value.criteria, createCriterion(value.levels)] })}
+            >
+              <Plus className="size-4 mr-1" />
+              Add criterion
+            </Button>
+            <span className={`text-sm ${Math.round(totalWeight) === 100 ? 'text-muted-foreground' : 'text-red-500'}`}>
+              Total weight: {totalWeight}%
+            </span>
+          </div>
+        </div>
+      )}
+
+      {value && errors.length > 0 && <p className="text-xs text-red-500">{errors.join(' · ')}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { CRITERION_MAX_SCORE, CriterionResult } from '../lib/rubric';
+
+interface RubricResultsProps {
+  results: CriterionResult[];
+}
+
+// Per-criterion scores from a graded submission
+export function RubricResults({ results }: RubricResultsProps) {
+  if (results.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {results.map((result, index) => (
+        <div key={index} className="border border-border rounded-lg p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 min-w-0">
+              <span className="font-medium text-sm truncate">{result.name}</span>
+              {result.weight !== undefined && (
+                <span className="text-xs text-muted-foreground shrink-0">{result.weight}%</span>
+              )}
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {result.level && <Badge variant="secondary">{result.level}</Badge>}
+              <Badge variant="outline">
+                {result.score}/{CRITERION_MAX_SCORE}
+              </Badge>
+            </div>
+          </div>
+          <Progress value={(result.score / CRITERION_MAX_SCORE) * 100} className="h-1.5" />
+          {result.feedback && <p className="text-xs text-muted-foreground">{result.feedback}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
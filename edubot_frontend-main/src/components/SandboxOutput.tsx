@@ -0,0 +1,40 @@
+import { Loader2 } from 'lucide-react';
+import type { SandboxRunResult } from '../types/sandbox';
+
+interface SandboxOutputProps {
+  result: SandboxRunResult | null;
+  running: boolean;
+  // Shown while running, e.g. while the Python runtime downloads
+  runningLabel?: string;
+}
+
+// stdout/stderr panel under a runnable code block or exercise
+export function SandboxOutput({ result, running, runningLabel = 'Running...' }: SandboxOutputProps) {
+  if (running) {
+    return (
+      <div className="flex items-center gap-2 border-t border-border px-4 py-3 text-xs text-muted-foreground">
+        <Loader2 className="size-3 animate-spin" />
+        {runningLabel}
+      </div>
+    );
+  }
+
+  if (!result) return null;
+
+  const empty = !result.stdout && !result.stderr && !result.error;
+
+  return (
+    <div className="border-t border-border bg-muted/20 text-sm">
+      <div className="flex items-center justify-between px-4 py-1.5 text-xs text-muted-foreground">
+        <span>Output</span>
+        <span>{result.timedOut ? 'Stopped' : `Finished in ${result.durationMs} ms`}</span>
+      </div>
+      <pre className="max-h-72 overflow-auto px-4 pb-3 font-mono text-xs whitespace-pre-wrap">
+        {result.stdout}
+        {result.stderr && <span style={{ color: '#dc2626' }}>{result.stderr}</span>}
+        {result.error && <span style={{ color: '#dc2626' }}>{result.error}</span>}
+        {empty && <span className="text-muted-foreground">(no output)</span>}
+      </pre>
+    </div>
+  );
+}
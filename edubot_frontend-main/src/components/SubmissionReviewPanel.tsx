@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import { Bot, CheckCircle2, Eye, Loader2, Save, Send, UserCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import { Label } from './ui/label';
+import { AnnotatedContent } from './AnnotatedContent';
+import { EditableList } from './EditableList';
+import { apiService, Submission, SubmissionAuditEntry, SubmissionComment } from '../services/api';
+import { createId } from '../lib/rubric';
+import type { TextRange } from '../lib/textAnchors';
+
+interface SubmissionReviewPanelProps {
+  submission: Submission;
+  onSaved: () => void;
+}
+
+// Older submissions have no audit log, so rebuild what we can from timestamps
+function getAuditTrail(submission: Submission): SubmissionAuditEntry[] {
+  if (submission.audit_log?.length) return submission.audit_log;
+
+  const entries: SubmissionAuditEntry[] = [];
+  if (submission.graded_at) {
+    entries.push({ action: 'ai_graded', at: submission.graded_at, score: submission.ai_grade ?? submission.grade });
+  }
+  if (submission.reviewed_at) {
+    entries.push({ action: 'reviewed', at: submission.reviewed_at, score: submission.grade });
+  }
+  if (submission.released_at) {
+    entries.push({ action: 'released', at: submission.released_at, score: submission.grade });
+  }
+  return entries;
+}
+
+const AUDIT_LABELS: Record<SubmissionAuditEntry['action'], string> = {
+  ai_graded: 'AI graded',
+  reviewed: 'Reviewed',
+  released: 'Released to student',
+};
+
+const AUDIT_ICONS: Record<SubmissionAuditEntry['action'], typeof Bot> = {
+  ai_graded: Bot,
+  reviewed: UserCheck,
+  released: Eye,
+};
+
+// Lets an instructor check the AI grade, override the score and feedback,
+// comment on the submission and release the result to the student
+export function SubmissionReviewPanel({ submission, onSaved }: SubmissionReviewPanelProps) {
+  const aiGrade = submission.ai_grade ?? submission.grade;
+  const [grade, setGrade] = useState(String(submission.grade ?? ''));
+  const [feedback, setFeedback] = useState(submission.feedback || '');
+  const [keyPoints, setKeyPoints] = useState<string[]>(submission.key_points || []);
+  const [improvements, setImprovements] = useState<string[]>(submission.areas_for_improvement || []);
+  const [comments, setComments] = useState<SubmissionComment[]>(submission.comments || []);
+  const [saving, setSaving] = useState<'save' | 'release' | null>(null);
+
+  useEffect(() => {
+    setGrade(String(submission.grade ?? ''));
+    setFeedback(submission.feedback || '');
+    setKeyPoints(submission.key_points || []);
+    setImprovements(submission.areas_for_improvement || []);
+    setComments(submission.comments || []);
+  }, [submission]);
+
+  const finalGrade = Number(grade);
+  const gradeValid = grade.trim() !== '' && !isNaN(finalGrade) && finalGrade >= 0 && finalGrade <= 100;
+  const delta = gradeValid && aiGrade !== undefined ? Math.round((finalGrade - aiGrade) * 10) / 10 : 0;
+  const released = submission.status === 'released';
+  const auditTrail = getAuditTrail(submission);
+
+  const handleAddComment = (range: TextRange, text: string) => {
+    setComments((current) => [
+      ...current,
+      {
+        id: createId('comment'),
+        start: range.start,
+        end: range.end,
+        quote: submission.content.slice(range.start, range.end),
+        text,
+        author_id: apiService.getCurrentUser()?.id,
+        created_at: new Date().toISOString(),
+      },
+    ]);
+  };
+
+  const handleSave = async (release: boolean) => {
+    if (!gradeValid) {
+      toast.error('Enter a final score between 0 and 100');
+      return;
+    }
+
+    setSaving(release ? 'release' : 'save');
+    try {
+      await apiService.reviewSubmission(
+        submission.id,
+        {
+          grade: finalGrade,
+          feedback,
+          key_points: keyPoints.map((point) => point.trim()).filter(Boolean),
+          areas_for_improvement: improvements.map((area) => area.trim()).filter(Boolean),
+          comments,
+        },
+        release
+      );
+      toast.success(release ? 'Grade released to the student' : 'Review saved');
+      onSaved();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save review');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-wrap items-end gap-4 p-4 bg-muted/30 rounded-lg">
+        <div>
+          <Label className="text-muted-foreground">AI score</Label>
+          <p className="text-2xl font-bold mt-1">{aiGrade !== undefined ? `${aiGrade}/100` : '—'}</p>
+        </div>
+        <div>
+          <Label htmlFor="review-grade">Final score</Label>
+          <div className="flex items-center gap-2 mt-1">
+            <Input
+              id="review-grade"
+              type="number"
+              min={0}
+              max={100}
+              value={grade}
+              onChange={(e) => setGrade(e.target.value)}
+              className="w-24"
+            />
+            <span className="text-muted-foreground">/100</span>
+            {delta !== 0 && (
+              <Badge variant="outline" className={delta > 0 ? 'text-green-600' : 'text-red-600'}>
+                {delta > 0 ? '+' : ''}
+                {delta} vs AI
+              </Badge>
+            )}
+          </div>
+        </div>
+        <Badge variant="secondary" className="ml-auto">
+          {released ? 'Released' : submission.status === 'reviewed' ? 'Reviewed, not released' : 'Awaiting review'}
+        </Badge>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="review-feedback">Feedback</Label>
+        <Textarea
+          id="review-feedback"
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          className="min-h-[120px]"
+        />
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <EditableList label="Key Points" items={keyPoints} onChange={setKeyPoints} placeholder="Add a key point" />
+        <EditableList
+          label="Areas for Improvement"
+          items={improvements}
+          onChange={setImprovements}
+          placeholder="Add an area for improvement"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Inline comments</Label>
+        <AnnotatedContent
+          content={submission.content}
+          comments={comments}
+          onAddComment={handleAddComment}
+          onRemoveComment={(id) => setComments((current) => current.filter((comment) => comment.id !== id))}
+        />
+      </div>
+
+      {auditTrail.length > 0 && (
+        <div className="space-y-2">
+          <Label>History</Label>
+          <ul className="space-y-1.5">
+            {auditTrail.map((entry, index) => {
+              const Icon = AUDIT_ICONS[entry.action] || CheckCircle2;
+              return (
+                <li key={index} className="flex items-center gap-2 text-sm">
+                  <Icon className="size-4 text-muted-foreground shrink-0" />
+                  <span>{AUDIT_LABELS[entry.action] || entry.action}</span>
+                  {entry.score !== undefined && <Badge variant="outline">{entry.score}/100</Badge>}
+                  {entry.note && <span className="text-muted-foreground truncate">{entry.note}</span>}
+                  <span className="text-xs text-muted-foreground ml-auto shrink-0">
+                    {new Date(entry.at).toLocaleString()}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => handleSave(false)} disabled={saving !== null}>
+          {saving === 'save' ? <Loader2 className="size-4 mr-2 animate-spin" /> : <Save className="size-4 mr-2" />}
+          Save review
+        </Button>
+        <Button onClick={() => handleSave(true)} disabled={saving !== null}>
+          {saving === 'release' ? <Loader2 className="size-4 mr-2 animate-spin" /> : <Send className="size-4 mr-2" />}
+          {released ? 'Save & update release' : 'Save & release'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -8,10 +8,29 @@ import { Badge } from './ui/badge';
 import { Separator } from './ui/separator';
 import { ScrollArea } from './ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
-import { Upload, FileText, Code, BookOpen, Loader2, CheckCircle, Clock, AlertCircle, Eye, Plus, Calendar, AlertTriangle } from 'lucide-react';
-import { apiService, Submission } from '../services/api';
+import { Upload, FileText, Code, BookOpen, Loader2, CheckCircle, Clock, AlertCircle, Eye, Plus, Calendar, AlertTriangle, Users, MessageSquare, UserCheck, ShieldCheck } from 'lucide-react';
+import { apiService, Submission, SubmissionComment, SubmissionIntegrity } from '../services/api';
+import { usePermissions } from '../hooks/usePermissions';
 import { toast } from 'sonner';
 import { Modal } from 'antd';
+import { CodeBlock } from './CodeBlocks';
+import { MarkdownContent } from './MarkdownContent';
+import { guessLanguage } from '../lib/highlight';
+import { RubricBuilder } from './RubricBuilder';
+import { RubricResults } from './RubricResults';
+import { SubmissionReviewPanel } from './SubmissionReviewPanel';
+import { AnnotatedContent } from './AnnotatedContent';
+import { IntegrityCheckPanel } from './IntegrityCheckPanel';
+import { EXTRACTION_FAILED_MESSAGE, isExtractionIncomplete } from '../lib/documentText';
+import {
+  BUILTIN_RUBRICS,
+  CriterionResult,
+  GradingBreakdownItem,
+  matchCriterionResults,
+  Rubric,
+  serializeRubric,
+  validateRubric,
+} from '../lib/rubric';
 
 
 // Define proper TypeScript interfaces for API responses
@@ -22,6 +41,7 @@ interface GradingDetail {
   key_points: string[];
   areas_for_improvement: string[];
   max_score: number;
+  breakdown?: GradingBreakdownItem[];
 }
 
 // ADD THIS: Define the grading response type with optional nested properties
@@ -37,7 +57,9 @@ interface GradingResponse {
     key_points?: string[];
     areasforimprovement?: string[];
     areas_for_improvement?: string[];
+    breakdown?: GradingBreakdownItem[];
   };
+  breakdown?: GradingBreakdownItem[];
 }
 
 
@@ -48,8 +70,36 @@ interface SubmissionDetail extends Submission {
 }
 
 
+// Built-in rubric template for a submission type
+function getDefaultRubric(type: string): Rubric | null {
+  const rubric = BUILTIN_RUBRICS.find((item) => item.id === `builtin-${type}`);
+  return rubric ? structuredClone(rubric) : null;
+}
+
+// Students only see grades an instructor has released. A `graded` submission
+// counts as released only when it predates reviews, i.e. has no AI grade or
+// review fields; anything else `graded` is an AI grade nobody has checked.
+function isGradeVisible(submission?: Submission): boolean {
+  if (!submission) return false;
+  if (submission.status === 'released') return true;
+  return (
+    submission.status === 'graded' &&
+    submission.ai_grade === undefined &&
+    !submission.reviewed_at &&
+    !submission.released_at &&
+    !submission.audit_log?.length
+  );
+}
+
+
 export function Submissions() {
+  const { can } = usePermissions();
+  const canViewCohort = can('view_cohort');
+  const canGrade = can('grade');
+  const canAnalyze = can('analyze');
   const [activeTab, setActiveTab] = useState<'list' | 'submit'>('list');
+  // Instructors can switch between their own submissions and the whole cohort
+  const [scope, setScope] = useState<'mine' | 'cohort'>('mine');
   const [submissions, setSubmissions] = useState<Submission[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -58,6 +108,7 @@ export function Submissions() {
     type: 'assignment' as 'assignment' | 'code' | 'essay',
     file: null as File | null
   });
+  const [submitRubric, setSubmitRubric] = useState<Rubric | null>(() => getDefaultRubric('assignment'));
 
 
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -69,13 +120,23 @@ export function Submissions() {
     feedback?: string;
     keyPoints?: string[];
     areasForImprovement?: string[];
+    criteria?: CriterionResult[];
+    rubricName?: string;
+    // Submitted text, shown as highlighted code for code submissions
+    content?: string;
+    submissionType?: string;
+    status?: string;
+    comments?: SubmissionComment[];
+    integrity?: SubmissionIntegrity;
+    // Full record for the instructor review panel
+    detail?: SubmissionDetail;
     isLoading: boolean;
   } | null>(null);
 
 
   useEffect(() => {
     loadSubmissions();
-  }, []);
+  }, [scope]);
 
 
   const loadSubmissions = async () => {
@@ -88,7 +149,8 @@ export function Submissions() {
       }
 
 
-      const response = await apiService.getSubmissions(user.id);
+      setIsLoading(true);
+      const response = await apiService.getSubmissions(scope === 'cohort' && canViewCohort ? undefined : user.id);
       console.log('Loaded submissions:', response);
       setSubmissions(Array.isArray(response) ? response : []);
     } catch (error) {
@@ -119,6 +181,11 @@ export function Submissions() {
       toast.error('Please provide a title and select a file');
       return;
     }
+    const rubricErrors = submitRubric ? validateRubric(submitRubric) : [];
+    if (rubricErrors.length > 0) {
+      toast.error(rubricErrors[0]);
+      return;
+    }
     
     setIsSubmitting(true);
     
@@ -134,30 +201,7 @@ export function Submissions() {
       console.log('Submitting file:', submitForm.file.name);
 
 
-      // FIXED: Use submit-file endpoint instead of submit
-      const formData = new FormData();
-      formData.append('assignment_id', submitForm.title);
-      formData.append('user_id', user.id);
-      formData.append('submission_type', submitForm.type);
-      formData.append('file', submitForm.file);
-
-
-      const baseUrl = apiService['baseUrl'];
-      
-      // FIXED: Changed endpoint from /submit to /submit-file
-      const response = await fetch(`${baseUrl}/api/submissions/submit-file`, {
-        method: 'POST',
-        body: formData,
-      });
-
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ detail: 'Submission failed' }));
-        throw new Error(errorData.detail || 'Submission failed');
-      }
-
-
-      const submitResponse = await response.json();
+      const submitResponse = await apiService.submitFile(submitForm.title, submitForm.type, submitForm.file);
       console.log('Submission created:', submitResponse);
       
       if (!submitResponse || !submitResponse.id) {
@@ -172,60 +216,16 @@ export function Submissions() {
       console.log('📄 Content length:', extractedContent.length);
       console.log('📄 Content preview:', extractedContent.substring(0, 300));
       
-      if (!extractedContent || extractedContent.trim().length < 10) {
+      if (isExtractionIncomplete(extractedContent)) {
         toast.warning('File content extraction incomplete. Using minimal grading.');
-        extractedContent = `Assignment: ${submitForm.title}\nFile: ${submitForm.file.name}\n\nNote: Content could not be extracted from the file. This may be a scanned PDF or an unsupported format.`;
+        extractedContent = `Assignment: ${submitForm.title}\nFile: ${submitForm.file.name}\n\nNote: ${EXTRACTION_FAILED_MESSAGE}`;
       } else {
         console.log('✅ Content extracted successfully:', extractedContent.substring(0, 200) + '...');
       }
       
-      // Grade the submission
-      const getDetailedRubric = (type: string) => {
-        const fileName = submitForm.file?.name || '';
-        const fileExtension = fileName.split('.').pop()?.toLowerCase() || '';
-        
-        switch(type) {
-          case 'code':
-            return `
-Evaluate the submitted code based on the following criteria:
-1. Correctness (30%): Does the code solve the problem correctly?
-2. Code Quality (25%): Is the code well-structured, readable, and maintainable?
-3. Efficiency (20%): Does the code use appropriate algorithms and data structures?
-4. Best Practices (15%): Does it follow language-specific conventions and standards?
-5. Documentation (10%): Are there appropriate comments and documentation?
-
-
-Provide specific, actionable feedback for each criterion.
-File type: ${fileExtension}
-`.trim();
-          case 'essay':
-            return `
-Evaluate the submitted essay based on the following criteria:
-1. Thesis & Argument (30%): Clear thesis statement and strong argumentation
-2. Content & Analysis (25%): Depth of research and critical analysis
-3. Organization & Structure (20%): Logical flow and paragraph structure
-4. Writing Quality (15%): Grammar, clarity, and academic tone
-5. Citations & Sources (10%): Proper citation and use of credible sources
-
-
-Provide specific, constructive feedback for each criterion.
-Document type: ${fileExtension}
-`.trim();
-          default:
-            return `
-Evaluate the submitted assignment based on the following criteria:
-1. Understanding (30%): Demonstrates comprehension of the topic
-2. Completeness (25%): Addresses all required components
-3. Quality (20%): Depth and accuracy of content
-4. Organization (15%): Clear structure and presentation
-5. Effort & Originality (10%): Shows original thinking and effort
-
-
-Provide specific, helpful feedback for each criterion.
-File type: ${fileExtension}
-`.trim();
-        }
-      };
+      // Grade the submission against the chosen rubric
+      const fileExtension = submitForm.file?.name.split('.').pop()?.toLowerCase() || '';
+      const rubricText = submitRubric ? `${serializeRubric(submitRubric)}\nFile type: ${fileExtension}` : undefined;
       
       try {
         let gradingResponse: GradingResponse;
@@ -236,7 +236,7 @@ File type: ${fileExtension}
           gradingResponse = await apiService.gradeCode({
             problem_description: `Assignment: ${submitForm.title}\nFile: ${submitForm.file?.name || 'Unknown'}`,
             student_code: extractedContent,
-            rubric: getDetailedRubric('code')
+            rubric: rubricText
           });
         } else {
           gradingResponse = await apiService.gradeText({
@@ -244,12 +244,10 @@ File type: ${fileExtension}
             answer: extractedContent,
             assignment_type: submitForm.type === 'essay' ? 'Essay' : 'Assignment',
             total_score: 100,
-            rubric: getDetailedRubric(submitForm.type)
+            rubric: rubricText
           });
         }
         
-        console.log('🎓 Grading response:', gradingResponse);
-        
         // Extract grade
         let extractedGrade = 0;
         if (gradingResponse?.grading?.score !== undefined) {
@@ -258,30 +256,23 @@ File type: ${fileExtension}
           extractedGrade = gradingResponse.score;
         }
         
-        console.log('🎓 Extracted grade:', extractedGrade);
-        
         // Update submission with grade
         if (submitResponse.id && gradingResponse) {
           const feedbackText = gradingResponse.grading?.feedback || gradingResponse.feedback || 'Graded successfully';
           const keyPoints = gradingResponse.grading?.keypoints || gradingResponse.grading?.key_points || gradingResponse.key_points || [];
           const areasForImprovement = gradingResponse.grading?.areasforimprovement || gradingResponse.grading?.areas_for_improvement || gradingResponse.areas_for_improvement || [];
-          
-          console.log('📝 Updating submission with grade data:', {
-            grade: extractedGrade,
-            feedbackLength: feedbackText.length,
-            keyPointsCount: keyPoints.length,
-            areasCount: areasForImprovement.length
-          });
+          const breakdown = gradingResponse.grading?.breakdown || gradingResponse.breakdown || [];
           
           await apiService.gradeSubmission(
             submitResponse.id,
             extractedGrade,
             feedbackText,
             keyPoints,
-            areasForImprovement
+            areasForImprovement,
+            { breakdown, rubric: submitRubric }
           );
           
-          toast.success(`Assignment graded! Score: ${extractedGrade}/100`, {
+          toast.success('Assignment submitted! Your grade will be available once your instructor has reviewed it.', {
             duration: 5000
           });
         }
@@ -303,6 +294,7 @@ File type: ${fileExtension}
       
       // Reset form
       setSubmitForm({ title: '', type: 'assignment', file: null });
+      setSubmitRubric(getDefaultRubric('assignment'));
       const fileInput = document.getElementById('file-upload') as HTMLInputElement;
       if (fileInput) fileInput.value = '';
       
@@ -322,7 +314,9 @@ File type: ${fileExtension}
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'graded': return 'default';
+      case 'released': return 'default';
       case 'reviewed': return 'secondary';
+      case 'pending_review': return 'outline';
       case 'pending': return 'outline';
       default: return 'outline';
     }
@@ -332,7 +326,9 @@ File type: ${fileExtension}
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'graded': return CheckCircle;
+      case 'released': return CheckCircle;
       case 'reviewed': return Eye;
+      case 'pending_review': return Clock;
       case 'pending': return Clock;
       default: return AlertCircle;
     }
@@ -384,6 +380,7 @@ File type: ${fileExtension}
         keyPoints = detail.key_points;
         areasForImprovement = detail.areas_for_improvement;
       }
+      const criteria = matchCriterionResults(detail.grading_detail?.breakdown || detail.breakdown || [], detail.rubric);
 
 
       setCurrentSubmission({
@@ -394,6 +391,14 @@ File type: ${fileExtension}
         feedback: feedback || 'No feedback available',
         keyPoints: keyPoints,
         areasForImprovement: areasForImprovement,
+        criteria,
+        rubricName: detail.rubric?.name,
+        content: detail.content,
+        submissionType: detail.submission_type,
+        status: detail.status,
+        comments: detail.comments,
+        integrity: detail.integrity,
+        detail,
         isLoading: false
       });
     } catch (error) {
@@ -405,6 +410,9 @@ File type: ${fileExtension}
   };
 
 
+  const resultsVisible = canGrade || isGradeVisible(currentSubmission?.detail);
+
+
   const handleCancel = () => {
     setIsModalOpen(false);
     setTimeout(() => {
@@ -477,16 +485,30 @@ if (isLoading) {
                 <div className="flex items-center justify-between mb-6">
                   <TabsList className="grid w-fit grid-cols-2">
                     <TabsTrigger value="list" className="flex items-center gap-2">
-                      <FileText className="size-4" />My Submissions
+                      {scope === 'cohort' ? <Users className="size-4" /> : <FileText className="size-4" />}
+                      {scope === 'cohort' ? 'Cohort Submissions' : 'My Submissions'}
                     </TabsTrigger>
                     <TabsTrigger value="submit" className="flex items-center gap-2">
                       <Plus className="size-4" />Submit New
                     </TabsTrigger>
                   </TabsList>
                   {activeTab === 'list' && (
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <FileText className="size-4" />
-                      <span>{submissions?.length || 0} submission{submissions?.length !== 1 ? 's' : ''}</span>
+                    <div className="flex items-center gap-4">
+                      {canViewCohort && (
+                        <Select value={scope} onValueChange={(value: string) => setScope(value as 'mine' | 'cohort')}>
+                          <SelectTrigger className="w-44">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="mine">My submissions</SelectItem>
+                            <SelectItem value="cohort">All students</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      )}
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <FileText className="size-4" />
+                        <span>{submissions?.length || 0} submission{submissions?.length !== 1 ? 's' : ''}</span>
+                      </div>
                     </div>
                   )}
                 </div>
@@ -522,7 +544,7 @@ if (isLoading) {
                                 </div>
                                 <Badge variant={getStatusColor(submission.status)} className="text-xs flex-shrink-0">
                                   <StatusIcon className="size-3 mr-1" />
-                                  {submission.status}
+                                  {submission.status.replace(/_/g, ' ')}
                                 </Badge>
                               </div>
                               <CardTitle className="text-base line-clamp-2">
@@ -530,11 +552,17 @@ if (isLoading) {
                               </CardTitle>
                             </CardHeader>
                             <CardContent className="space-y-3">
+                              {scope === 'cohort' && (
+                                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                  <Users className="size-4 flex-shrink-0" />
+                                  <span className="truncate">Student {submission.user_id}</span>
+                                </div>
+                              )}
                               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                                 <Calendar className="size-4 flex-shrink-0" />
                                 <span className="truncate">{formatDate(submission.submitted_at)}</span>
                               </div>
-                              {submission.grade !== undefined && submission.grade !== null && (
+                              {(canGrade || isGradeVisible(submission)) && submission.grade !== undefined && submission.grade !== null && (
                                 (() => {
                                   const numericGrade = typeof submission.grade === 'string' ? parseFloat(submission.grade) : submission.grade;
                                   if (isNaN(numericGrade)) return null;
@@ -590,9 +618,11 @@ if (isLoading) {
                         <Label htmlFor="type">Assignment Type</Label>
                         <Select
                           value={submitForm.type}
-                          onValueChange={(value: 'assignment' | 'code' | 'essay') =>
-                            setSubmitForm(prev => ({ ...prev, type: value }))
-                          }
+                          onValueChange={(value: 'assignment' | 'code' | 'essay') => {
+                            setSubmitForm(prev => ({ ...prev, type: value }));
+                            // Follow the type unless a custom rubric was picked
+                            if (!submitRubric || submitRubric.builtin) setSubmitRubric(getDefaultRubric(value));
+                          }}
                         >
                           <SelectTrigger>
                             <SelectValue />
@@ -617,6 +647,11 @@ if (isLoading) {
                         </Select>
                       </div>
                 
+                      <div className="space-y-2">
+                        <Label>Grading Rubric</Label>
+                        <RubricBuilder value={submitRubric} onChange={setSubmitRubric} />
+                      </div>
+                
                       <div className="space-y-2">
                         <Label htmlFor="file-upload">Upload File</Label>
                         <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6 text-center hover:border-muted-foreground/50 transition-colors cursor-pointer"
@@ -682,7 +717,7 @@ if (isLoading) {
         open={isModalOpen}
         onOk={handleCancel}
         onCancel={handleCancel}
-        width={800}
+        width={canGrade ? 960 : 800}
         closable
         destroyOnClose={true}
         footer={[
@@ -712,7 +747,7 @@ if (isLoading) {
             </div>
 
 
-            {currentSubmission.score !== undefined && currentSubmission.score !== null && (
+            {!canGrade && resultsVisible && currentSubmission.score !== undefined && currentSubmission.score !== null && (
               <div className={`p-4 rounded-lg border ${
                 (currentSubmission.score / (currentSubmission.maxScore || 100)) * 100 >= 70
                   ? 'bg-green-50 dark:bg-green-950 border-green-200 dark:border-green-800'
@@ -735,64 +770,132 @@ if (isLoading) {
                 </div>
               </div>
             )}
-        
-            <div>
-              <h4 className="font-semibold mb-3 text-lg flex items-center gap-2">
-                <BookOpen className="size-5" />
-                AI Feedback
-              </h4>
-              <div className="bg-muted/30 p-4 rounded-lg border">
-                <p className="text-sm whitespace-pre-wrap leading-relaxed">
-                  {currentSubmission.feedback}
-                </p>
-              </div>
-            </div>
 
 
-            {currentSubmission.keyPoints && currentSubmission.keyPoints.length > 0 && (
+            {currentSubmission.submissionType === 'code' && currentSubmission.content && (
               <div>
                 <h4 className="font-semibold mb-3 text-lg flex items-center gap-2">
-                  <CheckCircle className="size-5 text-green-500" />
-                  Key Points
+                  <Code className="size-5" />
+                  Submitted Code
                 </h4>
-                <div className="space-y-2">
-                  {currentSubmission.keyPoints.map((point, index) => (
-                    <div key={index} className="flex items-start gap-2 p-3 bg-green-50 dark:bg-green-950/20 border border-green-200 dark:border-green-800 rounded-lg">
-                      <CheckCircle className="size-4 text-green-600 mt-0.5 flex-shrink-0" />
-                      <p className="text-sm">{point}</p>
-                    </div>
-                  ))}
-                </div>
+                <CodeBlock code={currentSubmission.content} language={guessLanguage(currentSubmission.content)} />
               </div>
             )}
 
+            {resultsVisible && currentSubmission.criteria && currentSubmission.criteria.length > 0 && (
+              <div>
+                <h4 className="font-semibold mb-3 text-lg flex items-center gap-2">
+                  <CheckCircle className="size-5" />
+                  {currentSubmission.rubricName ? `Rubric: ${currentSubmission.rubricName}` : 'Criteria'}
+                </h4>
+                <RubricResults results={currentSubmission.criteria} />
+              </div>
+            )}
 
-            {currentSubmission.areasForImprovement && currentSubmission.areasForImprovement.length > 0 && (
+            {canAnalyze && currentSubmission.content && (
               <div>
                 <h4 className="font-semibold mb-3 text-lg flex items-center gap-2">
-                  <AlertTriangle className="size-5 text-orange-500" />
-                  Areas for Improvement
+                  <ShieldCheck className="size-5" />
+                  Integrity Check
                 </h4>
-                <div className="space-y-2">
-                  {currentSubmission.areasForImprovement.map((area, index) => (
-                    <div key={index} className="flex items-start gap-2 p-3 bg-orange-50 dark:bg-orange-950/20 border border-orange-200 dark:border-orange-800 rounded-lg">
-                      <AlertTriangle className="size-4 text-orange-600 mt-0.5 flex-shrink-0" />
-                      <p className="text-sm">{area}</p>
-                    </div>
-                  ))}
-                </div>
+                <IntegrityCheckPanel
+                  submissionId={currentSubmission.id}
+                  content={currentSubmission.content}
+                  integrity={currentSubmission.integrity}
+                  onChange={(integrity) =>
+                    setCurrentSubmission((current) => (current ? { ...current, integrity } : current))
+                  }
+                />
               </div>
             )}
 
+            {canGrade ? (
+              currentSubmission.detail && (
+                <div>
+                  <h4 className="font-semibold mb-3 text-lg flex items-center gap-2">
+                    <UserCheck className="size-5" />
+                    Instructor Review
+                  </h4>
+                  <SubmissionReviewPanel
+                    submission={currentSubmission.detail}
+                    onSaved={() => {
+                      handleView(currentSubmission.id);
+                      loadSubmissions();
+                    }}
+                  />
+                </div>
+              )
+            ) : resultsVisible ? (
+              <>
+                <div>
+                  <h4 className="font-semibold mb-3 text-lg flex items-center gap-2">
+                    <BookOpen className="size-5" />
+                    AI Feedback
+                  </h4>
+                  <div className="bg-muted/30 p-4 rounded-lg border">
+                    <MarkdownContent
+                      content={currentSubmission.feedback || ''}
+                      breaks
+                      className="text-sm leading-relaxed"
+                    />
+                  </div>
+                </div>
+
 
-            {currentSubmission.feedback && currentSubmission.feedback !== 'No feedback available' && (
-              <div className="flex gap-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="flex-1"
-                  onClick={() => {
-                    const fullFeedback = `
+                {currentSubmission.keyPoints && currentSubmission.keyPoints.length > 0 && (
+                  <div>
+                    <h4 className="font-semibold mb-3 text-lg flex items-center gap-2">
+                      <CheckCircle className="size-5 text-green-500" />
+                      Key Points
+                    </h4>
+                    <div className="space-y-2">
+                      {currentSubmission.keyPoints.map((point, index) => (
+                        <div key={index} className="flex items-start gap-2 p-3 bg-green-50 dark:bg-green-950/20 border border-green-200 dark:border-green-800 rounded-lg">
+                          <CheckCircle className="size-4 text-green-600 mt-0.5 flex-shrink-0" />
+                          <p className="text-sm">{point}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+
+                {currentSubmission.areasForImprovement && currentSubmission.areasForImprovement.length > 0 && (
+                  <div>
+                    <h4 className="font-semibold mb-3 text-lg flex items-center gap-2">
+                      <AlertTriangle className="size-5 text-orange-500" />
+                      Areas for Improvement
+                    </h4>
+                    <div className="space-y-2">
+                      {currentSubmission.areasForImprovement.map((area, index) => (
+                        <div key={index} className="flex items-start gap-2 p-3 bg-orange-50 dark:bg-orange-950/20 border border-orange-200 dark:border-orange-800 rounded-lg">
+                          <AlertTriangle className="size-4 text-orange-600 mt-0.5 flex-shrink-0" />
+                          <p className="text-sm">{area}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+
+                {currentSubmission.comments && currentSubmission.comments.length > 0 && currentSubmission.content && (
+                  <div>
+                    <h4 className="font-semibold mb-3 text-lg flex items-center gap-2">
+                      <MessageSquare className="size-5" />
+                      Instructor Comments
+                    </h4>
+                    <AnnotatedContent content={currentSubmission.content} comments={currentSubmission.comments} />
+                  </div>
+                )}
+
+                {currentSubmission.feedback && currentSubmission.feedback !== 'No feedback available' && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => {
+                        const fullFeedback = `
 Score: ${currentSubmission.score}/${currentSubmission.maxScore || 100}
 
 
@@ -802,13 +905,25 @@ ${currentSubmission.feedback}
 
 ${currentSubmission.keyPoints && currentSubmission.keyPoints.length > 0 ? `Key Points:\n${currentSubmission.keyPoints.map((p, i) => `${i + 1}. ${p}`).join('\n')}\n\n` : ''}
 ${currentSubmission.areasForImprovement && currentSubmission.areasForImprovement.length > 0 ? `Areas for Improvement:\n${currentSubmission.areasForImprovement.map((a, i) => `${i + 1}. ${a}`).join('\n')}` : ''}
-                    `.trim();
-                    navigator.clipboard.writeText(fullFeedback);
-                    toast.success('Full feedback copied to clipboard!');
-                  }}
-                >
-                  📋 Copy Full Feedback
-                </Button>
+                        `.trim();
+                        navigator.clipboard.writeText(fullFeedback);
+                        toast.success('Full feedback copied to clipboard!');
+                      }}
+                    >
+                      📋 Copy Full Feedback
+                    </Button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="flex items-start gap-3 p-4 bg-muted/30 border rounded-lg">
+                <Clock className="size-5 text-muted-foreground mt-0.5 flex-shrink-0" />
+                <div>
+                  <h5 className="font-semibold mb-1">Awaiting instructor review</h5>
+                  <p className="text-sm text-muted-foreground">
+                    Your submission has been received. Your grade and feedback will appear here once your instructor has reviewed and released them.
+                  </p>
+                </div>
               </div>
             )}
           </div>
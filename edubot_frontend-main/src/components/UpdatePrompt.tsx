@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { toast } from 'sonner';
+
+// Registers the service worker and asks before reloading into a new build
+export function UpdatePrompt() {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisterError(error) {
+      console.error('Service worker registration failed:', error);
+    },
+  });
+
+  useEffect(() => {
+    if (!offlineReady) return;
+    toast.success('EduBot is ready to work offline');
+    setOfflineReady(false);
+  }, [offlineReady]);
+
+  useEffect(() => {
+    if (!needRefresh) return;
+    toast('A new version of EduBot is available', {
+      duration: Infinity,
+      action: {
+        label: 'Reload',
+        onClick: () => updateServiceWorker(true),
+      },
+      onDismiss: () => setNeedRefresh(false),
+    });
+  }, [needRefresh]);
+
+  return null;
+}
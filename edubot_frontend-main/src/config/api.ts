@@ -30,29 +30,40 @@ export const API_CONFIG = {
   
   ENDPOINTS: {
     // ========================
-    // AUTHENTICATION (5 endpoints)
+    // AUTHENTICATION (6 endpoints)
     // ========================
     LOGIN: '/api/auth/login',
+    REFRESH: '/api/auth/refresh',
     REGISTER: '/api/auth/register',
     PROFILE: '/api/auth/profile',
     REQUEST_PASSWORD_RESET: '/api/auth/request-password-reset',
     RESET_PASSWORD: '/api/auth/reset-password',
     
     // ========================
-    // CHAT (7 endpoints)
+    // CHAT (11 endpoints)
     // ========================
     CHAT: '/api/chat',
+    CHAT_STREAM: '/api/chat/stream',
     CHAT_HISTORY: '/api/chat/history',
     CHATS: '/api/chat/chats',
     DELETE_CHAT: '/api/chat/chats',
+    UPDATE_CHAT: '/api/chat/chats',
+    SEARCH_CHATS: '/api/chat/search',
+    CHAT_MESSAGES: '/api/chat/chats',
     UPLOAD_FILE: '/api/chat/upload',
     CHAT_FILES: '/api/chat',
     DELETE_FILE: '/api/chat/files',
     
     // ========================
-    // COURSES (14 endpoints) - UPDATED
+    // COURSES (20 endpoints) - UPDATED
     // ========================
     GENERATE_COMPLETE_COURSE: '/api/courses/generate-complete',
+    GENERATE_COURSE_OUTLINE: '/api/courses/generate-outline',
+    GENERATE_COURSE_SECTION: '/api/courses/generate-section',
+    COURSE_GENERATION_JOBS: '/api/courses/generation-jobs',
+    COURSE_GENERATION_JOB_CANCEL: '/api/courses/generation-jobs',
+    PUBLISH_COURSE: '/api/courses',
+    COURSE_PDF: '/api/courses',
     COURSES: '/api/courses',
     COURSE_DETAIL: '/api/courses',
     COURSE_DELETE: '/api/courses',
@@ -86,7 +97,7 @@ export const API_CONFIG = {
     TRANSLATION_TEST: '/api/translate/test',
     
     // ========================
-    // COMPANIONS (11 endpoints)
+    // COMPANIONS (13 endpoints)
     // ========================
     COMPANIONS: '/api/companions',
     COMPANION_CREATE: '/api/companions',
@@ -97,6 +108,8 @@ export const API_CONFIG = {
     SESSION_STATUS: '/api/companions/sessions',
     SAVE_TRANSCRIPT: '/api/companions/sessions',
     GET_TRANSCRIPT: '/api/companions/sessions',
+    LIST_SESSIONS: '/api/companions/sessions',
+    RESUME_SESSION: '/api/companions/sessions',
     AVAILABLE_VOICES: '/api/companions/voices',
     AVAILABLE_SUBJECTS: '/api/companions/subjects',
     
@@ -113,13 +126,17 @@ export const API_CONFIG = {
     DETECT_AI: '/api/analysis/ai-detection',
     
     // ========================
-    // SUBMISSIONS (6 endpoints)
+    // SUBMISSIONS (10 endpoints)
     // ========================
     SUBMIT_ASSIGNMENT: '/api/submissions/submit',
     SUBMISSIONS: '/api/submissions',
     SUBMISSION_DETAIL: '/api/submissions',
     DELETE_SUBMISSION: '/api/submissions',
     GRADE_SUBMISSION: '/api/submissions',
+    AI_GRADE_SUBMISSION: '/api/submissions',
+    REVIEW_SUBMISSION: '/api/submissions',
+    RELEASE_SUBMISSION: '/api/submissions',
+    SUBMISSION_INTEGRITY: '/api/submissions',
     SUBMISSION_STATS: '/api/submissions/stats',
     
     // ========================
@@ -171,6 +188,7 @@ export const API_ROUTES = {
   // Auth
   auth: {
     login: () => API_CONFIG.ENDPOINTS.LOGIN,
+    refresh: () => API_CONFIG.ENDPOINTS.REFRESH,
     register: () => API_CONFIG.ENDPOINTS.REGISTER,
     profile: (userId: string) => `${API_CONFIG.ENDPOINTS.PROFILE}?user_id=${userId}`,
     requestPasswordReset: () => API_CONFIG.ENDPOINTS.REQUEST_PASSWORD_RESET,
@@ -181,9 +199,13 @@ export const API_ROUTES = {
   // Chat
   chat: {
     send: () => API_CONFIG.ENDPOINTS.CHAT,
+    stream: () => API_CONFIG.ENDPOINTS.CHAT_STREAM,
     history: (userId: string) => `${API_CONFIG.ENDPOINTS.CHAT_HISTORY}/${userId}`,
     list: () => API_CONFIG.ENDPOINTS.CHATS,
     delete: (chatId: string) => `${API_CONFIG.ENDPOINTS.DELETE_CHAT}/${chatId}`,
+    update: (chatId: string) => `${API_CONFIG.ENDPOINTS.UPDATE_CHAT}/${chatId}`,
+    search: () => API_CONFIG.ENDPOINTS.SEARCH_CHATS,
+    messages: (chatId: string) => `${API_CONFIG.ENDPOINTS.CHAT_MESSAGES}/${chatId}/messages`,
     upload: () => API_CONFIG.ENDPOINTS.UPLOAD_FILE,
     files: (chatId: string) => `${API_CONFIG.ENDPOINTS.CHAT_FILES}/${chatId}/files`,
     deleteFile: (fileId: string) => `${API_CONFIG.ENDPOINTS.DELETE_FILE}/${fileId}`,
@@ -192,6 +214,19 @@ export const API_ROUTES = {
   // Courses
   courses: {
     generateComplete: () => API_CONFIG.ENDPOINTS.GENERATE_COMPLETE_COURSE,
+    generateOutline: () => API_CONFIG.ENDPOINTS.GENERATE_COURSE_OUTLINE,
+    generateSection: () => API_CONFIG.ENDPOINTS.GENERATE_COURSE_SECTION,
+    startJob: () => API_CONFIG.ENDPOINTS.COURSE_GENERATION_JOBS,
+    job: (jobId: string, userId: string) =>
+      `${API_CONFIG.ENDPOINTS.COURSE_GENERATION_JOBS}/${jobId}?userid=${userId}`,
+    cancelJob: (jobId: string, userId: string) =>
+      `${API_CONFIG.ENDPOINTS.COURSE_GENERATION_JOB_CANCEL}/${jobId}/cancel?userid=${userId}`,
+    jobPdf: (jobId: string, userId: string) =>
+      `${API_CONFIG.ENDPOINTS.COURSE_GENERATION_JOBS}/${jobId}/pdf?userid=${userId}`,
+    publish: (courseId: string, userId: string) =>
+      `${API_CONFIG.ENDPOINTS.PUBLISH_COURSE}/${courseId}/publish?userid=${userId}`,
+    pdf: (courseId: string, userId: string) =>
+      `${API_CONFIG.ENDPOINTS.COURSE_PDF}/${courseId}/pdf?userid=${userId}`,
     list: (userId: string, page = 1, perPage = 20) => 
       `${API_CONFIG.ENDPOINTS.COURSES}?userid=${userId}&page=${page}&perpage=${perPage}`,
     detail: (courseId: string, userId: string) => 
@@ -259,6 +294,7 @@ export const API_ROUTES = {
     sessionStatus: (sessionId: string) => `${API_CONFIG.ENDPOINTS.COMPANIONS}/voice/sessions/${sessionId}/status`,
     saveTranscript: (sessionId: string) => `${API_CONFIG.ENDPOINTS.COMPANIONS}/voice/sessions/${sessionId}/transcript`,
     getTranscript: (sessionId: string) => `${API_CONFIG.ENDPOINTS.COMPANIONS}/voice/sessions/${sessionId}/transcript`,
+    resumeSession: (sessionId: string) => `${API_CONFIG.ENDPOINTS.COMPANIONS}/voice/sessions/${sessionId}/resume`,
     listSessions: (companionId: string) => `${API_CONFIG.ENDPOINTS.COMPANIONS}/${companionId}/voice/sessions`,
     voices: () => API_CONFIG.ENDPOINTS.AVAILABLE_VOICES,
     subjects: () => API_CONFIG.ENDPOINTS.AVAILABLE_SUBJECTS,
@@ -285,6 +321,10 @@ export const API_ROUTES = {
     detail: (submissionId: string) => `${API_CONFIG.ENDPOINTS.SUBMISSION_DETAIL}/${submissionId}`,
     delete: (submissionId: string) => `${API_CONFIG.ENDPOINTS.DELETE_SUBMISSION}/${submissionId}`,
     grade: (submissionId: string) => `${API_CONFIG.ENDPOINTS.GRADE_SUBMISSION}/${submissionId}/grade`,
+    aiGrade: (submissionId: string) => `${API_CONFIG.ENDPOINTS.AI_GRADE_SUBMISSION}/${submissionId}/ai-grade`,
+    review: (submissionId: string) => `${API_CONFIG.ENDPOINTS.REVIEW_SUBMISSION}/${submissionId}/review`,
+    release: (submissionId: string) => `${API_CONFIG.ENDPOINTS.RELEASE_SUBMISSION}/${submissionId}/release`,
+    integrity: (submissionId: string) => `${API_CONFIG.ENDPOINTS.SUBMISSION_INTEGRITY}/${submissionId}/integrity`,
     stats: (userId: string) => `${API_CONFIG.ENDPOINTS.SUBMISSION_STATS}/${userId}`,
   },
   
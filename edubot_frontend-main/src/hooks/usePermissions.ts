@@ -0,0 +1,87 @@
+import { useMemo } from 'react';
+import { apiService, User } from '../services/api';
+import type { NavigationTab } from '../components/Navigation';
+
+export type UserRole = 'student' | 'instructor' | 'admin';
+
+export type Permission =
+  | 'use_chat'
+  | 'learn'
+  | 'take_assessments'
+  | 'submit'
+  | 'view_own_feedback'
+  | 'view_analytics'
+  | 'translate'
+  | 'use_companions'
+  | 'manage_settings'
+  | 'generate_courses'
+  | 'grade'
+  | 'analyze'
+  | 'view_cohort';
+
+const STUDENT_PERMISSIONS: Permission[] = [
+  'use_chat',
+  'learn',
+  'take_assessments',
+  'submit',
+  'view_own_feedback',
+  'view_analytics',
+  'translate',
+  'use_companions',
+  'manage_settings',
+];
+
+const INSTRUCTOR_PERMISSIONS: Permission[] = [
+  ...STUDENT_PERMISSIONS,
+  'generate_courses',
+  'grade',
+  'analyze',
+  'view_cohort',
+];
+
+const ROLE_PERMISSIONS: Record<UserRole, Set<Permission>> = {
+  student: new Set(STUDENT_PERMISSIONS),
+  instructor: new Set(INSTRUCTOR_PERMISSIONS),
+  admin: new Set(INSTRUCTOR_PERMISSIONS),
+};
+
+// Permission needed to open each screen in the sidebar
+export const TAB_PERMISSIONS: Record<NavigationTab, Permission> = {
+  chat: 'use_chat',
+  courses: 'generate_courses',
+  learning: 'learn',
+  grading: 'grade',
+  analysis: 'analyze',
+  analytics: 'view_analytics',
+  submissions: 'submit',
+  assessments: 'take_assessments',
+  translation: 'translate',
+  companions: 'use_companions',
+  settings: 'manage_settings',
+};
+
+// The backend stores free-form role strings; anything unknown is treated as a student
+export function getUserRole(user: User | null | undefined): UserRole {
+  const role = (user?.role || '').toLowerCase();
+  if (role === 'admin') return 'admin';
+  if (['instructor', 'teacher', 'educator', 'faculty'].includes(role)) return 'instructor';
+  return 'student';
+}
+
+export function hasPermission(user: User | null | undefined, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[getUserRole(user)].has(permission);
+}
+
+export function usePermissions(user: User | null = apiService.getCurrentUser()) {
+  return useMemo(() => {
+    const role = getUserRole(user);
+    const can = (permission: Permission) => ROLE_PERMISSIONS[role].has(permission);
+
+    return {
+      role,
+      isInstructor: role === 'instructor' || role === 'admin',
+      can,
+      canAccessTab: (tab: NavigationTab) => can(TAB_PERMISSIONS[tab]),
+    };
+  }, [user?.id, user?.role]);
+}
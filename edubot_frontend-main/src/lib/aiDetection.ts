@@ -0,0 +1,140 @@
+// src/lib/aiDetection.ts
+// Normalized AI-detection results and the per-sentence/paragraph heatmap built
+// from them. The checker returns sections that are either quoted text or labels
+// such as "Paragraph 2", so both are mapped back onto the checked text.
+import type { AIDetectionResponse } from '../services/api';
+import { locateSnippet, TextRange } from './textAnchors';
+
+export interface AIDetectionSection {
+  id: string;
+  // Section as returned by the checker: quoted text or a label
+  label: string;
+  // 0-100
+  probability: number;
+  reasoning: string;
+  // Character offsets into the checked text, end exclusive. -1 when the section
+  // could not be mapped onto it.
+  start: number;
+  end: number;
+}
+
+export interface AIDetectionReport {
+  // 0-100
+  probability: number;
+  text: string;
+  sections: AIDetectionSection[];
+  checkedAt: string;
+}
+
+export type HeatmapGranularity = 'sentence' | 'paragraph';
+
+export interface HeatmapSegment extends TextRange {
+  text: string;
+  // Null for whitespace between units and for units no section covers
+  probability: number | null;
+  sections: AIDetectionSection[];
+}
+
+// Non-empty paragraphs, separated by blank lines
+export function splitParagraphs(text: string): TextRange[] {
+  const ranges: TextRange[] = [];
+  const pattern = /\S[\s\S]*?(?=\n\s*\n|\s*$)/g;
+  let found: RegExpExecArray | null;
+  while ((found = pattern.exec(text))) {
+    ranges.push({ start: found.index, end: found.index + found[0].length });
+  }
+  return ranges;
+}
+
+// Sentences end at ., ! or ? followed by whitespace, or at a line break. Good
+// enough for prose; abbreviations like "e.g. " split early.
+export function splitSentences(text: string): TextRange[] {
+  const ranges: TextRange[] = [];
+  const pattern = /\S[^\n]*?(?:[.!?]+["')\]]*(?=\s|$)|(?=\n)|$)/g;
+  let found: RegExpExecArray | null;
+  while ((found = pattern.exec(text))) {
+    if (found[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    ranges.push({ start: found.index, end: found.index + found[0].length });
+  }
+  return ranges;
+}
+
+// "Paragraph 2", "Sentence 3" and the like
+function locateLabel(text: string, label: string): TextRange | null {
+  const found = /\b(paragraph|sentence|para|section)\s*#?\s*(\d+)/i.exec(label);
+  if (!found) return null;
+  const units = /^sentence/i.test(found[1]) ? splitSentences(text) : splitParagraphs(text);
+  return units[Number(found[2]) - 1] || null;
+}
+
+export function normalizeAIDetectionResponse(response: AIDetectionResponse, text: string): AIDetectionReport {
+  let searchFrom = 0;
+  const sections = (response.analysis || []).map((item, index): AIDetectionSection => {
+    const label = item.section || '';
+    const located = locateSnippet(text, label, searchFrom) || locateLabel(text, label);
+    if (located) searchFrom = located.end;
+    return {
+      id: `section-${index}`,
+      label,
+      probability: Number(item.probability ?? 0),
+      reasoning: item.reasoning || '',
+      start: located ? located.start : -1,
+      end: located ? located.end : -1,
+    };
+  });
+
+  return {
+    probability: Number(response.ai_probability ?? response.aiprobability ?? 0),
+    text,
+    sections,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+// Splits the text into sentences or paragraphs, each scored by the sections
+// overlapping it, averaged by the length of each overlap
+export function buildHeatmap(report: AIDetectionReport, granularity: HeatmapGranularity): HeatmapSegment[] {
+  const { text } = report;
+  const units = granularity === 'sentence' ? splitSentences(text) : splitParagraphs(text);
+  const located = report.sections.filter((section) => section.start >= 0);
+
+  const segments: HeatmapSegment[] = [];
+  let position = 0;
+  for (const unit of units) {
+    if (unit.start > position) {
+      segments.push({ start: position, end: unit.start, text: text.slice(position, unit.start), probability: null, sections: [] });
+    }
+
+    let weighted = 0;
+    let covered = 0;
+    const overlapping: AIDetectionSection[] = [];
+    for (const section of located) {
+      const overlap = Math.min(unit.end, section.end) - Math.max(unit.start, section.start);
+      if (overlap <= 0) continue;
+      overlapping.push(section);
+      weighted += section.probability * overlap;
+      covered += overlap;
+    }
+
+    segments.push({
+      ...unit,
+      text: text.slice(unit.start, unit.end),
+      probability: covered > 0 ? Math.round(weighted / covered) : null,
+      sections: overlapping,
+    });
+    position = unit.end;
+  }
+  if (position < text.length) {
+    segments.push({ start: position, end: text.length, text: text.slice(position), probability: null, sections: [] });
+  }
+  return segments;
+}
+
+// Green for likely human through red for likely AI
+export function getProbabilityColor(probability: number): string {
+  const hue = Math.round(120 - (Math.max(0, Math.min(100, probability)) / 100) * 120);
+  return `hsla(${hue}, 85%, 50%, 0.28)`;
+}
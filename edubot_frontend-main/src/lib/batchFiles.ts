@@ -0,0 +1,184 @@
+// src/lib/batchFiles.ts
+// Turns picked files, a dropped folder or a .zip of student work into one
+// submission per student for batch grading. Files in a per-student folder
+// (alice/main.py, alice/utils.py) are combined; loose files count as one
+// student each, named after the file.
+import JSZip from 'jszip';
+
+export type BatchSubmissionKind = 'text' | 'code';
+
+export interface BatchFile {
+  // Path relative to what was picked, e.g. "alice/main.py"
+  path: string;
+  file: Blob;
+}
+
+export interface BatchSubmission {
+  id: string;
+  student: string;
+  files: string[];
+  kind: BatchSubmissionKind;
+  content: string;
+  // Set when none of the student's files could be read
+  error?: string;
+  // Set for submissions picked from the server rather than uploaded
+  submissionId?: string;
+}
+
+const CODE_EXTENSIONS = new Set([
+  'py', 'js', 'jsx', 'ts', 'tsx', 'java', 'c', 'h', 'cpp', 'cc', 'hpp', 'cs', 'go', 'rs', 'rb', 'php',
+  'swift', 'kt', 'scala', 'r', 'm', 'hs', 'sql', 'sh', 'html', 'css', 'ipynb',
+]);
+const TEXT_EXTENSIONS = new Set(['txt', 'md', 'markdown', 'csv', 'json', 'xml', 'yaml', 'yml']);
+
+export function getExtension(path: string): string {
+  const name = path.split('/').pop() || '';
+  return name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+}
+
+// OS clutter and hidden files that come along with folders and zips
+function isIgnored(path: string): boolean {
+  return path.split('/').some((part) => part.startsWith('.') || part === '__MACOSX' || part === 'Thumbs.db');
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+// Paragraph text of a .docx (a zip with the body in word/document.xml)
+async function readDocx(blob: Blob): Promise<string> {
+  const zip = await JSZip.loadAsync(blob);
+  const xml = await zip.file('word/document.xml')?.async('string');
+  if (!xml) throw new Error('Not a Word document');
+  return decodeXmlEntities(
+    xml
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:br\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  ).trim();
+}
+
+// Text of a file, or null when the format can't be read in the browser
+async function readFileText({ path, file }: BatchFile): Promise<string | null> {
+  const extension = getExtension(path);
+  if (extension === 'docx') return readDocx(file);
+  if (CODE_EXTENSIONS.has(extension) || TEXT_EXTENSIONS.has(extension)) return file.text();
+  return null;
+}
+
+async function expandZip(zipFile: BatchFile): Promise<BatchFile[]> {
+  const zip = await JSZip.loadAsync(zipFile.file);
+  const prefix = zipFile.path.replace(/[^/]*$/, '');
+  const entries = Object.values(zip.files).filter((entry) => !entry.dir && !isIgnored(entry.name));
+  return Promise.all(
+    entries.map(async (entry) => ({ path: `${prefix}${entry.name}`, file: await entry.async('blob') }))
+  );
+}
+
+// Files from an <input type="file">, with zips expanded. Folder pickers fill in
+// webkitRelativePath, which keeps the per-student folders.
+export async function collectInputFiles(fileList: FileList | File[]): Promise<BatchFile[]> {
+  const files = Array.from(fileList).map((file) => ({ path: file.webkitRelativePath || file.name, file }));
+  return expandZips(files);
+}
+
+// Files and folders dropped onto the page, with zips expanded
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<BatchFile[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return collectInputFiles(dataTransfer.files);
+  }
+
+  const files: BatchFile[] = [];
+  const visit = async (entry: FileSystemEntry, parent: string): Promise<void> => {
+    const path = parent ? `${parent}/${entry.name}` : entry.name;
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      files.push({ path, file });
+      return;
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns at most ~100 entries per call
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      for (const child of batch) await visit(child, path);
+    }
+  };
+  for (const entry of entries) await visit(entry, '');
+
+  return expandZips(files);
+}
+
+async function expandZips(files: BatchFile[]): Promise<BatchFile[]> {
+  const expanded: BatchFile[] = [];
+  for (const file of files) {
+    if (isIgnored(file.path)) continue;
+    if (getExtension(file.path) === 'zip') {
+      expanded.push(...(await expandZip(file)));
+    } else {
+      expanded.push(file);
+    }
+  }
+  return expanded;
+}
+
+// Drops a folder that wraps everything, e.g. "week3/alice/a.py" -> "alice/a.py"
+function stripCommonRoot(files: BatchFile[]): BatchFile[] {
+  const roots = new Set(files.map((file) => (file.path.includes('/') ? file.path.split('/')[0] : '')));
+  const [root] = [...roots];
+  if (roots.size !== 1 || !root) return files;
+  return files.map((file) => ({ ...file, path: file.path.slice(root.length + 1) }));
+}
+
+export async function groupSubmissions(files: BatchFile[]): Promise<BatchSubmission[]> {
+  const groups = new Map<string, BatchFile[]>();
+  for (const file of stripCommonRoot(files)) {
+    const parts = file.path.split('/');
+    const student = parts.length > 1 ? parts[0] : parts[0].replace(/\.[^.]+$/, '');
+    groups.set(student, [...(groups.get(student) || []), file]);
+  }
+
+  const submissions: BatchSubmission[] = [];
+  for (const [student, studentFiles] of groups) {
+    const texts: { path: string; text: string }[] = [];
+    const skipped: string[] = [];
+    for (const file of studentFiles) {
+      try {
+        const text = await readFileText(file);
+        if (text === null) skipped.push(file.path);
+        else texts.push({ path: file.path, text });
+      } catch {
+        skipped.push(file.path);
+      }
+    }
+
+    const kind: BatchSubmissionKind =
+      texts.length > 0 && texts.every(({ path }) => CODE_EXTENSIONS.has(getExtension(path))) ? 'code' : 'text';
+    const content =
+      texts.length === 1 ? texts[0].text : texts.map(({ path, text }) => `=== ${path} ===\n${text}`).join('\n\n');
+
+    submissions.push({
+      id: `file:${student}`,
+      student,
+      files: studentFiles.map((file) => file.path),
+      kind,
+      content,
+      error:
+        texts.length === 0
+          ? `Can't read ${[...new Set(skipped.map(getExtension).filter(Boolean))].join(', ') || 'these'} files in the browser`
+          : undefined,
+    });
+  }
+  return submissions.sort((a, b) => a.student.localeCompare(b.student));
+}
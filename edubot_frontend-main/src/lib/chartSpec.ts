@@ -0,0 +1,56 @@
+// src/lib/chartSpec.ts
+// Parses the JSON body of a ```chart fence. Example:
+//   { "type": "bar", "title": "Scores", "data": [{ "name": "Quiz 1", "score": 80 }],
+//     "xKey": "name", "yKeys": ["score"] }
+// `xKey` defaults to the first text field and `yKeys` to every numeric field.
+
+export type ChartType = 'line' | 'bar' | 'area' | 'pie';
+
+export interface ChartSpec {
+  type: ChartType;
+  title?: string;
+  data: Record<string, string | number>[];
+  xKey: string;
+  yKeys: string[];
+}
+
+const CHART_TYPES: ChartType[] = ['line', 'bar', 'area', 'pie'];
+
+// Returns null when the source is not a usable chart, so callers can fall back
+// to showing it as code
+export function parseChartSpec(source: string): ChartSpec | null {
+  let raw: any;
+  try {
+    raw = JSON.parse(source);
+  } catch {
+    return null;
+  }
+
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.data) || raw.data.length === 0) {
+    return null;
+  }
+
+  const data = raw.data.filter((row: unknown) => row && typeof row === 'object' && !Array.isArray(row));
+  if (data.length === 0) return null;
+
+  const sample = data[0] as Record<string, unknown>;
+  const fields = Object.keys(sample);
+  const xKey: string | undefined =
+    typeof raw.xKey === 'string' ? raw.xKey : fields.find((key) => typeof sample[key] === 'string');
+  if (!xKey) return null;
+
+  const yKeys: string[] = Array.isArray(raw.yKeys)
+    ? raw.yKeys.filter((key: unknown) => typeof key === 'string' && fields.includes(key))
+    : fields.filter((key) => key !== xKey && typeof sample[key] === 'number');
+  if (yKeys.length === 0) return null;
+
+  const type: ChartType = CHART_TYPES.includes(raw.type) ? raw.type : 'bar';
+
+  return {
+    type,
+    title: typeof raw.title === 'string' ? raw.title : undefined,
+    data,
+    xKey,
+    yKeys,
+  };
+}
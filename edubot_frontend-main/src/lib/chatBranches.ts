@@ -0,0 +1,45 @@
+// src/lib/chatBranches.ts
+// Conversation branching over a flat message list. Editing or regenerating the
+// message at `index` forks the conversation there: every alternative "tail"
+// (that message and everything after it) is kept on the head message of the
+// visible tail, so the list itself always holds exactly one path.
+
+export interface Branchable<T> {
+  // Alternative tails starting at this position, including the visible one
+  branches?: T[][];
+  // Which of `branches` is currently visible
+  branchIndex?: number;
+}
+
+// Snapshot the visible tail back into the branch list before it is replaced
+function currentBranches<T extends Branchable<T>>(list: T[], index: number): T[][] {
+  const head = list[index];
+  const visibleTail = list.slice(index);
+  if (!head.branches || head.branches.length === 0) return [visibleTail];
+  return head.branches.map((tail, i) => (i === (head.branchIndex ?? 0) ? visibleTail : tail));
+}
+
+// Replace the tail at `index` with `tail`, keeping the old one as an alternative
+export function forkBranch<T extends Branchable<T>>(list: T[], index: number, tail: T[]): T[] {
+  if (index < 0 || index >= list.length || tail.length === 0) return [...list, ...tail];
+
+  const branches = [...currentBranches(list, index), tail];
+  const [head, ...rest] = tail;
+  return [
+    ...list.slice(0, index),
+    { ...head, branches, branchIndex: branches.length - 1 },
+    ...rest,
+  ];
+}
+
+// Show alternative `target` of the branch point at `index`
+export function switchBranch<T extends Branchable<T>>(list: T[], index: number, target: number): T[] {
+  const head = list[index];
+  if (!head?.branches || target < 0 || target >= head.branches.length || target === head.branchIndex) {
+    return list;
+  }
+
+  const branches = currentBranches(list, index);
+  const [nextHead, ...rest] = branches[target];
+  return [...list.slice(0, index), { ...nextHead, branches, branchIndex: target }, ...rest];
+}
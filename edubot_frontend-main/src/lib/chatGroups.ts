@@ -0,0 +1,70 @@
+// src/lib/chatGroups.ts
+
+import type { Chat } from '../services/api';
+
+export type ChatGrouping = 'date' | 'category';
+
+export interface ChatGroup {
+  label: string;
+  chats: Chat[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNCATEGORIZED = 'Uncategorized';
+
+function chatTimestamp(chat: Chat): number {
+  const time = new Date(chat.updated_at || chat.created_at).getTime();
+  return Number.isNaN(time) ? 0 : time;
+}
+
+// Bucket label relative to the start of today in local time
+export function getDateBucket(timestamp: number, now = new Date()): string {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+
+  if (timestamp >= startOfToday) return 'Today';
+  if (timestamp >= startOfToday - DAY_MS) return 'Yesterday';
+  if (timestamp >= startOfToday - 7 * DAY_MS) return 'Last 7 days';
+  if (timestamp >= startOfToday - 30 * DAY_MS) return 'Last 30 days';
+  return 'Older';
+}
+
+// Sort newest first and split into labelled groups. Favorites are pinned into
+// their own group at the top regardless of date or category.
+export function groupChats(chats: Chat[], grouping: ChatGrouping, now = new Date()): ChatGroup[] {
+  const sorted = [...chats].sort((a, b) => chatTimestamp(b) - chatTimestamp(a));
+  const pinned = sorted.filter((chat) => chat.is_favorite);
+  const groups = new Map<string, Chat[]>();
+
+  for (const chat of sorted) {
+    if (chat.is_favorite) continue;
+    const label =
+      grouping === 'date'
+        ? getDateBucket(chatTimestamp(chat), now)
+        : chat.category?.trim() || UNCATEGORIZED;
+    if (!groups.has(label)) groups.set(label, []);
+    groups.get(label)!.push(chat);
+  }
+
+  let entries = Array.from(groups.entries());
+  if (grouping === 'category') {
+    // Alphabetical, with uncategorized chats last
+    entries = entries.sort(([a], [b]) => {
+      if (a === UNCATEGORIZED) return 1;
+      if (b === UNCATEGORIZED) return -1;
+      return a.localeCompare(b);
+    });
+  }
+
+  const result = entries.map(([label, items]) => ({ label, chats: items }));
+  return pinned.length > 0 ? [{ label: 'Pinned', chats: pinned }, ...result] : result;
+}
+
+// Distinct category names in use, for suggesting existing ones when filing a chat
+export function getChatCategories(chats: Chat[]): string[] {
+  const categories = new Set<string>();
+  chats.forEach((chat) => {
+    const category = chat.category?.trim();
+    if (category) categories.add(category);
+  });
+  return Array.from(categories).sort((a, b) => a.localeCompare(b));
+}
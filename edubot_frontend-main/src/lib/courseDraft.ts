@@ -0,0 +1,72 @@
+// src/lib/courseDraft.ts
+// A course being generated step by step: the outline the author edits, then the
+// content generated for each section, before it is published or exported.
+import type { CoursePublishRequest, CourseSectionContent } from '../services/api';
+import { createId } from './rubric';
+
+export type DraftSectionStatus = 'outline' | 'generating' | 'ready' | 'failed';
+
+export interface DraftSection {
+  id: string;
+  title: string;
+  status: DraftSectionStatus;
+  content?: CourseSectionContent;
+  error?: string;
+}
+
+export interface CourseDraft {
+  // Set once the backend has created the draft with its outline
+  courseId: string;
+  title: string;
+  educationLevel: string;
+  description?: string;
+  sections: DraftSection[];
+}
+
+export function createDraftSection(title: string): DraftSection {
+  return { id: createId('section'), title, status: 'outline' };
+}
+
+// Copy of `items` with the item at `from` moved to `to`
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return items;
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+}
+
+export function sectionToMarkdown(content: CourseSectionContent): string {
+  // Generated sections don't always include every field
+  const examples = content.examples || [];
+  const exercises = content.exercises || [];
+  const parts = [(content.content || '').trim()];
+  if (content.key_points?.length) {
+    parts.push(`### Key Points\n\n${content.key_points.map((point) => `- ${point}`).join('\n')}`);
+  }
+  if (examples.length) {
+    parts.push(`### Examples\n\n${examples.map((example) => example.trim()).join('\n\n')}`);
+  }
+  if (exercises.length) {
+    parts.push(`### Exercises\n\n${exercises.map((exercise, index) => `${index + 1}. ${exercise}`).join('\n')}`);
+  }
+  return parts.filter(Boolean).join('\n\n');
+}
+
+export function getDraftProgress(draft: CourseDraft): { ready: number; total: number } {
+  return {
+    ready: draft.sections.filter((section) => section.status === 'ready').length,
+    total: draft.sections.length,
+  };
+}
+
+export function toPublishRequest(draft: CourseDraft): CoursePublishRequest {
+  return {
+    title: draft.title,
+    description: draft.description,
+    level: draft.educationLevel,
+    sections: draft.sections
+      .filter((section) => section.content)
+      .map((section, index) => ({ ...section.content!, title: section.title, order_index: index })),
+  };
+}
@@ -0,0 +1,173 @@
+// src/lib/courseEditor.ts
+// The course editor's working copy of a course, converted to and from what the
+// backend stores, and the autosaved copy kept in localStorage until it is saved.
+import type { Course, CourseCreate, CourseSection, CourseSectionInput } from '../services/api';
+import type { ExerciseSpec } from '../types/sandbox';
+import { ApiSectionDetail, resolveSectionFields } from './courseSection';
+import { createId } from './rubric';
+
+export type CourseVideoLink = NonNullable<CourseSection['video_links']>[number];
+export type CourseSubTopic = NonNullable<CourseSection['sub_topics']>[number];
+
+export const COURSE_LEVELS = ['Beginner', 'Intermediate', 'Advanced'];
+
+export interface EditorSection {
+  // Stable key while editing; `id` is only set for sections the backend has
+  key: string;
+  id?: string;
+  title: string;
+  introduction: string;
+  content: string;
+  key_points: string[];
+  sub_topics: CourseSubTopic[];
+  examples: string[];
+  // Coding exercises are kept as they are; only plain text ones are edited
+  exercises: Array<string | ExerciseSpec>;
+  video_links: CourseVideoLink[];
+}
+
+export interface CourseEditorDraft {
+  // Unset for a course that hasn't been created yet
+  courseId?: string;
+  title: string;
+  topic: string;
+  description: string;
+  level: string;
+  category: string;
+  sections: EditorSection[];
+}
+
+export interface AutosavedDraft {
+  draft: CourseEditorDraft;
+  savedAt: string;
+}
+
+const STORAGE_PREFIX = 'course-editor:';
+
+export function createEditorSection(title = ''): EditorSection {
+  return {
+    key: createId('section'),
+    title,
+    introduction: '',
+    content: '',
+    key_points: [],
+    sub_topics: [],
+    examples: [],
+    exercises: [],
+    video_links: [],
+  };
+}
+
+export function createEmptyCourseDraft(): CourseEditorDraft {
+  return {
+    title: '',
+    topic: '',
+    description: '',
+    level: COURSE_LEVELS[0],
+    category: '',
+    sections: [createEditorSection('Introduction')],
+  };
+}
+
+// Sections are edited as stored: every one is sent back on save
+export function toEditorSection(detail: ApiSectionDetail): EditorSection {
+  const section = resolveSectionFields(detail);
+  return {
+    key: createId('section'),
+    id: section.id,
+    title: section.title || '',
+    introduction: section.introduction || '',
+    content: section.content || '',
+    key_points: section.key_points.map(String),
+    sub_topics: section.sub_topics.map((topic: Partial<CourseSubTopic>) => ({
+      subtitle: topic.subtitle || '',
+      subexplanation: topic.subexplanation || '',
+    })),
+    examples: Array.isArray(section.examples) ? section.examples : [],
+    exercises: Array.isArray(section.exercises) ? section.exercises : [],
+    video_links: section.video_links.map((video: Partial<CourseVideoLink>) => ({
+      topic: video.topic || '',
+      title: video.title || '',
+      link: video.link || '',
+      duration: video.duration || '',
+    })),
+  };
+}
+
+// `sections` in backend order
+export function toCourseDraft(course: Course, sections: ApiSectionDetail[]): CourseEditorDraft {
+  return {
+    courseId: course.id,
+    title: course.title || '',
+    topic: course.topic || '',
+    description: course.description || '',
+    level: course.level || COURSE_LEVELS[0],
+    category: course.category || '',
+    sections: [...sections].sort((a, b) => a.order_index - b.order_index).map(toEditorSection),
+  };
+}
+
+function compact(items: string[]): string[] {
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+// Sections are numbered in the order they appear in the editor
+export function toCourseCreate(draft: CourseEditorDraft): CourseCreate {
+  const sections: CourseSectionInput[] = draft.sections.map((section, index) => ({
+    id: section.id,
+    title: section.title.trim(),
+    introduction: section.introduction.trim(),
+    content: section.content,
+    key_points: compact(section.key_points),
+    sub_topics: section.sub_topics.filter((topic) => topic.subtitle.trim() || topic.subexplanation.trim()),
+    examples: compact(section.examples),
+    exercises: section.exercises.filter((exercise) => typeof exercise !== 'string' || exercise.trim()),
+    video_links: section.video_links.filter((video) => video.link.trim()),
+    order_index: index,
+  }));
+
+  return {
+    title: draft.title.trim(),
+    topic: draft.topic.trim() || draft.title.trim(),
+    description: draft.description.trim() || undefined,
+    level: draft.level || undefined,
+    category: draft.category.trim() || undefined,
+    sections,
+  };
+}
+
+// First problem that stops the draft from being saved, if any
+export function validateCourseDraft(draft: CourseEditorDraft): string | null {
+  if (!draft.title.trim()) return 'Please enter a course title';
+  if (draft.sections.length === 0) return 'Add at least one section';
+  const untitled = draft.sections.findIndex((section) => !section.title.trim());
+  if (untitled !== -1) return `Section ${untitled + 1} needs a title`;
+  const badLink = draft.sections.find((section) =>
+    section.video_links.some((video) => video.link.trim() && !/^https?:\/\//i.test(video.link.trim()))
+  );
+  if (badLink) return `"${badLink.title}" has a video link that isn't a web address`;
+  return null;
+}
+
+export function getAutosaveKey(userId: string, courseId?: string): string {
+  return `${STORAGE_PREFIX}${userId}:${courseId || 'new'}`;
+}
+
+export function loadAutosave(key: string): AutosavedDraft | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(key) || 'null');
+    return saved && saved.draft && Array.isArray(saved.draft.sections) ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveAutosave(key: string, draft: CourseEditorDraft): AutosavedDraft {
+  const saved = { draft, savedAt: new Date().toISOString() };
+  localStorage.setItem(key, JSON.stringify(saved));
+  return saved;
+}
+
+export function clearAutosave(key: string) {
+  localStorage.removeItem(key);
+}
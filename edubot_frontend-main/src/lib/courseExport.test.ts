@@ -0,0 +1,152 @@
+// src/lib/courseExport.test.ts
+import { describe, expect, it } from 'vitest';
+import type { Course, CourseSection, QuizQuestion } from '../services/api';
+import {
+  buildEpubFiles,
+  buildScormFiles,
+  courseToHtml,
+  isSafeUrl,
+  SCORM_MASTERY_SCORE,
+  zipExportFiles,
+} from './courseExport';
+
+const COURSE: Course = {
+  id: 'course-1',
+  title: 'Tom & "Jerry" <Basics>',
+  topic: 'Cartoons',
+  description: 'An intro',
+  sections_count: 2,
+  created_at: '2026-01-01T00:00:00Z',
+  is_enrolled: false,
+  progress: 0,
+};
+
+function section(id: string, orderIndex: number, content: string): CourseSection {
+  return { id, course_id: COURSE.id, title: `Section <${id}>`, content, order_index: orderIndex };
+}
+
+const QUESTIONS: QuizQuestion[] = [
+  {
+    id: 'q1',
+    question: 'Does </script><script>alert(1)</script> run?',
+    options: ['Yes', 'No'],
+    correctAnswer: 'No',
+    type: 'mcq',
+  },
+];
+
+describe('isSafeUrl', () => {
+  it('keeps http(s), mailto and relative links', () => {
+    for (const url of ['https://example.com', 'http://example.com/a?b#c', 'mailto:a@b.c', '/docs', 'page.html', '#top']) {
+      expect(isSafeUrl(url)).toBe(true);
+    }
+  });
+
+  it('rejects script and data URLs, including obfuscated ones', () => {
+    for (const url of [
+      'javascript:alert(1)',
+      'JavaScript:alert(1)',
+      ' javascript:alert(1)',
+      'java\tscript:alert(1)',
+      'java&#115;cript&#58;alert(1)',
+      'java&#x73;cript&colon;alert(1)',
+      'data:text/html,<script>alert(1)</script>',
+      'vbscript:msgbox(1)',
+    ]) {
+      expect(isSafeUrl(url)).toBe(false);
+    }
+  });
+});
+
+describe('courseToHtml', () => {
+  it('escapes titles and raw HTML in section text', () => {
+    const html = courseToHtml(COURSE, [section('a', 1, 'Hi <script>alert(1)</script> <img src=x onerror=alert(1)>')]);
+
+    expect(html).toContain('<title>Tom &amp; &quot;Jerry&quot; &lt;Basics&gt;</title>');
+    expect(html).toContain('<h2>Section &lt;a&gt;</h2>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toMatch(/<script|<img/);
+  });
+
+  it('drops unsafe link and image URLs but keeps their text', () => {
+    const html = courseToHtml(COURSE, [
+      section(
+        'a',
+        1,
+        [
+          '[safe](https://example.com)',
+          '[bad](javascript:alert(1))',
+          '[sneaky](java&#115;cript&#58;alert(1))',
+          '![pic](javascript:alert(1))',
+        ].join('\n\n')
+      ),
+    ]);
+
+    expect(html).toContain('<a href="https://example.com">safe</a>');
+    expect(html).toContain('bad');
+    expect(html).toContain('sneaky');
+    expect(html).toContain('pic');
+    expect(html).not.toMatch(/javascript|java&#115;cript|<img/i);
+  });
+});
+
+describe('EPUB export', () => {
+  it('lists mimetype first and stores it uncompressed', async () => {
+    const files = buildEpubFiles(COURSE, [section('b', 2, 'Second'), section('a', 1, 'First')]);
+    expect(files[0]).toEqual({ path: 'mimetype', content: 'application/epub+zip' });
+    expect(files.map((file) => file.path)).toContain('OEBPS/chapter-2.xhtml');
+
+    const bytes = new Uint8Array(await (await zipExportFiles(files, 'application/epub+zip')).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    // First local file header: signature, compression method 0 (stored), name
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0);
+    const nameLength = view.getUint16(26, true);
+    const extraLength = view.getUint16(28, true);
+    const decoder = new TextDecoder();
+    expect(decoder.decode(bytes.subarray(30, 30 + nameLength))).toBe('mimetype');
+    const dataStart = 30 + nameLength + extraLength;
+    expect(decoder.decode(bytes.subarray(dataStart, dataStart + 20))).toBe('application/epub+zip');
+  });
+
+  it('orders chapters by section order and escapes the package metadata', () => {
+    const files = buildEpubFiles(COURSE, [section('b', 2, 'Second'), section('a', 1, 'First')]);
+    const opf = files.find((file) => file.path === 'OEBPS/content.opf')!.content;
+    const firstChapter = files.find((file) => file.path === 'OEBPS/chapter-1.xhtml')!.content;
+
+    expect(opf).toContain('<dc:title>Tom &amp; &quot;Jerry&quot; &lt;Basics&gt;</dc:title>');
+    expect(opf).toMatch(/<itemref idref="title-page"\/>\n<itemref idref="nav"\/>\n<itemref idref="chapter-1"\/>/);
+    expect(firstChapter).toContain('<h1>Section &lt;a&gt;</h1>');
+  });
+});
+
+describe('SCORM export', () => {
+  const files = buildScormFiles(COURSE, [section('b', 2, 'Second'), section('a', 1, 'First')], { b: QUESTIONS });
+  const file = (path: string) => files.find((entry) => entry.path === path)!.content;
+
+  it('writes a SCORM 1.2 manifest with one SCO per section', () => {
+    const manifest = file('imsmanifest.xml');
+
+    expect(manifest).toContain('<schemaversion>1.2</schemaversion>');
+    expect(manifest).toContain('identifier="edubot-tom-jerry-basics-course-1"');
+    expect(manifest).toContain('<title>Tom &amp; &quot;Jerry&quot; &lt;Basics&gt;</title>');
+    expect(manifest.match(/adlcp:scormtype="sco"/g)).toHaveLength(2);
+    expect(manifest).toContain('href="section-1.html"');
+    expect(manifest).toContain('href="section-2.html"');
+
+    // Only the section with a quiz has a mastery score
+    const items = manifest.match(/<item identifier[\s\S]*?<\/item>/g)!;
+    expect(items[0]).toContain('<title>Section &lt;a&gt;</title>');
+    expect(items[0]).not.toContain('masteryscore');
+    expect(items[1]).toContain(`<adlcp:masteryscore>${SCORM_MASTERY_SCORE}</adlcp:masteryscore>`);
+  });
+
+  it('embeds the quiz as JSON that cannot close its script element', () => {
+    const page = file('section-2.html');
+    const match = page.match(/<script type="application\/json" id="quiz-data">([\s\S]*?)<\/script>/);
+
+    expect(match).not.toBeNull();
+    expect(JSON.parse(match![1])).toEqual({ masteryScore: SCORM_MASTERY_SCORE, questions: QUESTIONS });
+    expect(file('section-1.html')).not.toContain('quiz-data');
+  });
+});
@@ -0,0 +1,494 @@
+// src/lib/courseExport.ts
+// Exports a course and its sections as Markdown, a standalone HTML page, an
+// EPUB 3 book or a SCORM 1.2 package for an LMS. The builders are pure: they
+// return text or a list of files, and `zipExportFiles` packages the files.
+import JSZip from 'jszip';
+import { Marked } from 'marked';
+import type { Course, CourseSection, QuizQuestion } from '../services/api';
+import type { ExerciseSpec } from '../types/sandbox';
+
+export interface ExportFile {
+  path: string;
+  content: string;
+}
+
+// Quiz questions by section id
+export type SectionQuizzes = Record<string, QuizQuestion[]>;
+
+export type CourseExportFormat = 'markdown' | 'html' | 'epub' | 'scorm';
+
+// Share of quiz questions a learner needs right for SCORM to report "passed"
+export const SCORM_MASTERY_SCORE = 70;
+
+// Link schemes kept in exports; anything else (javascript:, data:, ...) would
+// run or load inside the reader, or the LMS frame for SCORM
+const SAFE_URL_SCHEMES = ['http', 'https', 'mailto'];
+
+// True for http(s), mailto and relative URLs. Entities, control characters and
+// whitespace are removed first, since browsers ignore them within a scheme.
+export function isSafeUrl(url: string): boolean {
+  const decoded = url
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&colon;?/gi, ':')
+    .replace(/[\u0000-\u0020\u007f]/g, '');
+  const scheme = decoded.match(/^([^/?#]*?):/);
+  return !scheme || SAFE_URL_SCHEMES.includes(scheme[1].toLowerCase());
+}
+
+// Raw HTML in section text is shown as text rather than passed through, and
+// links or images with an unsafe URL keep only their text
+const markdown = new Marked({ gfm: true, breaks: true, async: false });
+markdown.use({
+  renderer: {
+    html: ({ text }) => escapeXml(text),
+    link(token) {
+      return isSafeUrl(token.href) ? false : this.parser.parseInline(token.tokens);
+    },
+    image(token) {
+      return isSafeUrl(token.href) ? false : escapeXml(token.text);
+    },
+  },
+});
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function slugify(value: string): string {
+  return (
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'course'
+  );
+}
+
+export function sortSections(sections: CourseSection[]): CourseSection[] {
+  return [...sections].sort((a, b) => a.order_index - b.order_index);
+}
+
+function getExerciseText(exercise: string | ExerciseSpec): string {
+  return typeof exercise === 'string' ? exercise : exercise.prompt;
+}
+
+function renderMarkdown(text: string): string {
+  return markdown.parse(text) as string;
+}
+
+// Void elements closed so the markup is also valid XHTML, which EPUB requires
+function toXhtml(html: string): string {
+  return html.replace(/<(br|hr|img|input|col|wbr)\b([^>]*?)\s*\/?>/g, '<$1$2 />');
+}
+
+// The body of a section, without its title
+function sectionBodyToMarkdown(section: CourseSection): string {
+  const parts: string[] = [];
+  if (section.introduction?.trim()) parts.push(section.introduction.trim());
+  if (section.content?.trim()) parts.push(section.content.trim());
+  if (section.key_points?.length) {
+    parts.push(`### Key Points\n\n${section.key_points.map((point) => `- ${point}`).join('\n')}`);
+  }
+  for (const topic of section.sub_topics || []) {
+    parts.push(`### ${topic.subtitle}\n\n${(topic.subexplanation || '').trim()}`.trim());
+  }
+  if (section.examples?.length) {
+    parts.push(`### Examples\n\n${section.examples.map((example) => `\`\`\`\n${example.trim()}\n\`\`\``).join('\n\n')}`);
+  }
+  if (section.exercises?.length) {
+    const exercises = section.exercises.map((exercise, index) => {
+      const starter = typeof exercise !== 'string' && exercise.starter_code
+        ? `\n\n   \`\`\`${exercise.language || ''}\n${exercise.starter_code.replace(/^/gm, '   ')}\n   \`\`\``
+        : '';
+      return `${index + 1}. ${getExerciseText(exercise)}${starter}`;
+    });
+    parts.push(`### Practice Exercises\n\n${exercises.join('\n')}`);
+  }
+  if (section.video_links?.length) {
+    const videos = section.video_links.map(
+      (video) => `- [${video.title || video.link}](${video.link})${video.duration ? ` (${video.duration})` : ''}`
+    );
+    parts.push(`### Videos\n\n${videos.join('\n')}`);
+  }
+  return parts.join('\n\n');
+}
+
+export function courseSectionToMarkdown(section: CourseSection): string {
+  const body = sectionBodyToMarkdown(section);
+  return body ? `## ${section.title}\n\n${body}` : `## ${section.title}`;
+}
+
+function getCourseMeta(course: Course): string[] {
+  return [course.level, course.category].filter((value): value is string => Boolean(value));
+}
+
+export function courseToMarkdown(course: Course, sections: CourseSection[]): string {
+  const ordered = sortSections(sections);
+  const parts = [`# ${course.title}`];
+  const meta = getCourseMeta(course);
+  if (meta.length) parts.push(`*${meta.join(' · ')}*`);
+  if (course.description?.trim()) parts.push(course.description.trim());
+  if (ordered.length > 1) {
+    parts.push(
+      `## Contents\n\n${ordered.map((section, index) => `${index + 1}. [${section.title}](#${slugify(section.title)})`).join('\n')}`
+    );
+  }
+  parts.push(...ordered.map(courseSectionToMarkdown));
+  return `${parts.join('\n\n')}\n`;
+}
+
+const DOCUMENT_STYLES = `body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.6; color: #1f2937; max-width: 760px; margin: 0 auto; padding: 24px; }
+h1, h2, h3 { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; line-height: 1.25; }
+h2 { border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; margin-top: 48px; }
+pre { background: #f3f4f6; padding: 12px; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; }
+code { font-family: 'SFMono-Regular', Consolas, monospace; font-size: 0.9em; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #d1d5db; padding: 4px 8px; }
+.meta { color: #6b7280; }
+nav ol { padding-left: 20px; }`;
+
+function sectionToHtml(section: CourseSection): string {
+  return `<section id="${escapeXml(slugify(section.title))}">
+<h2>${escapeXml(section.title)}</h2>
+${renderMarkdown(sectionBodyToMarkdown(section))}
+</section>`;
+}
+
+// A single self-contained page: styles inline, no scripts or external files
+export function courseToHtml(course: Course, sections: CourseSection[]): string {
+  const ordered = sortSections(sections);
+  const meta = getCourseMeta(course);
+  const contents = ordered
+    .map((section) => `<li><a href="#${escapeXml(slugify(section.title))}">${escapeXml(section.title)}</a></li>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(course.title)}</title>
+<style>
+${DOCUMENT_STYLES}
+</style>
+</head>
+<body>
+<h1>${escapeXml(course.title)}</h1>
+${meta.length ? `<p class="meta">${escapeXml(meta.join(' · '))}</p>` : ''}
+${course.description?.trim() ? renderMarkdown(course.description.trim()) : ''}
+${ordered.length > 1 ? `<nav><h2>Contents</h2>\n<ol>\n${contents}\n</ol></nav>` : ''}
+${ordered.map(sectionToHtml).join('\n')}
+</body>
+</html>
+`;
+}
+
+function xhtmlDocument(title: string, body: string, stylesheet: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="${stylesheet}" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+// EPUB 3 with one chapter per section. `mimetype` comes first and has to be
+// stored uncompressed, which `zipExportFiles` takes care of.
+export function buildEpubFiles(course: Course, sections: CourseSection[]): ExportFile[] {
+  const ordered = sortSections(sections);
+  const chapters = ordered.map((section, index) => ({ section, path: `chapter-${index + 1}.xhtml`, id: `chapter-${index + 1}` }));
+  const updated = new Date(course.updated_at || course.created_at || 0);
+  const modified = (isNaN(updated.getTime()) ? new Date(0) : updated).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const meta = getCourseMeta(course);
+
+  const titlePage = xhtmlDocument(
+    course.title,
+    `<h1>${escapeXml(course.title)}</h1>
+${meta.length ? `<p class="meta">${escapeXml(meta.join(' · '))}</p>` : ''}
+${course.description?.trim() ? toXhtml(renderMarkdown(course.description.trim())) : ''}`,
+    'styles.css'
+  );
+
+  const nav = xhtmlDocument(
+    'Contents',
+    `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${chapters.map(({ section, path }) => `<li><a href="${path}">${escapeXml(section.title)}</a></li>`).join('\n')}
+</ol>
+</nav>`,
+    'styles.css'
+  );
+
+  const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">urn:edubot:course:${escapeXml(course.id)}</dc:identifier>
+<dc:title>${escapeXml(course.title)}</dc:title>
+<dc:language>en</dc:language>
+${course.description?.trim() ? `<dc:description>${escapeXml(course.description.trim())}</dc:description>\n` : ''}<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="css" href="styles.css" media-type="text/css"/>
+<item id="title-page" href="title.xhtml" media-type="application/xhtml+xml"/>
+${chapters.map(({ path, id }) => `<item id="${id}" href="${path}" media-type="application/xhtml+xml"/>`).join('\n')}
+</manifest>
+<spine>
+<itemref idref="title-page"/>
+<itemref idref="nav"/>
+${chapters.map(({ id }) => `<itemref idref="${id}"/>`).join('\n')}
+</spine>
+</package>
+`;
+
+  return [
+    { path: 'mimetype', content: 'application/epub+zip' },
+    {
+      path: 'META-INF/container.xml',
+      content: `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`,
+    },
+    { path: 'OEBPS/content.opf', content: opf },
+    { path: 'OEBPS/styles.css', content: DOCUMENT_STYLES },
+    { path: 'OEBPS/title.xhtml', content: titlePage },
+    { path: 'OEBPS/nav.xhtml', content: nav },
+    ...chapters.map(({ section, path }) => ({
+      path: `OEBPS/${path}`,
+      content: xhtmlDocument(
+        section.title,
+        `<h1>${escapeXml(section.title)}</h1>\n${toXhtml(renderMarkdown(sectionBodyToMarkdown(section)))}`,
+        'styles.css'
+      ),
+    })),
+  ];
+}
+
+// Runs inside each SCO: finds the LMS API, reports completion, and renders and
+// scores the section quiz from the JSON embedded in the page
+const SCORM_RUNTIME = `(function () {
+  var api = null;
+  function findApi(win) {
+    for (var depth = 0; win && depth < 10; depth++) {
+      if (win.API) return win.API;
+      if (win.parent === win) break;
+      win = win.parent;
+    }
+    return null;
+  }
+  api = findApi(window) || (window.opener ? findApi(window.opener) : null);
+  var finished = false;
+  function set(key, value) { if (api) api.LMSSetValue(key, String(value)); }
+  function finish() {
+    if (!api || finished) return;
+    finished = true;
+    api.LMSCommit('');
+    api.LMSFinish('');
+  }
+
+  var dataElement = document.getElementById('quiz-data');
+  var quiz = dataElement ? JSON.parse(dataElement.textContent) : null;
+  if (api) {
+    api.LMSInitialize('');
+    var status = api.LMSGetValue('cmi.core.lesson_status');
+    if (!quiz && status !== 'completed' && status !== 'passed') set('cmi.core.lesson_status', 'completed');
+    else if (quiz && (status === 'not attempted' || status === '')) set('cmi.core.lesson_status', 'incomplete');
+    api.LMSCommit('');
+  }
+  window.addEventListener('beforeunload', finish);
+  window.addEventListener('pagehide', finish);
+  if (!quiz) return;
+
+  var form = document.getElementById('quiz');
+  var result = document.getElementById('quiz-result');
+  quiz.questions.forEach(function (question, index) {
+    var fieldset = document.createElement('fieldset');
+    var legend = document.createElement('legend');
+    legend.textContent = (index + 1) + '. ' + question.question;
+    fieldset.appendChild(legend);
+    question.options.forEach(function (option) {
+      var label = document.createElement('label');
+      var input = document.createElement('input');
+      input.type = 'radio';
+      input.name = 'q' + index;
+      input.value = option;
+      label.appendChild(input);
+      label.appendChild(document.createTextNode(' ' + option));
+      fieldset.appendChild(label);
+    });
+    form.insertBefore(fieldset, form.lastElementChild);
+  });
+
+  form.addEventListener('submit', function (event) {
+    event.preventDefault();
+    var correct = 0;
+    quiz.questions.forEach(function (question, index) {
+      var fieldset = form.querySelectorAll('fieldset')[index];
+      var chosen = form.querySelector('input[name="q' + index + '"]:checked');
+      var right = chosen && chosen.value === question.correctAnswer;
+      if (right) correct++;
+      fieldset.className = right ? 'correct' : 'incorrect';
+    });
+    var score = Math.round((correct / quiz.questions.length) * 100);
+    var passed = score >= quiz.masteryScore;
+    result.textContent = 'You scored ' + correct + ' of ' + quiz.questions.length + ' (' + score + '%) - ' + (passed ? 'passed' : 'not passed yet');
+    set('cmi.core.score.min', 0);
+    set('cmi.core.score.max', 100);
+    set('cmi.core.score.raw', score);
+    set('cmi.core.lesson_status', passed ? 'passed' : 'failed');
+    if (api) api.LMSCommit('');
+  });
+})();
+`;
+
+const SCORM_STYLES = `${DOCUMENT_STYLES}
+fieldset { border: 1px solid #e5e7eb; border-radius: 6px; margin: 12px 0; padding: 12px; }
+fieldset label { display: block; margin: 4px 0; }
+fieldset.correct { border-color: #22c55e; }
+fieldset.incorrect { border-color: #ef4444; }
+button { padding: 8px 16px; border-radius: 6px; border: 0; background: #059669; color: white; cursor: pointer; }
+#quiz-result { font-weight: bold; }`;
+
+// JSON inside a <script> element must not be able to close it
+function embedJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+function scoPage(course: Course, section: CourseSection, questions: QuizQuestion[]): string {
+  const quiz = questions.length
+    ? `<h2>Section Quiz</h2>
+<form id="quiz">
+<p><button type="submit">Check answers</button></p>
+</form>
+<p id="quiz-result" aria-live="polite"></p>
+<script type="application/json" id="quiz-data">${embedJson({ masteryScore: SCORM_MASTERY_SCORE, questions })}</script>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(section.title)} - ${escapeXml(course.title)}</title>
+<link rel="stylesheet" href="styles.css">
+</head>
+<body>
+${sectionToHtml(section)}
+${quiz}
+<script src="scorm.js"></script>
+</body>
+</html>
+`;
+}
+
+// SCORM 1.2 package with one SCO per section. Sections with a quiz report the
+// score and passed/failed; the others are marked completed once opened.
+export function buildScormFiles(course: Course, sections: CourseSection[], quizzes: SectionQuizzes = {}): ExportFile[] {
+  const ordered = sortSections(sections);
+  const scos = ordered.map((section, index) => ({
+    section,
+    id: `sco-${index + 1}`,
+    path: `section-${index + 1}.html`,
+    questions: quizzes[section.id] || [],
+  }));
+  const identifier = `edubot-${slugify(course.title)}-${slugify(course.id)}`;
+
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${escapeXml(identifier)}" version="1.0"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.imsglobal.org/xsd/imsmd_rootv1p2p1 imsmd_rootv1p2p1.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="org-1">
+    <organization identifier="org-1">
+      <title>${escapeXml(course.title)}</title>
+${scos
+  .map(
+    ({ section, id, questions }) => `      <item identifier="item-${id}" identifierref="${id}">
+        <title>${escapeXml(section.title)}</title>${
+      questions.length ? `\n        <adlcp:masteryscore>${SCORM_MASTERY_SCORE}</adlcp:masteryscore>` : ''
+    }
+      </item>`
+  )
+  .join('\n')}
+    </organization>
+  </organizations>
+  <resources>
+${scos
+  .map(
+    ({ id, path }) => `    <resource identifier="${id}" type="webcontent" adlcp:scormtype="sco" href="${path}">
+      <file href="${path}"/>
+      <file href="styles.css"/>
+      <file href="scorm.js"/>
+    </resource>`
+  )
+  .join('\n')}
+  </resources>
+</manifest>
+`;
+
+  return [
+    { path: 'imsmanifest.xml', content: manifest },
+    { path: 'styles.css', content: SCORM_STYLES },
+    { path: 'scorm.js', content: SCORM_RUNTIME },
+    ...scos.map(({ section, path, questions }) => ({ path, content: scoPage(course, section, questions) })),
+  ];
+}
+
+// Zip the files in order. EPUB readers expect `mimetype` first and uncompressed.
+export function zipExportFiles(files: ExportFile[], mimeType = 'application/zip'): Promise<Blob> {
+  const zip = new JSZip();
+  for (const file of files) {
+    zip.file(file.path, file.content, file.path === 'mimetype' ? { compression: 'STORE' } : undefined);
+  }
+  return zip.generateAsync({ type: 'blob', mimeType, compression: 'DEFLATE' });
+}
+
+export const EXPORT_FORMATS: Record<CourseExportFormat, { label: string; extension: string }> = {
+  markdown: { label: 'Markdown', extension: 'md' },
+  html: { label: 'HTML page', extension: 'html' },
+  epub: { label: 'EPUB e-book', extension: 'epub' },
+  scorm: { label: 'SCORM 1.2 package', extension: 'zip' },
+};
+
+// The finished file for a format
+export async function exportCourse(
+  format: CourseExportFormat,
+  course: Course,
+  sections: CourseSection[],
+  quizzes: SectionQuizzes = {}
+): Promise<{ blob: Blob; fileName: string }> {
+  const fileName = `${slugify(course.title)}.${EXPORT_FORMATS[format].extension}`;
+  switch (format) {
+    case 'markdown':
+      return { blob: new Blob([courseToMarkdown(course, sections)], { type: 'text/markdown' }), fileName };
+    case 'html':
+      return { blob: new Blob([courseToHtml(course, sections)], { type: 'text/html' }), fileName };
+    case 'epub':
+      return { blob: await zipExportFiles(buildEpubFiles(course, sections), 'application/epub+zip'), fileName };
+    case 'scorm':
+      return { blob: await zipExportFiles(buildScormFiles(course, sections, quizzes)), fileName: `${slugify(course.title)}-scorm.zip` };
+  }
+}
@@ -0,0 +1,499 @@
+// src/lib/courseImport.ts
+// Turns Markdown notes, HTML pages and Common Cartridge (.imscc) LMS exports into
+// course sections. Every format is first read into a flat list of blocks; the
+// plan built from the blocks decides where sections start and what each list
+// becomes, and can be adjusted before anything is created.
+import JSZip from 'jszip';
+import { Marked, Tokens } from 'marked';
+import type { CourseSectionInput } from '../services/api';
+import type { CourseVideoLink } from './courseEditor';
+import { extractYouTubeId } from './courseSection';
+import { createId } from './rubric';
+
+export const IMPORT_ACCEPT = '.md,.markdown,.txt,.html,.htm,.imscc,.zip';
+
+export type ImportBlock =
+  | { type: 'heading'; depth: number; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'code'; text: string; lang?: string }
+  | { type: 'text'; markdown: string };
+
+export interface ImportDocument {
+  // From the file name or the cartridge metadata; a leading heading can replace it
+  title: string;
+  format: 'markdown' | 'html' | 'cartridge';
+  blocks: ImportBlock[];
+}
+
+export type ListTarget = 'key_points' | 'exercises' | 'content';
+
+export interface ImportedList {
+  id: string;
+  // Heading right above the list, which moves with it
+  heading?: string;
+  headingDepth?: number;
+  ordered: boolean;
+  items: string[];
+  target: ListTarget;
+}
+
+type SectionPart = { type: 'markdown'; text: string } | { type: 'list'; listId: string };
+
+export interface ImportedSection {
+  id: string;
+  title: string;
+  parts: SectionPart[];
+  lists: ImportedList[];
+  video_links: CourseVideoLink[];
+}
+
+export interface ImportPlan {
+  title: string;
+  description: string;
+  sections: ImportedSection[];
+}
+
+export const LIST_TARGET_LABELS: Record<ListTarget, string> = {
+  key_points: 'Key points',
+  exercises: 'Exercises',
+  content: 'Keep in content',
+};
+
+const EXERCISE_HEADING = /exercise|practice|question|activit|homework|assignment|task|problem|try it|quiz/i;
+const KEY_POINT_HEADING = /key|summary|takeaway|objective|main point|remember|highlight|recap|learn/i;
+
+const lexer = new Marked({ gfm: true });
+
+function getFileExtension(name: string): string {
+  return name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+}
+
+export function getTitleFromFileName(name: string): string {
+  const base = name.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim();
+  return base ? base.charAt(0).toUpperCase() + base.slice(1) : 'Imported course';
+}
+
+// List item text on one line, nested items included
+function flattenListItem(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '').trim())
+    .filter(Boolean)
+    .join(' ');
+}
+
+export function parseMarkdownBlocks(markdown: string): ImportBlock[] {
+  const blocks: ImportBlock[] = [];
+  for (const token of lexer.lexer(markdown)) {
+    switch (token.type) {
+      case 'space':
+      case 'hr':
+        break;
+      case 'heading':
+        blocks.push({ type: 'heading', depth: (token as Tokens.Heading).depth, text: (token as Tokens.Heading).text.trim() });
+        break;
+      case 'list': {
+        const list = token as Tokens.List;
+        blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map((item) => flattenListItem(item.text)).filter(Boolean) });
+        break;
+      }
+      case 'code':
+        blocks.push({ type: 'code', text: (token as Tokens.Code).text, lang: (token as Tokens.Code).lang || undefined });
+        break;
+      default:
+        if (token.raw.trim()) blocks.push({ type: 'text', markdown: token.raw.trim() });
+    }
+  }
+  return blocks;
+}
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'details', 'div', 'dl', 'fieldset', 'figure', 'footer', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'iframe', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul',
+]);
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'nav', 'footer']);
+
+function getYouTubeWatchUrl(src: string | null): string | null {
+  const id = extractYouTubeId(src);
+  return id ? `https://www.youtube.com/watch?v=${id}` : null;
+}
+
+// Inline HTML as Markdown, keeping links and basic emphasis
+function inlineToMarkdown(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return (node.textContent || '').replace(/\s+/g, ' ');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  if (SKIPPED_TAGS.has(tag)) return '';
+  const inner = Array.from(element.childNodes).map(inlineToMarkdown).join('');
+  switch (tag) {
+    case 'br':
+      return '\n';
+    case 'a': {
+      const href = element.getAttribute('href');
+      return href && /^https?:/i.test(href) ? `[${inner.trim() || href}](${href})` : inner;
+    }
+    case 'strong':
+    case 'b':
+      return inner.trim() ? `**${inner.trim()}**` : '';
+    case 'em':
+    case 'i':
+      return inner.trim() ? `*${inner.trim()}*` : '';
+    case 'code':
+      return inner ? `\`${inner}\`` : '';
+    case 'img':
+      return element.getAttribute('alt') || '';
+    default:
+      return inner;
+  }
+}
+
+function collectHtmlBlocks(element: Element, blocks: ImportBlock[], depthOffset: number) {
+  const pushText = (markdown: string) => {
+    const text = markdown.replace(/[ \t]+\n/g, '\n').trim();
+    if (text) blocks.push({ type: 'text', markdown: text });
+  };
+
+  let inline = '';
+  const flush = () => {
+    pushText(inline);
+    inline = '';
+  };
+
+  for (const node of Array.from(element.childNodes)) {
+    if (node.nodeType !== Node.ELEMENT_NODE || !BLOCK_TAGS.has((node as Element).tagName.toLowerCase())) {
+      inline += inlineToMarkdown(node);
+      continue;
+    }
+    flush();
+
+    const child = node as Element;
+    const tag = child.tagName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag)) continue;
+    if (/^h[1-6]$/.test(tag)) {
+      const text = (child.textContent || '').replace(/\s+/g, ' ').trim();
+      if (text) blocks.push({ type: 'heading', depth: Math.min(6, Number(tag[1]) + depthOffset), text });
+    } else if (tag === 'ul' || tag === 'ol') {
+      const items = Array.from(child.children)
+        .filter((item) => item.tagName.toLowerCase() === 'li')
+        .map((item) => inlineToMarkdown(item).replace(/\s+/g, ' ').trim())
+        .filter(Boolean);
+      if (items.length) blocks.push({ type: 'list', ordered: tag === 'ol', items });
+    } else if (tag === 'pre') {
+      blocks.push({ type: 'code', text: child.textContent || '' });
+    } else if (tag === 'iframe') {
+      const url = getYouTubeWatchUrl(child.getAttribute('src'));
+      if (url) pushText(`[${child.getAttribute('title') || 'Video'}](${url})`);
+    } else if (tag === 'p') {
+      pushText(inlineToMarkdown(child));
+    } else if (tag === 'blockquote') {
+      pushText(inlineToMarkdown(child).trim().replace(/^/gm, '> '));
+    } else if (tag === 'table') {
+      const rows = Array.from(child.querySelectorAll('tr')).map((row) =>
+        Array.from(row.children).map((cell) => (cell.textContent || '').replace(/\s+/g, ' ').trim())
+      );
+      if (rows.length) {
+        const header = `| ${rows[0].join(' | ')} |\n| ${rows[0].map(() => '---').join(' | ')} |`;
+        pushText([header, ...rows.slice(1).map((row) => `| ${row.join(' | ')} |`)].join('\n'));
+      }
+    } else {
+      collectHtmlBlocks(child, blocks, depthOffset);
+    }
+  }
+  flush();
+}
+
+// Browser only: relies on DOMParser. `depthOffset` pushes the page's headings
+// down, e.g. below the item title of a cartridge page.
+export function parseHtmlBlocks(html: string, depthOffset = 0): ImportBlock[] {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  const blocks: ImportBlock[] = [];
+  collectHtmlBlocks(document.body, blocks, depthOffset);
+  return blocks;
+}
+
+function getHtmlTitle(html: string): string | null {
+  const title = new DOMParser().parseFromString(html, 'text/html').title.trim();
+  return title || null;
+}
+
+// Manifest elements by local name, whatever namespace prefix the exporter used
+function childElements(element: Element, localName: string): Element[] {
+  return Array.from(element.children).filter((child) => child.localName === localName);
+}
+
+function resolvePath(base: string, href: string): string {
+  const parts = `${base}${decodeURIComponent(href)}`.split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  }
+  return resolved.join('/');
+}
+
+// Common Cartridge: modules and items from the manifest's organization, each item
+// as a heading followed by its page, web link or attached text
+export async function parseCommonCartridge(file: Blob, fallbackTitle: string): Promise<ImportDocument> {
+  const zip = await JSZip.loadAsync(file);
+  const manifestFile = zip.file('imsmanifest.xml');
+  if (!manifestFile) throw new Error('Not a Common Cartridge: imsmanifest.xml is missing');
+
+  const manifest = new DOMParser().parseFromString(await manifestFile.async('string'), 'application/xml');
+  if (manifest.getElementsByTagName('parsererror').length) throw new Error('The cartridge manifest could not be read');
+
+  const root = manifest.documentElement;
+  const metadataTitle = Array.from(root.getElementsByTagNameNS('*', 'title'))
+    .find((element) => element.parentElement?.localName === 'general')
+    ?.textContent?.trim();
+
+  const resources = new Map<string, Element>();
+  for (const resource of Array.from(root.getElementsByTagNameNS('*', 'resource'))) {
+    const id = resource.getAttribute('identifier');
+    if (id) resources.set(id, resource);
+  }
+
+  const readResource = async (resource: Element, depth: number): Promise<ImportBlock[]> => {
+    const base = resource.getAttribute('xml:base') || '';
+    const hrefs = [resource.getAttribute('href'), ...childElements(resource, 'file').map((item) => item.getAttribute('href'))]
+      .filter((href): href is string => Boolean(href));
+    const type = resource.getAttribute('type') || '';
+
+    if (type.startsWith('imswl')) {
+      const linkFile = hrefs.length ? zip.file(resolvePath(base, hrefs[0])) : null;
+      if (!linkFile) return [];
+      const link = new DOMParser().parseFromString(await linkFile.async('string'), 'application/xml');
+      const url = link.getElementsByTagNameNS('*', 'url')[0]?.getAttribute('href');
+      const title = link.getElementsByTagNameNS('*', 'title')[0]?.textContent?.trim();
+      return url ? [{ type: 'text', markdown: `[${title || url}](${url})` }] : [];
+    }
+
+    const page = hrefs.find((href) => /\.html?$/i.test(href));
+    const text = hrefs.find((href) => /\.(md|markdown|txt)$/i.test(href));
+    if (page) {
+      const pageFile = zip.file(resolvePath(base, page));
+      return pageFile ? parseHtmlBlocks(await pageFile.async('string'), depth) : [];
+    }
+    if (text) {
+      const textFile = zip.file(resolvePath(base, text));
+      if (!textFile) return [];
+      return parseMarkdownBlocks(await textFile.async('string')).map((block) =>
+        block.type === 'heading' ? { ...block, depth: Math.min(6, block.depth + depth) } : block
+      );
+    }
+    return [];
+  };
+
+  const blocks: ImportBlock[] = [];
+  const walk = async (item: Element, depth: number) => {
+    const title = childElements(item, 'title')[0]?.textContent?.trim();
+    const ref = item.getAttribute('identifierref');
+    if (title) blocks.push({ type: 'heading', depth: Math.min(6, depth), text: title });
+    const resource = ref ? resources.get(ref) : undefined;
+    if (resource) blocks.push(...(await readResource(resource, depth)));
+    for (const child of childElements(item, 'item')) {
+      await walk(child, title ? depth + 1 : depth);
+    }
+  };
+
+  const organization = root.getElementsByTagNameNS('*', 'organization')[0];
+  if (organization) {
+    for (const item of childElements(organization, 'item')) await walk(item, 1);
+  }
+  if (blocks.length === 0) throw new Error('The cartridge has no pages that can be imported');
+
+  return { title: metadataTitle || fallbackTitle, format: 'cartridge', blocks };
+}
+
+export async function readImportFile(file: File): Promise<ImportDocument> {
+  const extension = getFileExtension(file.name);
+  const fallbackTitle = getTitleFromFileName(file.name);
+
+  if (extension === 'imscc' || extension === 'zip') return parseCommonCartridge(file, fallbackTitle);
+
+  const text = await file.text();
+  if (extension === 'html' || extension === 'htm' || /^\s*<(!doctype|html)/i.test(text)) {
+    return { title: getHtmlTitle(text) || fallbackTitle, format: 'html', blocks: parseHtmlBlocks(text) };
+  }
+  return { title: fallbackTitle, format: 'markdown', blocks: parseMarkdownBlocks(text) };
+}
+
+export function getHeadingDepths(blocks: ImportBlock[]): number[] {
+  const depths = new Set(blocks.flatMap((block) => (block.type === 'heading' ? [block.depth] : [])));
+  return [...depths].sort((a, b) => a - b);
+}
+
+// The heading level sections start at: a single top heading is taken as the
+// course title, so sections start one level below it
+export function suggestSectionDepth(blocks: ImportBlock[]): number | null {
+  const depths = getHeadingDepths(blocks);
+  if (depths.length === 0) return null;
+  const topCount = blocks.filter((block) => block.type === 'heading' && block.depth === depths[0]).length;
+  return topCount === 1 && depths.length > 1 ? depths[1] : depths[0];
+}
+
+function getDefaultListTarget(heading?: string): ListTarget {
+  if (!heading) return 'content';
+  if (EXERCISE_HEADING.test(heading)) return 'exercises';
+  if (KEY_POINT_HEADING.test(heading)) return 'key_points';
+  return 'content';
+}
+
+const MARKDOWN_LINK = /\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)/g;
+const BARE_URL = /(?<!\()https?:\/\/[^\s)\]]+/g;
+
+// YouTube links in a piece of Markdown, and the Markdown without them when
+// nothing else is left of it
+function extractVideos(markdown: string, topic: string): { videos: CourseVideoLink[]; rest: string } {
+  const videos: CourseVideoLink[] = [];
+  const addVideo = (title: string, url: string) => {
+    const link = getYouTubeWatchUrl(url);
+    if (link && !videos.some((video) => video.link === link)) videos.push({ title: title || 'Video', link, topic, duration: '' });
+    return Boolean(link);
+  };
+
+  let rest = markdown.replace(MARKDOWN_LINK, (match, title: string, url: string) => (addVideo(title.trim(), url) ? '' : match));
+  rest = rest.replace(BARE_URL, (url) => (addVideo('', url) ? '' : url));
+  if (videos.length === 0) return { videos, rest: markdown };
+  return { videos, rest: /[\p{L}\p{N}]/u.test(rest) ? markdown : '' };
+}
+
+function createSection(title: string): ImportedSection {
+  return { id: createId('section'), title, parts: [], lists: [], video_links: [] };
+}
+
+export function buildImportPlan(document: ImportDocument, sectionDepth: number | null): ImportPlan {
+  const { blocks } = document;
+  const depth = sectionDepth ?? Infinity;
+
+  // A lone heading above the section level names the course
+  const aboveSections = blocks.filter((block) => block.type === 'heading' && block.depth < depth);
+  const titleHeading = aboveSections.length === 1 && blocks.find((block) => block.type === 'heading') === aboveSections[0]
+    ? aboveSections[0]
+    : null;
+
+  const plan: ImportPlan = {
+    title: titleHeading?.type === 'heading' ? titleHeading.text : document.title,
+    description: '',
+    sections: [],
+  };
+  const descriptionParts: string[] = [];
+  let current: ImportedSection | null = null;
+  let lastHeading: { text: string; depth: number } | null = null;
+
+  for (const block of blocks) {
+    if (block === titleHeading) continue;
+
+    if (block.type === 'heading' && block.depth <= depth) {
+      current = createSection(block.text);
+      plan.sections.push(current);
+      lastHeading = null;
+      continue;
+    }
+
+    if (!current) {
+      if (block.type === 'heading') descriptionParts.push(`**${block.text}**`);
+      else if (block.type === 'text') descriptionParts.push(block.markdown);
+      else if (block.type === 'list') descriptionParts.push(block.items.map((item) => `- ${item}`).join('\n'));
+      else descriptionParts.push(`\`\`\`${block.lang || ''}\n${block.text}\n\`\`\``);
+      continue;
+    }
+
+    const section = current;
+    const heading = lastHeading;
+    lastHeading = null;
+
+    if (block.type === 'heading') {
+      section.parts.push({ type: 'markdown', text: `${'#'.repeat(Math.min(6, block.depth - depth + 2))} ${block.text}` });
+      lastHeading = { text: block.text, depth: block.depth };
+    } else if (block.type === 'code') {
+      section.parts.push({ type: 'markdown', text: `\`\`\`${block.lang || ''}\n${block.text.replace(/\n$/, '')}\n\`\`\`` });
+    } else if (block.type === 'text') {
+      const { videos, rest } = extractVideos(block.markdown, section.title);
+      section.video_links.push(...videos.filter((video) => !section.video_links.some((other) => other.link === video.link)));
+      if (rest) section.parts.push({ type: 'markdown', text: rest });
+    } else {
+      const items: string[] = [];
+      for (const item of block.items) {
+        const { videos, rest } = extractVideos(item, section.title);
+        section.video_links.push(...videos.filter((video) => !section.video_links.some((other) => other.link === video.link)));
+        if (rest) items.push(rest);
+      }
+      if (items.length === 0) {
+        // A list of nothing but videos; its heading goes with it
+        if (heading) section.parts.pop();
+        continue;
+      }
+
+      const list: ImportedList = {
+        id: createId('list'),
+        ordered: block.ordered,
+        items,
+        target: getDefaultListTarget(heading?.text),
+      };
+      if (heading) {
+        // The heading belongs to the list, wherever the list ends up
+        section.parts.pop();
+        list.heading = heading.text;
+        list.headingDepth = Math.min(6, heading.depth - depth + 2);
+      }
+      section.lists.push(list);
+      section.parts.push({ type: 'list', listId: list.id });
+    }
+  }
+
+  plan.description = descriptionParts.join('\n\n');
+
+  // Nothing to split on: everything is one section
+  if (plan.sections.length === 0) {
+    const section = createSection(plan.title);
+    section.parts.push({ type: 'markdown', text: plan.description });
+    plan.description = '';
+    plan.sections.push(section);
+  }
+  return plan;
+}
+
+export function setListTarget(plan: ImportPlan, listId: string, target: ListTarget): ImportPlan {
+  return {
+    ...plan,
+    sections: plan.sections.map((section) => ({
+      ...section,
+      lists: section.lists.map((list) => (list.id === listId ? { ...list, target } : list)),
+    })),
+  };
+}
+
+function listToMarkdown(list: ImportedList): string {
+  const items = list.items.map((item, index) => (list.ordered ? `${index + 1}. ${item}` : `- ${item}`)).join('\n');
+  return list.heading ? `${'#'.repeat(list.headingDepth || 3)} ${list.heading}\n\n${items}` : items;
+}
+
+// Sections ready for createCourse/updateCourse, numbered from `startIndex`
+export function toSectionInputs(plan: ImportPlan, startIndex = 0): CourseSectionInput[] {
+  return plan.sections.map((section, index) => {
+    const lists = new Map(section.lists.map((list) => [list.id, list]));
+    const content = section.parts
+      .map((part) => {
+        if (part.type === 'markdown') return part.text;
+        const list = lists.get(part.listId);
+        return list && list.target === 'content' ? listToMarkdown(list) : '';
+      })
+      .filter(Boolean)
+      .join('\n\n');
+    const itemsFor = (target: ListTarget) =>
+      section.lists.filter((list) => list.target === target).flatMap((list) => list.items);
+
+    return {
+      title: section.title,
+      introduction: '',
+      content,
+      key_points: itemsFor('key_points'),
+      sub_topics: [],
+      examples: [],
+      exercises: itemsFor('exercises'),
+      video_links: section.video_links,
+      order_index: startIndex + index,
+    };
+  });
+}
@@ -0,0 +1,156 @@
+// src/lib/courseSection.ts
+// Turns course sections from the backend into one consistent shape, shared by
+// the learning view and the course editor.
+import type { CourseSection, CourseSectionInput } from '../services/api';
+
+// Section detail as the backend returns it: field names vary between endpoints
+// and older sections keep their structured fields in a JSON blob in the text
+export interface ApiSectionDetail extends CourseSection {
+  video_links?: any[];
+  videolinks?: any[];
+  key_points?: any[];
+  keypoints?: any[];
+  sub_topics?: any[];
+  subtopics?: any[];
+  introduction?: string;
+  content?: string;
+}
+
+type RawBlob = {
+  topics?: string[];
+  subtopics?: { subtitle: string; subexplanation: string }[];
+  keypoints?: string[];
+  key_points?: string[];
+  videolinks?: Array<{ title: string; link: string; duration?: string; topic?: string }>;
+  video_links?: Array<{ title: string; link: string; duration?: string; topic?: string }>;
+  introduction?: string;
+  description?: string;
+};
+
+// The parsed blob and the exact text it was parsed from, so only that text is
+// removed; braces in math or code never count unless they parse as a blob
+type FoundBlob<T> = { value: T; source: string };
+
+function safeTryParseJson<T = any>(text?: string): FoundBlob<T> | null {
+  if (!text) return null;
+  const trimmed = text.trim();
+  if ((trimmed.startsWith('{') && trimmed.endsWith('}')) || trimmed.includes('"topics"') || trimmed.includes('"videolinks"')) {
+    try {
+      return { value: JSON.parse(trimmed), source: trimmed };
+    } catch {
+      const match = trimmed.match(/\{[\s\S]*\}/);
+      if (match) {
+        try {
+          return { value: JSON.parse(match[0]), source: match[0] };
+        } catch {
+          return null;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+function normalizeFromBlob(blob: RawBlob) {
+  const video_links = blob.video_links || blob.videolinks || [];
+  const key_points = blob.key_points || blob.keypoints || [];
+  let sub_topics: Array<{ subtitle: string; subexplanation: string }> = [];
+
+  if (Array.isArray(blob.subtopics)) {
+    sub_topics = blob.subtopics;
+  } else if (Array.isArray(blob.topics)) {
+    sub_topics = blob.topics.map((t) => ({
+      subtitle: t,
+      subexplanation: '',
+    }));
+  }
+
+  const introduction = blob.introduction || blob.description;
+  return { video_links, key_points, sub_topics, introduction };
+}
+
+function stripJsonBlobFromText(text: string | undefined, found: FoundBlob<unknown> | null): string | undefined {
+  if (!text || !found) return text;
+  return text.replace(found.source, '').trim();
+}
+
+// The stored fields as they are, with only the older field names resolved. For
+// anything sent back to the backend or exported, where the display clean-up in
+// normalizeSectionDetail would rewrite text nobody edited.
+export function resolveSectionFields(
+  sectionDetail: ApiSectionDetail
+): CourseSection & Required<Pick<CourseSection, 'video_links' | 'key_points' | 'sub_topics'>> {
+  const asArray = (value: unknown) => (Array.isArray(value) ? value : []);
+  return {
+    ...sectionDetail,
+    video_links: asArray(sectionDetail.video_links || sectionDetail.videolinks),
+    key_points: asArray(sectionDetail.key_points || sectionDetail.keypoints),
+    sub_topics: asArray(sectionDetail.sub_topics || sectionDetail.subtopics),
+  };
+}
+
+// A stored section as update input, so it can be sent back without changes
+export function toStoredSectionInput(sectionDetail: ApiSectionDetail): CourseSectionInput {
+  const section = resolveSectionFields(sectionDetail);
+  return {
+    id: section.id,
+    title: section.title,
+    content: section.content,
+    introduction: section.introduction,
+    key_points: section.key_points,
+    sub_topics: section.sub_topics,
+    examples: section.examples,
+    exercises: section.exercises,
+    video_links: section.video_links,
+    order_index: section.order_index,
+  };
+}
+
+export function normalizeSectionDetail(sectionDetail: ApiSectionDetail) {
+  let merged: any = {
+    ...sectionDetail,
+    video_links: sectionDetail.video_links || sectionDetail.videolinks,
+    key_points: sectionDetail.key_points || sectionDetail.keypoints,
+    sub_topics: sectionDetail.sub_topics || sectionDetail.subtopics,
+  };
+
+  const introBlob = safeTryParseJson<RawBlob>(sectionDetail.introduction);
+  const contentBlob = safeTryParseJson<RawBlob>(sectionDetail.content);
+  const blob = contentBlob || introBlob;
+
+  merged.introduction = stripJsonBlobFromText(merged.introduction, introBlob);
+  merged.content = stripJsonBlobFromText(merged.content, contentBlob);
+
+  if (blob) {
+    const { video_links, key_points, sub_topics, introduction } = normalizeFromBlob(blob.value);
+    merged.video_links = merged.video_links || video_links;
+    merged.key_points = merged.key_points || key_points;
+    merged.sub_topics = merged.sub_topics || sub_topics;
+    if (!merged.introduction && introduction) merged.introduction = introduction;
+  }
+
+  if (!Array.isArray(merged.video_links)) merged.video_links = [];
+  if (!Array.isArray(merged.key_points)) merged.key_points = [];
+  if (!Array.isArray(merged.sub_topics)) merged.sub_topics = [];
+
+  return merged;
+}
+
+export function extractYouTubeId(link?: string | null) {
+  if (!link) return null;
+  try {
+    if (link.includes('youtube.com/embed/')) {
+      return link.split('youtube.com/embed/')[1].split(/[?#&]/)[0];
+    }
+    if (link.includes('youtube.com/watch?v=')) {
+      const parts = link.split('v=')[1];
+      return parts ? parts.split(/[?#&]/)[0] : null;
+    }
+    if (link.includes('youtu.be/')) {
+      return link.split('youtu.be/')[1].split(/[?#&]/)[0];
+    }
+    return null;
+  } catch (e) {
+    return null;
+  }
+}
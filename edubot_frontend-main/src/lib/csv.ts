@@ -0,0 +1,23 @@
+// src/lib/csv.ts
+// CSV export helpers (RFC 4180 quoting). Cells that a spreadsheet would run as a
+// formula are prefixed with a quote.
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+function escapeCell(value: CsvCell): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(',')).join('\r\n');
+}
+
+// CSV blob with a byte order mark, so Excel reads it as UTF-8
+export function csvBlob(rows: CsvCell[][]): Blob {
+  return new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+}
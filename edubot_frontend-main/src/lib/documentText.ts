@@ -0,0 +1,55 @@
+// src/lib/documentText.ts
+// Helpers for turning uploaded documents into text for grading and analysis.
+// PDFs and Word files go through the backend's extraction; plain text and code
+// files are read in the browser.
+
+export const DOCUMENT_ACCEPT = '.pdf,.doc,.docx,.txt,.md,.rtf';
+export const CODE_DOCUMENT_ACCEPT = `${DOCUMENT_ACCEPT},.py,.js,.jsx,.ts,.tsx,.java,.c,.cpp,.h,.cs,.go,.rs,.rb,.php,.sql,.html,.css`;
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+// Below this the backend most likely found no text layer, e.g. a scanned PDF
+const MIN_EXTRACTED_LENGTH = 10;
+
+const SERVER_EXTENSIONS = new Set(['pdf', 'doc', 'docx', 'rtf']);
+const TEXT_EXTENSIONS = new Set(
+  CODE_DOCUMENT_ACCEPT.split(',')
+    .map((extension) => extension.slice(1))
+    .filter((extension) => !SERVER_EXTENSIONS.has(extension))
+);
+
+export function isExtractionIncomplete(text: string | undefined | null): boolean {
+  return !text || text.trim().length < MIN_EXTRACTED_LENGTH;
+}
+
+export const EXTRACTION_FAILED_MESSAGE =
+  'Content could not be extracted from the file. This may be a scanned PDF or an unsupported format.';
+
+// Whether the file matches an `accept` list of extensions and MIME types, as
+// the file picker would apply it; dropped files skip the picker's filter
+export function matchesAccept(file: File, accept: string): boolean {
+  const name = file.name.toLowerCase();
+  const type = file.type.toLowerCase();
+  return accept
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .some((entry) => {
+      if (entry.startsWith('.')) return name.endsWith(entry);
+      if (entry.endsWith('/*')) return type.startsWith(entry.slice(0, -1));
+      return type === entry;
+    });
+}
+
+// Whether the file needs the backend to get its text out
+export function needsServerExtraction(file: File): boolean {
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+  if (SERVER_EXTENSIONS.has(extension)) return true;
+  return !TEXT_EXTENSIONS.has(extension) && !file.type.startsWith('text/');
+}
+
+// One document as-is, several with a heading per file
+export function combineDocuments(documents: { name: string; text: string }[]): string {
+  if (documents.length === 1) return documents[0].text;
+  return documents.map(({ name, text }) => `=== ${name} ===\n${text}`).join('\n\n');
+}
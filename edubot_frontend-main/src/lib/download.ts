@@ -0,0 +1,32 @@
+// src/lib/download.ts
+// Saves a Blob through a temporary link, or prints an HTML document.
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Opens the print dialog for a standalone HTML document, which also lets the
+// user save it as a PDF
+export function printHtml(html: string) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const printWindow = frame.contentWindow;
+    if (!printWindow) return;
+    printWindow.onafterprint = () => frame.remove();
+    printWindow.focus();
+    printWindow.print();
+  };
+  document.body.appendChild(frame);
+}
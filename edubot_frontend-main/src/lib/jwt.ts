@@ -0,0 +1,41 @@
+// src/lib/jwt.ts
+
+export interface JwtPayload {
+  sub?: string;
+  exp?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+// Decode the payload of a JWT without verifying it. The signature is checked by the
+// backend; the client only needs the claims (mainly `exp`) to schedule refreshes.
+export function decodeJwt(token: string): JwtPayload | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const json = decodeURIComponent(
+      atob(padded)
+        .split('')
+        .map((char) => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`)
+        .join('')
+    );
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+// Expiry of the token in epoch milliseconds, or null when it has no `exp` claim
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+// True when the token expires within `leewayMs` (tokens without `exp` never expire)
+export function isTokenExpired(token: string, leewayMs = 0): boolean {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - leewayMs <= Date.now();
+}
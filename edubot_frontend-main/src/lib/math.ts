@@ -0,0 +1,81 @@
+// src/lib/math.ts
+// Prepares tutor text for remark-math. Models often write LaTeX with \( \) and
+// \[ \] delimiters, and chemistry as a bare \ce{...}; remark-math only knows the
+// dollar forms, so those are rewritten here. Code spans and fences are left alone.
+
+const CODE_PATTERN = /(```[\s\S]*?```|`[^`\n]*`)/g;
+const CHEMISTRY_COMMANDS = ['\\ce{', '\\pu{'];
+
+// Index of the brace closing the one at `openIndex`, or -1 if unbalanced
+function findClosingBrace(text: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '{') depth++;
+    if (text[i] === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+// Wrap mhchem commands that appear outside any math span in inline math
+function wrapBareChemistry(text: string): string {
+  let result = '';
+  let inMath = false;
+  let i = 0;
+
+  while (i < text.length) {
+    if (text[i] === '\\' && text[i + 1] === '$') {
+      result += '\\$';
+      i += 2;
+      continue;
+    }
+
+    if (text[i] === '$') {
+      // `$` and `$$` both open or close a single math span
+      let run = 0;
+      while (text[i + run] === '$') run++;
+      result += text.slice(i, i + run);
+      inMath = !inMath;
+      i += run;
+      continue;
+    }
+
+    const command = !inMath && CHEMISTRY_COMMANDS.find((name) => text.startsWith(name, i));
+    if (command) {
+      const end = findClosingBrace(text, i + command.length - 1);
+      if (end !== -1) {
+        result += `$${text.slice(i, end + 1)}$`;
+        i = end + 1;
+        continue;
+      }
+    }
+
+    result += text[i];
+    i++;
+  }
+
+  return result;
+}
+
+function normalizeText(text: string): string {
+  const withDollars = text
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_m, tex: string) => `\n$$\n${tex.trim()}\n$$\n`)
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_m, tex: string) => `$${tex.trim()}$`);
+  return wrapBareChemistry(withDollars);
+}
+
+export function normalizeMathDelimiters(markdown: string): string {
+  if (!markdown.includes('\\') && !markdown.includes('$')) return markdown;
+
+  // split() with a capturing group puts the code segments at odd indexes
+  return markdown
+    .split(CODE_PATTERN)
+    .map((part, index) => (index % 2 === 1 ? part : normalizeText(part)))
+    .join('');
+}
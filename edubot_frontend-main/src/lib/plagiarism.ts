@@ -0,0 +1,157 @@
+// src/lib/plagiarism.ts
+// Normalized plagiarism results. The backend answers with either snake_case or
+// squashed keys (plagiarism_score / plagiarismscore) and only quotes the flagged
+// snippets, so matches are located in the submitted text here to be highlighted.
+import type { PlagiarismFlaggedItem, PlagiarismResponse } from '../services/api';
+import { locateSnippet } from './textAnchors';
+
+export interface PlagiarismMatch {
+  id: string;
+  // Flagged snippet as quoted by the checker
+  text: string;
+  source: string;
+  url?: string;
+  // The matching passage in the source, when the checker returns it
+  sourceText?: string;
+  // 0-100
+  similarity: number;
+  // Character offsets into the submitted text, end exclusive. -1 when the
+  // snippet could not be found in it.
+  start: number;
+  end: number;
+}
+
+export interface PlagiarismReport {
+  // 0-100
+  score: number;
+  text: string;
+  matches: PlagiarismMatch[];
+  checkedAt: string;
+}
+
+export function normalizePlagiarismResponse(response: PlagiarismResponse, text: string): PlagiarismReport {
+  const items: PlagiarismFlaggedItem[] = response.flagged_content || response.flaggedcontent || [];
+  let searchFrom = 0;
+
+  const matches = items.map((item, index): PlagiarismMatch => {
+    const snippet = item.text || '';
+    const hasOffsets =
+      typeof item.start === 'number' && typeof item.end === 'number' && item.end > item.start && item.end <= text.length;
+    const located = hasOffsets ? { start: item.start!, end: item.end! } : locateSnippet(text, snippet, searchFrom);
+    if (located) searchFrom = located.end;
+
+    return {
+      id: `match-${index}`,
+      text: snippet,
+      source: item.source || 'Unknown Source',
+      url: item.url && item.url !== '#' ? item.url : undefined,
+      sourceText: item.source_text || item.sourcetext || undefined,
+      similarity: Number(item.similarity_score ?? item.similarityscore ?? 0),
+      start: located ? located.start : -1,
+      end: located ? located.end : -1,
+    };
+  });
+
+  return {
+    score: Number(response.plagiarism_score ?? response.plagiarismscore ?? 0),
+    text,
+    // Reading order; matches that weren't found go last
+    matches: matches.sort((a, b) => (a.start === -1 ? 1 : b.start === -1 ? -1 : a.start - b.start)),
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+export function isLocated(match: PlagiarismMatch): boolean {
+  return match.start >= 0;
+}
+
+// Highlight colors from low to high similarity
+export function getSimilarityColor(similarity: number): { background: string; border: string } {
+  if (similarity >= 80) return { background: 'rgba(239, 68, 68, 0.3)', border: '#ef4444' };
+  if (similarity >= 50) return { background: 'rgba(249, 115, 22, 0.3)', border: '#f97316' };
+  return { background: 'rgba(234, 179, 8, 0.3)', border: '#eab308' };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Standalone HTML document for downloading or printing to PDF
+export function buildPlagiarismReportHtml(report: PlagiarismReport, title = 'Plagiarism Report'): string {
+  const located = report.matches.filter(isLocated);
+
+  // Overlapping matches are clipped so each character is highlighted once, in
+  // the color of the most similar match covering it
+  let highlighted = '';
+  let position = 0;
+  const byStart = [...located].sort((a, b) => a.start - b.start || b.similarity - a.similarity);
+  for (const match of byStart) {
+    if (match.end <= position) continue;
+    const start = Math.max(match.start, position);
+    const number = report.matches.indexOf(match) + 1;
+    const color = getSimilarityColor(match.similarity);
+    highlighted += escapeHtml(report.text.slice(position, start));
+    highlighted +=
+      `<mark style="background:${color.background};border-bottom:2px solid ${color.border}">` +
+      `${escapeHtml(report.text.slice(start, match.end))}<sup>${number}</sup></mark>`;
+    position = match.end;
+  }
+  highlighted += escapeHtml(report.text.slice(position));
+
+  const rows = report.matches
+    .map((match, index) => {
+      const source = match.url
+        ? `<a href="${escapeHtml(match.url)}">${escapeHtml(match.source)}</a>`
+        : escapeHtml(match.source);
+      return `<tr>
+  <td>${index + 1}</td>
+  <td>${match.similarity}%</td>
+  <td>${source}${match.sourceText ? `<blockquote>${escapeHtml(match.sourceText)}</blockquote>` : ''}</td>
+  <td>${escapeHtml(match.text)}${isLocated(match) ? '' : ' <em>(not found in the text)</em>'}</td>
+</tr>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; max-width: 900px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  .summary { display: flex; gap: 2rem; padding: 1rem; border: 1px solid #ddd; border-radius: 8px; }
+  .score { font-size: 2rem; font-weight: 700; }
+  .text { white-space: pre-wrap; border: 1px solid #ddd; border-radius: 8px; padding: 1rem; }
+  mark { color: inherit; }
+  sup { font-size: 0.7em; font-weight: 700; margin-left: 1px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 1rem; font-size: 0.9rem; }
+  th, td { border: 1px solid #ddd; padding: 0.5rem; text-align: left; vertical-align: top; }
+  blockquote { margin: 0.5rem 0 0; padding-left: 0.5rem; border-left: 3px solid #ccc; color: #555; }
+  @media print { body { margin: 0; } mark { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="summary">
+  <div><div>Similarity score</div><div class="score">${Math.round(report.score)}%</div></div>
+  <div><div>Matches</div><div class="score">${report.matches.length}</div></div>
+  <div><div>Checked</div><div>${escapeHtml(new Date(report.checkedAt).toLocaleString())}</div></div>
+</div>
+<h2>Submitted text</h2>
+<div class="text">${highlighted}</div>
+<h2>Matched sources</h2>
+${report.matches.length > 0
+    ? `<table>
+<thead><tr><th>#</th><th>Similarity</th><th>Source</th><th>Flagged text</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`
+    : '<p>No matches found.</p>'}
+</body>
+</html>`;
+}
@@ -0,0 +1,205 @@
+// src/lib/rubric.ts
+// Structured grading rubrics: weighted criteria scored against shared
+// performance levels, with a descriptor per criterion and level. The grading
+// endpoints take the rubric as text (`rubric` in TextGradingRequest /
+// CodeGradingRequest), so serializeRubric() writes it out with instructions to
+// return one `breakdown` entry per criterion.
+
+export interface RubricLevel {
+  label: string;
+  // Share of a criterion's marks this level earns, 0-100
+  percent: number;
+}
+
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  // Percentage of the total score; a rubric's weights add up to 100
+  weight: number;
+  description?: string;
+  // One descriptor per level, in the same order as Rubric.levels
+  descriptors: string[];
+}
+
+export interface Rubric {
+  id: string;
+  name: string;
+  levels: RubricLevel[];
+  criteria: RubricCriterion[];
+  // Set for the templates that ship with the app, which can't be edited in place
+  builtin?: boolean;
+  updated_at?: string;
+}
+
+// A `breakdown` entry as returned by the grading endpoints
+export interface GradingBreakdownItem {
+  criteria: string;
+  score: number;
+  feedback?: string;
+  level?: string;
+}
+
+export interface CriterionResult {
+  name: string;
+  weight?: number;
+  // 0 to CRITERION_MAX_SCORE
+  score: number;
+  level?: string;
+  feedback?: string;
+}
+
+// Each criterion is scored out of 10, as the breakdown has always been shown
+export const CRITERION_MAX_SCORE = 10;
+
+export const DEFAULT_LEVELS: RubricLevel[] = [
+  { label: 'Excellent', percent: 100 },
+  { label: 'Good', percent: 75 },
+  { label: 'Fair', percent: 50 },
+  { label: 'Poor', percent: 25 },
+];
+
+export function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createCriterion(levels: RubricLevel[], name = '', weight = 0, description = ''): RubricCriterion {
+  return { id: createId('criterion'), name, weight, description, descriptors: levels.map(() => '') };
+}
+
+export function createRubric(name = 'Untitled rubric'): Rubric {
+  return {
+    id: createId('rubric'),
+    name,
+    levels: DEFAULT_LEVELS.map((level) => ({ ...level })),
+    criteria: [createCriterion(DEFAULT_LEVELS, '', 100)],
+  };
+}
+
+function builtinRubric(id: string, name: string, criteria: [string, number, string][]): Rubric {
+  return {
+    id: `builtin-${id}`,
+    name,
+    builtin: true,
+    levels: DEFAULT_LEVELS,
+    criteria: criteria.map(([criterionName, weight, description], index) => ({
+      id: `builtin-${id}-${index}`,
+      name: criterionName,
+      weight,
+      description,
+      descriptors: DEFAULT_LEVELS.map(() => ''),
+    })),
+  };
+}
+
+export const BUILTIN_RUBRICS: Rubric[] = [
+  builtinRubric('assignment', 'Assignment', [
+    ['Understanding', 30, 'Demonstrates comprehension of the topic'],
+    ['Completeness', 25, 'Addresses all required components'],
+    ['Quality', 20, 'Depth and accuracy of content'],
+    ['Organization', 15, 'Clear structure and presentation'],
+    ['Effort & Originality', 10, 'Shows original thinking and effort'],
+  ]),
+  builtinRubric('essay', 'Essay', [
+    ['Thesis & Argument', 30, 'Clear thesis statement and strong argumentation'],
+    ['Content & Analysis', 25, 'Depth of research and critical analysis'],
+    ['Organization & Structure', 20, 'Logical flow and paragraph structure'],
+    ['Writing Quality', 15, 'Grammar, clarity, and academic tone'],
+    ['Citations & Sources', 10, 'Proper citation and use of credible sources'],
+  ]),
+  builtinRubric('code', 'Code', [
+    ['Correctness', 30, 'Does the code solve the problem correctly?'],
+    ['Code Quality', 25, 'Is the code well-structured, readable, and maintainable?'],
+    ['Efficiency', 20, 'Does the code use appropriate algorithms and data structures?'],
+    ['Best Practices', 15, 'Does it follow language-specific conventions and standards?'],
+    ['Documentation', 10, 'Are there appropriate comments and documentation?'],
+  ]),
+];
+
+export function getTotalWeight(rubric: Rubric): number {
+  return rubric.criteria.reduce((sum, criterion) => sum + (Number(criterion.weight) || 0), 0);
+}
+
+// Problems that stop a rubric from being used or saved; empty when it is valid
+export function validateRubric(rubric: Rubric): string[] {
+  const errors: string[] = [];
+  if (!rubric.name.trim()) errors.push('Give the rubric a name');
+  if (rubric.criteria.length === 0) errors.push('Add at least one criterion');
+  if (rubric.criteria.some((criterion) => !criterion.name.trim())) errors.push('Every criterion needs a name');
+  if (rubric.levels.length === 0) errors.push('Add at least one performance level');
+  if (rubric.levels.some((level) => !level.label.trim())) errors.push('Every performance level needs a label');
+  const total = getTotalWeight(rubric);
+  if (Math.round(total) !== 100) errors.push(`Weights add up to ${total}%, not 100%`);
+  return errors;
+}
+
+// Text sent as the `rubric` field of a grading request
+export function serializeRubric(rubric: Rubric): string {
+  const lines = [
+    `Rubric: ${rubric.name}`,
+    `Performance levels: ${rubric.levels.map((level) => `${level.label} (${level.percent}%)`).join(', ')}`,
+    '',
+    'Criteria:',
+  ];
+
+  rubric.criteria.forEach((criterion, index) => {
+    const description = criterion.description?.trim() ? `: ${criterion.description.trim()}` : '';
+    lines.push(`${index + 1}. ${criterion.name} (${criterion.weight}%)${description}`);
+    rubric.levels.forEach((level, levelIndex) => {
+      const descriptor = criterion.descriptors[levelIndex]?.trim();
+      if (descriptor) lines.push(`   - ${level.label}: ${descriptor}`);
+    });
+  });
+
+  lines.push(
+    '',
+    'Choose the performance level that best matches the work for each criterion.',
+    `Return a "breakdown" entry for every criterion with "criteria" (the criterion name exactly as written above), ` +
+      `"level", "score" (0-${CRITERION_MAX_SCORE}) and "feedback".`,
+    'The overall score is the weighted sum of the criterion scores.'
+  );
+  return lines.join('\n');
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Lines a grading breakdown up with the rubric it was graded against. Criteria
+// the grader skipped are kept with a score of 0 so they still show up; without
+// a rubric the breakdown is returned as is.
+export function matchCriterionResults(breakdown: GradingBreakdownItem[], rubric?: Rubric | null): CriterionResult[] {
+  const toResult = (item: GradingBreakdownItem): CriterionResult => ({
+    name: item.criteria,
+    score: Number(item.score) || 0,
+    level: item.level,
+    feedback: item.feedback,
+  });
+
+  if (!rubric) return breakdown.map(toResult);
+
+  const remaining = [...breakdown];
+  return rubric.criteria.map((criterion) => {
+    const key = normalizeName(criterion.name);
+    const index = remaining.findIndex(
+      (item) => normalizeName(item.criteria || '') === key || normalizeName(item.criteria || '').startsWith(key)
+    );
+    const item = index >= 0 ? remaining.splice(index, 1)[0] : null;
+    return {
+      ...(item ? toResult(item) : { score: 0, feedback: 'Not scored by the grader' }),
+      name: criterion.name,
+      weight: criterion.weight,
+    };
+  });
+}
+
+// Weighted total out of `totalScore`, or null when the results carry no weights
+export function getWeightedScore(results: CriterionResult[], totalScore = 100): number | null {
+  const totalWeight = results.reduce((sum, result) => sum + (result.weight || 0), 0);
+  if (!totalWeight) return null;
+
+  const earned = results.reduce(
+    (sum, result) => sum + ((result.weight || 0) / totalWeight) * (result.score / CRITERION_MAX_SCORE),
+    0
+  );
+  return Math.round(earned * totalScore * 10) / 10;
+}
@@ -0,0 +1,115 @@
+// src/lib/sse.ts
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+// Parse a single SSE frame ("event: x\ndata: y") into an event object.
+// Returns null for comment-only or empty frames.
+function parseFrame(frame: string): ServerSentEvent | null {
+  let event = 'message';
+  let id: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const rawLine of frame.split('\n')) {
+    const line = rawLine.replace(/\r$/, '');
+    if (!line || line.startsWith(':')) continue;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') event = value;
+    else if (field === 'data') dataLines.push(value);
+    else if (field === 'id') id = value;
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: dataLines.join('\n'), id };
+}
+
+function abortError(): DOMException {
+  return new DOMException('The stream was aborted', 'AbortError');
+}
+
+// Cancel the reader when `signal` aborts. A cancelled read resolves as done, so
+// callers check `signal.aborted` after each read. Returns the unsubscribe.
+function cancelOnAbort(reader: ReadableStreamDefaultReader<Uint8Array>, signal?: AbortSignal): () => void {
+  if (!signal) return () => {};
+  const onAbort = () => {
+    reader.cancel().catch(() => {});
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
+
+// Read a `text/event-stream` body and invoke `onEvent` for every complete event.
+// Resolves once the stream ends; rejects with an AbortError if `signal` or the
+// fetch is aborted.
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  if (signal?.aborted) throw abortError();
+  const reader = body.getReader();
+  const stopListening = cancelOnAbort(reader, signal);
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (signal?.aborted) throw abortError();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const parsed = parseFrame(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (parsed) onEvent(parsed);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    // Flush a trailing frame that was not terminated by a blank line
+    buffer += decoder.decode();
+    const trailing = parseFrame(buffer);
+    if (trailing) onEvent(trailing);
+  } finally {
+    stopListening();
+    reader.releaseLock();
+  }
+}
+
+// Read a plain chunked body, invoking `onChunk` with each decoded piece of text.
+export async function readTextStream(
+  body: ReadableStream<Uint8Array>,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  if (signal?.aborted) throw abortError();
+  const reader = body.getReader();
+  const stopListening = cancelOnAbort(reader, signal);
+  const decoder = new TextDecoder();
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (signal?.aborted) throw abortError();
+      if (done) break;
+      const text = decoder.decode(value, { stream: true });
+      if (text) onChunk(text);
+    }
+    const rest = decoder.decode();
+    if (rest) onChunk(rest);
+  } finally {
+    stopListening();
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,77 @@
+// src/lib/taskQueue.ts
+// Runs an async task over a list of items with limited concurrency, retries
+// with exponential backoff, and cancellation through an AbortSignal. Items that
+// have not started when the signal fires are never run.
+
+export interface TaskQueueOptions<T, R> {
+  concurrency?: number;
+  // Extra attempts after the first one fails
+  retries?: number;
+  // Delay before the first retry; doubles for each one after that
+  retryDelayMs?: number;
+  signal?: AbortSignal;
+  // Return false for errors that won't go away by trying again
+  shouldRetry?: (error: unknown) => boolean;
+  onStart?: (item: T, attempt: number) => void;
+  onSuccess?: (item: T, result: R, attempts: number) => void;
+  onFailure?: (item: T, error: unknown, attempts: number) => void;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+// Resolves once every item has succeeded, failed or been skipped by cancellation
+export async function runTaskQueue<T, R>(
+  items: T[],
+  task: (item: T, signal?: AbortSignal) => Promise<R>,
+  {
+    concurrency = 3,
+    retries = 2,
+    retryDelayMs = 1000,
+    signal,
+    shouldRetry = () => true,
+    onStart,
+    onSuccess,
+    onFailure,
+  }: TaskQueueOptions<T, R> = {}
+): Promise<void> {
+  let next = 0;
+
+  const runItem = async (item: T) => {
+    for (let attempt = 1; ; attempt++) {
+      onStart?.(item, attempt);
+      try {
+        const result = await task(item, signal);
+        onSuccess?.(item, result, attempt);
+        return;
+      } catch (error) {
+        if (signal?.aborted || attempt > retries || !shouldRetry(error)) {
+          onFailure?.(item, error, attempt);
+          return;
+        }
+        await sleep(retryDelayMs * 2 ** (attempt - 1), signal);
+        if (signal?.aborted) {
+          onFailure?.(item, error, attempt);
+          return;
+        }
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await runItem(items[next++]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+}
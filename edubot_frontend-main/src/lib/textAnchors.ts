@@ -0,0 +1,81 @@
+// src/lib/textAnchors.ts
+// Character ranges in a block of text, for comments anchored to a selection and
+// for highlighting snippets quoted back by the analysis endpoints.
+// Offsets count characters of the element's text content, so the text must be
+// rendered as-is (e.g. inside a <pre>) for them to line up with the source.
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Offsets of the current selection inside `container`, or null when nothing in
+// it is selected
+export function getSelectionRange(container: HTMLElement): TextRange | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return null;
+
+  const before = document.createRange();
+  before.selectNodeContents(container);
+  before.setEnd(range.startContainer, range.startOffset);
+  const start = before.toString().length;
+  const end = start + range.toString().length;
+  return end > start ? { start, end } : null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Position of `snippet` in `text`, ignoring case and differences in whitespace.
+// Searches from `from` first so repeated snippets map to successive occurrences.
+export function locateSnippet(text: string, snippet: string, from = 0): TextRange | null {
+  const trimmed = snippet.trim().replace(/^["'“”]+|["'“”]+$/g, '').replace(/\.{3}|…/g, ' ').trim();
+  if (!trimmed) return null;
+
+  const exact = text.indexOf(trimmed, from);
+  if (exact !== -1) return { start: exact, end: exact + trimmed.length };
+
+  const pattern = new RegExp(trimmed.split(/\s+/).map(escapeRegExp).join('\\s+'), 'gi');
+  for (const offset of from > 0 ? [from, 0] : [0]) {
+    pattern.lastIndex = offset;
+    const found = pattern.exec(text);
+    if (found) return { start: found.index, end: found.index + found[0].length };
+  }
+  return null;
+}
+
+export interface TextSegment<T> {
+  text: string;
+  start: number;
+  // Ranges covering this segment
+  marks: T[];
+}
+
+// Splits text at every range boundary, so overlapping ranges can be rendered as
+// nested highlights
+export function splitByRanges<T extends TextRange>(text: string, ranges: T[]): TextSegment<T>[] {
+  const clamp = (value: number) => Math.max(0, Math.min(text.length, value));
+  const boundaries = new Set([0, text.length]);
+  for (const range of ranges) {
+    boundaries.add(clamp(range.start));
+    boundaries.add(clamp(range.end));
+  }
+  const points = [...boundaries].sort((a, b) => a - b);
+
+  const segments: TextSegment<T>[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    if (end === start) continue;
+    segments.push({
+      text: text.slice(start, end),
+      start,
+      marks: ranges.filter((range) => clamp(range.start) <= start && clamp(range.end) >= end),
+    });
+  }
+  return segments;
+}
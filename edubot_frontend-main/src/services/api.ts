@@ -1,4 +1,12 @@
-import { API_CONFIG } from '../config/api';
+import { API_CONFIG, API_ROUTES } from '../config/api';
+import { readEventStream, readTextStream } from '../lib/sse';
+import { getTokenExpiry, isTokenExpired } from '../lib/jwt';
+import { offlineStore } from './offlineStore';
+import type { ExerciseSpec } from '../types/sandbox';
+import type { GradingBreakdownItem, Rubric } from '../lib/rubric';
+import { normalizePlagiarismResponse, PlagiarismReport } from '../lib/plagiarism';
+import { AIDetectionReport, normalizeAIDetectionResponse } from '../lib/aiDetection';
+import { runTaskQueue } from '../lib/taskQueue';
 
 // ========================
 // ALL INTERFACES (Keep all existing interfaces exactly as they are)
@@ -146,6 +154,15 @@ export interface SessionTranscript {
   status: string;
 }
 
+export interface CompanionSession {
+  id: string;
+  companion_id: string;
+  duration?: number;
+  status: string;
+  started_at?: string;
+  ended_at?: string;
+}
+
 export interface VoicesResponse {
   voices: Record<string, Record<string, string>>;
   providers?: string[];
@@ -191,6 +208,16 @@ export interface LoginResponse {
   access_token: string;  // ← JWT token
   token_type: string;     // ← "bearer"
   user: User;
+  refresh_token?: string;
+  expires_in?: number;    // ← access token lifetime in seconds
+}
+
+export interface RefreshResponse {
+  access_token: string;
+  token_type: string;
+  refresh_token?: string;
+  expires_in?: number;
+  user?: User;
 }
 
 export interface PasswordResetRequest {
@@ -213,6 +240,11 @@ export interface ChatMessage {
   role?: 'user' | 'assistant';
   timestamp?: string;
   follow_up_suggestions?: string[];
+  // Branching: the message the new turn follows instead of the end of the chat
+  parent_message_id?: string;
+  // Produce another reply to `parent_message_id` rather than adding a user turn
+  regenerate?: boolean;
+  is_edited?: boolean;
 }
 
 export interface Message {
@@ -236,6 +268,25 @@ export interface Chat {
   message_count?: number;
 }
 
+// Fields that can be changed on an existing conversation
+export interface ChatUpdate {
+  title?: string;
+  category?: string | null;
+  is_archived?: boolean;
+  is_favorite?: boolean;
+}
+
+export interface ChatSearchResult {
+  chat: Chat;
+  // Excerpt of the matching message; absent when only the title matched
+  snippet?: string;
+  matched_in: 'title' | 'message';
+}
+
+export interface ChatSearchResponse {
+  results: ChatSearchResult[];
+}
+
 export interface ChatFile {
   id: string;
   filename: string;
@@ -248,9 +299,20 @@ export interface ChatResponse {
     content: string;
     chat_id: string;
     follow_up_suggestions: string[];
+    // Server ids of the stored user turn and reply, when the backend reports them
+    user_message_id?: string;
+    message_id?: string;
   };
 }
 
+// Callbacks for a streamed assistant reply. `onToken` receives each text delta
+// as it arrives; `onDone` fires once with the final reply metadata.
+export interface ChatStreamHandlers {
+  onToken: (token: string) => void;
+  onChatId?: (chatId: string) => void;
+  onDone?: (reply: ChatResponse['reply']) => void;
+}
+
 export interface ChatHistoryResponse {
   history: Message[];
   pagination?: {
@@ -261,6 +323,14 @@ export interface ChatHistoryResponse {
   };
 }
 
+// One page of a single conversation, oldest message first. Pass `next_cursor`
+// back as `before` to fetch the page preceding it; null when there is none.
+export interface ChatMessagesResponse {
+  messages: Message[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
 export interface ChatsResponse {
   chats: Chat[];
   pagination?: {
@@ -294,6 +364,37 @@ export interface CourseSectionResponse {
   section_content: CourseSectionContent;
 }
 
+// Sections of a reviewed outline, in order, to turn a generated draft into an
+// enrollable course
+export interface CoursePublishRequest {
+  title: string;
+  description?: string;
+  level?: string;
+  sections: Array<CourseSectionContent & { order_index: number }>;
+}
+
+// A complete course generated in the background. The backend works through the
+// sections one by one, so progress can be shown while it runs.
+export type CourseGenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface CourseGenerationJobSection {
+  title: string;
+  status: 'pending' | 'generating' | 'completed' | 'failed';
+}
+
+export interface CourseGenerationJob {
+  job_id: string;
+  course_title: string;
+  education_level: string;
+  status: CourseGenerationJobStatus;
+  // Empty until the outline has been generated
+  sections: CourseGenerationJobSection[];
+  course_id?: string;
+  error?: string;
+  created_at: string;
+  completed_at?: string;
+}
+
 export interface CourseCompleteResponse {
   message: string;
   course_id: string;
@@ -335,7 +436,8 @@ export interface CourseSection {
     subexplanation: string;
   }>;
   examples?: string[];
-  exercises?: string[];
+  // Plain text, or coding exercises with starter code and self-check tests
+  exercises?: Array<string | ExerciseSpec>;
   video_links?: Array<{
     topic: string;
     title: string;
@@ -349,10 +451,21 @@ export interface CourseSection {
   time_spent?: number;
 }
 
+// A section as written in the course editor. Sections without an `id` are
+// created; existing ones are updated in place and any not sent are removed.
+export type CourseSectionInput = Pick<
+  CourseSection,
+  'title' | 'content' | 'introduction' | 'key_points' | 'sub_topics' | 'examples' | 'exercises' | 'video_links' | 'order_index'
+> & { id?: string };
+
 export interface CourseCreate {
   title: string;
   topic: string;
   description?: string;
+  level?: string;
+  category?: string;
+  // Leave out to keep the existing sections as they are
+  sections?: CourseSectionInput[];
 }
 
 export interface CourseProgress {
@@ -440,12 +553,58 @@ export interface GradingResponse {
     feedback: string;
     keypoints?: string[];
     areasforimprovement?: string[];
+    breakdown?: GradingBreakdownItem[];
   };
 }
 
 export interface CodeGradingResponse extends GradingResponse {}
 
 // Submission interfaces
+
+// AI grades wait in `pending_review` until an instructor reviews them; students
+// only see the grade once it is `released`. `pending` means not graded yet and
+// `graded` is left over from before reviews existed.
+export type SubmissionStatus = 'pending' | 'graded' | 'pending_review' | 'reviewed' | 'released';
+
+// Instructor comment on a range of the submission content
+export interface SubmissionComment {
+  id: string;
+  // Character offsets into `content`, end exclusive
+  start: number;
+  end: number;
+  // The text the comment was anchored to, to spot content that changed since
+  quote: string;
+  text: string;
+  author_id?: string;
+  created_at: string;
+}
+
+export interface SubmissionAuditEntry {
+  action: 'ai_graded' | 'reviewed' | 'released';
+  at: string;
+  actor_id?: string;
+  score?: number;
+  note?: string;
+}
+
+export interface SubmissionReview {
+  grade: number;
+  feedback: string;
+  key_points: string[];
+  areas_for_improvement: string[];
+  comments: SubmissionComment[];
+}
+
+// Plagiarism and AI-detection results stored with a submission. A check that
+// failed is left out and its error recorded instead.
+export interface SubmissionIntegrity {
+  plagiarism?: PlagiarismReport;
+  ai_detection?: AIDetectionReport;
+  errors?: string[];
+  checked_at: string;
+  checked_by?: string;
+}
+
 export interface Submission {
   id: string;
   assignment_id: string;
@@ -454,11 +613,20 @@ export interface Submission {
   submission_type: string;
   grade?: number;
   feedback?: string;
-  status: string;
+  breakdown?: GradingBreakdownItem[];
+  rubric?: Rubric;
+  status: SubmissionStatus | string;
   submitted_at: string;
   graded_at?: string;
   key_points?: string[];
   areas_for_improvement?: string[];
+  // Score the AI gave before any instructor changes
+  ai_grade?: number;
+  comments?: SubmissionComment[];
+  audit_log?: SubmissionAuditEntry[];
+  reviewed_at?: string;
+  released_at?: string;
+  integrity?: SubmissionIntegrity;
 }
 
 export interface SubmissionAnalysisResponse {
@@ -471,21 +639,14 @@ export interface SubmissionsResponse {
   submissions: Submission[];
 }
 
-export interface SubmissionDetailResponse {
-  id: string;
-  assignment_id: string;
-  user_id: string;
-  content: string;
-  submission_type: string;
-  grade?: number;
-  feedback?: string;
-  status: string;
-  submitted_at: string;
-  graded_at?: string;
-  key_points?: string[];
-  areas_for_improvement?: string[];
+export interface DocumentExtraction {
+  text: string;
+  // Set when the temporary submission used for extraction could not be deleted
+  leftoverSubmissionId?: string;
 }
 
+export interface SubmissionDetailResponse extends Submission {}
+
 // Analytics interfaces
 export interface UserProfile {
   user_id: string;
@@ -578,25 +739,29 @@ export interface ProgressResponse {
 }
 
 // Analysis interfaces
+export interface PlagiarismFlaggedItem {
+  text: string;
+  source: string;
+  url: string;
+  similarity_score?: number;
+  similarityscore?: number;
+  // Offsets of the flagged text in the checked text, when the checker knows them
+  start?: number;
+  end?: number;
+  // Matching passage from the source
+  source_text?: string;
+  sourcetext?: string;
+}
+
+// Raw checker response; see normalizePlagiarismResponse for the shape the UI uses
 export interface PlagiarismResponse {
   plagiarism_score?: number;
   plagiarismscore?: number;
-  flagged_content?: Array<{
-    text: string;
-    source: string;
-    url: string;
-    similarity_score?: number;
-    similarityscore?: number;
-  }>;
-  flaggedcontent?: Array<{
-    text: string;
-    source: string;
-    url: string;
-    similarity_score?: number;
-    similarityscore?: number;
-  }>;
+  flagged_content?: PlagiarismFlaggedItem[];
+  flaggedcontent?: PlagiarismFlaggedItem[];
 }
 
+// Raw checker response; see normalizeAIDetectionResponse for the shape the UI uses
 export interface AIDetectionResponse {
   ai_probability?: number;
   aiprobability?: number;
@@ -613,18 +778,356 @@ export interface HealthCheckResponse {
   version?: string;
 }
 
+// ========================
+// HTTP CLIENT TYPES
+// ========================
+
+// Error thrown for every failed request. `status` is the HTTP status (0 for network
+// failures and timeouts), `code` a machine-readable reason and `detail` the raw
+// `detail` payload returned by the backend.
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  detail?: unknown;
+
+  constructor(message: string, status: number, options: { code?: string; detail?: unknown } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = options.code;
+    this.detail = options.detail;
+  }
+
+  get isUnauthorized(): boolean {
+    return this.status === 401;
+  }
+
+  get isNetworkError(): boolean {
+    return this.status === 0;
+  }
+}
+
+type QueryValue = string | number | boolean | null | undefined;
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  query?: Record<string, QueryValue>;
+  // Plain objects are sent as JSON; FormData, URLSearchParams and Blobs are sent as-is
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Attach the JWT / user headers and trigger the 401 hook (default true)
+  auth?: boolean;
+  signal?: AbortSignal;
+  // Per-request timeout in ms; 0 disables it (default 30s)
+  timeoutMs?: number;
+  // Retry attempts on network errors, 408, 429 and 5xx (default 2 for GET, 0 otherwise)
+  retries?: number;
+  // 'raw' resolves with the Response itself once headers arrive
+  responseType?: 'json' | 'blob' | 'text' | 'raw';
+  // Message used when the backend does not supply a `detail`
+  errorMessage?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 400;
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+// Refresh the access token this long before it expires
+const REFRESH_LEEWAY_MS = 60000;
+// setTimeout fires immediately for delays above 2^31-1 ms (~24.8 days)
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+const AUTH_CHANNEL_NAME = 'edubot-auth';
+
+type AuthBroadcast = { type: 'login' | 'refresh' | 'logout' };
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+// FastAPI returns `detail` as a string, a list of validation errors or an object
+function messageFromDetail(detail: unknown): string | undefined {
+  if (!detail) return undefined;
+  if (typeof detail === 'string') return detail;
+  if (Array.isArray(detail)) {
+    const messages = detail
+      .map((item: any) => (typeof item === 'string' ? item : item?.msg))
+      .filter(Boolean);
+    return messages.length ? messages.join('; ') : undefined;
+  }
+  if (typeof detail === 'object') {
+    const { message, msg } = detail as Record<string, unknown>;
+    if (typeof message === 'string') return message;
+    if (typeof msg === 'string') return msg;
+  }
+  return undefined;
+}
+
 // ========================
 // API SERVICE CLASS (UPDATED FOR JWT)
 // ========================
 
+// Cache Storage name of the service worker's course section cache (see
+// runtimeCaching in vite.config.ts)
+const COURSE_SECTIONS_CACHE = 'course-sections';
+
 class ApiService {
   private baseUrl: string;
   private currentUser: User | null = null;
   private accessToken: string | null = null;  // ← NEW: JWT token storage
+  private refreshToken: string | null = null;
+  private tokenExpiresAt: number | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  private authChannel: BroadcastChannel | null = null;
+  private unauthorizedListeners = new Set<() => void>();
+  private sessionListeners = new Set<(user: User | null) => void>();
+  private connectionListeners = new Set<() => void>();
+  private isBackendReachable = true;
+  // Set when the session was restored offline from the stored user, before the
+  // backend has confirmed the token
+  private sessionUnverified = false;
+  private verifyPromise: Promise<boolean> | null = null;
 
   constructor() {
     this.baseUrl = API_CONFIG.BASE_URL;
     // DON'T auto-load user on construction
+    this.listenForOtherTabs();
+    this.onConnectionRestored(() => {
+      this.verifySession();
+    });
+  }
+
+  // ========================
+  // REQUEST PIPELINE
+  // ========================
+
+  // Register a callback for 401 responses on authenticated requests. The session
+  // is already cleared when listeners run. Returns an unsubscribe function.
+  onUnauthorized(listener: () => void): () => void {
+    this.unauthorizedListeners.add(listener);
+    return () => {
+      this.unauthorizedListeners.delete(listener);
+    };
+  }
+
+  buildUrl(path: string, query?: Record<string, QueryValue>): string {
+    const url = /^https?:\/\//.test(path) ? path : `${this.baseUrl}${path}`;
+    if (!query) return url;
+
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) params.append(key, String(value));
+    });
+    const queryString = params.toString();
+    if (!queryString) return url;
+    return `${url}${url.includes('?') ? '&' : '?'}${queryString}`;
+  }
+
+  // Single entry point for every backend call: builds the URL and headers, applies
+  // the timeout and retry policy, and converts failures into ApiError.
+  async request<T = any>(path: string, options: RequestOptions = {}): Promise<T> {
+    const method = options.method || 'GET';
+    const auth = options.auth !== false;
+    const maxRetries = options.retries ?? (method === 'GET' ? DEFAULT_GET_RETRIES : 0);
+    const url = this.buildUrl(path, options.query);
+    let refreshed = false;
+
+    if (auth) {
+      await this.ensureFreshToken();
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.performRequest<T>(url, method, auth, options);
+      } catch (error) {
+        if (error instanceof ApiError && error.isUnauthorized && auth) {
+          // The token may have expired between the check above and the response
+          if (!refreshed && this.refreshToken && (await this.refreshSession())) {
+            refreshed = true;
+            attempt--;
+            continue;
+          }
+          this.handleUnauthorized();
+          throw error;
+        }
+
+        const retryable =
+          error instanceof ApiError &&
+          (error.isNetworkError || RETRYABLE_STATUSES.has(error.status)) &&
+          error.code !== 'aborted';
+
+        if (!retryable || attempt >= maxRetries) throw error;
+
+        const retryAfter = (error as ApiError).code === 'retry_after'
+          ? Number((error as ApiError).detail) * 1000
+          : 0;
+        const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * 100;
+        await sleep(Math.max(backoff, retryAfter), options.signal);
+      }
+    }
+  }
+
+  private async performRequest<T>(
+    url: string,
+    method: string,
+    auth: boolean,
+    options: RequestOptions
+  ): Promise<T> {
+    const { body } = options;
+    const isJsonBody =
+      body !== undefined &&
+      !(body instanceof FormData) &&
+      !(body instanceof URLSearchParams) &&
+      !(body instanceof Blob);
+
+    const headers: Record<string, string> = auth
+      ? (this.getHeaders(isJsonBody) as Record<string, string>)
+      : { 'Accept': 'application/json', ...(isJsonBody ? { 'Content-Type': 'application/json' } : {}) };
+    Object.assign(headers, options.headers);
+
+    // Combine the caller's signal with our own timeout
+    const controller = new AbortController();
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    let timedOut = false;
+    const timer = timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : null;
+    const onCallerAbort = () => controller.abort();
+    if (options.signal?.aborted) controller.abort();
+    options.signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+    const cleanup = () => {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onCallerAbort);
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers,
+        body: isJsonBody ? JSON.stringify(body) : (body as BodyInit | undefined),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      cleanup();
+      if (timedOut) {
+        throw new ApiError('The request timed out. Please try again.', 0, { code: 'timeout' });
+      }
+      if (controller.signal.aborted) {
+        throw new ApiError('Request was cancelled', 0, { code: 'aborted' });
+      }
+      this.isBackendReachable = false;
+      throw new ApiError('Unable to reach the server. Check your connection.', 0, {
+        code: 'network_error',
+        detail: error instanceof Error ? error.message : error,
+      });
+    }
+
+    if (!response.ok) {
+      cleanup();
+      throw await this.toApiError(response, options.errorMessage);
+    }
+
+    if (options.responseType === 'raw') {
+      // Caller reads the body itself (e.g. streams); only the connect phase is
+      // timed. The caller's abort stays wired up so it still cancels the body.
+      if (timer) clearTimeout(timer);
+      return response as unknown as T;
+    }
+
+    try {
+      if (options.responseType === 'blob') return (await response.blob()) as unknown as T;
+      if (options.responseType === 'text') return (await response.text()) as unknown as T;
+
+      const text = await response.text();
+      return (text ? JSON.parse(text) : undefined) as T;
+    } catch (error) {
+      if (timedOut) {
+        throw new ApiError('The request timed out. Please try again.', 0, { code: 'timeout' });
+      }
+      if (controller.signal.aborted) {
+        throw new ApiError('Request was cancelled', 0, { code: 'aborted' });
+      }
+      throw new ApiError('Received an invalid response from the server', response.status, {
+        code: 'invalid_response',
+      });
+    } finally {
+      cleanup();
+    }
+  }
+
+  private async toApiError(response: Response, fallbackMessage?: string): Promise<ApiError> {
+    let payload: any = null;
+    try {
+      const text = await response.text();
+      payload = text ? JSON.parse(text) : null;
+    } catch {
+      payload = null;
+    }
+
+    const detail = payload?.detail ?? payload;
+    const message =
+      messageFromDetail(detail) ||
+      fallbackMessage ||
+      `Request failed with status ${response.status}`;
+
+    const retryAfter = response.headers.get('retry-after');
+    const code =
+      (detail && typeof detail === 'object' && !Array.isArray(detail) && typeof detail.code === 'string'
+        ? detail.code
+        : undefined) ||
+      (retryAfter && !isNaN(Number(retryAfter)) ? 'retry_after' : undefined);
+
+    return new ApiError(message, response.status, {
+      code,
+      detail: code === 'retry_after' ? Number(retryAfter) : detail,
+    });
+  }
+
+  private handleUnauthorized() {
+    if (!this.accessToken && !this.currentUser) return;
+    this.clearSession();
+    this.unauthorizedListeners.forEach((listener) => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Unauthorized listener failed:', error);
+      }
+    });
+  }
+
+  // Wait for a running refresh, or start one if the access token is about to expire
+  private async ensureFreshToken(): Promise<void> {
+    if (this.refreshPromise) {
+      await this.refreshPromise;
+      return;
+    }
+    if (this.accessToken && this.refreshToken && this.isAccessTokenExpiring(5000)) {
+      await this.refreshSession();
+    }
+  }
+
+  private isAccessTokenExpiring(leewayMs: number): boolean {
+    if (!this.accessToken) return false;
+    if (this.tokenExpiresAt !== null) return this.tokenExpiresAt - leewayMs <= Date.now();
+    return isTokenExpired(this.accessToken, leewayMs);
+  }
+
+  private requireUser(): User {
+    if (!this.currentUser) {
+      throw new ApiError('User not authenticated', 401, { code: 'not_authenticated' });
+    }
+    return this.currentUser;
   }
 
   // ========================
@@ -634,52 +1137,282 @@ class ApiService {
   async restoreSession(): Promise<boolean> {
     try {
       const token = localStorage.getItem('access_token');
-      
+
       if (!token) {
         console.log('No access token found');
         return false;
       }
 
-      // Validate token with backend
-      const response = await fetch(`${this.baseUrl}/api/auth/me`, {
-        headers: { 
-          'Accept': 'application/json',
-          'Authorization': `Bearer ${token}`
+      this.accessToken = token;
+      this.refreshToken = localStorage.getItem('refresh_token');
+      this.tokenExpiresAt = getTokenExpiry(token);
+
+      // Expired while the app was closed - trade the refresh token for a new one first
+      if (this.isAccessTokenExpiring(5000)) {
+        const refreshed = !!this.refreshToken && (await this.refreshSession());
+        if (!refreshed && !this.isBackendReachable) {
+          return this.restoreOfflineSession();
+        }
+        if (!refreshed) {
+          console.warn('Stored session has expired');
+          this.clearSession();
+          return false;
         }
-      });
-
-      if (!response.ok) {
-        console.warn('Token validation failed:', response.status);
-        this.clearSession();
-        return false;
       }
 
-      const user = await response.json();
-      
+      // Validate token with backend
+      const user = await this.request<User>('/api/auth/me', {
+        auth: false,
+        headers: { 'Authorization': `Bearer ${this.accessToken}` },
+        retries: 0,
+      });
+
       // Session is valid
       this.currentUser = user;
-      this.accessToken = token;
-      
+      localStorage.setItem('currentUser', JSON.stringify(user));
+      this.scheduleRefresh();
+
       return true;
     } catch (err) {
-      console.error('Session restoration error:', err);
+      if (err instanceof ApiError && err.isNetworkError) {
+        return this.restoreOfflineSession();
+      }
+      console.warn('Token validation failed:', err);
       this.clearSession();
       return false;
     }
   }
 
-  private clearSession() {
+  // Backend unreachable at startup: sign in as the stored user so cached content and
+  // the outbox stay usable, and check the token once the connection is back
+  private restoreOfflineSession(): boolean {
+    const user = this.readStoredUser();
+    if (!user) {
+      // Keep the stored token so the session can be restored once we're back online
+      console.warn('Session restoration skipped - backend unreachable');
+      return false;
+    }
+
+    console.warn('Backend unreachable - using the stored session until it can be verified');
+    this.currentUser = user;
+    this.sessionUnverified = true;
+    return true;
+  }
+
+  // Confirm a session restored offline with the backend. Resolves true once the
+  // session is known to be valid and false while the backend is still unreachable;
+  // a rejected token clears the session and notifies the unauthorized listeners.
+  verifySession(): Promise<boolean> {
+    if (!this.sessionUnverified) return Promise.resolve(!!this.currentUser);
+    if (this.verifyPromise) return this.verifyPromise;
+
+    this.verifyPromise = (async () => {
+      try {
+        const user = await this.request<User>('/api/auth/me', { retries: 0 });
+        this.sessionUnverified = false;
+        this.currentUser = user;
+        localStorage.setItem('currentUser', JSON.stringify(user));
+        this.scheduleRefresh();
+        return true;
+      } catch (error) {
+        // request() has already handled a 401; anything else is retried on reconnect
+        if (!(error instanceof ApiError && error.isUnauthorized)) {
+          console.warn('Session verification skipped:', error);
+        }
+        return false;
+      } finally {
+        this.verifyPromise = null;
+      }
+    })();
+
+    return this.verifyPromise;
+  }
+
+  private clearSession(broadcast = true) {
     localStorage.removeItem('access_token');
+    localStorage.removeItem('refresh_token');
     localStorage.removeItem('currentUser');
     this.currentUser = null;
     this.accessToken = null;
+    this.refreshToken = null;
+    this.tokenExpiresAt = null;
+    this.sessionUnverified = false;
+    this.cancelRefresh();
+
+    if (broadcast) this.broadcast({ type: 'logout' });
   }
 
-  private saveSession(user: User, token: string) {
+  private saveSession(user: User, token: string, refreshToken?: string, expiresIn?: number) {
     localStorage.setItem('access_token', token);
     localStorage.setItem('currentUser', JSON.stringify(user));
+    if (refreshToken) {
+      localStorage.setItem('refresh_token', refreshToken);
+    }
     this.currentUser = user;
+    this.sessionUnverified = false;
+    this.accessToken = token;
+    this.refreshToken = refreshToken || this.refreshToken;
+    this.tokenExpiresAt = getTokenExpiry(token) ?? (expiresIn ? Date.now() + expiresIn * 1000 : null);
+    this.scheduleRefresh();
+  }
+
+  // Exchange the refresh token for a new access token. Concurrent callers share the
+  // same in-flight refresh; resolves false when the session could not be renewed.
+  refreshSession(): Promise<boolean> {
+    if (this.refreshPromise) return this.refreshPromise;
+    if (!this.refreshToken) return Promise.resolve(false);
+
+    this.refreshPromise = (async () => {
+      try {
+        const result = await this.request<RefreshResponse>(API_ROUTES.auth.refresh(), {
+          method: 'POST',
+          auth: false,
+          body: { refresh_token: this.refreshToken },
+          retries: 1,
+          errorMessage: 'Failed to refresh session',
+        });
+
+        const user = result.user || this.currentUser || this.readStoredUser();
+        if (!user) return false;
+
+        this.saveSession(user, result.access_token, result.refresh_token, result.expires_in);
+        this.broadcast({ type: 'refresh' });
+        return true;
+      } catch (error) {
+        if (error instanceof ApiError && error.isNetworkError) {
+          // Offline - keep the session and try again on the next request
+          console.warn('Session refresh skipped - backend unreachable');
+          return false;
+        }
+        // Another tab may have rotated the refresh token already
+        if (this.adoptStoredSession()) return true;
+
+        console.warn('Session refresh failed:', error);
+        return false;
+      } finally {
+        this.refreshPromise = null;
+      }
+    })();
+
+    return this.refreshPromise;
+  }
+
+  private scheduleRefresh() {
+    this.cancelRefresh();
+    if (!this.accessToken || this.tokenExpiresAt === null) return;
+
+    const delay = Math.max(this.tokenExpiresAt - REFRESH_LEEWAY_MS - Date.now(), 0);
+    if (delay > MAX_TIMER_DELAY_MS) {
+      // Long-lived token - wait as long as a timer allows, then check again
+      this.refreshTimer = setTimeout(() => this.scheduleRefresh(), MAX_TIMER_DELAY_MS);
+      return;
+    }
+
+    this.refreshTimer = setTimeout(async () => {
+      this.refreshTimer = null;
+      // Another tab may already have refreshed and written a newer token
+      if (this.adoptStoredSession() && !this.isAccessTokenExpiring(REFRESH_LEEWAY_MS)) return;
+
+      if (this.refreshToken && (await this.refreshSession())) return;
+
+      if (this.isAccessTokenExpiring(0)) {
+        this.handleUnauthorized();
+      } else {
+        // Refresh failed (e.g. offline) but the token is still valid for a bit
+        this.refreshTimer = setTimeout(() => this.scheduleRefresh(), 15000);
+      }
+    }, delay);
+  }
+
+  private cancelRefresh() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  // Pick up tokens written to localStorage by another tab. Returns true when a
+  // different, still-valid access token was found.
+  private adoptStoredSession(): boolean {
+    const token = localStorage.getItem('access_token');
+    if (!token || token === this.accessToken || isTokenExpired(token)) return false;
+
+    this.currentUser = this.readStoredUser() || this.currentUser;
+    this.sessionUnverified = false;
     this.accessToken = token;
+    this.refreshToken = localStorage.getItem('refresh_token');
+    this.tokenExpiresAt = getTokenExpiry(token);
+    this.scheduleRefresh();
+    return true;
+  }
+
+  private readStoredUser(): User | null {
+    try {
+      const storedUser = localStorage.getItem('currentUser');
+      return storedUser ? JSON.parse(storedUser) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // ========================
+  // CROSS-TAB SYNC
+  // ========================
+
+  // Register a callback for login/logout performed in another tab. Returns an
+  // unsubscribe function.
+  onSessionChange(listener: (user: User | null) => void): () => void {
+    this.sessionListeners.add(listener);
+    return () => {
+      this.sessionListeners.delete(listener);
+    };
+  }
+
+  private listenForOtherTabs() {
+    if (typeof window === 'undefined') return;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.authChannel = new BroadcastChannel(AUTH_CHANNEL_NAME);
+      this.authChannel.onmessage = (event: MessageEvent<AuthBroadcast>) => {
+        this.handleRemoteAuthEvent(event.data.type);
+      };
+      return;
+    }
+
+    // Fallback for browsers without BroadcastChannel: the storage event only fires in
+    // other tabs, so it doubles as a cross-tab notification
+    window.addEventListener('storage', (event) => {
+      if (event.key !== 'access_token') return;
+      this.handleRemoteAuthEvent(event.newValue ? 'login' : 'logout');
+    });
+  }
+
+  private handleRemoteAuthEvent(type: AuthBroadcast['type']) {
+    if (type === 'logout') {
+      if (!this.accessToken) return;
+      this.clearSession(false);
+      this.notifySessionListeners(null);
+      return;
+    }
+
+    const hadSession = !!this.currentUser;
+    if (this.adoptStoredSession() && (type === 'login' || !hadSession)) {
+      this.notifySessionListeners(this.currentUser);
+    }
+  }
+
+  private notifySessionListeners(user: User | null) {
+    this.sessionListeners.forEach((listener) => {
+      try {
+        listener(user);
+      } catch (error) {
+        console.error('Session listener failed:', error);
+      }
+    });
+  }
+
+  private broadcast(message: AuthBroadcast) {
+    this.authChannel?.postMessage(message);
   }
 
   // ========================
@@ -687,24 +1420,24 @@ class ApiService {
   // ========================
 
   private getHeaders(includeContentType = true): HeadersInit {
-    const headers: HeadersInit = {
+    const headers: Record<string, string> = {
       'Accept': 'application/json'
     };
-    
+
     if (includeContentType) {
       headers['Content-Type'] = 'application/json';
     }
-    
+
     // Add Authorization header with JWT token
     if (this.accessToken) {
       headers['Authorization'] = `Bearer ${this.accessToken}`;
     }
-    
+
     // Keep X-User-Id for backward compatibility if needed
     if (this.currentUser) {
       headers['X-User-Id'] = this.currentUser.id;
     }
-    
+
     return headers;
   }
 
@@ -721,6 +1454,15 @@ class ApiService {
 
   logout() {
     this.clearSession();
+    // Cached chats/courses belong to the user who just left; their queued writes
+    // stay in the outbox and are sent when they sign in again
+    offlineStore.clearCache();
+    // The service worker's copy of course sections is theirs too
+    if (typeof caches !== 'undefined') {
+      caches.delete(COURSE_SECTIONS_CACHE).catch((error) => {
+        console.warn('Failed to clear cached course sections:', error);
+      });
+    }
   }
 
   // ========================
@@ -728,25 +1470,19 @@ class ApiService {
   // ========================
 
   async register(userData: UserCreate): Promise<{ message: string; user_id: string }> {
-    const response = await fetch(`${this.baseUrl}/api/auth/register`, {
+    const result = await this.request<{ message: string; user_id: string }>('/api/auth/register', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(userData),
+      auth: false,
+      body: userData,
+      errorMessage: 'Registration failed',
     });
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Registration failed');
-    }
-
-    const result = await response.json();
-    
     // Auto-login after registration
     await this.login({
       email: userData.email,
       password: userData.password
     });
-    
+
     return result;
   }
 
@@ -757,473 +1493,590 @@ class ApiService {
     formData.append('password', credentials.password);
     formData.append('grant_type', 'password');
 
-    const response = await fetch(`${this.baseUrl}/api/auth/login`, {
+    const result = await this.request<LoginResponse>('/api/auth/login', {
       method: 'POST',
-      headers: { 
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Accept': 'application/json'
-      },
+      auth: false,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
       body: formData,
+      errorMessage: 'Login failed',
     });
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Login failed');
-    }
-
-    const result = await response.json();
-    
     // Save session with JWT token
-    this.saveSession(result.user, result.access_token);
-    
+    this.saveSession(result.user, result.access_token, result.refresh_token, result.expires_in);
+    this.broadcast({ type: 'login' });
+
     return result;
   }
 
   async getProfile(): Promise<User> {
     if (!this.accessToken) {
-      throw new Error('User not authenticated');
-    }
-
-    const response = await fetch(
-      `${this.baseUrl}/api/auth/me`,
-      { headers: this.getHeaders() }
-    );
-
-    if (!response.ok) {
-      throw new Error('Failed to get profile');
+      throw new ApiError('User not authenticated', 401, { code: 'not_authenticated' });
     }
 
-    return response.json();
+    return this.request<User>('/api/auth/me', { errorMessage: 'Failed to get profile' });
   }
 
   async requestPasswordReset(email: string): Promise<{ message: string; token?: string }> {
-    const response = await fetch(`${this.baseUrl}/api/auth/request-password-reset`, {
+    return this.request('/api/auth/request-password-reset', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email }),
+      auth: false,
+      body: { email },
+      errorMessage: 'Failed to request password reset',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to request password reset');
-    }
-
-    return response.json();
   }
 
   async resetPassword(resetData: PasswordReset): Promise<{ message: string }> {
-    const response = await fetch(`${this.baseUrl}/api/auth/reset-password`, {
+    return this.request('/api/auth/reset-password', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(resetData),
+      auth: false,
+      body: resetData,
+      errorMessage: 'Failed to reset password',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to reset password');
-    }
-
-    return response.json();
   }
 
-  // ========================
-  // ALL YOUR OTHER METHODS - Keep exactly as they are
-  // The getHeaders() method now automatically adds JWT token
-  // ========================
-
   // CHAT METHODS
   async sendMessage(messageData: ChatMessage): Promise<ChatResponse> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
-
-    const payload = {
-      ...messageData,
-      user_id: this.currentUser.id,
-      context: 'general'
-    };
+    const user = this.requireUser();
 
-    const response = await fetch(`${this.baseUrl}/api/chat/`, {
+    return this.request<ChatResponse>('/api/chat/', {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify(payload),
+      body: {
+        ...messageData,
+        user_id: user.id,
+        context: 'general'
+      },
+      timeoutMs: 120000,
+      errorMessage: 'Failed to send message',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to send message');
-    }
-
-    return response.json();
   }
 
-  async getChatHistory(userId: string): Promise<ChatHistoryResponse> {
-    const response = await fetch(
-      `${this.baseUrl}/api/chat/history/${userId}`,
-      { headers: this.getHeaders() }
-    );
+  // Streams the assistant reply from /api/chat/stream. The backend may answer with
+  // server-sent events (`token`, `meta`, `done`, `error`), a plain chunked text body
+  // (chat id in the `X-Chat-Id` header), or a regular JSON ChatResponse; all three are
+  // normalised into the same ChatResponse once the stream ends.
+  async sendMessageStream(
+    messageData: ChatMessage,
+    handlers: ChatStreamHandlers,
+    signal?: AbortSignal
+  ): Promise<ChatResponse> {
+    const user = this.requireUser();
 
-    if (!response.ok) {
-      throw new Error('Failed to get chat history');
+    const response = await this.request<Response>('/api/chat/stream', {
+      method: 'POST',
+      headers: { 'Accept': 'text/event-stream' },
+      body: {
+        ...messageData,
+        user_id: user.id,
+        context: 'general',
+        stream: true
+      },
+      signal,
+      responseType: 'raw',
+      errorMessage: 'Failed to send message',
+    });
+
+    const contentType = response.headers.get('content-type') || '';
+    const reply: ChatResponse['reply'] = {
+      content: '',
+      chat_id: response.headers.get('x-chat-id') || messageData.chat_id || '',
+      follow_up_suggestions: [],
+    };
+
+    if (reply.chat_id) handlers.onChatId?.(reply.chat_id);
+
+    const appendToken = (token: string) => {
+      if (!token) return;
+      reply.content += token;
+      handlers.onToken(token);
+    };
+
+    try {
+      if (contentType.includes('application/json') || !response.body) {
+        // Backend without streaming support: deliver the whole reply at once
+        const data: ChatResponse = await response.json();
+        appendToken(data.reply.content);
+        reply.chat_id = data.reply.chat_id || reply.chat_id;
+        reply.follow_up_suggestions = data.reply.follow_up_suggestions || [];
+        reply.user_message_id = data.reply.user_message_id;
+        reply.message_id = data.reply.message_id;
+      } else if (contentType.includes('text/event-stream')) {
+        await readEventStream(response.body, (event) => {
+          // Only JSON objects are unwrapped; anything else, including text such
+          // as `42` or `null` that happens to parse, is a plain-text token
+          let data: any = event.data;
+          try {
+            const parsed = JSON.parse(event.data);
+            if (parsed && typeof parsed === 'object') data = parsed;
+          } catch {
+            // Plain-text token
+          }
+
+          switch (event.event) {
+            case 'error':
+              throw new ApiError(messageFromDetail(data?.detail ?? data) || 'Stream failed', 500, {
+                code: 'stream_error',
+                detail: data,
+              });
+            case 'meta':
+            case 'done':
+              if (data?.chat_id && data.chat_id !== reply.chat_id) {
+                reply.chat_id = data.chat_id;
+                handlers.onChatId?.(data.chat_id);
+              }
+              if (Array.isArray(data?.follow_up_suggestions)) {
+                reply.follow_up_suggestions = data.follow_up_suggestions;
+              }
+              if (typeof data?.user_message_id === 'string') reply.user_message_id = data.user_message_id;
+              if (typeof data?.message_id === 'string') reply.message_id = data.message_id;
+              break;
+            default:
+              appendToken(typeof data === 'string' ? data : data?.content ?? data?.token ?? '');
+          }
+        }, signal);
+      } else {
+        await readTextStream(response.body, appendToken, signal);
+      }
+    } catch (error) {
+      // Stopped by the caller while the body was still being read
+      if (signal?.aborted) throw new ApiError('Request was cancelled', 0, { code: 'aborted' });
+      throw error;
     }
 
-    return response.json();
+    handlers.onDone?.(reply);
+    return { reply };
   }
 
-  async getUserChats(): Promise<ChatsResponse> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+  async getChatHistory(userId: string): Promise<ChatHistoryResponse> {
+    return this.request(`/api/chat/history/${userId}`, {
+      errorMessage: 'Failed to get chat history',
+    });
+  }
 
-    const response = await fetch(
-      `${this.baseUrl}/api/chat/chats?user_id=${this.currentUser.id}`,
-      { headers: this.getHeaders() }
+  async getChatMessages(
+    chatId: string,
+    options: { before?: string; limit?: number; signal?: AbortSignal } = {}
+  ): Promise<ChatMessagesResponse> {
+    const user = this.requireUser();
+
+    const data = await this.request<Partial<ChatMessagesResponse> & { history?: Message[] }>(
+      `/api/chat/chats/${chatId}/messages`,
+      {
+        query: { user_id: user.id, before: options.before, limit: options.limit ?? 50 },
+        signal: options.signal,
+        errorMessage: 'Failed to get chat messages',
+      }
     );
 
-    if (!response.ok) {
-      throw new Error('Failed to get chats');
-    }
+    const messages = data.messages || data.history || [];
+    const hasMore = data.has_more ?? !!data.next_cursor;
+    // Older backends only report has_more; page from the oldest message we have
+    const nextCursor = data.next_cursor ?? (hasMore && messages.length > 0 ? messages[0].id : null);
+
+    return { messages, next_cursor: nextCursor, has_more: hasMore && !!nextCursor };
+  }
+
+  async getUserChats(): Promise<ChatsResponse> {
+    const user = this.requireUser();
+
+    const data = await this.request<ChatsResponse | Chat[]>('/api/chat/chats', {
+      query: { user_id: user.id },
+      errorMessage: 'Failed to get chats',
+    });
 
-    const data = await response.json();
-    
     if (Array.isArray(data)) {
       return { chats: data };
     }
-    
+
     return data;
   }
 
-  async deleteChat(chatId: string): Promise<{ success: boolean; message: string }> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+  // getUserChats leaves archived conversations out; this returns only those
+  async getArchivedChats(): Promise<ChatsResponse> {
+    const user = this.requireUser();
 
-    const response = await fetch(
-      `${this.baseUrl}/api/chat/chats/${chatId}?user_id=${this.currentUser.id}`,
-      {
-        method: 'DELETE',
-        headers: this.getHeaders(),
-      }
-    );
+    const data = await this.request<ChatsResponse | Chat[]>('/api/chat/chats', {
+      query: { user_id: user.id, archived: true },
+      errorMessage: 'Failed to get archived chats',
+    });
 
-    if (!response.ok) {
-      throw new Error('Failed to delete chat');
-    }
+    return Array.isArray(data) ? { chats: data } : data;
+  }
+
+  async updateChat(chatId: string, updates: ChatUpdate): Promise<Chat> {
+    const user = this.requireUser();
+
+    return this.request(`/api/chat/chats/${chatId}`, {
+      method: 'PATCH',
+      query: { user_id: user.id },
+      body: updates,
+      errorMessage: 'Failed to update chat',
+    });
+  }
+
+  async renameChat(chatId: string, title: string): Promise<Chat> {
+    return this.updateChat(chatId, { title });
+  }
+
+  async setChatFavorite(chatId: string, isFavorite: boolean): Promise<Chat> {
+    return this.updateChat(chatId, { is_favorite: isFavorite });
+  }
+
+  async setChatArchived(chatId: string, isArchived: boolean): Promise<Chat> {
+    return this.updateChat(chatId, { is_archived: isArchived });
+  }
+
+  async setChatCategory(chatId: string, category: string | null): Promise<Chat> {
+    return this.updateChat(chatId, { category });
+  }
+
+  // Full-text search across chat titles and message content
+  async searchChats(query: string, includeArchived = false, signal?: AbortSignal): Promise<ChatSearchResponse> {
+    const user = this.requireUser();
+
+    const data = await this.request<ChatSearchResponse | ChatSearchResult[]>('/api/chat/search', {
+      query: { user_id: user.id, q: query, include_archived: includeArchived },
+      signal,
+      errorMessage: 'Failed to search chats',
+    });
+
+    return Array.isArray(data) ? { results: data } : data;
+  }
+
+  async createChat(title: string, level = 'school'): Promise<{ id?: string; chat_id?: string }> {
+    const user = this.requireUser();
+
+    return this.request('/api/chat/create', {
+      method: 'POST',
+      query: { user_id: user.id, title, level },
+      errorMessage: 'Failed to create chat',
+    });
+  }
+
+  async deleteChat(chatId: string): Promise<{ success: boolean; message: string }> {
+    const user = this.requireUser();
 
-    return response.json();
+    return this.request(`/api/chat/chats/${chatId}`, {
+      method: 'DELETE',
+      query: { user_id: user.id },
+      errorMessage: 'Failed to delete chat',
+    });
   }
 
   async uploadFile(file: File, chatId?: string): Promise<{ success: boolean; file_id: string; filename: string }> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+    const user = this.requireUser();
 
+    // For multipart/form-data uploads the browser sets Content-Type (with boundary)
     const formData = new FormData();
     formData.append('file', file);
     if (chatId) {
       formData.append('chat_id', chatId);
     }
 
-    const headers: HeadersInit = {};
-    if (this.accessToken) {
-      headers['Authorization'] = `Bearer ${this.accessToken}`;
-    }
-
-    const response = await fetch(`${this.baseUrl}/api/chat/upload`, {
+    return this.request('/api/chat/upload', {
       method: 'POST',
-      headers,
+      query: { chat_id: chatId, user_id: user.id },
       body: formData,
+      timeoutMs: 120000,
+      errorMessage: 'Upload failed',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to upload file');
-    }
-
-    return response.json();
   }
 
   async getChatFiles(chatId: string): Promise<ChatFilesResponse> {
-    const response = await fetch(
-      `${this.baseUrl}/api/chat/${chatId}/files`,
-      { headers: this.getHeaders() }
-    );
-
-    if (!response.ok) {
-      throw new Error('Failed to get chat files');
-    }
-
-    return response.json();
+    return this.request(`/api/chat/${chatId}/files`, {
+      errorMessage: 'Failed to get chat files',
+    });
   }
 
   async deleteFile(fileId: string): Promise<{ success: boolean; message: string }> {
-    const response = await fetch(
-      `${this.baseUrl}/api/chat/files/${fileId}`,
-      {
-        method: 'DELETE',
-        headers: this.getHeaders(),
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error('Failed to delete file');
-    }
-
-    return response.json();
+    return this.request(`/api/chat/files/${fileId}`, {
+      method: 'DELETE',
+      errorMessage: 'Failed to delete file',
+    });
   }
 
   // COURSES METHODS
   async generateCompleteCourse(courseTitle: string, educationLevel = 'Middle/High School'): Promise<Blob> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+    const user = this.requireUser();
 
     const formData = new FormData();
     formData.append('coursetitle', courseTitle);
-    formData.append('userid', this.currentUser.id);
+    formData.append('userid', user.id);
     formData.append('educationlevel', educationLevel);
 
-    const headers: HeadersInit = {};
-    if (this.accessToken) {
-      headers['Authorization'] = `Bearer ${this.accessToken}`;
-    }
-
-    const response = await fetch(`${this.baseUrl}/api/courses/generate-complete`, {
+    return this.request<Blob>('/api/courses/generate-complete', {
       method: 'POST',
-      headers,
       body: formData,
+      responseType: 'blob',
+      // Full course generation regularly takes several minutes
+      timeoutMs: 0,
+      errorMessage: 'Failed to generate course',
     });
+  }
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to generate course');
-    }
+  // Queue a complete course for generation. Poll `getCourseGenerationJob` for its
+  // progress and download the PDF once it has completed.
+  async startCourseGenerationJob(courseTitle: string, educationLevel = 'Middle/High School'): Promise<CourseGenerationJob> {
+    const user = this.requireUser();
+
+    const formData = new FormData();
+    formData.append('coursetitle', courseTitle);
+    formData.append('userid', user.id);
+    formData.append('educationlevel', educationLevel);
 
-    return response.blob();
+    return this.request('/api/courses/generation-jobs', {
+      method: 'POST',
+      body: formData,
+      errorMessage: 'Failed to start course generation',
+    });
   }
 
-  async getCourses(page = 1, perPage = 20): Promise<CoursesResponse> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+  async getCourseGenerationJob(jobId: string): Promise<CourseGenerationJob> {
+    const user = this.requireUser();
 
-    const response = await fetch(
-      `${this.baseUrl}/api/courses/?userid=${this.currentUser.id}&page=${page}&perpage=${perPage}`,
-      { headers: this.getHeaders() }
-    );
+    return this.request(`/api/courses/generation-jobs/${jobId}`, {
+      query: { userid: user.id },
+      errorMessage: 'Failed to get course generation status',
+    });
+  }
 
-    if (!response.ok) {
-      throw new Error('Failed to get courses');
-    }
+  async cancelCourseGenerationJob(jobId: string): Promise<CourseGenerationJob> {
+    const user = this.requireUser();
 
-    return response.json();
+    return this.request(`/api/courses/generation-jobs/${jobId}/cancel`, {
+      method: 'POST',
+      query: { userid: user.id },
+      errorMessage: 'Failed to cancel course generation',
+    });
   }
 
-  async getCourse(courseId: string): Promise<CourseResponse> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+  async downloadCourseGenerationPdf(jobId: string): Promise<Blob> {
+    const user = this.requireUser();
 
-    const response = await fetch(
-      `${this.baseUrl}/api/courses/${courseId}?userid=${this.currentUser.id}`,
-      { headers: this.getHeaders() }
-    );
+    return this.request<Blob>(`/api/courses/generation-jobs/${jobId}/pdf`, {
+      query: { userid: user.id },
+      responseType: 'blob',
+      timeoutMs: 120000,
+      errorMessage: 'Failed to download course PDF',
+    });
+  }
 
-    if (!response.ok) {
-      throw new Error('Failed to get course');
-    }
+  // First step of interactive generation: a table of contents the author can
+  // edit before any section content is generated
+  async generateCourseOutline(courseTitle: string, educationLevel = 'Middle/High School'): Promise<CourseOutlineResponse> {
+    const user = this.requireUser();
+
+    const formData = new FormData();
+    formData.append('coursetitle', courseTitle);
+    formData.append('userid', user.id);
+    formData.append('educationlevel', educationLevel);
 
-    return response.json();
+    return this.request('/api/courses/generate-outline', {
+      method: 'POST',
+      body: formData,
+      timeoutMs: 120000,
+      errorMessage: 'Failed to generate course outline',
+    });
   }
 
-  async createCourse(courseData: CourseCreate): Promise<{ id: string; title: string }> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+  // Content for one section of an outline. The full outline is sent along so the
+  // section fits in with its neighbours.
+  async generateCourseSection(
+    courseId: string,
+    courseTitle: string,
+    sectionTitle: string,
+    outline: string[],
+    educationLevel = 'Middle/High School',
+    signal?: AbortSignal
+  ): Promise<CourseSectionResponse> {
+    const user = this.requireUser();
 
-    const response = await fetch(
-      `${this.baseUrl}/api/courses/create?userid=${this.currentUser.id}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(courseData),
-      }
-    );
+    const formData = new FormData();
+    formData.append('courseid', courseId);
+    formData.append('coursetitle', courseTitle);
+    formData.append('sectiontitle', sectionTitle);
+    formData.append('tableofcontents', JSON.stringify(outline));
+    formData.append('userid', user.id);
+    formData.append('educationlevel', educationLevel);
 
-    if (!response.ok) {
-      throw new Error('Failed to create course');
-    }
+    return this.request('/api/courses/generate-section', {
+      method: 'POST',
+      body: formData,
+      signal,
+      timeoutMs: 180000,
+      errorMessage: 'Failed to generate section',
+    });
+  }
 
-    return response.json();
+  async publishCourse(courseId: string, course: CoursePublishRequest): Promise<{ course_id: string; message?: string }> {
+    const user = this.requireUser();
+
+    return this.request(`/api/courses/${courseId}/publish`, {
+      method: 'POST',
+      query: { userid: user.id },
+      body: course,
+      timeoutMs: 120000,
+      errorMessage: 'Failed to publish course',
+    });
   }
 
-  async deleteCourse(courseId: string): Promise<{ success: boolean; message: string }> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+  // PDF of a reviewed draft, without publishing it
+  async exportCoursePdf(courseId: string, course: CoursePublishRequest): Promise<Blob> {
+    const user = this.requireUser();
 
-    const response = await fetch(
-      `${this.baseUrl}/api/courses/${courseId}?userid=${this.currentUser.id}`,
-      {
-        method: 'DELETE',
-        headers: this.getHeaders(),
-      }
-    );
+    return this.request<Blob>(`/api/courses/${courseId}/pdf`, {
+      method: 'POST',
+      query: { userid: user.id },
+      body: course,
+      responseType: 'blob',
+      timeoutMs: 0,
+      errorMessage: 'Failed to export course PDF',
+    });
+  }
 
-    if (!response.ok) {
-      throw new Error('Failed to delete course');
-    }
+  async getCourses(page = 1, perPage = 20): Promise<CoursesResponse> {
+    const user = this.requireUser();
 
-    return response.json();
+    return this.request('/api/courses/', {
+      query: { userid: user.id, page, perpage: perPage },
+      errorMessage: 'Failed to get courses',
+    });
   }
 
-  async enrollInCourse(courseId: string): Promise<EnrollResponse> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+  async getCourse(courseId: string): Promise<CourseResponse> {
+    const user = this.requireUser();
 
-    const response = await fetch(
-      `${this.baseUrl}/api/courses/${courseId}/enroll?userid=${this.currentUser.id}`,
-      {
-        method: 'POST',
-        headers: this.getHeaders(),
-      }
-    );
+    return this.request(`/api/courses/${courseId}`, {
+      query: { userid: user.id },
+      errorMessage: 'Failed to get course',
+    });
+  }
 
-    if (!response.ok) {
-      throw new Error('Failed to enroll in course');
-    }
+  async createCourse(courseData: CourseCreate): Promise<{ id: string; title: string }> {
+    const user = this.requireUser();
 
-    return response.json();
+    return this.request('/api/courses/create', {
+      method: 'POST',
+      query: { userid: user.id },
+      body: courseData,
+      errorMessage: 'Failed to create course',
+    });
   }
 
-  async getCourseSections(courseId: string): Promise<CourseSectionsResponse> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+  async deleteCourse(courseId: string): Promise<{ success: boolean; message: string }> {
+    const user = this.requireUser();
 
-    const response = await fetch(
-      `${this.baseUrl}/api/courses/${courseId}/sections?userid=${this.currentUser.id}`,
-      { headers: this.getHeaders() }
-    );
+    return this.request(`/api/courses/${courseId}`, {
+      method: 'DELETE',
+      query: { userid: user.id },
+      errorMessage: 'Failed to delete course',
+    });
+  }
 
-    if (!response.ok) {
-      throw new Error('Failed to get course sections');
-    }
+  async enrollInCourse(courseId: string): Promise<EnrollResponse> {
+    const user = this.requireUser();
 
-    return response.json();
+    return this.request(`/api/courses/${courseId}/enroll`, {
+      method: 'POST',
+      query: { userid: user.id },
+      errorMessage: 'Failed to enroll in course',
+    });
   }
 
-  async getSectionDetail(courseId: string, sectionId: string): Promise<SectionDetailResponse> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+  async getCourseSections(courseId: string): Promise<CourseSectionsResponse> {
+    const user = this.requireUser();
 
-    const response = await fetch(
-      `${this.baseUrl}/api/courses/${courseId}/sections/${sectionId}?userid=${this.currentUser.id}`,
-      { headers: this.getHeaders() }
-    );
+    return this.request(`/api/courses/${courseId}/sections`, {
+      query: { userid: user.id },
+      errorMessage: 'Failed to get course sections',
+    });
+  }
 
-    if (!response.ok) {
-      throw new Error('Failed to get section detail');
-    }
+  async getSectionDetail(courseId: string, sectionId: string): Promise<SectionDetailResponse> {
+    const user = this.requireUser();
 
-    return response.json();
+    return this.request(`/api/courses/${courseId}/sections/${sectionId}`, {
+      query: { userid: user.id },
+      errorMessage: 'Failed to get section detail',
+    });
   }
 
-  async completeSection(courseId: string, sectionId: string, timeSpent = 0): Promise<CompleteResponse> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+  // A course with every section in full. The section list leaves out most
+  // fields, so each section's detail is fetched too; fails rather than return a
+  // section with its content missing.
+  async getCourseWithSections(courseId: string): Promise<{ course: Course; sections: CourseSection[] }> {
+    const [{ course }, { sections }] = await Promise.all([this.getCourse(courseId), this.getCourseSections(courseId)]);
 
-    const response = await fetch(
-      `${this.baseUrl}/api/courses/${courseId}/sections/${sectionId}/complete?userid=${this.currentUser.id}&timespent=${timeSpent}`,
+    const detailed = [...sections];
+    let failed = 0;
+    await runTaskQueue(
+      sections.map((section, index) => ({ section, index })),
+      ({ section }) => this.getSectionDetail(courseId, section.id),
       {
-        method: 'POST',
-        headers: this.getHeaders(),
+        concurrency: 3,
+        retries: 1,
+        onSuccess: ({ index }, detail) => {
+          detailed[index] = { ...detailed[index], ...(detail.section || detail) };
+        },
+        onFailure: () => {
+          failed++;
+        },
       }
     );
-
-    if (!response.ok) {
-      throw new Error('Failed to complete section');
+    if (failed > 0) {
+      throw new Error(`${failed} section${failed !== 1 ? 's' : ''} could not be loaded`);
     }
 
-    return response.json();
+    return { course, sections: detailed };
   }
 
-  async getCourseProgress(courseId: string): Promise<{ progress: CourseProgress }> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+  async completeSection(courseId: string, sectionId: string, timeSpent = 0): Promise<CompleteResponse> {
+    const user = this.requireUser();
 
-    const response = await fetch(
-      `${this.baseUrl}/api/courses/${courseId}/progress?userid=${this.currentUser.id}`,
-      { headers: this.getHeaders() }
-    );
+    return this.request(`/api/courses/${courseId}/sections/${sectionId}/complete`, {
+      method: 'POST',
+      query: { userid: user.id, timespent: timeSpent },
+      errorMessage: 'Failed to complete section',
+    });
+  }
 
-    if (!response.ok) {
-      throw new Error('Failed to get course progress');
-    }
+  async getCourseProgress(courseId: string): Promise<{ progress: CourseProgress }> {
+    const user = this.requireUser();
 
-    return response.json();
+    return this.request(`/api/courses/${courseId}/progress`, {
+      query: { userid: user.id },
+      errorMessage: 'Failed to get course progress',
+    });
   }
 
   async updateCourse(courseId: string, courseData: CourseCreate): Promise<{ message: string }> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+    const user = this.requireUser();
 
-    const response = await fetch(
-      `${this.baseUrl}/api/courses/${courseId}/update?userid=${this.currentUser.id}`,
-      {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(courseData),
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error('Failed to update course');
-    }
-
-    return response.json();
+    return this.request(`/api/courses/${courseId}/update`, {
+      method: 'PUT',
+      query: { userid: user.id },
+      body: courseData,
+      errorMessage: 'Failed to update course',
+    });
   }
 
   async searchCourses(query: string): Promise<{ courses: Course[] }> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+    const user = this.requireUser();
 
-    const response = await fetch(
-      `${this.baseUrl}/api/courses/search?query=${encodeURIComponent(query)}&userid=${this.currentUser.id}`,
-      { headers: this.getHeaders() }
-    );
-
-    if (!response.ok) {
-      throw new Error('Failed to search courses');
-    }
-
-    return response.json();
+    return this.request('/api/courses/search', {
+      query: { query, userid: user.id },
+      errorMessage: 'Failed to search courses',
+    });
   }
 
   async generateSectionQuiz(courseId: string, sectionId: string): Promise<QuizGenerationResponse> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
-
-    const response = await fetch(
-      `${this.baseUrl}/api/courses/${courseId}/sections/${sectionId}/quiz?userid=${this.currentUser.id}`,
-      {
-        method: 'POST',
-        headers: this.getHeaders(),
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to generate quiz');
-    }
+    const user = this.requireUser();
 
-    return response.json();
+    return this.request(`/api/courses/${courseId}/sections/${sectionId}/quiz`, {
+      method: 'POST',
+      query: { userid: user.id },
+      timeoutMs: 120000,
+      errorMessage: 'Failed to generate quiz',
+    });
   }
 
   async submitSectionQuiz(
@@ -1231,83 +2084,47 @@ class ApiService {
     sectionId: string,
     answers: { [key: string]: string }
   ): Promise<QuizSubmissionResponse> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
-
-    const response = await fetch(
-      `${this.baseUrl}/api/courses/${courseId}/sections/${sectionId}/quiz/submit?userid=${this.currentUser.id}`,
-      {
-        method: 'POST',
-        headers: this.getHeaders(),
-        body: JSON.stringify({ answers }),
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to submit quiz');
-    }
+    const user = this.requireUser();
 
-    return response.json();
+    return this.request(`/api/courses/${courseId}/sections/${sectionId}/quiz/submit`, {
+      method: 'POST',
+      query: { userid: user.id },
+      body: { answers },
+      errorMessage: 'Failed to submit quiz',
+    });
   }
 
   // ASSESSMENTS METHODS
   async createAssessment(data: AssessmentCreate): Promise<Assessment> {
-    const response = await fetch(`${this.baseUrl}/api/assessments/`, {
+    return this.request('/api/assessments/', {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify(data),
+      body: data,
+      timeoutMs: 120000,
+      errorMessage: 'Failed to create assessment',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to create assessment');
-    }
-
-    return response.json();
   }
 
   async getAssessments(): Promise<Assessment[]> {
-    const response = await fetch(`${this.baseUrl}/api/assessments/`, {
-      headers: this.getHeaders(),
+    return this.request('/api/assessments/', {
+      errorMessage: 'Failed to get assessments',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to get assessments');
-    }
-
-    return response.json();
   }
 
   async getAssessment(assessmentId: string): Promise<Assessment> {
-    const response = await fetch(`${this.baseUrl}/api/assessments/${assessmentId}`, {
-      headers: this.getHeaders(),
+    return this.request(`/api/assessments/${assessmentId}`, {
+      errorMessage: 'Failed to get assessment',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to get assessment');
-    }
-
-    return response.json();
   }
 
   async evaluateAssessment(
     assessmentId: string,
     answers: Record<string, string>
   ): Promise<AssessmentEvaluation> {
-    const response = await fetch(`${this.baseUrl}/api/assessments/${assessmentId}/evaluate`, {
+    return this.request(`/api/assessments/${assessmentId}/evaluate`, {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({ answers }),
+      body: { answers },
+      errorMessage: 'Failed to evaluate assessment',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to evaluate assessment');
-    }
-
-    return response.json();
   }
 
   // TRANSLATION METHODS
@@ -1316,195 +2133,106 @@ class ApiService {
     sourceLang = 'auto',
     targetLang = 'en'
   ): Promise<TranslateTextResponse> {
-    const response = await fetch(`${this.baseUrl}/api/translate/text`, {
+    return this.request('/api/translate/text', {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({
+      body: {
         text,
         source_lang: sourceLang,
         target_lang: targetLang,
-      }),
+      },
+      errorMessage: 'Translation failed',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Translation failed');
-    }
-
-    return response.json();
   }
 
   async detectLanguage(text: string): Promise<DetectLanguageResponse> {
-    const response = await fetch(`${this.baseUrl}/api/translate/detect`, {
+    return this.request('/api/translate/detect', {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({ text }),
+      body: { text },
+      errorMessage: 'Language detection failed',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Language detection failed');
-    }
-
-    return response.json();
   }
 
   async chatWithTranslation(
     message: string,
     userLanguage = 'auto'
   ): Promise<ChatTranslateResponse> {
-    const response = await fetch(`${this.baseUrl}/api/translate/chat`, {
+    return this.request('/api/translate/chat', {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({
+      body: {
         message,
         user_language: userLanguage,
-      }),
+      },
+      errorMessage: 'Chat translation failed',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Chat translation failed');
-    }
-
-    return response.json();
   }
 
   async getSupportedLanguages(): Promise<SupportedLanguages> {
-    const response = await fetch(`${this.baseUrl}/api/translate/languages`, {
-      headers: this.getHeaders(),
+    return this.request('/api/translate/languages', {
+      errorMessage: 'Failed to get supported languages',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to get supported languages');
-    }
-
-    return response.json();
   }
 
   async checkTranslationStatus(): Promise<Record<string, any>> {
-    const response = await fetch(`${this.baseUrl}/api/translate/status`, {
-      headers: this.getHeaders(),
+    return this.request('/api/translate/status', {
+      errorMessage: 'Failed to check translation status',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to check translation status');
-    }
-
-    return response.json();
   }
 
   async testOpenAIConnection(): Promise<Record<string, any>> {
-    const response = await fetch(`${this.baseUrl}/api/translate/test`, {
-      headers: this.getHeaders(),
+    return this.request('/api/translate/test', {
+      errorMessage: 'Failed to test OpenAI connection',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to test OpenAI connection');
-    }
-
-    return response.json();
   }
 
   // COMPANIONS METHODS
   async createCompanion(data: CompanionCreate): Promise<Companion> {
-    const response = await fetch(`${this.baseUrl}/api/companions/`, {
+    return this.request('/api/companions/', {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify(data),
+      body: data,
+      errorMessage: 'Failed to create companion',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to create companion');
-    }
-
-    return response.json();
   }
 
   async getCompanions(): Promise<Companion[]> {
-    const response = await fetch(`${this.baseUrl}/api/companions/`, {
-      headers: this.getHeaders(),
+    return this.request('/api/companions/', {
+      errorMessage: 'Failed to get companions',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to get companions');
-    }
-
-    return response.json();
   }
 
   async getCompanion(companionId: string): Promise<Companion> {
-    const response = await fetch(`${this.baseUrl}/api/companions/${companionId}`, {
-      headers: this.getHeaders(),
+    return this.request(`/api/companions/${companionId}`, {
+      errorMessage: 'Failed to get companion',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to get companion');
-    }
-
-    return response.json();
   }
 
   async deleteCompanion(companionId: string): Promise<{ message: string }> {
-    const response = await fetch(`${this.baseUrl}/api/companions/${companionId}`, {
+    return this.request(`/api/companions/${companionId}`, {
       method: 'DELETE',
-      headers: this.getHeaders(),
+      errorMessage: 'Failed to delete companion',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to delete companion');
-    }
-
-    return response.json();
   }
 
   async startVoiceSession(companionId: string, resumeSessionId?: string): Promise<SessionStartResponse> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+    this.requireUser();
 
-    let url = `${this.baseUrl}/api/companions/${companionId}/start-session`;
-    if (resumeSessionId) {
-      url += `?resume_session_id=${resumeSessionId}`;
-    }
-    const response = await fetch(url, {
+    return this.request(`/api/companions/${companionId}/start-session`, {
       method: 'POST',
-      headers: this.getHeaders(),
+      query: { resume_session_id: resumeSessionId },
+      errorMessage: 'Failed to start voice session',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to start voice session');
-    }
-
-    return response.json();
   }
 
   async stopVoiceSession(sessionId: string): Promise<{ status: string; message: string }> {
-    const response = await fetch(`${this.baseUrl}/api/companions/sessions/${sessionId}/stop`, {
+    return this.request(`/api/companions/sessions/${sessionId}/stop`, {
       method: 'POST',
-      headers: this.getHeaders(),
+      errorMessage: 'Failed to stop voice session',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to stop voice session');
-    }
-
-    return response.json();
   }
 
   async getSessionStatus(sessionId: string): Promise<Record<string, any>> {
-    const response = await fetch(`${this.baseUrl}/api/companions/sessions/${sessionId}/status`, {
-      headers: this.getHeaders(),
+    return this.request(`/api/companions/sessions/${sessionId}/status`, {
+      errorMessage: 'Failed to get session status',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to get session status');
-    }
-
-    return response.json();
   }
 
   async saveSessionTranscript(
@@ -1512,126 +2240,96 @@ class ApiService {
     transcript: any[],
     duration: number
   ): Promise<{ status: string; message: string }> {
-    const response = await fetch(`${this.baseUrl}/api/companions/sessions/${sessionId}/transcript`, {
+    return this.request(`/api/companions/sessions/${sessionId}/transcript`, {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({ transcript, duration }),
+      body: { transcript, duration },
+      errorMessage: 'Failed to save transcript',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to save transcript');
-    }
-
-    return response.json();
   }
 
   async getSessionTranscript(sessionId: string): Promise<SessionTranscript> {
-    const response = await fetch(`${this.baseUrl}/api/companions/sessions/${sessionId}/transcript`, {
-      headers: this.getHeaders(),
+    return this.request(`/api/companions/sessions/${sessionId}/transcript`, {
+      errorMessage: 'Failed to get session transcript',
     });
+  }
 
-    if (!response.ok) {
-      throw new Error('Failed to get session transcript');
-    }
+  async getCompanionSessions(companionId: string): Promise<{ sessions: CompanionSession[] }> {
+    return this.request('/api/companions/sessions', {
+      query: { companion_id: companionId },
+      errorMessage: 'Failed to get companion sessions',
+    });
+  }
 
-    return response.json();
+  // Reopens a past session; the response carries its transcript so far
+  async resumeCompanionSession(sessionId: string): Promise<SessionTranscript> {
+    return this.request(`/api/companions/sessions/${sessionId}/resume`, {
+      method: 'POST',
+      errorMessage: 'Failed to resume session',
+    });
   }
 
   async getAvailableVoices(): Promise<VoicesResponse> {
-    const response = await fetch(`${this.baseUrl}/api/companions/voices`, {
-      headers: this.getHeaders(),
+    return this.request('/api/companions/voices', {
+      errorMessage: 'Failed to get available voices',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to get available voices');
-    }
-
-    return response.json();
   }
 
   async getAvailableSubjects(): Promise<SubjectsResponse> {
-    const response = await fetch(`${this.baseUrl}/api/companions/subjects`, {
-      headers: this.getHeaders(),
+    return this.request('/api/companions/subjects', {
+      errorMessage: 'Failed to get available subjects',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to get available subjects');
-    }
-
-    return response.json();
   }
 
   // GRADING METHODS
-  async gradeText(request: TextGradingRequest): Promise<GradingResponse> {
-    const response = await fetch(`${this.baseUrl}/api/grading/text`, {
+  async gradeText(request: TextGradingRequest, signal?: AbortSignal): Promise<GradingResponse> {
+    return this.request('/api/grading/text', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request),
+      body: request,
+      signal,
+      timeoutMs: 120000,
+      errorMessage: 'Failed to grade text',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to grade text');
-    }
-
-    return response.json();
   }
 
-  async gradeCode(request: CodeGradingRequest): Promise<GradingResponse> {
-    const response = await fetch(`${this.baseUrl}/api/grading/code`, {
+  async gradeCode(request: CodeGradingRequest, signal?: AbortSignal): Promise<GradingResponse> {
+    return this.request('/api/grading/code', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request),
+      body: request,
+      signal,
+      timeoutMs: 120000,
+      errorMessage: 'Failed to grade code',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to grade code');
-    }
-
-    return response.json();
   }
 
   // ANALYSIS METHODS
-  async checkPlagiarism(text: string): Promise<PlagiarismResponse> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+  async checkPlagiarism(text: string): Promise<PlagiarismReport> {
+    const user = this.requireUser();
 
-    const response = await fetch(`${this.baseUrl}/api/analysis/plagiarism`, {
+    const response = await this.request<PlagiarismResponse>('/api/analysis/plagiarism', {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({
+      body: {
         text,
-        userid: this.currentUser.id
-      }),
+        userid: user.id
+      },
+      timeoutMs: 120000,
+      errorMessage: 'Failed to check plagiarism',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to check plagiarism');
-    }
-
-    return response.json();
+    return normalizePlagiarismResponse(response, text);
   }
 
-  async detectAI(text: string): Promise<AIDetectionResponse> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
+  async detectAI(text: string): Promise<AIDetectionReport> {
+    const user = this.requireUser();
 
-    const response = await fetch(`${this.baseUrl}/api/analysis/ai-detection`, {
+    const response = await this.request<AIDetectionResponse>('/api/analysis/ai-detection', {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({
+      body: {
         text,
-        userid: this.currentUser.id
-      }),
+        userid: user.id
+      },
+      timeoutMs: 120000,
+      errorMessage: 'Failed to detect AI content',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to detect AI content');
-    }
-
-    return response.json();
+    return normalizeAIDetectionResponse(response, text);
   }
 
   // SUBMISSIONS METHODS
@@ -1641,164 +2339,198 @@ class ApiService {
     content: string,
     submissionType: string
   ): Promise<Submission> {
-    const response = await fetch(`${this.baseUrl}/api/submissions/submit`, {
+    return this.request('/api/submissions/submit', {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({
+      body: {
         assignment_id: assignmentId,
         user_id: userId,
         content,
         submission_type: submissionType
-      }),
+      },
+      errorMessage: 'Failed to submit assignment',
     });
+  }
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to submit assignment');
-    }
+  // Uploads a file submission; the backend extracts its text into `content`
+  async submitFile(assignmentId: string, submissionType: string, file: File): Promise<Submission> {
+    const user = this.requireUser();
+
+    const formData = new FormData();
+    formData.append('assignment_id', assignmentId);
+    formData.append('user_id', user.id);
+    formData.append('submission_type', submissionType);
+    formData.append('file', file);
 
-    return response.json();
+    return this.request('/api/submissions/submit-file', {
+      method: 'POST',
+      body: formData,
+      timeoutMs: 120000,
+      errorMessage: 'Submission failed',
+    });
   }
 
-  async getSubmissions(userId?: string, assignmentId?: string, status?: string): Promise<Submission[]> {
-    let url = `${this.baseUrl}/api/submissions/`;
-    const params = new URLSearchParams();
-    
-    if (userId) params.append('user_id', userId);
-    if (assignmentId) params.append('assignment_id', assignmentId);
-    if (status) params.append('status', status);
-    
-    if (params.toString()) {
-      url += `?${params.toString()}`;
-    }
+  // Text of a PDF or Word document, extracted the same way as file submissions.
+  // There is no extraction-only endpoint, so the temporary submission the upload
+  // creates is deleted again. If that fails its id is returned, so the caller can
+  // tell the user it is still in the submissions list.
+  async extractDocumentText(file: File): Promise<DocumentExtraction> {
+    const user = this.requireUser();
 
-    const response = await fetch(url, {
-      headers: this.getHeaders(),
-    });
+    const submission = await this.submitFile(`Text extraction: ${file.name}`, 'document', file);
+    const text = submission.content || '';
+    if (!submission.id) return { text };
 
-    if (!response.ok) {
-      throw new Error('Failed to get submissions');
+    try {
+      await this.deleteSubmission(submission.id, user.id);
+      return { text };
+    } catch (error) {
+      console.warn('Failed to delete extraction submission:', error);
+      return { text, leftoverSubmissionId: submission.id };
     }
+  }
+
+  async getSubmissions(userId?: string, assignmentId?: string, status?: string): Promise<Submission[]> {
+    const data = await this.request<Submission[]>('/api/submissions/', {
+      query: {
+        user_id: userId,
+        assignment_id: assignmentId,
+        status,
+      },
+      errorMessage: 'Failed to get submissions',
+    });
 
-    const data = await response.json();
     return Array.isArray(data) ? data : [];
   }
 
   async getSubmission(submissionId: string): Promise<SubmissionDetailResponse> {
-    const response = await fetch(`${this.baseUrl}/api/submissions/${submissionId}`, {
-      headers: this.getHeaders(),
+    return this.request(`/api/submissions/${submissionId}`, {
+      errorMessage: 'Failed to get submission',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to get submission');
-    }
-
-    return response.json();
   }
 
+  // Store an AI grade. The AI-grade endpoint records it as the submission's AI
+  // grade and puts it in `pending_review`, so it stays hidden from the student
+  // until an instructor reviews and releases it. The client never sets either.
   async gradeSubmission(
     submissionId: string,
     grade: number,
     feedback: string,
     keyPoints?: string[],
-    areasForImprovement?: string[]
+    areasForImprovement?: string[],
+    // Per-criterion scores and the rubric they were graded against
+    rubricResult?: { breakdown?: GradingBreakdownItem[]; rubric?: Rubric | null }
   ): Promise<{ message: string }> {
-    const response = await fetch(`${this.baseUrl}/api/submissions/${submissionId}/grade`, {
+    return this.request(`/api/submissions/${submissionId}/ai-grade`, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
+      body: {
         grade,
         feedback,
         key_points: keyPoints,
-        areas_for_improvement: areasForImprovement
-      }),
+        areas_for_improvement: areasForImprovement,
+        breakdown: rubricResult?.breakdown,
+        rubric: rubricResult?.rubric || undefined
+      },
+      errorMessage: 'Failed to grade submission',
     });
+  }
 
-    if (!response.ok) {
-      throw new Error('Failed to grade submission');
-    }
+  // Save the instructor's final grade, feedback and comments. `release` also
+  // makes the result visible to the student.
+  async reviewSubmission(submissionId: string, review: SubmissionReview, release = false): Promise<Submission> {
+    const user = this.requireUser();
 
-    return response.json();
+    return this.request(`/api/submissions/${submissionId}/review`, {
+      method: 'PUT',
+      body: {
+        ...review,
+        reviewer_id: user.id,
+        status: release ? 'released' : 'reviewed'
+      },
+      errorMessage: 'Failed to save review',
+    });
   }
 
-  async deleteSubmission(submissionId: string, userId: string): Promise<{ message: string }> {
-    const response = await fetch(`${this.baseUrl}/api/submissions/${submissionId}?user_id=${userId}`, {
-      method: 'DELETE',
-      headers: this.getHeaders(),
+  async releaseSubmission(submissionId: string): Promise<Submission> {
+    const user = this.requireUser();
+
+    return this.request(`/api/submissions/${submissionId}/release`, {
+      method: 'POST',
+      body: { reviewer_id: user.id },
+      errorMessage: 'Failed to release grade',
     });
+  }
 
-    if (!response.ok) {
-      throw new Error('Failed to delete submission');
+  // Run the plagiarism and AI-detection checks on a submission and store the
+  // results with it
+  async runIntegrityCheck(submissionId: string, content: string): Promise<SubmissionIntegrity> {
+    const user = this.requireUser();
+
+    const [plagiarism, aiDetection] = await Promise.allSettled([
+      this.checkPlagiarism(content),
+      this.detectAI(content),
+    ]);
+    if (plagiarism.status === 'rejected' && aiDetection.status === 'rejected') {
+      throw plagiarism.reason;
     }
 
-    return response.json();
-  }
+    const integrity: SubmissionIntegrity = {
+      plagiarism: plagiarism.status === 'fulfilled' ? plagiarism.value : undefined,
+      ai_detection: aiDetection.status === 'fulfilled' ? aiDetection.value : undefined,
+      errors: [plagiarism, aiDetection]
+        .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+        .map((result) => (result.reason instanceof Error ? result.reason.message : String(result.reason))),
+      checked_at: new Date().toISOString(),
+      checked_by: user.id,
+    };
 
-  async getSubmissionStats(userId: string): Promise<Record<string, any>> {
-    const response = await fetch(`${this.baseUrl}/api/submissions/stats/${userId}`, {
-      headers: this.getHeaders(),
+    await this.request(`/api/submissions/${submissionId}/integrity`, {
+      method: 'PUT',
+      body: integrity,
+      errorMessage: 'Failed to save integrity check',
     });
+    return integrity;
+  }
 
-    if (!response.ok) {
-      throw new Error('Failed to get submission stats');
-    }
+  async deleteSubmission(submissionId: string, userId: string): Promise<{ message: string }> {
+    return this.request(`/api/submissions/${submissionId}`, {
+      method: 'DELETE',
+      query: { user_id: userId },
+      errorMessage: 'Failed to delete submission',
+    });
+  }
 
-    return response.json();
+  async getSubmissionStats(userId: string): Promise<Record<string, any>> {
+    return this.request(`/api/submissions/stats/${userId}`, {
+      errorMessage: 'Failed to get submission stats',
+    });
   }
 
   // ANALYTICS METHODS
   async getUserAnalytics(): Promise<AnalyticsPayload> {
-    const user = this.getCurrentUser();
-    if (!user) {
-      throw new Error('User not authenticated');
-    }
-    
-    const response = await fetch(`${this.baseUrl}/api/analytics/user?user_id=${user.id}`, {
-      method: 'GET',
-      headers: this.getHeaders(),
+    const user = this.requireUser();
+
+    return this.request('/api/analytics/user', {
+      query: { user_id: user.id },
+      errorMessage: 'Failed to fetch analytics',
     });
-    
-    if (!response.ok) {
-      throw new Error('Failed to fetch analytics');
-    }
-    
-    return response.json();
   }
 
   async getAnalyticsSummary(): Promise<AnalyticsSummaryResponse> {
-    const user = this.getCurrentUser();
-    if (!user) {
-      throw new Error('User not authenticated');
-    }
-    
-    const response = await fetch(`${this.baseUrl}/api/analytics/summary?user_id=${user.id}`, {
-      method: 'GET',
-      headers: this.getHeaders(),
+    const user = this.requireUser();
+
+    return this.request('/api/analytics/summary', {
+      query: { user_id: user.id },
+      errorMessage: 'Failed to fetch summary',
     });
-    
-    if (!response.ok) {
-      throw new Error('Failed to fetch summary');
-    }
-    
-    return response.json();
   }
 
   async getCourseProgressAnalytics(): Promise<ProgressResponse> {
-    const user = this.getCurrentUser();
-    if (!user) {
-      throw new Error('User not authenticated');
-    }
-    
-    const response = await fetch(`${this.baseUrl}/api/analytics/progress?user_id=${user.id}`, {
-      method: 'GET',
-      headers: this.getHeaders(),
+    const user = this.requireUser();
+
+    return this.request('/api/analytics/progress', {
+      query: { user_id: user.id },
+      errorMessage: 'Failed to fetch progress',
     });
-    
-    if (!response.ok) {
-      throw new Error('Failed to fetch progress');
-    }
-    
-    return response.json();
   }
 
   // SETTINGS METHODS
@@ -1814,20 +2546,12 @@ class ApiService {
     };
     settings: UserSettings;
   }> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
-
-    const response = await fetch(
-      `${this.baseUrl}/api/settings/?user_id=${this.currentUser.id}`,
-      { headers: this.getHeaders() }
-    );
-
-    if (!response.ok) {
-      throw new Error('Failed to get settings');
-    }
+    const user = this.requireUser();
 
-    return response.json();
+    return this.request('/api/settings/', {
+      query: { user_id: user.id },
+      errorMessage: 'Failed to get settings',
+    });
   }
 
   async updateSettings(settings: Partial<UserSettings>): Promise<{
@@ -1835,60 +2559,55 @@ class ApiService {
     message: string;
     settings: UserSettings;
   }> {
-    if (!this.currentUser) {
-      throw new Error('User not authenticated');
-    }
-
-    const response = await fetch(
-      `${this.baseUrl}/api/settings/?user_id=${this.currentUser.id}`,
-      {
-        method: 'PUT',
-        headers: this.getHeaders(),
-        body: JSON.stringify(settings),
-      }
-    );
+    const user = this.requireUser();
 
-    if (!response.ok) {
-      throw new Error('Failed to update settings');
-    }
-
-    return response.json();
+    return this.request('/api/settings/', {
+      method: 'PUT',
+      query: { user_id: user.id },
+      body: settings,
+      errorMessage: 'Failed to update settings',
+    });
   }
 
   // SYSTEM METHODS
   async healthCheck(): Promise<HealthCheckResponse> {
-    const response = await fetch(`${this.baseUrl}/api/health`, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' },
+    return this.request('/api/health', {
+      auth: false,
+      retries: 0,
+      timeoutMs: 10000,
+      errorMessage: 'Health check failed',
     });
-
-    if (!response.ok) {
-      throw new Error('Health check failed');
-    }
-
-    return response.json();
   }
 
   async testConnection(): Promise<boolean> {
     try {
       await this.healthCheck();
+      const wasUnreachable = !this.isBackendReachable;
+      this.isBackendReachable = true;
+      if (wasUnreachable) {
+        this.connectionListeners.forEach((listener) => listener());
+      }
       return true;
     } catch (error) {
       console.error('Connection test failed:', error);
+      this.isBackendReachable = false;
       return false;
     }
   }
 
+  // Register a callback for when testConnection succeeds after the backend was
+  // unreachable. Returns an unsubscribe function.
+  onConnectionRestored(listener: () => void): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
   async getWelcome(): Promise<Record<string, any>> {
-    const response = await fetch(`${this.baseUrl}/api/welcome`, {
-      headers: this.getHeaders(),
+    return this.request('/api/welcome', {
+      errorMessage: 'Failed to get welcome message',
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to get welcome message');
-    }
-
-    return response.json();
   }
 }
 
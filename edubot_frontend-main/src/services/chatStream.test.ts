@@ -0,0 +1,144 @@
+// src/services/chatStream.test.ts
+// Streams chat replies from a local mock server that writes SSE frames in
+// separate chunks, the way the backend's /api/chat/stream does.
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { API_CONFIG } from '../config/api';
+import { apiService, ApiError } from './api';
+
+const USER = { id: 'user-1', email: 'student@example.com', first_name: 'Sam', last_name: 'Lee' };
+
+let server: Server;
+let baseUrl: string;
+// Set once the server has seen the client go away mid-stream
+let slowStreamClosed: Promise<void>;
+
+function frame(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`;
+}
+
+function readBody(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body ? JSON.parse(body) : null));
+  });
+}
+
+async function handleStream(req: IncomingMessage, res: ServerResponse) {
+  const { message } = await readBody(req);
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+
+  if (message === 'slow') {
+    // One token, then keep going until the client disconnects
+    slowStreamClosed = new Promise((resolve) => res.on('close', () => resolve()));
+    res.write(frame('meta', { chat_id: 'chat-slow' }));
+    res.write(frame('message', { content: 'Thinking' }));
+    const timer = setInterval(() => res.write(frame('message', { content: '.' })), 20);
+    res.on('close', () => clearInterval(timer));
+    return;
+  }
+
+  const chunks = [
+    frame('meta', { chat_id: 'chat-1', user_message_id: 'msg-10' }),
+    frame('message', { content: 'Hel' }),
+    // A frame split across two writes
+    'event: message\ndata: {"con',
+    'tent":"lo "}\n\n',
+    // Plain-text tokens that happen to be valid JSON
+    frame('message', '42'),
+    frame('message', ' null'),
+    frame('done', { chat_id: 'chat-1', message_id: 'msg-11', follow_up_suggestions: ['What next?', 'Give an example'] }),
+  ];
+  for (const chunk of chunks) {
+    res.write(chunk);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  res.end();
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    if (req.url === '/api/auth/me') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(USER));
+    } else if (req.url === '/api/chat/stream' && req.method === 'POST') {
+      handleStream(req, res);
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // Point the app's requests at the mock server
+  const realFetch = globalThis.fetch;
+  vi.stubGlobal('fetch', (input: string, init?: RequestInit) =>
+    realFetch(input.replace(API_CONFIG.BASE_URL, baseUrl), init)
+  );
+  const storage = new Map<string, string>([['access_token', 'test-token']]);
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+
+  expect(await apiService.restoreSession()).toBe(true);
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+  server.closeAllConnections();
+  server.close();
+});
+
+describe('sendMessageStream', () => {
+  it('streams tokens and reports the chat id, message ids and suggestions', async () => {
+    const tokens: string[] = [];
+    const chatIds: string[] = [];
+    const onDone = vi.fn();
+
+    const { reply } = await apiService.sendMessageStream(
+      { message: 'Hello', user_id: USER.id },
+      { onToken: (token) => tokens.push(token), onChatId: (id) => chatIds.push(id), onDone }
+    );
+
+    expect(tokens).toEqual(['Hel', 'lo ', '42', ' null']);
+    expect(reply.content).toBe('Hello 42 null');
+    expect(chatIds).toEqual(['chat-1']);
+    expect(reply.chat_id).toBe('chat-1');
+    expect(reply.user_message_id).toBe('msg-10');
+    expect(reply.message_id).toBe('msg-11');
+    expect(reply.follow_up_suggestions).toEqual(['What next?', 'Give an example']);
+    expect(onDone).toHaveBeenCalledWith(reply);
+  });
+
+  it('stops mid-stream when aborted', async () => {
+    const controller = new AbortController();
+    const tokens: string[] = [];
+
+    const pending = apiService.sendMessageStream(
+      { message: 'slow', user_id: USER.id },
+      {
+        onToken: (token) => {
+          tokens.push(token);
+          if (tokens.length === 3) controller.abort();
+        },
+      },
+      controller.signal
+    );
+
+    const error = await pending.catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.code).toBe('aborted');
+    expect(tokens).toHaveLength(3);
+
+    // The request itself was cancelled, not just ignored
+    await slowStreamClosed;
+    const countAfterAbort = tokens.length;
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(tokens).toHaveLength(countAfterAbort);
+  });
+});
@@ -0,0 +1,224 @@
+// src/services/codeRunner.ts
+// Sandboxed runner for the Python and JavaScript in exercises and code blocks.
+// Code runs in Web Workers (see src/workers); a run that goes over its time
+// limit has its worker terminated.
+import type {
+  ExerciseTestCase,
+  SandboxLanguage,
+  SandboxRunRequest,
+  SandboxRunResult,
+  SandboxTestResult,
+  SandboxWorkerMessage,
+} from '../types/sandbox';
+
+export const DEFAULT_TIME_LIMIT_MS = 5000;
+const JAVASCRIPT_START_TIMEOUT_MS = 10000;
+// The Python runtime is ~12 MB, so the first load can take a while
+const PYTHON_START_TIMEOUT_MS = 60000;
+
+const LANGUAGES: Record<string, SandboxLanguage> = {
+  python: 'python',
+  python3: 'python',
+  py: 'python',
+  javascript: 'javascript',
+  js: 'javascript',
+  node: 'javascript',
+};
+
+export interface RunOptions {
+  stdin?: string;
+  timeLimitMs?: number;
+}
+
+// The sandbox language for a code fence / exercise language, or null when it
+// can't be run in the browser
+export function getSandboxLanguage(language?: string | null): SandboxLanguage | null {
+  return LANGUAGES[(language || '').toLowerCase()] || null;
+}
+
+// Compares program output ignoring trailing whitespace and line ending style
+function outputsMatch(actual: string, expected: string): boolean {
+  const normalize = (text: string) =>
+    text
+      .replace(/\r\n/g, '\n')
+      .split('\n')
+      .map((line) => line.trimEnd())
+      .join('\n')
+      .trim();
+  return normalize(actual) === normalize(expected);
+}
+
+class CodeRunner {
+  private nextId = 1;
+  private pythonWorker: Promise<Worker> | null = null;
+  private pythonLoaded = false;
+  // Python runs share one worker, so they go one at a time
+  private pythonQueue: Promise<unknown> = Promise.resolve();
+
+  // True once the Python runtime is downloaded and started
+  isPythonLoaded(): boolean {
+    return this.pythonLoaded;
+  }
+
+  // Start loading the Python runtime before the first run
+  preload(language: SandboxLanguage) {
+    if (language === 'python') {
+      this.getPythonWorker().catch(() => undefined);
+    }
+  }
+
+  async run(language: SandboxLanguage, code: string, options: RunOptions = {}): Promise<SandboxRunResult> {
+    if (language === 'python') {
+      const run = this.pythonQueue.then(() => this.runPython(code, options));
+      this.pythonQueue = run.catch(() => undefined);
+      return run;
+    }
+
+    let worker: Worker;
+    try {
+      worker = await this.startWorker('javascript', JAVASCRIPT_START_TIMEOUT_MS);
+    } catch (error) {
+      return this.startFailure(error);
+    }
+    try {
+      return await this.execute(worker, code, options);
+    } finally {
+      worker.terminate();
+    }
+  }
+
+  // Runs the program once per test case with the case's input on stdin
+  async runTests(
+    language: SandboxLanguage,
+    code: string,
+    tests: ExerciseTestCase[],
+    options: Omit<RunOptions, 'stdin'> = {}
+  ): Promise<SandboxTestResult[]> {
+    const results: SandboxTestResult[] = [];
+    for (const test of tests) {
+      const result = await this.run(language, code, { ...options, stdin: test.input });
+      results.push({
+        test,
+        result,
+        actual: result.stdout,
+        passed: !result.error && outputsMatch(result.stdout, test.expected_output),
+      });
+    }
+    return results;
+  }
+
+  private async runPython(code: string, options: RunOptions): Promise<SandboxRunResult> {
+    let worker: Worker;
+    try {
+      worker = await this.getPythonWorker();
+    } catch (error) {
+      return this.startFailure(error);
+    }
+
+    const result = await this.execute(worker, code, options);
+    if (result.timedOut) {
+      // The worker was terminated, so the next run loads a new one
+      this.pythonWorker = null;
+      this.pythonLoaded = false;
+    }
+    return result;
+  }
+
+  private getPythonWorker(): Promise<Worker> {
+    if (!this.pythonWorker) {
+      this.pythonWorker = this.startWorker('python', PYTHON_START_TIMEOUT_MS);
+      this.pythonWorker.then(
+        () => {
+          this.pythonLoaded = true;
+        },
+        () => {
+          this.pythonWorker = null;
+        }
+      );
+    }
+    return this.pythonWorker;
+  }
+
+  // Resolves once the worker reports that its runtime is ready
+  private startWorker(language: SandboxLanguage, timeoutMs: number): Promise<Worker> {
+    const worker =
+      language === 'python'
+        ? new Worker(new URL('../workers/pythonRunner.worker.ts', import.meta.url), { type: 'module' })
+        : new Worker(new URL('../workers/javascriptRunner.worker.ts', import.meta.url), { type: 'module' });
+
+    return new Promise((resolve, reject) => {
+      const fail = (message: string) => {
+        clearTimeout(timer);
+        worker.terminate();
+        reject(new Error(message));
+      };
+      const timer = setTimeout(() => fail('Timed out starting the code sandbox'), timeoutMs);
+
+      worker.onmessage = (event: MessageEvent<SandboxWorkerMessage>) => {
+        if (event.data.type === 'ready') {
+          clearTimeout(timer);
+          resolve(worker);
+        } else if (event.data.type === 'failed') {
+          fail(event.data.error);
+        }
+      };
+      worker.onerror = (event) => {
+        event.preventDefault();
+        fail(event.message || 'The code sandbox failed to start');
+      };
+    });
+  }
+
+  private execute(
+    worker: Worker,
+    code: string,
+    { stdin, timeLimitMs = DEFAULT_TIME_LIMIT_MS }: RunOptions
+  ): Promise<SandboxRunResult> {
+    const id = this.nextId++;
+    const started = performance.now();
+
+    return new Promise((resolve) => {
+      const finish = (result: Omit<SandboxRunResult, 'durationMs'>) => {
+        clearTimeout(timer);
+        worker.onmessage = null;
+        worker.onerror = null;
+        resolve({ ...result, durationMs: Math.round(performance.now() - started) });
+      };
+      const timer = setTimeout(() => {
+        worker.terminate();
+        finish({
+          stdout: '',
+          stderr: '',
+          error: `Time limit exceeded (${timeLimitMs / 1000}s)`,
+          timedOut: true,
+        });
+      }, timeLimitMs);
+
+      worker.onmessage = (event: MessageEvent<SandboxWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'result' && message.id === id) {
+          finish({ stdout: message.stdout, stderr: message.stderr, error: message.error, timedOut: false });
+        }
+      };
+      worker.onerror = (event) => {
+        event.preventDefault();
+        finish({ stdout: '', stderr: '', error: event.message || 'The code sandbox crashed', timedOut: false });
+      };
+
+      const request: SandboxRunRequest = { id, code, stdin };
+      worker.postMessage(request);
+    });
+  }
+
+  private startFailure(error: unknown): SandboxRunResult {
+    return {
+      stdout: '',
+      stderr: '',
+      error: error instanceof Error ? error.message : String(error),
+      timedOut: false,
+      durationMs: 0,
+    };
+  }
+}
+
+export const codeRunner = new CodeRunner();
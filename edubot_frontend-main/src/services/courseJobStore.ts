@@ -0,0 +1,145 @@
+// src/services/courseJobStore.ts
+// Course generation jobs started by the signed-in user, kept in localStorage per
+// user so running jobs are picked up again after a reload and finished ones stay
+// listed for downloading later. Polling lives here rather than in a component, so
+// it keeps going while the user is on another screen.
+import { apiService, ApiError, CourseGenerationJob, CourseGenerationJobStatus } from './api';
+
+const STORAGE_PREFIX = 'course-jobs:';
+const POLL_INTERVAL_MS = 3000;
+// Oldest finished jobs are dropped beyond this
+const MAX_HISTORY = 20;
+
+export function isJobActive(status: CourseGenerationJobStatus): boolean {
+  return status === 'queued' || status === 'running';
+}
+
+export function getJobProgress(job: CourseGenerationJob): { completed: number; total: number } {
+  return {
+    completed: job.sections.filter((section) => section.status === 'completed').length,
+    total: job.sections.length,
+  };
+}
+
+class CourseJobStore {
+  private listeners = new Set<(jobs: CourseGenerationJob[]) => void>();
+  private finishListeners = new Set<(job: CourseGenerationJob) => void>();
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private storageKey(): string | null {
+    try {
+      return `${STORAGE_PREFIX}${apiService.getUserId()}`;
+    } catch {
+      return null;
+    }
+  }
+
+  // Most recently started first
+  getJobs(): CourseGenerationJob[] {
+    const key = this.storageKey();
+    if (!key) return [];
+    try {
+      const saved = JSON.parse(localStorage.getItem(key) || '[]');
+      return Array.isArray(saved) ? saved : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async start(courseTitle: string, educationLevel: string): Promise<CourseGenerationJob> {
+    const job = await apiService.startCourseGenerationJob(courseTitle, educationLevel);
+    this.write([job, ...this.getJobs().filter((item) => item.job_id !== job.job_id)]);
+    this.schedulePoll();
+    return job;
+  }
+
+  async cancel(jobId: string): Promise<void> {
+    const job = await apiService.cancelCourseGenerationJob(jobId);
+    this.update(job);
+  }
+
+  // Drop a finished job from the history
+  remove(jobId: string) {
+    this.write(this.getJobs().filter((job) => job.job_id !== jobId || isJobActive(job.status)));
+  }
+
+  downloadPdf(jobId: string): Promise<Blob> {
+    return apiService.downloadCourseGenerationPdf(jobId);
+  }
+
+  // Start polling again for jobs that were still running when the page was left.
+  // Safe to call more than once.
+  resume() {
+    if (this.getJobs().some((job) => isJobActive(job.status))) this.schedulePoll();
+  }
+
+  // Register a callback for changes to the job list. Returns an unsubscribe
+  // function.
+  onChange(listener: (jobs: CourseGenerationJob[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Register a callback for jobs that completed, failed or were cancelled while
+  // being polled. Returns an unsubscribe function.
+  onJobFinished(listener: (job: CourseGenerationJob) => void): () => void {
+    this.finishListeners.add(listener);
+    return () => {
+      this.finishListeners.delete(listener);
+    };
+  }
+
+  private schedulePoll() {
+    if (this.pollTimer) return;
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.poll();
+    }, POLL_INTERVAL_MS);
+  }
+
+  private async poll() {
+    const active = this.getJobs().filter((job) => isJobActive(job.status));
+    if (active.length === 0) return;
+
+    await Promise.all(
+      active.map(async (job) => {
+        let latest: CourseGenerationJob;
+        try {
+          latest = await apiService.getCourseGenerationJob(job.job_id);
+        } catch (error) {
+          // Anything else (offline, timeouts) is retried on the next poll
+          if (!(error instanceof ApiError && error.status === 404)) return;
+          latest = { ...job, status: 'failed', error: 'This job no longer exists on the server' };
+        }
+        this.update(latest);
+        if (!isJobActive(latest.status)) {
+          this.finishListeners.forEach((listener) => listener(latest));
+        }
+      })
+    );
+
+    // Signed out in the meantime
+    if (!apiService.getCurrentUser()) return;
+    if (this.getJobs().some((job) => isJobActive(job.status))) this.schedulePoll();
+  }
+
+  private update(job: CourseGenerationJob) {
+    const jobs = this.getJobs();
+    if (!jobs.some((item) => item.job_id === job.job_id)) return;
+    this.write(jobs.map((item) => (item.job_id === job.job_id ? job : item)));
+  }
+
+  private write(jobs: CourseGenerationJob[]) {
+    const key = this.storageKey();
+    if (!key) throw new Error('User not authenticated');
+    // Running jobs are never dropped, however long the history gets
+    let finished = 0;
+    const kept = jobs.filter((job) => isJobActive(job.status) || ++finished <= MAX_HISTORY);
+    localStorage.setItem(key, JSON.stringify(kept));
+    this.listeners.forEach((listener) => listener(kept));
+  }
+}
+
+export const courseJobStore = new CourseJobStore();
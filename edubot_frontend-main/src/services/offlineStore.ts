@@ -0,0 +1,196 @@
+// src/services/offlineStore.ts
+// Persistent client cache and write outbox backed by IndexedDB. Reads use
+// stale-while-revalidate; writes that fail while offline are queued and replayed
+// by syncService once the backend is reachable again.
+
+const DB_NAME = 'edubot-offline';
+const DB_VERSION = 1;
+const CACHE_STORE = 'cache';
+const OUTBOX_STORE = 'outbox';
+
+export interface CacheEntry<T = unknown> {
+  key: string;
+  value: T;
+  updatedAt: number;
+}
+
+export type OutboxEntryType = 'chat.send' | 'course.completeSection' | 'course.submitQuiz';
+
+export interface OutboxEntry<P = any> {
+  id?: number;
+  type: OutboxEntryType;
+  payload: P;
+  userId: string;
+  createdAt: number;
+  attempts: number;
+}
+
+// Promise wrapper around a single IDBRequest
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+class OfflineStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private outboxListeners = new Set<(count: number) => void>();
+
+  get isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(CACHE_STORE)) {
+            db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+          }
+          if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+            db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  // ========================
+  // CACHE
+  // ========================
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    if (!this.isSupported) return undefined;
+    try {
+      const store = await this.store(CACHE_STORE, 'readonly');
+      return await promisify<CacheEntry<T> | undefined>(store.get(key));
+    } catch (error) {
+      console.warn('Offline cache read failed:', error);
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    if (!this.isSupported) return;
+    try {
+      const store = await this.store(CACHE_STORE, 'readwrite');
+      await promisify(store.put({ key, value, updatedAt: Date.now() }));
+    } catch (error) {
+      console.warn('Offline cache write failed:', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    if (!this.isSupported) return;
+    try {
+      const store = await this.store(CACHE_STORE, 'readwrite');
+      await promisify(store.delete(key));
+    } catch (error) {
+      console.warn('Offline cache delete failed:', error);
+    }
+  }
+
+  // Return the cached value right away (if any) and refresh it in the background.
+  // `onFresh` is called when the network copy arrives and differs from the cache.
+  // Without a cached copy the network request is awaited; its error is rethrown.
+  async staleWhileRevalidate<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    onFresh?: (value: T) => void
+  ): Promise<T> {
+    const cached = await this.get<T>(key);
+
+    const revalidate = fetcher().then(async (value) => {
+      await this.set(key, value);
+      return value;
+    });
+
+    if (!cached) {
+      return revalidate;
+    }
+
+    revalidate
+      .then((value) => {
+        if (JSON.stringify(value) !== JSON.stringify(cached.value)) {
+          onFresh?.(value);
+        }
+      })
+      .catch((error) => {
+        console.warn(`Serving cached "${key}" - refresh failed:`, error);
+      });
+
+    return cached.value;
+  }
+
+  // ========================
+  // OUTBOX
+  // ========================
+
+  async enqueue<P>(type: OutboxEntryType, payload: P, userId: string): Promise<void> {
+    const store = await this.store(OUTBOX_STORE, 'readwrite');
+    const entry: OutboxEntry<P> = { type, payload, userId, createdAt: Date.now(), attempts: 0 };
+    await promisify(store.add(entry));
+    this.notifyOutbox();
+  }
+
+  async listOutbox(): Promise<OutboxEntry[]> {
+    if (!this.isSupported) return [];
+    const store = await this.store(OUTBOX_STORE, 'readonly');
+    const entries = await promisify<OutboxEntry[]>(store.getAll());
+    return entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+  }
+
+  async updateOutboxEntry(entry: OutboxEntry): Promise<void> {
+    const store = await this.store(OUTBOX_STORE, 'readwrite');
+    await promisify(store.put(entry));
+  }
+
+  async removeOutboxEntry(id: number): Promise<void> {
+    const store = await this.store(OUTBOX_STORE, 'readwrite');
+    await promisify(store.delete(id));
+    this.notifyOutbox();
+  }
+
+  // Register a callback for outbox size changes. Returns an unsubscribe function.
+  onOutboxChange(listener: (count: number) => void): () => void {
+    this.outboxListeners.add(listener);
+    return () => {
+      this.outboxListeners.delete(listener);
+    };
+  }
+
+  private async notifyOutbox() {
+    if (this.outboxListeners.size === 0) return;
+    const count = (await this.listOutbox()).length;
+    this.outboxListeners.forEach((listener) => listener(count));
+  }
+
+  // Drop cached reads, e.g. on logout so the next user does not see them. Queued
+  // writes are kept: each is tagged with its user and replayed on their next login.
+  async clearCache(): Promise<void> {
+    if (!this.isSupported) return;
+    try {
+      const store = await this.store(CACHE_STORE, 'readwrite');
+      await promisify(store.clear());
+    } catch (error) {
+      console.warn('Failed to clear offline cache:', error);
+    }
+  }
+}
+
+export const offlineStore = new OfflineStore();
@@ -0,0 +1,67 @@
+// src/services/rubricStore.ts
+// Rubric templates saved by the signed-in user, kept in localStorage per user.
+// The built-in templates from lib/rubric are always listed first.
+import { apiService } from './api';
+import { BUILTIN_RUBRICS, Rubric } from '../lib/rubric';
+
+const STORAGE_PREFIX = 'rubrics:';
+
+class RubricStore {
+  private listeners = new Set<(rubrics: Rubric[]) => void>();
+
+  private storageKey(): string | null {
+    try {
+      return `${STORAGE_PREFIX}${apiService.getUserId()}`;
+    } catch {
+      return null;
+    }
+  }
+
+  // The user's own templates, most recently updated first
+  getSaved(): Rubric[] {
+    const key = this.storageKey();
+    if (!key) return [];
+    try {
+      const saved = JSON.parse(localStorage.getItem(key) || '[]');
+      return Array.isArray(saved) ? saved : [];
+    } catch {
+      return [];
+    }
+  }
+
+  getAll(): Rubric[] {
+    return [...BUILTIN_RUBRICS, ...this.getSaved()];
+  }
+
+  // Insert or update by id. Built-in templates are copied under a new id by the
+  // builder before saving, so they are never overwritten here.
+  save(rubric: Rubric): Rubric {
+    const stored: Rubric = { ...rubric, builtin: undefined, updated_at: new Date().toISOString() };
+    const saved = [stored, ...this.getSaved().filter((item) => item.id !== rubric.id)];
+    this.write(saved);
+    return stored;
+  }
+
+  remove(rubricId: string) {
+    this.write(this.getSaved().filter((item) => item.id !== rubricId));
+  }
+
+  // Register a callback for changes to the saved templates. Returns an
+  // unsubscribe function.
+  onChange(listener: (rubrics: Rubric[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private write(saved: Rubric[]) {
+    const key = this.storageKey();
+    if (!key) throw new Error('User not authenticated');
+    localStorage.setItem(key, JSON.stringify(saved));
+    const all = this.getAll();
+    this.listeners.forEach((listener) => listener(all));
+  }
+}
+
+export const rubricStore = new RubricStore();
@@ -0,0 +1,163 @@
+// src/services/syncService.ts
+// Replays writes queued in the offline outbox once the backend is reachable again.
+import { apiService, ApiError } from './api';
+import { offlineStore, OutboxEntry, OutboxEntryType } from './offlineStore';
+
+const POLL_INTERVAL_MS = 15000;
+const MAX_ATTEMPTS = 5;
+
+export interface ReplayResult {
+  entry: OutboxEntry;
+  result: unknown;
+}
+
+class SyncService {
+  private started = false;
+  private flushPromise: Promise<ReplayResult[]> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private flushListeners = new Set<(results: ReplayResult[]) => void>();
+  private syncStateListeners = new Set<(syncing: boolean) => void>();
+
+  // Hook into connection changes and replay the signed-in user's queued writes.
+  // Called on every login, so writes left from before a logout go out too.
+  start() {
+    if (!this.started) {
+      this.started = true;
+
+      apiService.onConnectionRestored(() => {
+        this.flush();
+      });
+      window.addEventListener('online', () => {
+        apiService.testConnection();
+      });
+    }
+
+    this.flush();
+  }
+
+  // True for failures caused by being offline rather than by the request itself
+  isOfflineError(error: unknown): boolean {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+    return error instanceof ApiError && error.isNetworkError && error.code !== 'aborted';
+  }
+
+  async queue<P>(type: OutboxEntryType, payload: P): Promise<void> {
+    await offlineStore.enqueue(type, payload, apiService.getUserId());
+    this.startPolling();
+  }
+
+  // Register a callback for entries that were replayed successfully. Returns an
+  // unsubscribe function.
+  onFlushed(listener: (results: ReplayResult[]) => void): () => void {
+    this.flushListeners.add(listener);
+    return () => {
+      this.flushListeners.delete(listener);
+    };
+  }
+
+  // Register a callback for when a replay of queued writes starts/finishes. Returns
+  // an unsubscribe function.
+  onSyncStateChange(listener: (syncing: boolean) => void): () => void {
+    this.syncStateListeners.add(listener);
+    return () => {
+      this.syncStateListeners.delete(listener);
+    };
+  }
+
+  flush(): Promise<ReplayResult[]> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.replayOutbox().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  private async replayOutbox(): Promise<ReplayResult[]> {
+    const user = apiService.getCurrentUser();
+    if (!user) return [];
+
+    // A session restored offline may belong to a revoked token - don't replay
+    // anything as this user until the backend has accepted it
+    if (!(await apiService.verifySession())) {
+      if (apiService.getCurrentUser()) this.startPolling();
+      return [];
+    }
+
+    // Other users' writes wait in the outbox until they sign in again
+    const listOwn = async () => (await offlineStore.listOutbox()).filter((entry) => entry.userId === user.id);
+    const entries = await listOwn();
+    const results: ReplayResult[] = [];
+    if (entries.length === 0) {
+      this.stopPolling();
+      return results;
+    }
+
+    this.syncStateListeners.forEach((listener) => listener(true));
+
+    for (const entry of entries) {
+      try {
+        const result = await this.replay(entry);
+        await offlineStore.removeOutboxEntry(entry.id!);
+        results.push({ entry, result });
+      } catch (error) {
+        if (this.isOfflineError(error)) {
+          // Still offline - keep the rest of the queue in order and try again later
+          this.startPolling();
+          break;
+        }
+
+        entry.attempts += 1;
+        if (entry.attempts >= MAX_ATTEMPTS) {
+          console.error(`Dropping queued ${entry.type} after ${entry.attempts} attempts:`, error);
+          await offlineStore.removeOutboxEntry(entry.id!);
+        } else {
+          await offlineStore.updateOutboxEntry(entry);
+        }
+      }
+    }
+
+    if ((await listOwn()).length === 0) {
+      this.stopPolling();
+    }
+
+    this.syncStateListeners.forEach((listener) => listener(false));
+
+    if (results.length > 0) {
+      this.flushListeners.forEach((listener) => listener(results));
+    }
+    return results;
+  }
+
+  private replay(entry: OutboxEntry): Promise<unknown> {
+    const { payload } = entry;
+
+    switch (entry.type) {
+      case 'chat.send':
+        return apiService.sendMessage(payload);
+      case 'course.completeSection':
+        return apiService.completeSection(payload.courseId, payload.sectionId, payload.timeSpent);
+      case 'course.submitQuiz':
+        return apiService.submitSectionQuiz(payload.courseId, payload.sectionId, payload.answers);
+      default:
+        return Promise.reject(new Error(`Unknown outbox entry type: ${entry.type}`));
+    }
+  }
+
+  // While there are queued writes, probe the backend until it answers again
+  private startPolling() {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => {
+      apiService.testConnection();
+    }, POLL_INTERVAL_MS);
+  }
+
+  private stopPolling() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+}
+
+export const syncService = new SyncService();
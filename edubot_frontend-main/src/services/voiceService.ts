@@ -19,23 +19,11 @@ class VoiceService {
   constructor() {}
 
   async startSession(companionId: string, resumeSessionId?: string, createChat?: boolean): Promise<VoiceSessionStartResponse> {
-    const response = await fetch(
+    const data = await apiService.request<VoiceSessionStartResponse>(
       API_ROUTES.companions.startSession(companionId, resumeSessionId, createChat),
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-User-Id': apiService.getUserId()
-        }
-      }
+      { method: 'POST', errorMessage: 'Failed to start voice session' }
     );
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to start voice session');
-    }
-
-    const data = await response.json();
     this.activeSession = data.session_id;
     this.startAutoSave();
     return data;
@@ -49,24 +37,13 @@ class VoiceService {
       this.messageBuffer = [];
     }
 
-    const response = await fetch(
+    const data = await apiService.request<VoiceSessionStopResponse>(
       API_ROUTES.companions.stopSession(sessionId),
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-User-Id': apiService.getUserId()
-        }
-      }
+      { method: 'POST', errorMessage: 'Failed to stop voice session' }
     );
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to stop voice session');
-    }
-
     this.activeSession = null;
-    return response.json();
+    return data;
   }
 
   async saveTranscript(
@@ -75,85 +52,39 @@ class VoiceService {
     duration: number,
     replace: boolean = false
   ): Promise<VoiceSessionSaveResponse> {
-    const response = await fetch(
+    return apiService.request<VoiceSessionSaveResponse>(
       API_ROUTES.companions.saveTranscript(sessionId),
       {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-User-Id': apiService.getUserId()
-        },
-        body: JSON.stringify({ transcript, duration, replace })
+        body: { transcript, duration, replace },
+        errorMessage: 'Failed to save transcript'
       }
     );
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to save transcript');
-    }
-
-    return response.json();
   }
 
   async getTranscript(sessionId: string): Promise<VoiceTranscriptResponse> {
-    const response = await fetch(
+    return apiService.request<VoiceTranscriptResponse>(
       API_ROUTES.companions.getTranscript(sessionId),
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          'X-User-Id': apiService.getUserId()
-        }
-      }
+      { errorMessage: 'Failed to get transcript' }
     );
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get transcript');
-    }
-
-    return response.json();
   }
 
   async resumeSession(sessionId: string): Promise<VoiceSession> {
-    const response = await fetch(
+    const data = await apiService.request<VoiceSession>(
       API_ROUTES.companions.resumeSession(sessionId),
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-User-Id': apiService.getUserId()
-        }
-      }
+      { method: 'POST', errorMessage: 'Failed to resume session' }
     );
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to resume session');
-    }
-
-    const data = await response.json();
     this.activeSession = sessionId;
     this.startAutoSave();
     return data;
   }
 
   async listSessions(companionId: string): Promise<VoiceSession[]> {
-    const response = await fetch(
+    return apiService.request<VoiceSession[]>(
       API_ROUTES.companions.listSessions(companionId),
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          'X-User-Id': apiService.getUserId()
-        }
-      }
+      { errorMessage: 'Failed to list sessions' }
     );
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to list sessions');
-    }
-
-    return response.json();
   }
 
   // Buffer management
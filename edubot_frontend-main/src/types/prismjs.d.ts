@@ -0,0 +1,3 @@
+// Prism language definitions are side-effect scripts that register themselves
+// on the global Prism instance
+declare module 'prismjs/components/*';
@@ -0,0 +1 @@
+/// <reference types="vite-plugin-pwa/react" />
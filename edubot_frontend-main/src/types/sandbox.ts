@@ -0,0 +1,47 @@
+export type SandboxLanguage = 'python' | 'javascript';
+
+// Sent to a runner worker
+export interface SandboxRunRequest {
+  id: number;
+  code: string;
+  // Lines read by input() / prompt()
+  stdin?: string;
+}
+
+// Sent back by a runner worker
+export type SandboxWorkerMessage =
+  | { type: 'ready' }
+  | { type: 'failed'; error: string }
+  | { type: 'result'; id: number; stdout: string; stderr: string; error?: string };
+
+export interface SandboxRunResult {
+  stdout: string;
+  stderr: string;
+  // Uncaught exception, or the time limit message
+  error?: string;
+  timedOut: boolean;
+  durationMs: number;
+}
+
+// A self-check defined with an exercise: the program is run with `input` on
+// stdin and passes when its output matches `expected_output`
+export interface ExerciseTestCase {
+  name?: string;
+  input?: string;
+  expected_output: string;
+}
+
+export interface SandboxTestResult {
+  test: ExerciseTestCase;
+  passed: boolean;
+  actual: string;
+  result: SandboxRunResult;
+}
+
+// Structured exercise; courses can also list plain text exercises
+export interface ExerciseSpec {
+  prompt: string;
+  language?: SandboxLanguage | string;
+  starter_code?: string;
+  tests?: ExerciseTestCase[];
+}
@@ -0,0 +1,51 @@
+// src/workers/javascriptRunner.worker.ts
+// Runs learner JavaScript off the main thread. codeRunner starts a fresh worker
+// for every run, so hitting the time limit just terminates it.
+import type { SandboxRunRequest, SandboxWorkerMessage } from '../types/sandbox';
+import { lockDownGlobals } from './lockdown';
+
+function post(message: SandboxWorkerMessage) {
+  self.postMessage(message);
+}
+
+function format(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return value.stack || `${value.name}: ${value.message}`;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+self.onmessage = async (event: MessageEvent<SandboxRunRequest>) => {
+  const { id, code, stdin } = event.data;
+  let stdout = '';
+  let stderr = '';
+  let error: string | undefined;
+
+  const toStdout = (...args: unknown[]) => {
+    stdout += `${args.map(format).join(' ')}\n`;
+  };
+  const toStderr = (...args: unknown[]) => {
+    stderr += `${args.map(format).join(' ')}\n`;
+  };
+  const sandboxConsole = { log: toStdout, info: toStdout, debug: toStdout, warn: toStderr, error: toStderr };
+
+  // prompt()/readline() hand out stdin one line at a time, like input() in Python
+  const lines = stdin ? stdin.split('\n') : [];
+  const readLine = () => lines.shift() ?? null;
+
+  try {
+    // Async so exercises can use top-level await
+    const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor;
+    await new AsyncFunction('console', 'prompt', 'readline', code)(sandboxConsole, readLine, readLine);
+  } catch (e) {
+    error = format(e);
+  }
+
+  post({ type: 'result', id, stdout, stderr, error });
+};
+
+lockDownGlobals();
+post({ type: 'ready' });
@@ -0,0 +1,41 @@
+// src/workers/lockdown.ts
+// The runner workers share the app's origin, so learner code could otherwise
+// read the offline cache, queue outbox writes that get replayed as the signed-in
+// user, or call the API. These globals are removed before any learner code
+// runs; Python reaches the same ones through `from js import ...`.
+
+// Network, storage, and anything that would start a fresh, unlocked worker
+const BLOCKED_GLOBALS = [
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'WebTransport',
+  'EventSource',
+  'indexedDB',
+  'caches',
+  'cookieStore',
+  'importScripts',
+  'Worker',
+  'SharedWorker',
+  'BroadcastChannel',
+];
+
+const BLOCKED_NAVIGATOR = ['serviceWorker', 'storage', 'locks'];
+
+// Replaces `name` with undefined on the object and on every prototype that
+// defines it, so it can't be reached through e.g. WorkerGlobalScope.prototype
+function shadow(target: object, name: string) {
+  for (let scope: object | null = target; scope; scope = Object.getPrototypeOf(scope)) {
+    if (Object.prototype.hasOwnProperty.call(scope, name)) {
+      Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false });
+    }
+  }
+  if (!Object.prototype.hasOwnProperty.call(target, name)) {
+    Object.defineProperty(target, name, { value: undefined, writable: false, configurable: false });
+  }
+}
+
+export function lockDownGlobals() {
+  for (const name of BLOCKED_GLOBALS) shadow(self, name);
+  for (const name of BLOCKED_NAVIGATOR) shadow(self.navigator, name);
+}
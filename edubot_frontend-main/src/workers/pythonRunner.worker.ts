@@ -0,0 +1,50 @@
+// src/workers/pythonRunner.worker.ts
+// Runs learner Python with Pyodide (CPython compiled to WebAssembly). The
+// runtime files are served by the app itself under /pyodide/ (see
+// vite.config.ts), so nothing is fetched from a CDN. Loading takes a few
+// seconds, so codeRunner keeps this worker alive between runs.
+import { loadPyodide } from 'pyodide';
+import type { SandboxRunRequest, SandboxWorkerMessage } from '../types/sandbox';
+import { lockDownGlobals } from './lockdown';
+
+function post(message: SandboxWorkerMessage) {
+  self.postMessage(message);
+}
+
+// Locked down only once loaded, since loading fetches the runtime files
+const pyodideReady = loadPyodide({
+  indexURL: new URL(`${import.meta.env.BASE_URL}pyodide/`, self.location.origin).href,
+}).then((pyodide) => {
+  lockDownGlobals();
+  return pyodide;
+});
+
+pyodideReady.then(
+  () => post({ type: 'ready' }),
+  (error) => post({ type: 'failed', error: `Failed to load Python: ${error?.message || error}` })
+);
+
+self.onmessage = async (event: MessageEvent<SandboxRunRequest>) => {
+  const { id, code, stdin } = event.data;
+  const pyodide = await pyodideReady;
+  let stdout = '';
+  let stderr = '';
+  let error: string | undefined;
+
+  pyodide.setStdout({ batched: (line) => { stdout += `${line}\n`; } });
+  pyodide.setStderr({ batched: (line) => { stderr += `${line}\n`; } });
+  const lines = stdin ? stdin.split('\n') : [];
+  pyodide.setStdin({ stdin: () => lines.shift() });
+
+  // Fresh globals, so names from a previous run don't leak into this one
+  const globals = pyodide.toPy({ __name__: '__main__' });
+  try {
+    await pyodide.runPythonAsync(code, { globals });
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  } finally {
+    globals.destroy();
+  }
+
+  post({ type: 'result', id, stdout, stderr, error });
+};
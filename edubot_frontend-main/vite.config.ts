@@ -1,10 +1,98 @@
 
-  import { defineConfig } from 'vite';
+  import { defineConfig, Plugin } from 'vite';
   import react from '@vitejs/plugin-react-swc';
+  import { VitePWA } from 'vite-plugin-pwa';
+  import { createReadStream, readFileSync } from 'fs';
   import path from 'path';
 
+  // Python runtime for the code sandbox (src/workers/pythonRunner.worker.ts).
+  // Served from /pyodide/ by the dev server and copied into the build, so it is
+  // never loaded from a CDN.
+  const PYODIDE_DIR = path.resolve(__dirname, 'node_modules/pyodide');
+  const PYODIDE_FILES: Record<string, string> = {
+    'pyodide.asm.mjs': 'text/javascript',
+    'pyodide.asm.wasm': 'application/wasm',
+    'python_stdlib.zip': 'application/zip',
+    'pyodide-lock.json': 'application/json',
+  };
+
+  function pyodideAssets(): Plugin {
+    return {
+      name: 'pyodide-assets',
+      configureServer(server) {
+        server.middlewares.use('/pyodide', (req, res, next) => {
+          const file = (req.url || '').split('?')[0].replace(/^\//, '');
+          if (!PYODIDE_FILES[file]) return next();
+          res.setHeader('Content-Type', PYODIDE_FILES[file]);
+          createReadStream(path.join(PYODIDE_DIR, file)).pipe(res);
+        });
+      },
+      generateBundle() {
+        for (const file of Object.keys(PYODIDE_FILES)) {
+          this.emitFile({
+            type: 'asset',
+            fileName: `pyodide/${file}`,
+            source: readFileSync(path.join(PYODIDE_DIR, file)),
+          });
+        }
+      },
+    };
+  }
+
   export default defineConfig({
-    plugins: [react()],
+    plugins: [
+      react(),
+      pyodideAssets(),
+      VitePWA({
+        // Let the user decide when to reload into a new build (see UpdatePrompt)
+        registerType: 'prompt',
+        includeAssets: ['icons/edubot.svg'],
+        manifest: {
+          name: 'EduBot - AI Academic Tutor',
+          short_name: 'EduBot',
+          description: 'AI tutoring, course generation and learning on the go',
+          theme_color: '#10b981',
+          background_color: '#ffffff',
+          display: 'standalone',
+          start_url: '/',
+          icons: [
+            {
+              src: '/icons/edubot.svg',
+              sizes: 'any',
+              type: 'image/svg+xml',
+              purpose: 'any maskable',
+            },
+          ],
+        },
+        workbox: {
+          globPatterns: ['**/*.{js,css,html,svg,png,ico,woff2}'],
+          // The main bundle is larger than workbox's 2 MB default
+          maximumFileSizeToCacheInBytes: 6 * 1024 * 1024,
+          navigateFallback: '/index.html',
+          navigateFallbackDenylist: [/^\/api\//],
+          runtimeCaching: [
+            {
+              // Course section lists and section detail, so enrolled courses open offline.
+              // apiService.logout() deletes this cache by name.
+              urlPattern: ({ url }) => /\/api\/courses\/[^/]+\/sections(\/[^/]+)?\/?$/.test(url.pathname),
+              handler: 'NetworkFirst',
+              method: 'GET',
+              options: {
+                cacheName: 'course-sections',
+                networkTimeoutSeconds: 5,
+                expiration: {
+                  maxEntries: 300,
+                  maxAgeSeconds: 30 * 24 * 60 * 60,
+                },
+                cacheableResponse: {
+                  statuses: [0, 200],
+                },
+              },
+            },
+          ],
+        },
+      }),
+    ],
     resolve: {
       extensions: ['.js', '.jsx', '.ts', '.tsx', '.json'],
       alias: {
@@ -53,6 +141,13 @@
       target: 'esnext',
       outDir: 'build',
     },
+    // The sandbox workers import pyodide, which loads the rest of itself at runtime
+    worker: {
+      format: 'es',
+    },
+    optimizeDeps: {
+      exclude: ['pyodide'],
+    },
     server: {
       port: 3000,
       open: true,